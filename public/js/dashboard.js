@@ -47,6 +47,10 @@ async function fetchInitialStatus() {
       updateProgress(data.progress);
     }
 
+    if (data.eta) {
+      updateEta(data.eta);
+    }
+
     addActivity('Dashboard initialized', 'success');
   } catch (error) {
     console.error('Failed to fetch initial status:', error);
@@ -133,6 +137,7 @@ function updateContextStats(telemetry) {
  */
 function updateProgress(progress) {
   const { total, completed, remaining, percentComplete } = progress;
+  const { inProgress = 0, blocked = 0, skipped = 0 } = progress;
 
   // Update stats
   const completedEl = document.getElementById('tasks-completed');
@@ -145,6 +150,15 @@ function updateProgress(progress) {
   if (totalEl) totalEl.textContent = total;
   if (percentEl) percentEl.textContent = `${percentComplete}%`;
 
+  // Tasks that are neither done nor untouched
+  const inProgressEl = document.getElementById('tasks-in-progress');
+  const blockedEl = document.getElementById('tasks-blocked');
+  const skippedEl = document.getElementById('tasks-skipped');
+
+  if (inProgressEl) inProgressEl.textContent = inProgress;
+  if (blockedEl) blockedEl.textContent = blocked;
+  if (skippedEl) skippedEl.textContent = skipped;
+
   // Update progress circle
   const progressArc = document.getElementById('progress-arc');
   if (progressArc) {
@@ -155,6 +169,25 @@ function updateProgress(progress) {
   }
 }
 
+/**
+ * Update ETA display
+ */
+function updateEta(eta) {
+  const { remainingTasks, estimatedHoursRemaining, lowHours, highHours, samples } = eta;
+
+  const valueEl = document.getElementById('eta-value');
+  const bandEl = document.getElementById('eta-band');
+
+  if (valueEl) {
+    valueEl.textContent = remainingTasks > 0 ? `~${estimatedHoursRemaining} h` : 'Done';
+  }
+
+  if (bandEl) {
+    const basis = samples > 0 ? `${samples} tasks of history` : 'plan estimates';
+    bandEl.textContent = remainingTasks > 0 ? `(${lowHours}-${highHours} h, ${basis})` : '';
+  }
+}
+
 /**
  * Update guardrails display
  */
@@ -151,12 +151,16 @@ function handleZoneChange(event) {
  * Handle roadmap update
  */
 function handleRoadmapUpdate(event) {
-  const { progress, taskCompleted } = event;
+  const { progress, eta, taskCompleted } = event;
 
   if (progress) {
     updateProgress(progress);
   }
 
+  if (eta) {
+    updateEta(eta);
+  }
+
   if (taskCompleted) {
     addActivity(`Task completed! Progress: ${progress.percentComplete}%`, 'success');
   }
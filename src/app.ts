@@ -7,6 +7,9 @@ import { fileURLToPath } from 'node:url';
 
 import express, { type Express, type Request, type Response, type NextFunction } from 'express';
 
+import { loadEta } from './services/reports/index.js';
+import { createImplementationPlanManager, summarizeProgress } from './state/index.js';
+
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
@@ -51,6 +54,7 @@ export function createApp(config: AppConfig = {}): Express {
 
       let telemetry = null;
       let progress = null;
+      let eta = null;
 
       try {
         const telemetryContent = await readFile(
@@ -69,16 +73,10 @@ export function createApp(config: AppConfig = {}): Express {
         );
 
         // Parse progress
-        const checkedCount = (planContent.match(/- \[x\]/gi) ?? []).length;
-        const uncheckedCount = (planContent.match(/- \[ \]/gi) ?? []).length;
-        const total = checkedCount + uncheckedCount;
-
-        progress = {
-          total,
-          completed: checkedCount,
-          remaining: uncheckedCount,
-          percentComplete: total > 0 ? Math.round((checkedCount / total) * 100) : 0,
-        };
+        const planManager = createImplementationPlanManager(basePath);
+        const tasks = planManager.parseTasks(planContent);
+        progress = summarizeProgress(tasks);
+        eta = await loadEta(basePath, tasks);
       } catch {
         // No plan yet
       }
@@ -86,6 +84,7 @@ export function createApp(config: AppConfig = {}): Express {
       res.json({
         telemetry,
         progress,
+        eta,
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -6,14 +6,29 @@
  * Usage:
  *   kr-wiggum seed <file> [--name <project>]  - Distill brainstorm into PRD and tasks
  *   kr-wiggum loop [--max-rotations <n>]       - Start the orchestration loop
+ *   kr-wiggum stop                             - Stop a running loop
  *   kr-wiggum run <file> [--name <project>]    - End-to-end: seed + loop
  *   kr-wiggum status                           - Show current project status
+ *   kr-wiggum task <action> <title|id>         - Add, edit, skip, reopen, block, move, show tasks
  */
+import { resolve } from 'node:path';
 import process from 'node:process';
 
+import { loop, stopLoop, formatLoopResult } from './commands/loop.js';
 import { seed, formatSeedResult } from './commands/seed.js';
-import { loop, formatLoopResult } from './commands/loop.js';
 import { status, formatStatusResult } from './commands/status.js';
+import { task, formatTaskResult, TASK_ACTIONS, type TaskAction } from './commands/task.js';
+import {
+  InterruptedWorkActionSchema,
+  MIN_ID_DIGITS,
+  TaskPrioritySchema,
+  TaskSelectionPolicyNameSchema,
+  type InterruptedWorkAction,
+  type TaskSelectionPolicyName,
+} from './schemas/index.js';
+import { formatPlanMergeSummary } from './services/distiller/index.js';
+import { parseBackendCommand, type AgentBackendConfig } from './services/orchestrator/index.js';
+import { EXIT_CODES } from './types/index.js';
 
 /**
  * Print usage information
@@ -25,8 +40,10 @@ KR-Wiggum Stateless Engine CLI
 Usage:
   kr-wiggum seed <file> [options]    Distill a brainstorm file into PRD and tasks
   kr-wiggum loop [options]           Start the Manager/Worker orchestration loop
+  kr-wiggum stop                     Stop a running orchestration loop
   kr-wiggum run <file> [options]     Full pipeline: seed + loop (end-to-end)
   kr-wiggum status                   Show current project status
+  kr-wiggum task <action> <arg>      Edit IMPLEMENTATION_PLAN.md safely
 
 Commands:
   seed <file>
@@ -35,9 +52,16 @@ Commands:
     - specs/index.md (Specification Index)
     - IMPLEMENTATION_PLAN.md (Task checklist)
 
+    Re-seeding merges into an existing plan: matching tasks keep their ID and
+    checkbox, new tasks are appended and dropped ones are flagged Obsolete.
+    Existing spec files are kept unless --overwrite-specs is given.
+
     Options:
       --name <project>    Project name (default: "Project")
       --no-analysis       Skip codebase pattern analysis
+      --id-namespace <ns> Prefix generated task IDs, e.g. AUTH for AUTH-ST-001
+      --id-digits <n>     Zero-padded width of task ID numbers (default: 3)
+      --overwrite-specs   Replace existing specs/PRD.md and specs/index.md
 
   loop
     Start the orchestration loop. Spawns Manager agents that:
@@ -47,7 +71,41 @@ Commands:
 
     Options:
       --max-rotations <n>   Max Manager rotations (default: 10)
+      --max-failures <n>    Consecutive failures before crisis mode (default: 3)
+      --retry-sleep <ms>    Wait before retrying a failed session; crashes wait twice as
+                            long, rate limits back off from it (default: 5000)
       --foreground          Run in foreground (default: background)
+      --backend <type>      Agent backend: claude (default), command, scripted
+      --backend-command <cmd>
+                            Command for the 'command' backend; reads the prompt on stdin.
+                            Quote arguments that contain spaces
+      --script <file>       JSON script for the 'scripted' backend (offline replay)
+      --on-interrupted <action>
+                            Work a crashed loop left in flight (.ralph/journal.jsonl):
+                            resume (default), retry or rollback
+      --selection-policy <policy>
+                            Order of ready tasks within a layer: id (default),
+                            priority, critical-path or fewest-failures
+      --worktrees           Run each Worker in its own git worktree on branch
+                            ralph/<task-id>, merged back once guardrails pass; the loop
+                            schedules Workers layer by layer instead of spawning Managers
+      --workers <n>         Workers run side by side within a layer (default: 1);
+                            needs --worktrees
+      --dry-run             Walk the plan without spawning agents: write the Manager
+                            and Worker prompts to .ralph/dry-run/, estimate tokens and cost
+      --config <file>       Project configuration: build/test/lint commands, guardrail
+                            thresholds, limits, timeouts and paths
+                            (default: kr-wiggum.config.json, if present)
+
+    Exit codes (foreground):
+      0    All tasks completed
+      20   Crisis mode - human intervention required (.ralph/crisis.json)
+      99   Crash
+      130  Interrupted (SIGINT/SIGTERM)
+
+  stop
+    Send SIGTERM to the loop recorded in .ralph/loop.pid. The loop finishes
+    the current Manager and exits.
 
   run <file>
     End-to-end execution: seed the project, then start the loop.
@@ -63,11 +121,44 @@ Commands:
     - Manager rotation count
     - Active Workers
 
+  task <action> <title|task-id>
+    Edit the plan without hand-editing IMPLEMENTATION_PLAN.md. Writes are atomic,
+    new tasks are checked against the atomicity limits and prerequisites, and a
+    task a running Worker owns is never changed.
+
+    Actions:
+      add <title>         Add a task with the next free ID
+      edit <id>           Change title, description, prerequisites, priority or limits
+      skip <id>           Mark the task [-]
+      reopen <id>         Put a completed, blocked or skipped task back to [ ]
+      block <id>          Mark the task [!] (requires --reason)
+      move <id>           Move the task to another layer (requires --layer)
+      show <id>           Print the task, its prerequisites and dependents
+
+    Options:
+      --layer <n>         Dependency layer (add, move; default 0)
+      --after <ids>       Comma-separated prerequisites, "" for none (add, edit)
+      --title <text>      New title (edit)
+      --description <text>
+      --minutes <n>       Estimated minutes (15-30)
+      --files <n>         Max files touched (1-5)
+      --loc <n>           Max lines of code (up to 150)
+      --priority <level>  critical, high, medium or low (add, edit)
+      --reason <text>     Blocker reason (block)
+      --id-namespace <ns> Namespace of the new ID (add)
+      --id-digits <n>     Zero-padded width of the new ID (add)
+
 Examples:
   kr-wiggum seed brainstorm.md --name "My App"
+  kr-wiggum seed auth-brainstorm.md --id-namespace AUTH --id-digits 4
   kr-wiggum loop --max-rotations 5
+  kr-wiggum loop --dry-run
+  kr-wiggum loop --selection-policy critical-path
+  kr-wiggum loop --worktrees --workers 3
   kr-wiggum run interview.txt --name "New Feature"
   kr-wiggum status
+  kr-wiggum task add "Add login route" --layer 2 --after ST-003,ST-007
+  kr-wiggum task block ST-014 --reason "Waiting on API keys"
 `);
 }
 
@@ -77,10 +168,13 @@ Examples:
 function parseArgs(args: string[]): {
   command: string;
   file?: string;
+  /** Positional arguments after the first */
+  rest: string[];
   options: Record<string, string | boolean>;
 } {
   const command = args[0] ?? 'help';
   let file: string | undefined;
+  const rest: string[] = [];
   const options: Record<string, string | boolean> = {};
 
   let i = 1;
@@ -94,8 +188,13 @@ function parseArgs(args: string[]): {
       if (key === 'no-analysis') {
         options['noAnalysis'] = true;
         i++;
-      } else if (key === 'foreground') {
-        options['foreground'] = true;
+      } else if (
+        key === 'foreground' ||
+        key === 'dry-run' ||
+        key === 'overwrite-specs' ||
+        key === 'worktrees'
+      ) {
+        options[key] = true;
         i++;
       } else if (nextArg !== undefined && !nextArg.startsWith('--')) {
         options[key] = nextArg;
@@ -108,11 +207,14 @@ function parseArgs(args: string[]): {
       file = arg;
       i++;
     } else {
+      if (arg !== undefined) {
+        rest.push(arg);
+      }
       i++;
     }
   }
 
-  return { command, file, options };
+  return { command, file, rest, options };
 }
 
 /**
@@ -126,6 +228,12 @@ async function runSeed(file: string, options: Record<string, string | boolean>):
     projectName: typeof options['name'] === 'string' ? options['name'] : 'Project',
     basePath: process.cwd(),
     runPatternAnalysis: options['noAnalysis'] !== true,
+    idFormat: {
+      namespace: typeof options['id-namespace'] === 'string' ? options['id-namespace'] : undefined,
+      digits: parseNumberOption(options['id-digits'], MIN_ID_DIGITS),
+    },
+    onPlanMerge: (merge) => console.error(formatPlanMergeSummary(merge)),
+    overwriteSpecs: options['overwrite-specs'] === true,
   });
 
   console.error(formatSeedResult(result));
@@ -133,24 +241,147 @@ async function runSeed(file: string, options: Record<string, string | boolean>):
   return result.success;
 }
 
+/**
+ * Parse a numeric option, falling back to a default
+ */
+function parseNumberOption(value: string | boolean | undefined, fallback: number): number {
+  if (typeof value !== 'string') {
+    return fallback;
+  }
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Parse a numeric option that has no default
+ */
+function parseOptionalNumberOption(value: string | boolean | undefined): number | undefined {
+  const parsed = parseNumberOption(value, NaN);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Parse the agent backend options
+ * Returns an error message for incomplete or unknown backends
+ */
+function parseBackendOption(options: Record<string, string | boolean>): AgentBackendConfig | string {
+  const type = options['backend'];
+
+  if (type === undefined || type === 'claude') {
+    return { type: 'claude' };
+  }
+
+  if (type === 'command') {
+    const commandLine = options['backend-command'];
+    let values: string[];
+    try {
+      values = typeof commandLine === 'string' ? parseBackendCommand(commandLine) : [];
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid --backend-command';
+    }
+    const [command, ...args] = values;
+    if (command === undefined || command === '') {
+      return '--backend command requires --backend-command <cmd>';
+    }
+    return { type: 'command', command, args };
+  }
+
+  if (type === 'scripted') {
+    const script = options['script'];
+    if (typeof script !== 'string') {
+      return '--backend scripted requires --script <file>';
+    }
+    return { type: 'scripted', scriptPath: resolve(script) };
+  }
+
+  return `Unknown backend: ${String(type)} (expected claude, command or scripted)`;
+}
+
+/**
+ * Parse the --on-interrupted option
+ * Returns null for unknown actions
+ */
+function parseInterruptedWorkOption(
+  options: Record<string, string | boolean>
+): InterruptedWorkAction | null {
+  const parsed = InterruptedWorkActionSchema.safeParse(options['on-interrupted'] ?? 'resume');
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Parse the --selection-policy option
+ * Returns null for unknown policies
+ */
+function parseSelectionPolicyOption(
+  options: Record<string, string | boolean>
+): TaskSelectionPolicyName | null {
+  const parsed = TaskSelectionPolicyNameSchema.safeParse(options['selection-policy'] ?? 'id');
+  return parsed.success ? parsed.data : null;
+}
+
 /**
  * Run the loop command
+ * Returns the process exit code
  */
-async function runLoop(options: Record<string, string | boolean>): Promise<boolean> {
-  console.error('\n[LOOP] Starting orchestration...');
+async function runLoop(options: Record<string, string | boolean>): Promise<number> {
+  const backend = parseBackendOption(options);
+  if (typeof backend === 'string') {
+    console.error(`Error: ${backend}`);
+    return EXIT_CODES.TASK_FAILED;
+  }
 
-  const maxRotations = typeof options['max-rotations'] === 'string'
-    ? parseInt(options['max-rotations'], 10)
-    : 10;
+  const interruptedWorkAction = parseInterruptedWorkOption(options);
+  if (interruptedWorkAction === null) {
+    console.error(
+      `Error: Unknown --on-interrupted action: ${String(options['on-interrupted'])} (expected resume, retry or rollback)`
+    );
+    return EXIT_CODES.TASK_FAILED;
+  }
+
+  const selectionPolicy = parseSelectionPolicyOption(options);
+  if (selectionPolicy === null) {
+    console.error(
+      `Error: Unknown --selection-policy: ${String(options['selection-policy'])} (expected ${TaskSelectionPolicyNameSchema.options.join(', ')})`
+    );
+    return EXIT_CODES.TASK_FAILED;
+  }
+
+  const maxConcurrentWorkers = parseNumberOption(options['workers'], 1);
+  if (maxConcurrentWorkers < 1) {
+    console.error(`Error: --workers must be at least 1 (got ${maxConcurrentWorkers})`);
+    return EXIT_CODES.TASK_FAILED;
+  }
+
+  console.error(
+    options['dry-run'] === true ? '\n[LOOP] Dry run...' : '\n[LOOP] Starting orchestration...'
+  );
 
   const result = await loop({
     basePath: process.cwd(),
-    maxRotations,
+    maxRotations: parseNumberOption(options['max-rotations'], 10),
+    maxFailures: parseNumberOption(options['max-failures'], 3),
+    retrySleepMs: parseOptionalNumberOption(options['retry-sleep']),
     background: options['foreground'] !== true,
+    backend,
+    interruptedWorkAction,
+    selectionPolicy,
+    useWorktrees: options['worktrees'] === true,
+    maxConcurrentWorkers,
+    dryRun: options['dry-run'] === true,
+    configPath: typeof options['config'] === 'string' ? resolve(options['config']) : undefined,
   });
 
   console.error(formatLoopResult(result));
 
+  return result.exitCode ?? (result.success ? EXIT_CODES.SUCCESS : EXIT_CODES.TASK_FAILED);
+}
+
+/**
+ * Run the stop command
+ */
+function runStop(): boolean {
+  const result = stopLoop(process.cwd());
+  console.error(formatLoopResult(result));
   return result.success;
 }
 
@@ -163,6 +394,54 @@ async function runStatus(): Promise<boolean> {
   return result.success;
 }
 
+/**
+ * Run the task command
+ */
+async function runTask(
+  action: TaskAction,
+  target: string | undefined,
+  options: Record<string, string | boolean>
+): Promise<boolean> {
+  const text = (key: string): string | undefined =>
+    typeof options[key] === 'string' ? options[key] : undefined;
+  const after = text('after');
+  const priority = TaskPrioritySchema.safeParse(text('priority'));
+  if (text('priority') !== undefined && !priority.success) {
+    console.error(
+      `Error: Unknown --priority: ${text('priority')} (expected ${TaskPrioritySchema.options.join(', ')})`
+    );
+    return false;
+  }
+
+  const result = await task({
+    action,
+    basePath: process.cwd(),
+    taskId: action === 'add' ? undefined : target,
+    title: action === 'add' ? target : text('title'),
+    description: text('description'),
+    layer: parseOptionalNumberOption(options['layer']),
+    dependencies:
+      after !== undefined
+        ? after
+            .split(',')
+            .map((id) => id.trim())
+            .filter((id) => id !== '')
+        : undefined,
+    estimatedMinutes: parseOptionalNumberOption(options['minutes']),
+    maxFiles: parseOptionalNumberOption(options['files']),
+    maxLoc: parseOptionalNumberOption(options['loc']),
+    reason: text('reason'),
+    priority: priority.success ? priority.data : undefined,
+    idFormat: {
+      namespace: text('id-namespace'),
+      digits: parseNumberOption(options['id-digits'], MIN_ID_DIGITS),
+    },
+  });
+
+  console.error(formatTaskResult(result));
+  return result.success;
+}
+
 /**
  * Main entry point
  */
@@ -174,7 +453,7 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const { command, file, options } = parseArgs(args);
+  const { command, file, rest, options } = parseArgs(args);
 
   try {
     switch (command) {
@@ -190,7 +469,13 @@ async function main(): Promise<void> {
       }
 
       case 'loop': {
-        const success = await runLoop(options);
+        const exitCode = await runLoop(options);
+        process.exit(exitCode);
+        break;
+      }
+
+      case 'stop': {
+        const success = runStop();
         process.exit(success ? 0 : 1);
         break;
       }
@@ -215,8 +500,8 @@ async function main(): Promise<void> {
 
         // Step 2: Loop
         console.error('\n' + '-'.repeat(60));
-        const loopSuccess = await runLoop(options);
-        process.exit(loopSuccess ? 0 : 1);
+        const loopExitCode = await runLoop(options);
+        process.exit(loopExitCode);
         break;
       }
 
@@ -226,6 +511,18 @@ async function main(): Promise<void> {
         break;
       }
 
+      case 'task': {
+        const action = TASK_ACTIONS.find((a) => a === file);
+        if (action === undefined) {
+          console.error(`Error: task requires an action: ${TASK_ACTIONS.join(', ')}`);
+          console.error('Usage: kr-wiggum task <action> <title|task-id> [options]');
+          process.exit(1);
+        }
+        const success = await runTask(action, rest[0], options);
+        process.exit(success ? 0 : 1);
+        break;
+      }
+
       case 'help':
       case '--help':
       case '-h': {
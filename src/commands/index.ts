@@ -17,6 +17,14 @@ export {
 } from './loop.js';
 export { status, formatStatusResult, type StatusOptions, type StatusResult } from './status.js';
 export { digest, formatDigestResult, type DigestOptions, type DigestResult } from './digest.js';
+export {
+  task,
+  formatTaskResult,
+  TASK_ACTIONS,
+  type TaskAction,
+  type TaskOptions,
+  type TaskResult,
+} from './task.js';
 
 /**
  * Command definition
@@ -54,8 +62,15 @@ export const COMMANDS: CommandDefinition[] = [
     name: 'loop',
     aliases: ['/...loop', '...loop'],
     description: 'Start the Ralph Wiggum Loop orchestrator',
-    usage: '/...loop [--foreground] [--max-rotations <n>]',
-    examples: ['/...loop', '/...loop --foreground', '/...loop --max-rotations 5'],
+    usage: '/...loop [--foreground] [--max-rotations <n>] [--dry-run]',
+    examples: ['/...loop', '/...loop --foreground', '/...loop --max-rotations 5', '/...loop --dry-run'],
+  },
+  {
+    name: 'stop',
+    aliases: ['/...stop', '...stop'],
+    description: 'Stop the running Ralph Wiggum Loop orchestrator',
+    usage: '/...stop',
+    examples: ['/...stop'],
   },
   {
     name: 'status',
@@ -64,6 +79,18 @@ export const COMMANDS: CommandDefinition[] = [
     usage: '/...status [--verbose]',
     examples: ['/...status', '/...status --verbose'],
   },
+  {
+    name: 'task',
+    aliases: ['/...task', '...task'],
+    description: 'Add, edit, skip, reopen, block, move or show a task in the plan',
+    usage: '/...task <add|edit|skip|reopen|block|move|show> <title|task_id> [options]',
+    examples: [
+      '/...task add "Add login route" --layer 2 --after ST-003',
+      '/...task block ST-014 --reason "Waiting on API keys"',
+      '/...task move ST-014 --layer 3',
+      '/...task show ST-014',
+    ],
+  },
   {
     name: 'digest',
     aliases: ['/...digest', '...digest'],
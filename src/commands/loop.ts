@@ -1,9 +1,45 @@
 /**
  * /...loop command implementation
- * Starts orchestrate.sh in background, activates Manager
+ * Drives the Orchestrator in-process, tracks the running loop via .ralph/loop.pid
  */
-import { spawn, type ChildProcess } from 'node:child_process';
-import { join } from 'node:path';
+import { spawn } from 'node:child_process';
+import { closeSync, openSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { extname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type {
+  InterruptedWorkAction,
+  ProjectConfig,
+  TaskSelectionPolicyName,
+} from '../schemas/index.js';
+import {
+  createAgentBackend,
+  createOrchestrator,
+  formatBackendCommand,
+  runDryRun,
+  type AgentBackendConfig,
+  type DryRunResult,
+  type InterruptedWorkRecovery,
+  type RecoveryAction,
+  type WorkerSpawnResult,
+} from '../services/orchestrator/index.js';
+import { ensureDirectory, loadProjectConfig } from '../state/index.js';
+import { EXIT_CODES } from '../types/index.js';
+
+const PID_FILE = join('.ralph', 'loop.pid');
+const LOG_FILE = join('.ralph', 'logs', 'loop.log');
+// Set on a background loop: the PID of the CLI that claimed the PID file on its behalf
+const PID_CLAIMED_BY_ENV = 'KR_WIGGUM_LOOP_CLAIMED_BY';
+
+/**
+ * Exit code used when the loop is interrupted by SIGINT/SIGTERM
+ */
+export const LOOP_INTERRUPTED_EXIT_CODE = 130;
+
+/**
+ * CLI entry used to re-launch the loop as a detached background process
+ */
+const CLI_ENTRY = fileURLToPath(new URL(`../cli${extname(import.meta.url)}`, import.meta.url));
 
 /**
  * Loop command options
@@ -13,6 +49,22 @@ export interface LoopOptions {
   background?: boolean;
   maxRotations?: number;
   maxFailures?: number;
+  retrySleepMs?: number;
+  /** Agent backend for Managers and Workers (default: Claude CLI) */
+  backend?: AgentBackendConfig;
+  /** What to do with work a crashed loop left in flight (default: resume) */
+  interruptedWorkAction?: InterruptedWorkAction;
+  /** How ready tasks within a layer are ordered (default: by ID) */
+  selectionPolicy?: TaskSelectionPolicyName;
+  /** Run each Worker in its own git worktree, scheduled layer by layer without Managers */
+  useWorktrees?: boolean;
+  /** Workers run side by side within a layer; needs useWorktrees (default: 1) */
+  maxConcurrentWorkers?: number;
+  /** Walk the plan and write prompts to .ralph/dry-run/ without spawning any agent */
+  dryRun?: boolean;
+  /** Project configuration file (default: kr-wiggum.config.json, if present) */
+  configPath?: string;
+  onLog?: (message: string) => void;
 }
 
 /**
@@ -21,17 +73,396 @@ export interface LoopOptions {
 export interface LoopResult {
   success: boolean;
   pid?: number;
+  exitCode?: number;
   message: string;
 }
 
 /**
- * Active loop process
+ * Get the PID file path for a project
+ */
+function getPidFilePath(basePath: string): string {
+  return join(basePath, PID_FILE);
+}
+
+/**
+ * Check if a process is alive
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Read the PID recorded in .ralph/loop.pid
+ */
+function readPidFile(basePath: string): number | null {
+  try {
+    const pid = parseInt(readFileSync(getPidFilePath(basePath), 'utf-8').trim(), 10);
+    return Number.isNaN(pid) ? null : pid;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the PID file holder is the CLI that launched this process in the background, or
+ * this process itself once that CLI has handed the file over
+ */
+function isClaimedForThisProcess(holder: number): boolean {
+  const claimedBy = process.env[PID_CLAIMED_BY_ENV];
+  return claimedBy !== undefined && (holder === Number(claimedBy) || holder === process.pid);
+}
+
+/**
+ * Record this process in .ralph/loop.pid unless another live loop holds it
+ * The file is created exclusively, so of two loops starting at once only one gets it.
+ */
+function claimPidFile(basePath: string): boolean {
+  const holder = getLoopPid(basePath);
+  if (holder !== null) {
+    if (!isClaimedForThisProcess(holder)) {
+      return false;
+    }
+    writeFileSync(getPidFilePath(basePath), String(process.pid), 'utf-8');
+    return true;
+  }
+
+  try {
+    writeFileSync(getPidFilePath(basePath), String(process.pid), {
+      encoding: 'utf-8',
+      flag: 'wx',
+    });
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove the PID file, ignoring missing files
+ */
+function removePidFile(basePath: string): void {
+  rmSync(getPidFilePath(basePath), { force: true });
+}
+
+/**
+ * Describe how a Worker ended for the log
+ * A worktree Worker can exit 0 and still fail its guardrails or merge, so the exit code alone
+ * is not the reason.
+ */
+function describeWorkerOutcome(result: WorkerSpawnResult): string {
+  if (result.success) {
+    return 'completed';
+  }
+  if (result.blocked === true) {
+    return `blocked: ${result.blockerReason ?? 'no reason given'}`;
+  }
+  if (result.failureReason !== undefined) {
+    return `failed: ${result.failureReason}`;
+  }
+  return `failed (exit code ${result.exitCode ?? EXIT_CODES.CRASH})`;
+}
+
+/**
+ * Format an orchestrator recovery action for the log
+ */
+function describeRecoveryAction(
+  action: RecoveryAction,
+  agent: 'Manager' | 'Worker'
+): string | null {
+  switch (action.type) {
+    case 'retry': {
+      const failure = action.failureClass !== undefined ? ` (${action.failureClass})` : '';
+      return `[WARNING] ${agent} failed${failure}, retrying in ${Math.round(action.sleepMs / 1000)}s...`;
+    }
+    case 'rotate_manager':
+      return '[MANAGER] Manager rotation requested (context full)';
+    case 'crisis_mode':
+    case 'abort':
+      return `[ERROR] ${action.reason}`;
+    case 'continue':
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format the outcome of recovering interrupted work for the log
+ */
+function describeInterruptedWorkRecovery(recovery: InterruptedWorkRecovery): string[] {
+  const lines = [`[RECOVERY] Interrupted work found in journal - action: ${recovery.action}`];
+
+  if (recovery.checkedOff.length > 0) {
+    lines.push(`[RECOVERY] Checked off finished tasks: ${recovery.checkedOff.join(', ')}`);
+  }
+  if (recovery.resumedWorktrees.length > 0) {
+    lines.push(`[RECOVERY] Resuming in worktrees: ${recovery.resumedWorktrees.join(', ')}`);
+  }
+  if (recovery.discarded.length > 0) {
+    lines.push(`[RECOVERY] Discarded partial changes: ${recovery.discarded.join(', ')}`);
+  }
+  if (recovery.stashMessage !== null) {
+    lines.push(`[RECOVERY] In-place changes stashed as "${recovery.stashMessage}"`);
+  }
+  if (recovery.quarantined.length > 0) {
+    lines.push(`[RECOVERY] Quarantined for review: ${recovery.quarantined.join(', ')}`);
+  }
+  for (const warning of recovery.warnings) {
+    lines.push(`[WARNING] ${warning}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Format a dry run for display
+ */
+function describeDryRun(result: DryRunResult): string {
+  const lines = [
+    `Dry run: ${result.tasks.length} task(s) over ${result.managerPromptPaths.length} Manager session(s), no agents spawned`,
+  ];
+
+  for (const task of result.tasks) {
+    lines.push(`  ${task.order}. ${task.taskId}: ${task.title} (layer ${task.layer})`);
+  }
+  if (result.completedTasks > 0 || result.blockedTasks > 0 || result.skippedTasks > 0) {
+    lines.push(
+      `Left out: ${result.completedTasks} complete, ${result.blockedTasks} quarantined, ` +
+        `${result.skippedTasks} skipped`
+    );
+  }
+  if (result.unreachableTasks.length > 0) {
+    lines.push(`Never ready: ${result.unreachableTasks.join(', ')}`);
+  }
+  for (const issue of result.dependencyIssues) {
+    lines.push(`Dependency issue: ${issue}`);
+  }
+
+  lines.push(
+    `Estimate: ~${result.estimate.totalTokens} tokens ` +
+      `(${result.estimate.inputTokens} in / ${result.estimate.outputTokens} out), ` +
+      `~$${result.estimate.costUsd.toFixed(2)}`
+  );
+  lines.push(`Prompts and current-task files: ${result.outputDir}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Convert a backend configuration back into CLI arguments
  */
-let activeLoopProcess: ChildProcess | null = null;
+function getBackendArgs(backend: AgentBackendConfig): string[] {
+  switch (backend.type) {
+    case 'claude':
+      return [];
+    case 'command':
+      return [
+        '--backend',
+        'command',
+        '--backend-command',
+        formatBackendCommand(backend.command, backend.args),
+      ];
+    case 'scripted':
+      return ['--backend', 'scripted', '--script', backend.scriptPath];
+  }
+}
+
+/**
+ * Run the orchestrator in the current process
+ */
+async function runInProcess(
+  basePath: string,
+  maxRotations: number,
+  maxFailures: number,
+  retrySleepMs: number | undefined,
+  backendConfig: AgentBackendConfig,
+  interruptedWorkAction: InterruptedWorkAction,
+  selectionPolicy: TaskSelectionPolicyName,
+  useWorktrees: boolean,
+  maxConcurrentWorkers: number,
+  projectConfig: ProjectConfig,
+  log: (message: string) => void
+): Promise<LoopResult> {
+  const backend = await createAgentBackend(backendConfig);
+
+  let interrupted = false;
+
+  const orchestrator = createOrchestrator({
+    basePath,
+    backend,
+    maxManagerRotations: maxRotations,
+    maxConsecutiveFailures: maxFailures,
+    retrySleepMs,
+    interruptedWorkAction,
+    selectionPolicy,
+    useWorktrees,
+    maxConcurrentWorkers,
+    projectConfig,
+    onInterruptedWorkRecovered: (recovery) => {
+      for (const line of describeInterruptedWorkRecovery(recovery)) {
+        log(line);
+      }
+    },
+    onManagerStart: () => {
+      const rotations = orchestrator.getState().managerRotations;
+      log(
+        rotations > 0
+          ? `[MANAGER] Starting Manager rotation #${rotations} with handoff`
+          : '[MANAGER] Starting initial Manager'
+      );
+    },
+    onManagerComplete: (exitCode) => log(`[MANAGER] Manager exited with code ${exitCode}`),
+    onWorkerStart: (taskId) => log(`[WORKER] Starting Worker for ${taskId}`),
+    onWorkerComplete: (result) => log(`[WORKER] ${result.taskId} ${describeWorkerOutcome(result)}`),
+    onRecoveryAction: (action) => {
+      const message = describeRecoveryAction(action, useWorktrees ? 'Worker' : 'Manager');
+      if (message !== null) {
+        log(message);
+      }
+    },
+    onCrisisMode: (reason) => {
+      log(`[ERROR] CRISIS MODE ACTIVATED: ${reason}`);
+      log('[ERROR] Human intervention required!');
+    },
+  });
+
+  // First signal stops after the current Manager or batch, second signal exits immediately
+  const onSignal = (signal: NodeJS.Signals): void => {
+    if (interrupted) {
+      log(`[WARNING] Received ${signal} again - exiting now`);
+      removePidFile(basePath);
+      process.exit(LOOP_INTERRUPTED_EXIT_CODE);
+    }
+
+    interrupted = true;
+    log(
+      `[WARNING] Received ${signal} - stopping after the current ` +
+        `${useWorktrees ? 'Workers exit' : 'Manager exits'}...`
+    );
+    orchestrator.stop();
+  };
+
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  try {
+    log(`[INFO] KR-Wiggum Orchestrator starting (PID: ${process.pid})`);
+    log(`[INFO] Project: ${basePath}`);
+    log(`[INFO] Max rotations: ${maxRotations}`);
+    log(`[INFO] Max failures: ${maxFailures}`);
+    log(`[INFO] Agent backend: ${backend.name}`);
+    log(`[INFO] Task selection: ${selectionPolicy}`);
+    log(
+      useWorktrees
+        ? `[INFO] Workers: up to ${maxConcurrentWorkers} at a time, each in its own worktree`
+        : '[INFO] Workers: run by Managers'
+    );
+    log(
+      `[INFO] Commands: ${projectConfig.commands.build} | ${projectConfig.commands.test} | ` +
+        projectConfig.commands.lint
+    );
+
+    const result = await orchestrator.run();
+
+    let exitCode: number;
+    if (interrupted) {
+      exitCode = LOOP_INTERRUPTED_EXIT_CODE;
+    } else if (result.success) {
+      exitCode = EXIT_CODES.SUCCESS;
+    } else if (result.state.inCrisisMode) {
+      exitCode = EXIT_CODES.HUMAN_INTERVENTION;
+    } else {
+      exitCode = EXIT_CODES.CRASH;
+    }
+
+    return {
+      success: result.success,
+      exitCode,
+      message: interrupted ? `Loop interrupted: ${result.reason}` : result.reason,
+    };
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+    removePidFile(basePath);
+  }
+}
+
+/**
+ * Launch the loop as a detached process that outlives the CLI
+ * The PID file is handed to the child before this returns, so a second launch sees it.
+ */
+async function launchInBackground(
+  basePath: string,
+  maxRotations: number,
+  maxFailures: number,
+  retrySleepMs: number | undefined,
+  backend: AgentBackendConfig,
+  interruptedWorkAction: InterruptedWorkAction,
+  selectionPolicy: TaskSelectionPolicyName,
+  useWorktrees: boolean,
+  maxConcurrentWorkers: number,
+  configPath: string | undefined
+): Promise<LoopResult> {
+  await ensureDirectory(join(basePath, '.ralph', 'logs'));
+  const logFd = openSync(join(basePath, LOG_FILE), 'a');
+
+  try {
+    const child = spawn(
+      process.execPath,
+      [
+        ...process.execArgv,
+        CLI_ENTRY,
+        'loop',
+        '--foreground',
+        '--max-rotations',
+        String(maxRotations),
+        '--max-failures',
+        String(maxFailures),
+        ...(retrySleepMs !== undefined ? ['--retry-sleep', String(retrySleepMs)] : []),
+        ...getBackendArgs(backend),
+        '--on-interrupted',
+        interruptedWorkAction,
+        '--selection-policy',
+        selectionPolicy,
+        ...(useWorktrees ? ['--worktrees', '--workers', String(maxConcurrentWorkers)] : []),
+        ...(configPath !== undefined ? ['--config', configPath] : []),
+      ],
+      {
+        cwd: basePath,
+        detached: true,
+        env: { ...process.env, [PID_CLAIMED_BY_ENV]: String(process.pid) },
+        stdio: ['ignore', logFd, logFd],
+      }
+    );
+
+    child.unref();
+
+    // Handed over before the CLI exits, so the file never names a dead process
+    if (child.pid !== undefined) {
+      writeFileSync(getPidFilePath(basePath), String(child.pid), 'utf-8');
+    }
+
+    return {
+      success: true,
+      pid: child.pid,
+      message: `Loop started in background (PID: ${child.pid}).\nLogs: ${LOG_FILE}\nUse /...status to monitor progress.`,
+    };
+  } finally {
+    closeSync(logFd);
+  }
+}
 
 /**
  * Execute loop command
- * Starts the orchestrator in background
+ * Runs the orchestrator in the foreground or as a detached background process
  */
 export async function loop(options: LoopOptions = {}): Promise<LoopResult> {
   const {
@@ -39,73 +470,95 @@ export async function loop(options: LoopOptions = {}): Promise<LoopResult> {
     background = true,
     maxRotations = 10,
     maxFailures = 3,
+    retrySleepMs,
+    backend = { type: 'claude' },
+    interruptedWorkAction = 'resume',
+    selectionPolicy = 'id',
+    useWorktrees = false,
+    maxConcurrentWorkers = 1,
+    dryRun = false,
+    configPath,
+    onLog = (message: string): void => console.error(message),
   } = options;
 
-  // Check if already running
-  if (activeLoopProcess !== null && !activeLoopProcess.killed) {
+  // An invalid config fails here rather than in a background process
+  let projectConfig: ProjectConfig;
+  try {
+    projectConfig = await loadProjectConfig(basePath, configPath);
+  } catch (error) {
     return {
       success: false,
-      message: 'Loop already running. Use /...status to check progress or stop first.',
+      exitCode: EXIT_CODES.TASK_FAILED,
+      message: error instanceof Error ? error.message : 'Invalid project configuration',
     };
   }
 
-  try {
-    const scriptPath = join(basePath, 'scripts', 'orchestrate.sh');
-
-    // Spawn the orchestrator
-    const env = {
-      ...process.env,
-      PROJECT_PATH: basePath,
-      MAX_MANAGER_ROTATIONS: String(maxRotations),
-      MAX_CONSECUTIVE_FAILURES: String(maxFailures),
+  // Checked before a background launch, whose errors would only reach the log
+  if (maxConcurrentWorkers > 1 && !useWorktrees) {
+    return {
+      success: false,
+      exitCode: EXIT_CODES.TASK_FAILED,
+      message: 'Running Workers side by side needs --worktrees',
     };
+  }
 
-    if (background) {
-      activeLoopProcess = spawn('bash', [scriptPath], {
-        cwd: basePath,
-        env,
-        detached: true,
-        stdio: 'ignore',
-      });
-
-      activeLoopProcess.unref();
-
+  if (dryRun) {
+    try {
+      const result = await runDryRun({ basePath, selectionPolicy, projectConfig });
+      return { success: true, exitCode: EXIT_CODES.SUCCESS, message: describeDryRun(result) };
+    } catch (error) {
       return {
-        success: true,
-        pid: activeLoopProcess.pid,
-        message: `Loop started in background (PID: ${activeLoopProcess.pid}).\nUse /...status to monitor progress.`,
+        success: false,
+        exitCode: EXIT_CODES.CRASH,
+        message: `Dry run failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
       };
-    } else {
-      // Run in foreground (blocking)
-      return new Promise((resolve) => {
-        activeLoopProcess = spawn('bash', [scriptPath], {
-          cwd: basePath,
-          env,
-          stdio: 'inherit',
-        });
-
-        activeLoopProcess.on('exit', (code) => {
-          activeLoopProcess = null;
-          resolve({
-            success: code === 0,
-            message: code === 0
-              ? 'Loop completed successfully'
-              : `Loop exited with code ${code}`,
-          });
-        });
-
-        activeLoopProcess.on('error', (error) => {
-          activeLoopProcess = null;
-          resolve({
-            success: false,
-            message: `Loop error: ${error.message}`,
-          });
-        });
-      });
     }
+  }
+
+  // Claimed up front, so a second loop started right after this one finds it running
+  await ensureDirectory(join(basePath, '.ralph'));
+  if (!claimPidFile(basePath)) {
+    return {
+      success: false,
+      pid: getLoopPid(basePath) ?? undefined,
+      message: 'Loop already running. Use /...status to check progress or stop first.',
+    };
+  }
+
+  try {
+    if (background) {
+      return await launchInBackground(
+        basePath,
+        maxRotations,
+        maxFailures,
+        retrySleepMs,
+        backend,
+        interruptedWorkAction,
+        selectionPolicy,
+        useWorktrees,
+        maxConcurrentWorkers,
+        configPath
+      );
+    }
+
+    return await runInProcess(
+      basePath,
+      maxRotations,
+      maxFailures,
+      retrySleepMs,
+      backend,
+      interruptedWorkAction,
+      selectionPolicy,
+      useWorktrees,
+      maxConcurrentWorkers,
+      projectConfig,
+      onLog
+    );
   } catch (error) {
+    removePidFile(basePath);
     return {
       success: false,
+      exitCode: EXIT_CODES.CRASH,
       message: `Failed to start loop: ${error instanceof Error ? error.message : 'Unknown error'}`,
     };
   }
@@ -113,9 +566,12 @@ export async function loop(options: LoopOptions = {}): Promise<LoopResult> {
 
 /**
  * Stop the running loop
+ * Sends SIGTERM to the process recorded in .ralph/loop.pid
  */
-export function stopLoop(): LoopResult {
-  if (activeLoopProcess === null || activeLoopProcess.killed) {
+export function stopLoop(basePath: string = process.cwd()): LoopResult {
+  const pid = getLoopPid(basePath);
+
+  if (pid === null) {
     return {
       success: false,
       message: 'No loop is currently running',
@@ -123,12 +579,12 @@ export function stopLoop(): LoopResult {
   }
 
   try {
-    activeLoopProcess.kill('SIGTERM');
-    activeLoopProcess = null;
+    process.kill(pid, 'SIGTERM');
 
     return {
       success: true,
-      message: 'Loop stopped',
+      pid,
+      message: `Stop requested (PID: ${pid}). The loop exits after the current Manager finishes.`,
     };
   } catch (error) {
     return {
@@ -141,18 +597,27 @@ export function stopLoop(): LoopResult {
 /**
  * Check if loop is running
  */
-export function isLoopRunning(): boolean {
-  return activeLoopProcess !== null && !activeLoopProcess.killed;
+export function isLoopRunning(basePath: string = process.cwd()): boolean {
+  return getLoopPid(basePath) !== null;
 }
 
 /**
  * Get loop PID
+ * Stale PID files left by a crashed loop are removed
  */
-export function getLoopPid(): number | null {
-  if (activeLoopProcess !== null && !activeLoopProcess.killed) {
-    return activeLoopProcess.pid ?? null;
+export function getLoopPid(basePath: string = process.cwd()): number | null {
+  const pid = readPidFile(basePath);
+
+  if (pid === null) {
+    return null;
+  }
+
+  if (!isProcessAlive(pid)) {
+    removePidFile(basePath);
+    return null;
   }
-  return null;
+
+  return pid;
 }
 
 /**
@@ -160,7 +625,8 @@ export function getLoopPid(): number | null {
  */
 export function formatLoopResult(result: LoopResult): string {
   if (!result.success) {
-    return `Loop: ${result.message}`;
+    const code = result.exitCode !== undefined ? ` (exit code ${result.exitCode})` : '';
+    return `Loop: ${result.message}${code}`;
   }
 
   let output = result.message;
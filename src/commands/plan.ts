@@ -180,6 +180,9 @@ Progress:
   - Total tasks: ${progress.total}
   - Completed: ${progress.completed}
   - Remaining: ${progress.remaining}
+  - In progress: ${progress.inProgress}
+  - Blocked: ${progress.blocked}
+  - Skipped: ${progress.skipped}
   - Progress: ${progress.percentComplete}%
 `;
   }
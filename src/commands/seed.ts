@@ -5,7 +5,12 @@
 import { readFile } from 'node:fs/promises';
 import { resolve } from 'node:path';
 
-import { distill, type DistillationResult } from '../services/distiller/index.js';
+import type { IdFormat } from '../schemas/index.js';
+import {
+  distill,
+  type DistillationResult,
+  type PlanMergeResult,
+} from '../services/distiller/index.js';
 
 /**
  * Seed command options
@@ -15,6 +20,11 @@ export interface SeedOptions {
   projectName?: string;
   basePath?: string;
   runPatternAnalysis?: boolean;
+  idFormat?: IdFormat;
+  /** Called before an existing IMPLEMENTATION_PLAN.md is overwritten with the merge */
+  onPlanMerge?: (merge: PlanMergeResult) => void;
+  /** Replace existing spec files instead of keeping them */
+  overwriteSpecs?: boolean;
 }
 
 /**
@@ -36,6 +46,9 @@ export async function seed(options: SeedOptions): Promise<SeedResult> {
     projectName = 'Project',
     basePath = process.cwd(),
     runPatternAnalysis = true,
+    idFormat,
+    onPlanMerge,
+    overwriteSpecs,
   } = options;
 
   try {
@@ -57,6 +70,9 @@ export async function seed(options: SeedOptions): Promise<SeedResult> {
       brainstormContent: content,
       basePath,
       runPatternAnalysis,
+      idFormat,
+      onPlanMerge,
+      overwriteSpecs,
     });
 
     return {
@@ -83,7 +99,12 @@ export function formatSeedResult(result: SeedResult): string {
     return 'Seed completed but no result returned';
   }
 
-  const { summary, prd, pin, implementationPlanPath } = result.result;
+  const { summary, prd, pin, implementationPlanPath, planMerge } = result.result;
+  const planNote =
+    planMerge !== null
+      ? ` (merged: ${planMerge.matched.length} kept, ${planMerge.added.length} added, ${planMerge.obsolete.length} flagged obsolete)`
+      : '';
+  const keptNote = ' (existing file kept; --overwrite-specs replaces it)';
 
   return `
 Seed completed successfully!
@@ -97,9 +118,9 @@ Summary:
   - Estimated hours: ${summary.estimatedHours}
 
 Generated files:
-  - PRD: ${prd.filePath}
-  - PIN: ${pin.filePath}
-  - Implementation Plan: ${implementationPlanPath}
+  - PRD: ${prd.filePath}${prd.kept ? keptNote : ''}
+  - PIN: ${pin.filePath}${pin.kept ? keptNote : ''}
+  - Implementation Plan: ${implementationPlanPath}${planNote}
 
 Keywords: ${summary.keywords.slice(0, 10).join(', ')}${summary.keywords.length > 10 ? '...' : ''}
 
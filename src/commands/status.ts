@@ -5,6 +5,8 @@
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
+import { readRecoveryStateFile } from '../services/orchestrator/index.js';
+import { formatEta, loadEta, type EtaEstimate } from '../services/reports/index.js';
 import {
   createProjectStateManager,
   createTelemetryManager,
@@ -42,8 +44,13 @@ export interface StatusSummary {
     total: number;
     completed: number;
     remaining: number;
+    inProgress: number;
+    blocked: number;
+    skipped: number;
     percentComplete: number;
   } | null;
+  /** Calibrated time left; null without a plan */
+  eta: EtaEstimate | null;
   adrs: {
     count: number;
     recent: string[];
@@ -52,6 +59,13 @@ export interface StatusSummary {
     running: boolean;
     pid: number | null;
   };
+  recovery: {
+    lastFailureClass: string | null;
+    lastFailureEvidence: string | null;
+    consecutiveFailures: number;
+    consecutiveTransientFailures: number;
+    updatedAt: string;
+  } | null;
 }
 
 /**
@@ -102,10 +116,12 @@ export async function status(options: StatusOptions = {}): Promise<StatusResult>
 
     // Progress
     let progress: StatusSummary['progress'] = null;
+    let eta: StatusSummary['eta'] = null;
     try {
       const planManager = createImplementationPlanManager(basePath);
       const progressState = await planManager.getProgress();
       progress = progressState;
+      eta = progressState.total > 0 ? await loadEta(basePath) : null;
     } catch {
       // No plan
     }
@@ -122,18 +138,33 @@ export async function status(options: StatusOptions = {}): Promise<StatusResult>
 
     // Loop status
     const loop = {
-      running: isLoopRunning(),
-      pid: getLoopPid(),
+      running: isLoopRunning(basePath),
+      pid: getLoopPid(basePath),
     };
 
+    // Recovery state written by the loop
+    let recovery: StatusSummary['recovery'] = null;
+    const recoveryState = await readRecoveryStateFile(basePath);
+    if (recoveryState !== null) {
+      recovery = {
+        lastFailureClass: recoveryState.lastFailureClass,
+        lastFailureEvidence: recoveryState.lastFailureEvidence,
+        consecutiveFailures: recoveryState.consecutiveFailures,
+        consecutiveTransientFailures: recoveryState.consecutiveTransientFailures,
+        updatedAt: recoveryState.updatedAt,
+      };
+    }
+
     return {
       success: true,
       summary: {
         project,
         telemetry,
         progress,
+        eta,
         adrs,
         loop,
+        recovery,
       },
     };
   } catch (error) {
@@ -181,7 +212,7 @@ export function formatStatusResult(result: StatusResult): string {
     return 'No status data available';
   }
 
-  const { project, telemetry, progress, adrs, loop } = result.summary;
+  const { project, telemetry, progress, eta, adrs, loop, recovery } = result.summary;
   const reset = '\x1b[0m';
 
   let output = `
@@ -224,13 +255,26 @@ CONTEXT:
   if (progress !== null) {
     output += `
 PROGRESS:
-  Tasks: ${progress.completed}/${progress.total} (${progress.remaining} remaining)
+  Tasks: ${progress.completed}/${progress.total} (${progress.remaining} remaining, ${progress.inProgress} in progress, ${progress.blocked} blocked, ${progress.skipped} skipped)
   ${createProgressBar(progress.percentComplete)} ${progress.percentComplete}%
 `;
+    if (eta !== null) {
+      output += `  ETA: ${formatEta(eta)}\n`;
+    }
   } else {
     output += `\nPROGRESS: No implementation plan\n`;
   }
 
+  // Recovery
+  if (recovery !== null && recovery.lastFailureClass !== null) {
+    output += `
+RECOVERY:
+  Last Failure: ${recovery.lastFailureClass.toUpperCase()}${recovery.lastFailureEvidence !== null ? ` - ${recovery.lastFailureEvidence}` : ''}
+  Consecutive: ${recovery.consecutiveFailures} failures, ${recovery.consecutiveTransientFailures} transient
+  Updated: ${recovery.updatedAt}
+`;
+  }
+
   // ADRs
   output += `
 ADRs: ${adrs.count} total`;
@@ -0,0 +1,448 @@
+/**
+ * /...task command implementation
+ * Edits IMPLEMENTATION_PLAN.md through the plan manager: add, edit, skip, reopen, block, move, show
+ */
+import { randomUUID } from 'node:crypto';
+
+import { TaskSchema, type IdFormat, type Task, type TaskPriority } from '../schemas/index.js';
+import {
+  formatTaskMarkdown,
+  insertTaskBlocks,
+  validateTaskAtomicity,
+} from '../services/distiller/index.js';
+import {
+  createImplementationPlanManager,
+  createOrchestrationJournal,
+  getNextTaskId,
+  parsePlanTasks,
+  validateTaskGraph,
+  type ImplementationPlanManager,
+  type ParsedTask,
+} from '../state/index.js';
+
+import { isLoopRunning } from './loop.js';
+
+const EST_LINE_REGEX = /^(\s+)- Est: (\d+) min \| Max files: (\d+) \| Max LOC: (\d+)/;
+// Indented lines that are not the description: limits, blocker reason, obsolete flag,
+// story reference, acceptance criteria and split note
+const NOTE_LINE_REGEX = /^\s+- (?:Est|Blocked|Obsolete|Story|Accept|Split):/;
+const TASK_PREFIX_REGEX = /^(\s*- \[[ xX~!-]\] \S+:\s*)/;
+
+/**
+ * Task subcommands
+ */
+export const TASK_ACTIONS = ['add', 'edit', 'skip', 'reopen', 'block', 'move', 'show'] as const;
+
+export type TaskAction = (typeof TASK_ACTIONS)[number];
+
+/**
+ * Task command options
+ */
+export interface TaskOptions {
+  action: TaskAction;
+  basePath?: string;
+  /** Task to act on; every action but add needs one */
+  taskId?: string;
+  title?: string;
+  description?: string;
+  /** Dependency layer for add (default 0) and move */
+  layer?: number;
+  /** Prerequisites; replaces the current ones on edit */
+  dependencies?: string[];
+  estimatedMinutes?: number;
+  maxFiles?: number;
+  maxLoc?: number;
+  priority?: TaskPriority;
+  /** Blocker reason for block */
+  reason?: string;
+  /** Namespace and width of the ID add allocates */
+  idFormat?: IdFormat;
+}
+
+/**
+ * Task command result
+ */
+export interface TaskResult {
+  success: boolean;
+  action: TaskAction;
+  task?: ParsedTask;
+  /** Indented lines below the task: description, limits and notes */
+  details?: string[];
+  /** Tasks that list this one as a prerequisite */
+  dependents?: string[];
+  message?: string;
+  error?: string;
+}
+
+/**
+ * Fields checked before a task is written
+ */
+interface TaskFields {
+  id: string;
+  title: string;
+  description?: string;
+  layer: number;
+  dependencies: string[];
+  estimatedMinutes: number;
+  maxFiles: number;
+  maxLoc: number;
+  priority?: TaskPriority;
+}
+
+/**
+ * Line range of a task block: the checkbox line and the indented lines below it
+ */
+function findTaskBlock(lines: string[], task: ParsedTask): { start: number; end: number } {
+  const start = task.lineNumber - 1;
+  let end = start + 1;
+  while (end < lines.length && /^\s+\S/.test(lines[end] ?? '')) {
+    end++;
+  }
+  return { start, end };
+}
+
+/**
+ * Limits from a task block's `Est:` line, falling back to the schema defaults
+ */
+function parseLimits(
+  block: string[]
+): Pick<TaskFields, 'estimatedMinutes' | 'maxFiles' | 'maxLoc'> {
+  const match = block.map((line) => line.match(EST_LINE_REGEX)).find((m) => m !== null);
+  return {
+    estimatedMinutes: parseInt(match?.[2] ?? '30', 10),
+    maxFiles: parseInt(match?.[3] ?? '5', 10),
+    maxLoc: parseInt(match?.[4] ?? '150', 10),
+  };
+}
+
+/**
+ * Validate task fields against the task schema and the atomicity limits
+ * Throws with every issue found.
+ */
+function validateTask(fields: TaskFields): Task {
+  const parsed = TaskSchema.safeParse({
+    id: fields.id,
+    implementation_plan_id: randomUUID(),
+    title: fields.title,
+    description: fields.description,
+    status: 'pending',
+    dependency_layer: fields.layer,
+    dependencies: fields.dependencies,
+    estimated_minutes: fields.estimatedMinutes,
+    max_files: fields.maxFiles,
+    max_loc: fields.maxLoc,
+    priority: fields.priority,
+    created_at: new Date().toISOString(),
+  });
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid task: ${issues.join('; ')}`);
+  }
+
+  const atomicity = validateTaskAtomicity(parsed.data);
+  if (!atomicity.valid) {
+    throw new Error(`Task is not atomic: ${atomicity.issues.join('; ')}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Refuse an edit that introduces unknown prerequisites or cycles
+ * Problems the plan already had are left to the human who made them.
+ */
+function assertNoNewDependencyIssues(before: string, after: string): void {
+  const known = new Set(validateTaskGraph(parsePlanTasks(before)).issues);
+  const introduced = validateTaskGraph(parsePlanTasks(after)).issues.filter((i) => !known.has(i));
+  if (introduced.length > 0) {
+    throw new Error(`Invalid task dependencies: ${introduced.join('; ')}`);
+  }
+}
+
+/**
+ * Tasks a Worker of the running loop currently owns
+ * In-flight tasks from the journal plus `[~]` tasks. Without a running loop nothing is owned,
+ * so a `[~]` left behind by a crash can still be edited.
+ */
+async function findOwnedTaskIds(basePath: string, tasks: ParsedTask[]): Promise<Set<string>> {
+  if (!isLoopRunning(basePath)) {
+    return new Set();
+  }
+
+  const replay = await createOrchestrationJournal(basePath).replay();
+  return new Set([
+    ...replay.interruptedTasks.map((t) => t.taskId),
+    ...tasks.filter((t) => t.status === 'in_progress').map((t) => t.id),
+  ]);
+}
+
+/**
+ * Write the edited plan unless someone else changed it since it was read
+ * The comparison and the write share the plan lock with the loop's status updates.
+ */
+async function writePlan(
+  planManager: ImplementationPlanManager,
+  before: string,
+  after: string
+): Promise<void> {
+  const written = await planManager.writeIfUnchanged(
+    before,
+    after.endsWith('\n') ? after : `${after}\n`
+  );
+  if (!written) {
+    throw new Error('IMPLEMENTATION_PLAN.md changed while editing; run the command again');
+  }
+}
+
+/**
+ * Add a task at the end of its layer with the next free ID
+ */
+function addTask(content: string, options: TaskOptions): { content: string; task: Task } {
+  if (options.title === undefined || options.title.trim() === '') {
+    throw new Error('add requires a title');
+  }
+
+  const task = validateTask({
+    id: getNextTaskId(parsePlanTasks(content), options.idFormat),
+    title: options.title.trim(),
+    description: options.description,
+    layer: options.layer ?? 0,
+    dependencies: options.dependencies ?? [],
+    estimatedMinutes: options.estimatedMinutes ?? 30,
+    maxFiles: options.maxFiles ?? 5,
+    maxLoc: options.maxLoc ?? 150,
+    priority: options.priority,
+  });
+
+  const lines = insertTaskBlocks(content.split('\n'), [
+    { layer: task.dependency_layer, lines: formatTaskMarkdown(task) },
+  ]);
+  return { content: lines.join('\n'), task };
+}
+
+/**
+ * Rewrite a task's title, prerequisites, priority, description or limits in place
+ * The checkbox marker and any notes below the task are kept.
+ */
+function editTask(content: string, task: ParsedTask, options: TaskOptions): string {
+  const lines = content.split('\n');
+  const { start, end } = findTaskBlock(lines, task);
+  const block = lines.slice(start, end);
+  const limits = parseLimits(block);
+  const descriptionIndex = block.findIndex((line, i) => i > 0 && !NOTE_LINE_REGEX.test(line));
+
+  const fields = validateTask({
+    id: task.id,
+    title: options.title?.trim() ?? task.title,
+    description: options.description ?? block[descriptionIndex]?.replace(/^\s+- /, ''),
+    layer: task.dependencyLayer,
+    dependencies: options.dependencies ?? task.dependencies,
+    estimatedMinutes: options.estimatedMinutes ?? limits.estimatedMinutes,
+    maxFiles: options.maxFiles ?? limits.maxFiles,
+    maxLoc: options.maxLoc ?? limits.maxLoc,
+    priority: options.priority ?? task.priority ?? undefined,
+  });
+
+  const [taskLine, ...rest] = formatTaskMarkdown(fields);
+  const prefix = block[0]?.match(TASK_PREFIX_REGEX)?.[1] ?? '';
+  block[0] = `${prefix}${(taskLine ?? '').replace(TASK_PREFIX_REGEX, '')}`;
+
+  const indent = prefix.match(/^(\s*)/)?.[1] ?? '';
+  const estLine = `${indent}${rest[rest.length - 1] ?? ''}`;
+  const estIndex = block.findIndex((line) => EST_LINE_REGEX.test(line));
+  if (estIndex !== -1) {
+    block[estIndex] = estLine;
+  } else {
+    block.push(estLine);
+  }
+
+  if (options.description !== undefined) {
+    const descriptionLine = `${indent}  - ${options.description.trim()}`;
+    if (descriptionIndex !== -1) {
+      block[descriptionIndex] = descriptionLine;
+    } else {
+      // The blocker reason has to stay right below the task line
+      block.splice(task.blocked ? 2 : 1, 0, descriptionLine);
+    }
+  }
+
+  lines.splice(start, end - start, ...block);
+  return lines.join('\n');
+}
+
+/**
+ * Move a task block to the end of another layer's section
+ */
+function moveTask(content: string, task: ParsedTask, layer: number): string {
+  const lines = content.split('\n');
+  const { start, end } = findTaskBlock(lines, task);
+  const block = lines.splice(start, end - start);
+
+  // Drop the blank line that separated the block from the next one
+  if (start > 0 && (lines[start - 1] ?? '').trim() === '' && (lines[start] ?? '').trim() === '') {
+    lines.splice(start, 1);
+  }
+
+  return insertTaskBlocks(lines, [{ layer, lines: block }]).join('\n');
+}
+
+/**
+ * Execute task command
+ * Refuses to change a task a Worker of the running loop owns.
+ */
+export async function task(options: TaskOptions): Promise<TaskResult> {
+  const { action, basePath = process.cwd(), taskId } = options;
+  const planManager = createImplementationPlanManager(basePath);
+
+  try {
+    if (!(await planManager.exists())) {
+      return {
+        success: false,
+        action,
+        error: 'No IMPLEMENTATION_PLAN.md found. Run /...seed <file> first.',
+      };
+    }
+
+    const content = await planManager.read();
+    const tasks = parsePlanTasks(content);
+
+    if (action === 'add') {
+      const added = addTask(content, options);
+      assertNoNewDependencyIssues(content, added.content);
+      await writePlan(planManager, content, added.content);
+      return {
+        success: true,
+        action,
+        task: parsePlanTasks(added.content).find((t) => t.id === added.task.id),
+        message: `Added ${added.task.id}: ${added.task.title} (layer ${added.task.dependency_layer})`,
+      };
+    }
+
+    const current = tasks.find((t) => t.id === taskId);
+    if (current === undefined) {
+      return {
+        success: false,
+        action,
+        error: taskId === undefined ? `${action} requires a task ID` : `Task not found: ${taskId}`,
+      };
+    }
+
+    if (action === 'show') {
+      const lines = content.split('\n');
+      const { start, end } = findTaskBlock(lines, current);
+      return {
+        success: true,
+        action,
+        task: current,
+        details: lines.slice(start + 1, end).map((line) => line.trim()),
+        dependents: tasks.filter((t) => t.dependencies.includes(current.id)).map((t) => t.id),
+      };
+    }
+
+    const owned = await findOwnedTaskIds(basePath, tasks);
+    if (owned.has(current.id)) {
+      return {
+        success: false,
+        action,
+        task: current,
+        error: `${current.id} is owned by a running Worker. Wait for it to finish or stop the loop.`,
+      };
+    }
+
+    let changed: boolean;
+    let message: string;
+
+    switch (action) {
+      case 'edit': {
+        const edited = editTask(content, current, options);
+        assertNoNewDependencyIssues(content, edited);
+        await writePlan(planManager, content, edited);
+        changed = true;
+        message = `Updated ${current.id}`;
+        break;
+      }
+
+      case 'move': {
+        const { layer } = options;
+        if (layer === undefined || !Number.isInteger(layer) || layer < 0) {
+          throw new Error('move requires a layer (0 or higher)');
+        }
+        await writePlan(planManager, content, moveTask(content, current, layer));
+        changed = true;
+        message = `Moved ${current.id} to layer ${layer}`;
+        break;
+      }
+
+      case 'skip':
+        changed = await planManager.markTaskSkipped(current.id);
+        message = `Skipped ${current.id}`;
+        break;
+
+      case 'reopen':
+        changed = await planManager.reopenTask(current.id);
+        message = `Reopened ${current.id}`;
+        break;
+
+      case 'block': {
+        const reason = options.reason?.trim() ?? '';
+        if (reason === '') {
+          throw new Error('block requires a reason');
+        }
+        changed = await planManager.markTaskBlocked(current.id, reason);
+        message = `Blocked ${current.id}: ${reason}`;
+        break;
+      }
+    }
+
+    if (!changed) {
+      return {
+        success: false,
+        action,
+        task: current,
+        error: `Cannot ${action} ${current.id}: it is ${current.status}`,
+      };
+    }
+
+    return {
+      success: true,
+      action,
+      task: (await planManager.getTask(current.id)) ?? current,
+      message,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      action,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Format task result for display
+ */
+export function formatTaskResult(result: TaskResult): string {
+  if (!result.success) {
+    return `Task ${result.action} failed: ${result.error}`;
+  }
+
+  if (result.action !== 'show' || result.task === undefined) {
+    return result.message ?? `Task ${result.action} completed`;
+  }
+
+  const { task: shown, details = [], dependents = [] } = result;
+  const lines = [
+    `${shown.id}: ${shown.title}`,
+    `  Status: ${shown.status}`,
+    `  Layer: ${shown.dependencyLayer}`,
+    `  Priority: ${shown.priority ?? 'medium'}`,
+    `  After: ${shown.dependencies.length > 0 ? shown.dependencies.join(', ') : 'none'}`,
+    `  Needed by: ${dependents.length > 0 ? dependents.join(', ') : 'none'}`,
+  ];
+  for (const detail of details) {
+    lines.push(`  ${detail}`);
+  }
+
+  return lines.join('\n');
+}
@@ -1,12 +1,15 @@
 #!/usr/bin/env node
 /**
  * Manager Entry Point
- * Entry point for orchestrate.sh to spawn Manager processes
+ * Entry point for spawning Manager processes outside the Claude CLI
  *
  * Environment Variables:
  *   - PROJECT_PATH: Base path for project (default: cwd)
  *   - PROJECT_ID: Project identifier (optional)
  *   - HANDOFF_FILE: Path to handoff file from previous manager (optional)
+ *   - SELECTION_POLICY: How ready tasks within a layer are ordered (default: id)
+ *
+ * Commands, limits, timeouts and paths come from kr-wiggum.config.json in the project.
  *
  * Exit Codes:
  *   - 0: All tasks completed successfully
@@ -17,12 +20,20 @@
  */
 import process from 'node:process';
 
+import {
+  TaskSelectionPolicyNameSchema,
+  type ProjectConfig,
+  type TaskSelectionPolicyName,
+} from './schemas/index.js';
 import { spawnWorker } from './services/orchestrator/worker-spawner.js';
 import {
   createShiftManager,
+  type ShiftManager,
   type ShiftManagerResult,
+  type TaskExecutionOutcome,
   type TaskSelectionResult,
 } from './services/shift-manager/index.js';
+import { createOrchestrationJournal, loadProjectConfig, type JournalEvent } from './state/index.js';
 import { EXIT_CODES } from './types/index.js';
 
 /**
@@ -32,6 +43,7 @@ interface ManagerEnvConfig {
   projectPath: string;
   projectId: string | undefined;
   handoffFile: string | undefined;
+  selectionPolicy: TaskSelectionPolicyName;
 }
 
 /**
@@ -42,42 +54,108 @@ function loadConfigFromEnv(): ManagerEnvConfig {
   const projectId = process.env['PROJECT_ID'];
   const handoffFile = process.env['HANDOFF_FILE'];
 
+  const policy = process.env['SELECTION_POLICY'] ?? 'id';
+  const parsedPolicy = TaskSelectionPolicyNameSchema.safeParse(policy);
+  if (!parsedPolicy.success) {
+    throw new Error(
+      `Unknown SELECTION_POLICY: ${policy} (expected ${TaskSelectionPolicyNameSchema.options.join(', ')})`
+    );
+  }
+
   return {
     projectPath,
     projectId,
     handoffFile,
+    selectionPolicy: parsedPolicy.data,
   };
 }
 
+/**
+ * Append a Worker event to the orchestration journal (best effort)
+ */
+async function recordWorkerEvent(projectPath: string, event: JournalEvent): Promise<void> {
+  try {
+    await createOrchestrationJournal(projectPath).append(event);
+  } catch {
+    // Journal only aids crash recovery
+  }
+}
+
 /**
  * Handle task execution by spawning a Worker
+ * A failed task whose Worker changed more files or lines than allowed is split instead.
  */
 async function handleTaskExecution(
+  manager: ShiftManager,
   projectPath: string,
   projectId: string | undefined,
+  projectConfig: ProjectConfig,
   task: TaskSelectionResult
-): Promise<boolean> {
+): Promise<TaskExecutionOutcome> {
   console.error(`[MANAGER] Spawning Worker for task: ${task.task.id}`);
 
+  let spawned: Promise<void> = Promise.resolve();
   const result = await spawnWorker({
     basePath: projectPath,
     taskId: task.task.id,
     prdPath: task.prdPath,
     currentTaskPath: task.currentTaskPath,
+    contextPath: task.contextPath,
     projectId,
+    projectConfig,
     onOutput: (data) => {
       // Forward Worker output to stderr
       process.stderr.write(`[WORKER] ${data}`);
     },
+    onSpawn: (pid) => {
+      spawned = recordWorkerEvent(projectPath, {
+        type: 'worker_spawn',
+        task_id: task.task.id,
+        worker_pid: pid,
+      });
+    },
+  });
+
+  await spawned;
+  await recordWorkerEvent(projectPath, {
+    type: 'worker_exit',
+    task_id: task.task.id,
+    worker_pid: result.pid,
+    exit_code: result.exitCode ?? EXIT_CODES.CRASH,
+    success: result.success,
   });
 
   if (result.success) {
     console.error(`[MANAGER] Task ${task.task.id} completed successfully`);
-    return true;
+    return 'completed';
+  }
+
+  if (result.failedPatchPath !== undefined) {
+    console.error(
+      `[MANAGER] Worker changes rolled back; diff archived to ${result.failedPatchPath}`
+    );
+  }
+
+  const split =
+    result.diffStats !== undefined
+      ? await manager.splitOversizeTask(task.task.id, result.diffStats)
+      : null;
+  if (split !== null) {
+    console.error(
+      `[MANAGER] Task ${task.task.id} outgrew its limits (${split.reason}); ` +
+        `split into ${split.subTaskIds.join(', ')} (${split.adrId})`
+    );
+    return 'split';
+  } else if (result.timedOut === true) {
+    console.error(`[MANAGER] Task ${task.task.id} timed out`);
+    if (result.patchPath !== undefined) {
+      console.error(`[MANAGER] Partial diff saved to ${result.patchPath}`);
+    }
+    return 'timed_out';
   } else {
     console.error(`[MANAGER] Task ${task.task.id} failed with exit code ${result.exitCode}`);
     console.error(`[MANAGER] Reason: ${result.stderr.slice(-500)}`);
-    return false;
+    return 'failed';
   }
 }
 
@@ -86,25 +164,34 @@ async function handleTaskExecution(
  */
 async function runManager(): Promise<ShiftManagerResult> {
   const config = loadConfigFromEnv();
+  const projectConfig = await loadProjectConfig(config.projectPath);
 
   console.error('='.repeat(50));
   console.error('[MANAGER] Starting Manager process');
   console.error(`[MANAGER] Project path: ${config.projectPath}`);
   console.error(`[MANAGER] Project ID: ${config.projectId ?? 'auto-generated'}`);
   console.error(`[MANAGER] Handoff file: ${config.handoffFile ?? 'none'}`);
+  console.error(`[MANAGER] Task selection: ${config.selectionPolicy}`);
   console.error('='.repeat(50));
 
   const manager = createShiftManager({
     basePath: config.projectPath,
     projectId: config.projectId,
-    rotationThreshold: 60,
+    projectConfig,
+    selectionPolicy: config.selectionPolicy,
   });
 
   // Run the Manager loop
   const result = await manager.run(
     // Task execution callback
-    async (task: TaskSelectionResult): Promise<boolean> => {
-      return handleTaskExecution(config.projectPath, config.projectId, task);
+    async (task: TaskSelectionResult): Promise<TaskExecutionOutcome> => {
+      return handleTaskExecution(
+        manager,
+        config.projectPath,
+        config.projectId,
+        projectConfig,
+        task
+      );
     },
     // Progress callback
     (state) => {
@@ -17,6 +17,45 @@ export interface ManagerPromptConfig {
   implementationPlanPath?: string;
   /** Maximum tasks before rotation */
   maxTasksBeforeRotation?: number;
+  /** Selection policy ordering ready tasks within a layer (default: id) */
+  selectionPolicy?: string;
+  /** Next tasks in the order the selection policy hands them out when the session starts */
+  taskOrder?: string[];
+}
+
+/**
+ * How each built-in selection policy breaks ties within a dependency layer
+ */
+const SELECTION_RULES: Record<string, string> = {
+  id: '**Task ID** - Lowest ID first',
+  priority:
+    '**Priority** - `(priority: critical)` before `high`, then `medium` (the default), then `low`',
+  'critical-path': '**Critical Path** - The task the longest chain of remaining tasks waits on',
+  'fewest-failures': '**Failed Attempts** - Fewest failed attempts in .ralph/task-attempts.json',
+};
+
+/**
+ * Step 2 of the Manager prompt: the order tasks are selected in
+ */
+function formatSelectionSection(selectionPolicy: string, taskOrder: string[]): string {
+  const rule =
+    SELECTION_RULES[selectionPolicy] ??
+    `**${selectionPolicy} policy** - Follow the task order below`;
+  const tiebreaker =
+    selectionPolicy === 'id' ? '' : '\n3. **Task ID** - Lowest ID first as the tiebreaker';
+  const order =
+    taskOrder.length > 0
+      ? `
+
+With the \`${selectionPolicy}\` policy, the next tasks are handed out in this order:
+${taskOrder.map((taskId, index) => `${index + 1}. ${taskId}`).join('\n')}
+
+Take them in that order, skipping any that are no longer \`[ ]\`.`
+      : '';
+
+  return `Choose the next pending task based on:
+1. **Dependency Layer** - Lower layers first (infrastructure before features)
+2. ${rule}${tiebreaker}${order}`;
 }
 
 /**
@@ -35,6 +74,8 @@ export function generateManagerPrompt(config: ManagerPromptConfig): string {
     projectId,
     implementationPlanPath = 'IMPLEMENTATION_PLAN.md',
     maxTasksBeforeRotation = 5,
+    selectionPolicy = 'id',
+    taskOrder = [],
   } = config;
 
   const handoffSection = handoffPath !== undefined
@@ -75,15 +116,17 @@ cat ${implementationPlanPath}
 
 Tasks are marked as:
 - \`[ ]\` - Pending (not started)
+- \`[~]\` - In progress (handed to a Worker)
 - \`[x]\` - Completed
+- \`[!]\` - Blocked (the reason is on the next indented line)
+- \`[-]\` - Skipped (will not be done)
 
 ## Step 2: Select Next Task
 
-Choose the next pending task based on:
-1. **Dependency Layer** - Lower layers first (infrastructure before features)
-2. **Task ID** - Alphabetical order as tiebreaker
+${formatSelectionSection(selectionPolicy, taskOrder)}
 
-Find the first task marked \`[ ]\` that you can work on.
+Pick the first task marked \`[ ]\` in that order that you can work on. A task ending in
+\`(after: ST-003, ST-007)\` can only start once those tasks are \`[x]\` or \`[-]\`.
 
 ## Step 3: Spawn Worker for Task
 
@@ -110,7 +153,7 @@ npm run spawn-worker -- --task=TASK-001
 
 After each Worker completes:
 - **Exit 0 (Success):** Mark task as \`[x]\` complete in the plan
-- **Exit 1 (Failure):** Log the failure, decide whether to retry or skip
+- **Exit 1 (Failure):** Log the failure, decide whether to retry or skip (mark it \`[-]\`)
 
 ## Step 5: Monitor Context & Rotation
 
@@ -171,7 +214,8 @@ After completing approximately ${maxTasksBeforeRotation} tasks, or if you feel y
 ## Constraints
 
 - Execute tasks ONE AT A TIME
-- Do not parallelize Workers in this version
+- Do not run Workers side by side; parallel Workers are scheduled by the orchestrator itself
+  (\`--workers\` with \`--worktrees\`)
 - Write handoff before rotating (exit 10)
 - Do not push to git - the orchestrator handles that
 - If you encounter a blocking issue you cannot resolve, exit 20
@@ -180,7 +224,7 @@ After completing approximately ${maxTasksBeforeRotation} tasks, or if you feel y
 
 1. Read the implementation plan at: ${implementationPlanPath}
 2. ${handoffPath !== undefined ? `Read the handoff file at: ${handoffPath}` : 'Start fresh - no previous context'}
-3. Select the first pending task
+3. Select the next pending task as described in Step 2
 4. Execute tasks until complete or rotation needed
 5. Exit with appropriate code
 
@@ -2,6 +2,7 @@
  * Worker Prompt Generator
  * Generates prompts for Worker agents executing tasks via Ralph Wiggum Loop
  */
+import type { ProjectCommands } from '../schemas/index.js';
 
 /**
  * Worker prompt configuration
@@ -13,12 +14,29 @@ export interface WorkerPromptConfig {
   prdPath: string;
   /** Path to current task JSON file */
   taskPath: string;
+  /** Path to the task's context bundle (relevant ADRs, PRD sections and source files) */
+  contextPath?: string;
   /** Base project path */
   basePath: string;
   /** Maximum retry attempts */
   maxRetries?: number;
   /** Project ID for context */
   projectId?: string;
+  /** Build, test and lint commands from kr-wiggum.config.json (default: npm scripts) */
+  commands?: ProjectCommands;
+}
+
+const DEFAULT_COMMANDS: ProjectCommands = {
+  build: 'npm run build',
+  test: 'npm test',
+  lint: 'npm run lint',
+};
+
+/**
+ * Line inside a box of the loop diagram
+ */
+function boxLine(text: string): string {
+  return `│  ${text.padEnd(38)}│`;
 }
 
 /**
@@ -35,11 +53,28 @@ export function generateWorkerPrompt(config: WorkerPromptConfig): string {
     taskId,
     prdPath,
     taskPath,
+    contextPath,
     basePath,
     maxRetries = 5,
     projectId,
+    commands = DEFAULT_COMMANDS,
   } = config;
 
+  const readFirst =
+    contextPath !== undefined
+      ? `1. **Task Context:** ${contextPath} (the ADRs, PRD sections and source files relevant to this task)
+2. **Task Specification:** ${taskPath}
+
+Read both files now before proceeding. Open the full PRD at ${prdPath} only if the context leaves something out.`
+      : `1. **PRD (Product Requirements):** ${prdPath}
+2. **Task Specification:** ${taskPath}
+
+Read both files now before proceeding.`;
+  const readSteps =
+    contextPath !== undefined
+      ? `1. Read the context bundle at: ${contextPath}`
+      : `1. Read the PRD file at: ${prdPath}`;
+
   return `# Worker Agent - Task Execution
 
 You are a **Worker agent** in the Ralph Wiggum Loop pattern. Your job is to execute ONE atomic task, then exit.
@@ -53,10 +88,7 @@ You are a **Worker agent** in the Ralph Wiggum Loop pattern. Your job is to exec
 
 First, read these files to understand what you need to do:
 
-1. **PRD (Product Requirements):** ${prdPath}
-2. **Task Specification:** ${taskPath}
-
-Read both files now before proceeding.
+${readFirst}
 
 ## Step 2: Execute the Ralph Wiggum Loop
 
@@ -71,7 +103,7 @@ Follow this loop until the task succeeds or you hit ${maxRetries} failures:
                   ▼
 ┌─────────────────────────────────────────┐
 │              BUILD                       │
-│  Run: npm run build                     │
+${boxLine(`Run: ${commands.build}`)}
 │  Fix any TypeScript errors              │
 └─────────────────┬───────────────────────┘
                   │
@@ -80,7 +112,7 @@ Follow this loop until the task succeeds or you hit ${maxRetries} failures:
                   ▼
 ┌─────────────────────────────────────────┐
 │              TEST                        │
-│  Run: npm test                          │
+${boxLine(`Run: ${commands.test}`)}
 │  Fix any failing tests                  │
 └─────────────────┬───────────────────────┘
                   │
@@ -100,18 +132,22 @@ Follow this loop until the task succeeds or you hit ${maxRetries} failures:
 3. **Write tests if required** - The task spec will indicate if tests are needed
 4. **Keep changes minimal** - Smallest change that satisfies the task
 5. **No over-engineering** - Don't add features not in the task spec
+6. **Check the acceptance criteria** - For each criterion in the task spec, record in \`.ralph/status-fragment.json\` under \`acceptance_criteria\` whether it is satisfied and how you verified it
 
 ## Step 4: Build & Test Commands
 
 \`\`\`bash
-# TypeScript compilation
-npm run build
+# Build
+${commands.build}
 
 # Linting
-npm run lint
+${commands.lint}
+
+# Tests that import the files you changed, while iterating
+${commands.affected_test ?? `${commands.test} --`} <test files>
 
-# Run tests
-npm test
+# Full test suite, once before you exit 0
+${commands.test}
 \`\`\`
 
 ## Step 5: Exit Codes
@@ -132,10 +168,11 @@ When you're done, you MUST exit with the appropriate code:
 - Do NOT ask for human help - either succeed or fail
 - Do NOT modify files outside the scope of this task
 - Do NOT commit changes - the orchestrator handles that
+- If you receive a TIMEOUT notice, stop making changes, write a blocked status fragment to \`.ralph/status-fragment.json\` (what is done, what is left) and exit with code 1
 
 ## Begin
 
-1. Read the PRD file at: ${prdPath}
+${readSteps}
 2. Read the task file at: ${taskPath}
 3. Implement the task
 4. Run build and tests
@@ -148,7 +185,7 @@ Start now.`;
  * Generate a minimal Worker prompt for simple tasks
  */
 export function generateMinimalWorkerPrompt(config: WorkerPromptConfig): string {
-  const { taskId, prdPath, taskPath, basePath } = config;
+  const { taskId, prdPath, taskPath, basePath, commands = DEFAULT_COMMANDS } = config;
 
   return `You are a Worker agent. Execute task ${taskId}.
 
@@ -158,7 +195,7 @@ Read:
 
 Working directory: ${basePath}
 
-Loop: EDIT → BUILD (npm run build) → TEST (npm test) → repeat if fail (max 5x)
+Loop: EDIT → BUILD (${commands.build}) → TEST (${commands.test}) → repeat if fail (max 5x)
 
 Exit 0 on success, exit 1 on failure.
 
@@ -4,8 +4,10 @@
  */
 import { z } from 'zod';
 
+import { AdrIdSchema } from './identifier.schema.js';
+
 export const ADRSchema = z.object({
-  id: z.string().regex(/^ADR-\d{3}$/), // ADR-001 format
+  id: AdrIdSchema, // ADR-001 format, optionally namespaced
   project_id: z.string().uuid(),
   title: z.string().min(1).max(255),
   decision: z.string().min(10).max(2000),
@@ -13,8 +15,8 @@ export const ADRSchema = z.object({
   keywords: z.array(z.string().min(2)).min(1), // For RipGrep optimization
   status: z.enum(['proposed', 'accepted', 'deprecated', 'superseded']),
   commit_hash: z.string().length(40).optional(), // Git commit hash
-  supersedes: z.string().regex(/^ADR-\d{3}$/).optional(),
-  superseded_by: z.string().regex(/^ADR-\d{3}$/).optional(),
+  supersedes: AdrIdSchema.optional(),
+  superseded_by: AdrIdSchema.optional(),
   created_at: z.string().datetime(),
   created_by: z.enum(['manager', 'worker', 'human']),
 });
@@ -4,6 +4,8 @@
  */
 import { z } from 'zod';
 
+import { TaskIdSchema } from './identifier.schema.js';
+
 export const ErrorTypeSchema = z.enum([
   'typescript',
   'eslint',
@@ -16,7 +18,7 @@ export const CompilerErrorSchema = z.object({
   id: z.string().uuid(),
   project_id: z.string().uuid(),
   session_id: z.string().uuid(),
-  task_id: z.string().regex(/^ST-\d{3}$/).optional(),
+  task_id: TaskIdSchema.optional(),
   error_type: ErrorTypeSchema,
   file_path: z.string().optional(),
   line_number: z.number().int().min(1).optional(),
@@ -0,0 +1,68 @@
+/**
+ * Identifier grammar shared by tasks and ADRs
+ * `[NAMESPACE-]...KIND-NUMBER`: optional uppercase namespaces such as `AUTH-`, the kind
+ * (`ST` or `ADR`) and at least three digits, so `ST-001`, `ST-1042` and `AUTH-ST-0042` all parse
+ */
+import { z } from 'zod';
+
+export type IdKind = 'ST' | 'ADR';
+
+/** Fewest digits an identifier number has; shorter numbers are zero-padded */
+export const MIN_ID_DIGITS = 3;
+
+const NAMESPACE_PATTERN = '(?:[A-Z][A-Z0-9]*-)*';
+const NAMESPACE_REGEX = /^[A-Z][A-Z0-9]*(?:-[A-Z][A-Z0-9]*)*$/;
+
+/**
+ * Unanchored regex source for an identifier of the given kind
+ */
+export function getIdPattern(kind: IdKind): string {
+  return `${NAMESPACE_PATTERN}${kind}-\\d{${MIN_ID_DIGITS},}`;
+}
+
+export const TASK_ID_PATTERN = getIdPattern('ST');
+export const ADR_ID_PATTERN = getIdPattern('ADR');
+
+export const TaskIdSchema = z.string().regex(new RegExp(`^${TASK_ID_PATTERN}$`));
+export const AdrIdSchema = z.string().regex(new RegExp(`^${ADR_ID_PATTERN}$`));
+
+/**
+ * How new identifiers are written
+ */
+export interface IdFormat {
+  /** e.g. `AUTH` for `AUTH-ST-0042` */
+  namespace?: string;
+  /** Zero-padded width of the number, at least MIN_ID_DIGITS */
+  digits?: number;
+}
+
+/**
+ * Format an identifier, e.g. formatId('ST', 42, { namespace: 'AUTH', digits: 4 }) is `AUTH-ST-0042`
+ */
+export function formatId(kind: IdKind, num: number, format: IdFormat = {}): string {
+  const { namespace } = format;
+  if (namespace !== undefined && namespace !== '' && !NAMESPACE_REGEX.test(namespace)) {
+    throw new Error(
+      `Invalid identifier namespace "${namespace}": use uppercase letters and digits`
+    );
+  }
+
+  const digits = Math.max(format.digits ?? MIN_ID_DIGITS, MIN_ID_DIGITS);
+  const prefix = namespace !== undefined && namespace !== '' ? `${namespace}-` : '';
+  return `${prefix}${kind}-${String(num).padStart(digits, '0')}`;
+}
+
+/**
+ * Number at the end of an identifier (0 if there is none)
+ */
+export function parseIdNumber(id: string): number {
+  const match = id.match(/(\d+)$/);
+  return match !== null ? parseInt(match[1] ?? '0', 10) : 0;
+}
+
+/**
+ * Order identifiers by namespace, then numerically (`ST-999` before `ST-1000`)
+ */
+export function compareIds(a: string, b: string): number {
+  return a.localeCompare(b, 'en', { numeric: true });
+}
@@ -3,6 +3,21 @@
  * All 11 entities from the ERD
  */
 
+// Task and ADR identifier grammar
+export {
+  TaskIdSchema,
+  AdrIdSchema,
+  TASK_ID_PATTERN,
+  ADR_ID_PATTERN,
+  MIN_ID_DIGITS,
+  getIdPattern,
+  formatId,
+  parseIdNumber,
+  compareIds,
+  type IdKind,
+  type IdFormat,
+} from './identifier.schema.js';
+
 // ENT-001: Project
 export {
   ProjectSchema,
@@ -34,8 +49,13 @@ export {
 export {
   TaskSchema,
   TaskStatusSchema,
+  TaskPrioritySchema,
+  TaskSelectionPolicyNameSchema,
+  UserStoryIdSchema,
   type Task,
   type TaskStatus,
+  type TaskPriority,
+  type TaskSelectionPolicyName,
 } from './task.schema.js';
 
 // ENT-006: ADR
@@ -44,8 +64,10 @@ export { ADRSchema, type ADR } from './adr.schema.js';
 // ENT-007: ShiftReport
 export {
   ShiftReportSchema,
+  ShiftReportEtaSchema,
   SystemStatusSchema,
   type ShiftReport,
+  type ShiftReportEta,
   type SystemStatus,
 } from './shift-report.schema.js';
 
@@ -58,10 +80,12 @@ export {
   AgentTypeSchema,
   ContextZoneSchema,
   GuardrailStatusSchema,
+  TokenUsageSchema,
   type Telemetry,
   type AgentType,
   type ContextZone,
   type GuardrailStatus,
+  type TokenUsage,
 } from './telemetry.schema.js';
 
 // ENT-010: CompilerError
@@ -73,4 +97,53 @@ export {
 } from './compiler-error.schema.js';
 
 // ENT-011: StatusFragment
-export { StatusFragmentSchema, type StatusFragment } from './status-fragment.schema.js';
+export {
+  StatusFragmentSchema,
+  AcceptanceCriterionResultSchema,
+  type StatusFragment,
+  type AcceptanceCriterionResult,
+} from './status-fragment.schema.js';
+
+// Runtime state: per-task attempt counters
+export {
+  TaskAttemptsSchema,
+  TaskAttemptRecordSchema,
+  type TaskAttempts,
+  type TaskAttemptRecord,
+} from './task-attempts.schema.js';
+
+// Runtime state: per-task run history
+export {
+  TaskHistorySchema,
+  TaskRunRecordSchema,
+  type TaskHistory,
+  type TaskRunRecord,
+} from './task-history.schema.js';
+
+// Runtime state: orchestration journal
+export {
+  JournalEntrySchema,
+  InterruptedWorkActionSchema,
+  type JournalEntry,
+  type JournalEntryType,
+  type InterruptedWorkAction,
+} from './journal.schema.js';
+
+// Project configuration: kr-wiggum.config.json
+export {
+  ProjectConfigSchema,
+  ProjectCommandsSchema,
+  ProjectGuardrailsSchema,
+  ProjectLimitsSchema,
+  ProjectTimeoutsSchema,
+  ProjectPathsSchema,
+  ProjectWatcherSchema,
+  CoverageThresholdSchema,
+  type ProjectConfig,
+  type ProjectCommands,
+  type ProjectGuardrails,
+  type ProjectLimits,
+  type ProjectTimeouts,
+  type ProjectPaths,
+  type ProjectWatcher,
+} from './project-config.schema.js';
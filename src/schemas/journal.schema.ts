@@ -0,0 +1,67 @@
+/**
+ * Zod schema for the orchestration journal (.ralph/journal.jsonl)
+ * One event per line, appended as the Orchestrator, Manager and Workers progress
+ */
+import { z } from 'zod';
+
+export const InterruptedWorkActionSchema = z.enum(['resume', 'retry', 'rollback']);
+
+const JournalEntryBaseSchema = z.object({
+  timestamp: z.string().datetime(),
+  /** PID of the process that wrote the entry */
+  pid: z.number().int(),
+});
+
+export const JournalEntrySchema = z.discriminatedUnion('type', [
+  JournalEntryBaseSchema.extend({
+    type: z.literal('orchestrator_start'),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('orchestrator_stop'),
+    reason: z.string(),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('manager_start'),
+    manager_pid: z.number().int(),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('manager_exit'),
+    manager_pid: z.number().int(),
+    exit_code: z.number().int(),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('task_selected'),
+    task_id: z.string(),
+    /** Dependency layer, null when the task was spawned outside a layer batch */
+    layer: z.number().int().min(0).nullable(),
+    /** HEAD when the task was selected, for rolling back in-place changes */
+    head_commit: z.string().nullable(),
+    use_worktree: z.boolean(),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('worker_spawn'),
+    task_id: z.string(),
+    worker_pid: z.number().int(),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('worker_exit'),
+    task_id: z.string(),
+    worker_pid: z.number().int(),
+    exit_code: z.number().int(),
+    success: z.boolean(),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('task_checked'),
+    task_id: z.string(),
+  }),
+  JournalEntryBaseSchema.extend({
+    type: z.literal('work_recovered'),
+    /** null when the entry closes an interrupted Manager */
+    task_id: z.string().nullable(),
+    action: InterruptedWorkActionSchema,
+  }),
+]);
+
+export type InterruptedWorkAction = z.infer<typeof InterruptedWorkActionSchema>;
+export type JournalEntry = z.infer<typeof JournalEntrySchema>;
+export type JournalEntryType = JournalEntry['type'];
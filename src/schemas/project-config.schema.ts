@@ -0,0 +1,95 @@
+/**
+ * Zod schema for the project configuration file (kr-wiggum.config.json)
+ * Commands, guardrail thresholds, limits, timeouts, paths and watcher intervals of one project;
+ * every field is optional and falls back to the engine defaults
+ */
+import { z } from 'zod';
+
+const PercentSchema = z.number().min(0).max(100);
+const CommandSchema = z.string().trim().min(1);
+const RelativePathSchema = z.string().trim().min(1);
+
+export const ProjectCommandsSchema = z
+  .object({
+    build: CommandSchema.default('npm run build'),
+    test: CommandSchema.default('npm test'),
+    lint: CommandSchema.default('npm run lint'),
+    /** Command the affected test files are appended to while iterating (default: `<test> --`) */
+    affected_test: CommandSchema.optional(),
+  })
+  .strict();
+
+export const CoverageThresholdSchema = z
+  .object({
+    lines: PercentSchema.default(80),
+    functions: PercentSchema.default(80),
+    branches: PercentSchema.default(80),
+    statements: PercentSchema.default(80),
+  })
+  .strict();
+
+export const ProjectGuardrailsSchema = z
+  .object({
+    typescript: z.boolean().default(true),
+    tests: z.boolean().default(true),
+    kr_standards: z.boolean().default(true),
+    coverage_threshold: CoverageThresholdSchema.default({}),
+  })
+  .strict();
+
+export const ProjectLimitsSchema = z
+  .object({
+    /** Failed Worker attempts before a task is quarantined */
+    max_task_attempts: z.number().int().min(1).default(3),
+    /** Build/test fix attempts within one Worker session */
+    worker_max_retries: z.number().int().min(1).max(20).default(5),
+    /** Context fill percentage at which a Manager rotates */
+    rotation_threshold: PercentSchema.default(60),
+    /** Tokens a Worker's context bundle may use */
+    context_token_budget: z.number().int().min(0).default(6000),
+  })
+  .strict();
+
+export const ProjectTimeoutsSchema = z
+  .object({
+    worker_ms: z.number().int().positive().default(300000),
+    manager_ms: z.number().int().positive().default(600000),
+    /** Time a Worker has to checkpoint after the timeout nudge */
+    grace_period_ms: z.number().int().min(0).default(30000),
+  })
+  .strict();
+
+export const ProjectPathsSchema = z
+  .object({
+    /** Directory holding PRD.md, relative to the project */
+    specs: RelativePathSchema.default('specs'),
+    /** Directories searched for context bundle source files, relative to the project */
+    source: z.array(RelativePathSchema).min(1).default(['src']),
+  })
+  .strict();
+
+export const ProjectWatcherSchema = z
+  .object({
+    telemetry_debounce_ms: z.number().int().min(0).default(100),
+    roadmap_interval_ms: z.number().int().positive().default(2000),
+  })
+  .strict();
+
+export const ProjectConfigSchema = z
+  .object({
+    commands: ProjectCommandsSchema.default({}),
+    guardrails: ProjectGuardrailsSchema.default({}),
+    limits: ProjectLimitsSchema.default({}),
+    timeouts: ProjectTimeoutsSchema.default({}),
+    paths: ProjectPathsSchema.default({}),
+    watcher: ProjectWatcherSchema.default({}),
+  })
+  .strict();
+
+export type ProjectCommands = z.infer<typeof ProjectCommandsSchema>;
+export type ProjectGuardrails = z.infer<typeof ProjectGuardrailsSchema>;
+export type ProjectLimits = z.infer<typeof ProjectLimitsSchema>;
+export type ProjectTimeouts = z.infer<typeof ProjectTimeoutsSchema>;
+export type ProjectPaths = z.infer<typeof ProjectPathsSchema>;
+export type ProjectWatcher = z.infer<typeof ProjectWatcherSchema>;
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
@@ -4,6 +4,8 @@
  */
 import { z } from 'zod';
 
+import { AdrIdSchema, TaskIdSchema } from './identifier.schema.js';
+
 export const ShiftHandoffSchema = z.object({
   id: z.string().uuid(),
   project_id: z.string().uuid(),
@@ -13,13 +15,13 @@ export const ShiftHandoffSchema = z.object({
   architecture_delta: z.string().max(2000), // What changed architecturally
   blockers: z.array(
     z.object({
-      task_id: z.string().regex(/^ST-\d{3}$/),
+      task_id: TaskIdSchema,
       description: z.string().min(10),
       suggested_resolution: z.string().optional(),
     })
   ).default([]),
-  last_5_adrs: z.array(z.string().regex(/^ADR-\d{3}$/)).max(5), // Max 5 items
-  next_priority_tasks: z.array(z.string().regex(/^ST-\d{3}$/)).max(10),
+  last_5_adrs: z.array(AdrIdSchema).max(5), // Max 5 items
+  next_priority_tasks: z.array(TaskIdSchema).max(10),
   context_fill_at_handoff: z.number().min(0).max(100),
   created_at: z.string().datetime(),
   picked_up_at: z.string().datetime().optional(),
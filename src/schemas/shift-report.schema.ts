@@ -4,6 +4,8 @@
  */
 import { z } from 'zod';
 
+import { AdrIdSchema, TaskIdSchema } from './identifier.schema.js';
+
 export const SystemStatusSchema = z.enum([
   'passing',
   'failing',
@@ -11,14 +13,24 @@ export const SystemStatusSchema = z.enum([
   'skipped',
 ]);
 
+// Rolling ETA for the plan when the shift ended
+export const ShiftReportEtaSchema = z.object({
+  estimated_hours_remaining: z.number().min(0),
+  low_hours: z.number().min(0),
+  high_hours: z.number().min(0),
+  samples: z.number().int().min(0),
+  estimated_completion_at: z.string().datetime(),
+});
+
 export const ShiftReportSchema = z.object({
   id: z.string().uuid(),
   project_id: z.string().uuid(),
   session_id: z.string().uuid(),
   executive_summary: z.string().min(50).max(2000),
-  tasks_completed: z.array(z.string().regex(/^ST-\d{3}$/)),
-  tasks_failed: z.array(z.string().regex(/^ST-\d{3}$/)).default([]),
-  tasks_blocked: z.array(z.string().regex(/^ST-\d{3}$/)).default([]),
+  tasks_completed: z.array(TaskIdSchema),
+  tasks_failed: z.array(TaskIdSchema).default([]),
+  tasks_blocked: z.array(TaskIdSchema).default([]),
+  tasks_timed_out: z.array(TaskIdSchema).default([]),
   llvm_status: SystemStatusSchema,
   tests_status: SystemStatusSchema,
   lint_status: SystemStatusSchema,
@@ -26,9 +38,11 @@ export const ShiftReportSchema = z.object({
   context_fill_at_end: z.number().min(0).max(100),
   duration_minutes: z.number().min(0),
   cost_usd: z.number().min(0),
-  adrs_created: z.array(z.string().regex(/^ADR-\d{3}$/)).default([]),
+  adrs_created: z.array(AdrIdSchema).default([]),
+  eta: ShiftReportEtaSchema.optional(),
   created_at: z.string().datetime(),
 });
 
 export type ShiftReport = z.infer<typeof ShiftReportSchema>;
 export type SystemStatus = z.infer<typeof SystemStatusSchema>;
+export type ShiftReportEta = z.infer<typeof ShiftReportEtaSchema>;
@@ -4,11 +4,20 @@
  */
 import { z } from 'zod';
 
+import { TaskIdSchema } from './identifier.schema.js';
+
+// How the Worker checked one of the task's acceptance criteria
+export const AcceptanceCriterionResultSchema = z.object({
+  criterion: z.string().min(1).max(500),
+  satisfied: z.boolean(),
+  verification: z.string().max(300), // Test, command or inspection that showed it
+});
+
 export const StatusFragmentSchema = z.object({
   id: z.string().uuid(),
   project_id: z.string().uuid(),
   session_id: z.string().uuid(),
-  task_id: z.string().regex(/^ST-\d{3}$/),
+  task_id: TaskIdSchema,
   what_fixed: z.string().min(10).max(500),
   what_changed: z.array(
     z.object({
@@ -19,11 +28,15 @@ export const StatusFragmentSchema = z.object({
     })
   ).min(1),
   patterns_used: z.array(z.string()).default([]),
+  acceptance_criteria: z.array(AcceptanceCriterionResultSchema).default([]),
+  guardrail_violations: z.array(z.string().max(300)).default([]), // e.g. task limits exceeded
   token_count: z.number().int().min(0).max(500), // Max 500 tokens
   tests_passed: z.boolean(),
   compiler_passed: z.boolean(),
   retry_count: z.number().int().min(0).max(5), // Max 5 retries
+  commit_hash: z.string().length(40).optional(), // Commit the completed task landed in
   created_at: z.string().datetime(),
 });
 
 export type StatusFragment = z.infer<typeof StatusFragmentSchema>;
+export type AcceptanceCriterionResult = z.infer<typeof AcceptanceCriterionResultSchema>;
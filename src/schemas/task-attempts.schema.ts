@@ -0,0 +1,24 @@
+/**
+ * Zod schema for per-task attempt tracking (.ralph/task-attempts.json)
+ * Failed Worker attempts per task and quarantine state
+ */
+import { z } from 'zod';
+
+import { TaskIdSchema } from './identifier.schema.js';
+
+export const TaskAttemptRecordSchema = z.object({
+  task_id: TaskIdSchema,
+  failed_attempts: z.number().int().min(0),
+  last_blocker: z.string().nullable(),
+  last_failure_at: z.string().datetime().nullable(),
+  quarantined: z.boolean().default(false),
+  quarantined_at: z.string().datetime().nullable().default(null),
+});
+
+export const TaskAttemptsSchema = z.object({
+  tasks: z.record(z.string(), TaskAttemptRecordSchema).default({}),
+  updated_at: z.string().datetime(),
+});
+
+export type TaskAttemptRecord = z.infer<typeof TaskAttemptRecordSchema>;
+export type TaskAttempts = z.infer<typeof TaskAttemptsSchema>;
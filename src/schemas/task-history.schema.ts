@@ -0,0 +1,32 @@
+/**
+ * Zod schema for per-task run history (.ralph/task-history.json)
+ * Wall-clock time, attempts and tokens each task actually took, for ETA calibration
+ */
+import { z } from 'zod';
+
+import { TaskIdSchema } from './identifier.schema.js';
+
+export const TaskRunRecordSchema = z.object({
+  task_id: TaskIdSchema,
+  layer: z.number().int().min(0).nullable(),
+  /** Significant words of the task title, for matching similar tasks */
+  keywords: z.array(z.string()).default([]),
+  /** The plan's `Est:` minutes when the task last ran */
+  estimated_minutes: z.number().min(0).nullable(),
+  attempts: z.number().int().min(0),
+  /** Wall-clock time summed over every attempt */
+  duration_ms: z.number().min(0),
+  /** Tokens summed over every attempt; null when the backend reports no usage */
+  tokens_used: z.number().int().min(0).nullable(),
+  completed: z.boolean(),
+  completed_at: z.string().datetime().nullable(),
+  updated_at: z.string().datetime(),
+});
+
+export const TaskHistorySchema = z.object({
+  tasks: z.record(z.string(), TaskRunRecordSchema).default({}),
+  updated_at: z.string().datetime(),
+});
+
+export type TaskRunRecord = z.infer<typeof TaskRunRecordSchema>;
+export type TaskHistory = z.infer<typeof TaskHistorySchema>;
@@ -4,6 +4,8 @@
  */
 import { z } from 'zod';
 
+import { TaskIdSchema } from './identifier.schema.js';
+
 export const TaskStatusSchema = z.enum([
   'pending',
   'in_progress',
@@ -12,15 +14,32 @@ export const TaskStatusSchema = z.enum([
   'skipped',
 ]);
 
+// `(priority: high)` on a plan line; untagged tasks count as medium
+export const TaskPrioritySchema = z.enum(['critical', 'high', 'medium', 'low']);
+
+// How ready tasks within a dependency layer are ordered
+export const TaskSelectionPolicyNameSchema = z.enum([
+  'id',
+  'priority',
+  'critical-path',
+  'fewest-failures',
+]);
+
+// `US-001`, as the PRD generator numbers user stories
+export const UserStoryIdSchema = z.string().regex(/^US-\d{3,}$/);
+
 export const TaskSchema = z.object({
-  id: z.string().regex(/^ST-\d{3}$/), // ST-001 format
+  id: TaskIdSchema, // ST-001, ST-1042 or AUTH-ST-0042
   implementation_plan_id: z.string().uuid(),
   title: z.string().min(1).max(255),
   description: z.string().max(1000).optional(),
   status: TaskStatusSchema,
   checkbox_state: z.boolean().default(false),
   dependency_layer: z.number().int().min(0), // 0 = no dependencies
-  dependencies: z.array(z.string().regex(/^ST-\d{3}$/)).default([]),
+  dependencies: z.array(TaskIdSchema).default([]),
+  priority: TaskPrioritySchema.optional(),
+  story_id: UserStoryIdSchema.optional(), // User story the task was broken out of
+  acceptance_criteria: z.array(z.string().min(1).max(500)).optional(), // From that story
   estimated_minutes: z.number().int().min(15).max(60).default(30), // 15-30 min atomic
   max_files: z.number().int().min(1).max(10).default(5), // 3-5 files
   max_loc: z.number().int().min(10).max(300).default(150), // <150 LOC
@@ -31,3 +50,5 @@ export const TaskSchema = z.object({
 
 export type Task = z.infer<typeof TaskSchema>;
 export type TaskStatus = z.infer<typeof TaskStatusSchema>;
+export type TaskPriority = z.infer<typeof TaskPrioritySchema>;
+export type TaskSelectionPolicyName = z.infer<typeof TaskSelectionPolicyNameSchema>;
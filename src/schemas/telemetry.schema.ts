@@ -4,6 +4,8 @@
  */
 import { z } from 'zod';
 
+import { TaskIdSchema } from './identifier.schema.js';
+
 export const AgentTypeSchema = z.enum(['manager', 'worker']);
 
 export const ContextZoneSchema = z.enum([
@@ -20,6 +22,16 @@ export const GuardrailStatusSchema = z.enum([
   'multiple_failing',
 ]);
 
+/**
+ * Token counts reported by the agent CLI for the latest turn
+ */
+export const TokenUsageSchema = z.object({
+  input_tokens: z.number().int().min(0).default(0),
+  output_tokens: z.number().int().min(0).default(0),
+  cache_creation_input_tokens: z.number().int().min(0).default(0),
+  cache_read_input_tokens: z.number().int().min(0).default(0),
+});
+
 export const TelemetrySchema = z.object({
   id: z.string().uuid(),
   project_id: z.string().uuid(),
@@ -28,9 +40,11 @@ export const TelemetrySchema = z.object({
   context_fill_percent: z.number().min(0).max(100),
   zone: ContextZoneSchema,
   guardrail_status: GuardrailStatusSchema,
-  current_task_id: z.string().regex(/^ST-\d{3}$/).optional(),
+  current_task_id: TaskIdSchema.optional(),
   tokens_used: z.number().int().min(0),
   tokens_remaining: z.number().int().min(0),
+  /** Breakdown of tokens_used when it came from real CLI usage rather than an estimate */
+  token_usage: TokenUsageSchema.optional(),
   heartbeat_at: z.string().datetime(),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime(),
@@ -40,3 +54,4 @@ export type Telemetry = z.infer<typeof TelemetrySchema>;
 export type AgentType = z.infer<typeof AgentTypeSchema>;
 export type ContextZone = z.infer<typeof ContextZoneSchema>;
 export type GuardrailStatus = z.infer<typeof GuardrailStatusSchema>;
+export type TokenUsage = z.infer<typeof TokenUsageSchema>;
@@ -5,6 +5,7 @@
 import { createServer } from 'node:http';
 
 import { createApp } from './app.js';
+import { loadProjectConfig } from './state/index.js';
 import { createWatcherSystem } from './watcher/index.js';
 
 /**
@@ -30,6 +31,7 @@ function getConfig(): ServerConfig {
  */
 async function main(): Promise<void> {
   const config = getConfig();
+  const projectConfig = await loadProjectConfig(config.basePath);
 
   // Create Express app
   const app = createApp({ basePath: config.basePath });
@@ -42,6 +44,8 @@ async function main(): Promise<void> {
     basePath: config.basePath,
     httpServer,
     corsOrigin: '*',
+    telemetryDebounceMs: projectConfig.watcher.telemetry_debounce_ms,
+    roadmapIntervalMs: projectConfig.watcher.roadmap_interval_ms,
   });
 
   // Start watchers
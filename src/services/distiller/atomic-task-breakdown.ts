@@ -4,7 +4,7 @@
  */
 import { randomUUID } from 'node:crypto';
 
-import type { Task } from '../../schemas/index.js';
+import { formatId, type IdFormat, type Task } from '../../schemas/index.js';
 
 import type { UserStory } from './prd-generator.js';
 
@@ -19,6 +19,8 @@ export const TASK_CONSTRAINTS = {
   MAX_LOC: 150,
 } as const;
 
+const LAYER_NAMES = ['Infrastructure', 'Core Services', 'Features', 'Integration', 'Testing'];
+
 /**
  * Task template for breakdown
  */
@@ -30,6 +32,10 @@ export interface TaskTemplate {
   maxLoc: number;
   dependsOn: string[];
   keywords: string[];
+  /** Originating user story, e.g. `US-001` */
+  storyId: string;
+  /** The story's acceptance criteria the Worker checks the task against */
+  acceptanceCriteria: string[];
 }
 
 /**
@@ -39,6 +45,8 @@ export interface BreakdownInput {
   implementationPlanId: string;
   userStories: UserStory[];
   existingTasks?: Task[];
+  /** Namespace and width of generated task IDs (default `ST-001`) */
+  idFormat?: IdFormat;
 }
 
 /**
@@ -54,8 +62,8 @@ export interface BreakdownResult {
 /**
  * Generate task ID
  */
-function generateTaskId(index: number): string {
-  return `ST-${String(index + 1).padStart(3, '0')}`;
+export function generateTaskId(index: number, idFormat: IdFormat = {}): string {
+  return formatId('ST', index + 1, idFormat);
 }
 
 /**
@@ -117,7 +125,11 @@ function determineDependencyLayer(title: string): number {
 /**
  * Break down a user story into atomic tasks
  */
-function breakdownUserStory(story: UserStory, startIndex: number): TaskTemplate[] {
+function breakdownUserStory(
+  story: UserStory,
+  startIndex: number,
+  idFormat: IdFormat
+): TaskTemplate[] {
   const templates: TaskTemplate[] = [];
   const baseId = `US-${story.id}`;
 
@@ -130,6 +142,8 @@ function breakdownUserStory(story: UserStory, startIndex: number): TaskTemplate[
     maxLoc: 100,
     dependsOn: [],
     keywords: ['type', 'schema', 'zod'],
+    storyId: story.id,
+    acceptanceCriteria: story.acceptanceCriteria,
   });
 
   // Service implementation task
@@ -139,8 +153,10 @@ function breakdownUserStory(story: UserStory, startIndex: number): TaskTemplate[
     estimatedMinutes: 30,
     maxFiles: 3,
     maxLoc: 150,
-    dependsOn: [generateTaskId(startIndex)],
+    dependsOn: [generateTaskId(startIndex, idFormat)],
     keywords: ['service', 'business-logic'],
+    storyId: story.id,
+    acceptanceCriteria: story.acceptanceCriteria,
   });
 
   // Test task
@@ -150,8 +166,10 @@ function breakdownUserStory(story: UserStory, startIndex: number): TaskTemplate[
     estimatedMinutes: 25,
     maxFiles: 2,
     maxLoc: 100,
-    dependsOn: [generateTaskId(startIndex + 1)],
+    dependsOn: [generateTaskId(startIndex + 1, idFormat)],
     keywords: ['test', 'vitest', 'coverage'],
+    storyId: story.id,
+    acceptanceCriteria: story.acceptanceCriteria,
   });
 
   return templates;
@@ -163,13 +181,14 @@ function breakdownUserStory(story: UserStory, startIndex: number): TaskTemplate[
 function createTaskFromTemplate(
   template: TaskTemplate,
   index: number,
-  implementationPlanId: string
+  implementationPlanId: string,
+  idFormat: IdFormat
 ): Task {
   const now = new Date().toISOString();
   const layer = determineDependencyLayer(template.title);
 
   return {
-    id: generateTaskId(index),
+    id: generateTaskId(index, idFormat),
     implementation_plan_id: implementationPlanId,
     title: template.title,
     description: template.description,
@@ -183,6 +202,8 @@ function createTaskFromTemplate(
     ),
     max_files: Math.min(template.maxFiles, TASK_CONSTRAINTS.MAX_FILES),
     max_loc: Math.min(template.maxLoc, TASK_CONSTRAINTS.MAX_LOC),
+    story_id: template.storyId,
+    acceptance_criteria: template.acceptanceCriteria,
     created_at: now,
   };
 }
@@ -197,7 +218,7 @@ export function breakdownToAtomicTasks(input: BreakdownInput): BreakdownResult {
 
   // Process each user story
   for (const story of input.userStories) {
-    const templates = breakdownUserStory(story, taskIndex);
+    const templates = breakdownUserStory(story, taskIndex, input.idFormat ?? {});
 
     for (const template of templates) {
       // Validate constraints
@@ -207,7 +228,12 @@ export function breakdownToAtomicTasks(input: BreakdownInput): BreakdownResult {
         );
       }
 
-      const task = createTaskFromTemplate(template, taskIndex, input.implementationPlanId);
+      const task = createTaskFromTemplate(
+        template,
+        taskIndex,
+        input.implementationPlanId,
+        input.idFormat ?? {}
+      );
       tasks.push(task);
       taskIndex++;
     }
@@ -233,6 +259,36 @@ export function breakdownToAtomicTasks(input: BreakdownInput): BreakdownResult {
   };
 }
 
+/**
+ * Markdown header for a dependency layer, e.g. `## Layer 0: Infrastructure`
+ */
+export function formatLayerHeader(layer: number): string {
+  return `## Layer ${layer}: ${LAYER_NAMES[layer] ?? `Layer ${layer}`}`;
+}
+
+/**
+ * Markdown lines for one pending task: the checkbox line, its description, story and
+ * acceptance criteria, and its limits
+ */
+export function formatTaskMarkdown(task: Task): string[] {
+  const deps = task.dependencies.length > 0 ? ` (after: ${task.dependencies.join(', ')})` : '';
+  const priority = task.priority !== undefined ? ` (priority: ${task.priority})` : '';
+  const lines = [`- [ ] ${task.id}: ${task.title}${deps}${priority}`];
+  if (task.description !== undefined) {
+    lines.push(`  - ${task.description}`);
+  }
+  if (task.story_id !== undefined) {
+    lines.push(`  - Story: ${task.story_id}`);
+  }
+  for (const criterion of task.acceptance_criteria ?? []) {
+    lines.push(`  - Accept: ${criterion}`);
+  }
+  lines.push(
+    `  - Est: ${task.estimated_minutes} min | Max files: ${task.max_files} | Max LOC: ${task.max_loc}`
+  );
+  return lines;
+}
+
 /**
  * Generate implementation plan markdown from tasks
  */
@@ -261,20 +317,12 @@ Estimated time: ${Math.round(tasks.reduce((sum, t) => sum + t.estimated_minutes,
   const sortedLayers = Array.from(layerMap.entries()).sort((a, b) => a[0] - b[0]);
 
   for (const [layer, layerTasks] of sortedLayers) {
-    const layerNames = ['Infrastructure', 'Core Services', 'Features', 'Integration', 'Testing'];
-    const layerName = layerNames[layer] ?? `Layer ${layer}`;
-
-    content += `## Layer ${layer}: ${layerName}
+    content += `${formatLayerHeader(layer)}
 
 `;
 
     for (const task of layerTasks) {
-      const deps = task.dependencies.length > 0 ? ` (depends on: ${task.dependencies.join(', ')})` : '';
-      content += `- [ ] ${task.id}: ${task.title}${deps}\n`;
-      if (task.description !== undefined) {
-        content += `  - ${task.description}\n`;
-      }
-      content += `  - Est: ${task.estimated_minutes} min | Max files: ${task.max_files} | Max LOC: ${task.max_loc}\n\n`;
+      content += `${formatTaskMarkdown(task).join('\n')}\n\n`;
     }
   }
 
@@ -2,9 +2,10 @@
  * Distiller orchestrator
  * Orchestrates parser, analyzer, generators for full distillation pipeline
  */
-import { writeFile } from 'node:fs/promises';
+import { readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
+import type { IdFormat } from '../../schemas/index.js';
 import { ensureDirectory } from '../../state/index.js';
 
 import {
@@ -20,6 +21,7 @@ import {
 } from './brainstorm-parser.js';
 import { analyzePatterns, type PatternAnalysisResult } from './pattern-analyzer.js';
 import { generatePIN, createPRDEntry, type PINResult } from './pin-generator.js';
+import { mergeImplementationPlan, type PlanMergeResult } from './plan-merger.js';
 import { generatePRD, type PRDResult } from './prd-generator.js';
 
 // Re-export all sub-modules
@@ -28,6 +30,7 @@ export * from './pattern-analyzer.js';
 export * from './prd-generator.js';
 export * from './pin-generator.js';
 export * from './atomic-task-breakdown.js';
+export * from './plan-merger.js';
 
 /**
  * Full distillation input
@@ -38,6 +41,12 @@ export interface DistillationInput {
   brainstormContent: string;
   basePath: string;
   runPatternAnalysis?: boolean;
+  /** Namespace and width of generated task IDs, e.g. `{ namespace: 'AUTH', digits: 4 }` */
+  idFormat?: IdFormat;
+  /** Called with the merge into an existing plan before it is written */
+  onPlanMerge?: (merge: PlanMergeResult) => void;
+  /** Replace existing specs/PRD.md and specs/index.md instead of keeping them */
+  overwriteSpecs?: boolean;
 }
 
 /**
@@ -50,6 +59,8 @@ export interface DistillationResult {
   pin: PINResult;
   taskBreakdown: BreakdownResult;
   implementationPlanPath: string;
+  /** How the breakdown was merged into an existing plan (null for a fresh plan) */
+  planMerge: PlanMergeResult | null;
   summary: {
     clientSegments: number;
     engineerSegments: number;
@@ -71,6 +82,9 @@ export async function distill(input: DistillationInput): Promise<DistillationRes
     brainstormContent,
     basePath,
     runPatternAnalysis = true,
+    idFormat,
+    onPlanMerge,
+    overwriteSpecs = false,
   } = input;
 
   // Step 1: Parse brainstorm into voice segments
@@ -83,7 +97,7 @@ export async function distill(input: DistillationInput): Promise<DistillationRes
     patternAnalysis = await analyzePatterns(basePath, keywords);
   }
 
-  // Step 3: Generate PRD from client voice
+  // Step 3: Generate PRD from client voice (existing specs are kept unless overwriting)
   const prd = await generatePRD(
     {
       projectName,
@@ -91,7 +105,8 @@ export async function distill(input: DistillationInput): Promise<DistillationRes
       clientSegments: brainstormParse.clientVoice,
       keywords,
     },
-    basePath
+    basePath,
+    { overwrite: overwriteSpecs }
   );
 
   // Step 4: Generate PIN (specification index)
@@ -101,7 +116,8 @@ export async function distill(input: DistillationInput): Promise<DistillationRes
       entries: [createPRDEntry(projectName, keywords, prd.userStoriesCount)],
       patternAnalysis: patternAnalysis ?? undefined,
     },
-    basePath
+    basePath,
+    { overwrite: overwriteSpecs }
   );
 
   // Step 5: Break down into atomic tasks
@@ -117,11 +133,23 @@ export async function distill(input: DistillationInput): Promise<DistillationRes
   const taskBreakdown = breakdownToAtomicTasks({
     implementationPlanId: crypto.randomUUID(),
     userStories: mockUserStories,
+    idFormat,
   });
 
-  // Step 6: Write implementation plan
-  const implementationPlanContent = generateImplementationPlanMarkdown(taskBreakdown.tasks);
+  // Step 6: Write implementation plan, merging into an existing one so re-seeding keeps progress
   const implementationPlanPath = join(basePath, 'IMPLEMENTATION_PLAN.md');
+  const existingPlan = await readFile(implementationPlanPath, 'utf-8').catch(() => '');
+
+  let planMerge: PlanMergeResult | null = null;
+  let implementationPlanContent: string;
+  if (existingPlan.trim() === '') {
+    implementationPlanContent = generateImplementationPlanMarkdown(taskBreakdown.tasks);
+  } else {
+    planMerge = mergeImplementationPlan(existingPlan, taskBreakdown.tasks, idFormat);
+    onPlanMerge?.(planMerge);
+    implementationPlanContent = planMerge.content;
+  }
+
   await ensureDirectory(basePath);
   await writeFile(implementationPlanPath, implementationPlanContent, 'utf-8');
 
@@ -132,6 +160,7 @@ export async function distill(input: DistillationInput): Promise<DistillationRes
     pin,
     taskBreakdown,
     implementationPlanPath,
+    planMerge,
     summary: {
       clientSegments: brainstormParse.summary.clientSegments,
       engineerSegments: brainstormParse.summary.engineerSegments,
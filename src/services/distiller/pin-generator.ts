@@ -2,12 +2,12 @@
  * Specification Index (PIN) generation
  * Generates specs/index.md with keywords for RipGrep optimization
  */
-import { writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
 import { ensureDirectory } from '../../state/index.js';
 
 import type { PatternAnalysisResult } from './pattern-analyzer.js';
+import { writeSpecFile, type SpecWriteOptions } from './prd-generator.js';
 
 /**
  * PIN entry for a specification
@@ -38,6 +38,8 @@ export interface PINResult {
   content: string;
   entriesCount: number;
   totalKeywords: number;
+  /** An existing file was left in place and `content` was not written */
+  kept: boolean;
 }
 
 /**
@@ -170,15 +172,20 @@ rg "keyword" specs/ -t md
 
 /**
  * Generate PIN (Specification Index) file
+ * An existing index.md is kept unless `options.overwrite` is set.
  */
-export async function generatePIN(input: PINInput, outputPath: string): Promise<PINResult> {
+export async function generatePIN(
+  input: PINInput,
+  outputPath: string,
+  options: SpecWriteOptions = {}
+): Promise<PINResult> {
   const content = generatePINContent(input);
 
   const specsDir = join(outputPath, 'specs');
   await ensureDirectory(specsDir);
 
   const filePath = join(specsDir, 'index.md');
-  await writeFile(filePath, content, 'utf-8');
+  const kept = await writeSpecFile(filePath, content, options);
 
   const totalKeywords = new Set(input.entries.flatMap((e) => e.keywords)).size;
 
@@ -187,6 +194,7 @@ export async function generatePIN(input: PINInput, outputPath: string): Promise<
     content,
     entriesCount: input.entries.length,
     totalKeywords,
+    kept,
   };
 }
 
@@ -0,0 +1,296 @@
+/**
+ * Plan merger for re-seeding
+ * Folds a regenerated task breakdown into an existing IMPLEMENTATION_PLAN.md without
+ * touching the tasks already in it: checked state, IDs and manual edits are kept
+ */
+import { formatId, parseIdNumber, type IdFormat, type Task } from '../../schemas/index.js';
+import {
+  getNextTaskId,
+  isTaskRemaining,
+  parsePlanTasks,
+  type ParsedTask,
+} from '../../state/index.js';
+
+import { formatLayerHeader, formatTaskMarkdown } from './atomic-task-breakdown.js';
+
+/** Lowest score at which a regenerated task counts as an existing one */
+const MATCH_THRESHOLD = 0.6;
+const SAME_STORY_BONUS = 0.1;
+const OTHER_STORY_PENALTY = 0.3;
+
+const STORY_ID_REGEX = /\bUS-\d{3,}\b/;
+const OBSOLETE_PREFIX = 'Obsolete:';
+const OBSOLETE_LINE_REGEX = /^\s+- Obsolete:/;
+const LAYER_HEADER_REGEX = /^#{1,6}\s+Layer\s+(\d+)/i;
+
+/**
+ * A regenerated task matched to one already in the plan
+ */
+export interface MatchedTask {
+  id: string;
+  title: string;
+  generatedTitle: string;
+  status: ParsedTask['status'];
+}
+
+/**
+ * Result of merging a regenerated breakdown into an existing plan
+ */
+export interface PlanMergeResult {
+  content: string;
+  /** Existing tasks that were regenerated; kept as they are */
+  matched: MatchedTask[];
+  /** Regenerated tasks with no match, renumbered after the existing IDs */
+  added: Task[];
+  /** Open tasks that were not regenerated, flagged for review */
+  obsolete: ParsedTask[];
+}
+
+/**
+ * Markdown lines of a task in a plan: its checkbox line and the indented lines below it
+ */
+export interface TaskBlock {
+  layer: number;
+  lines: string[];
+}
+
+/**
+ * Existing task with the user story it was generated from
+ */
+interface ExistingTask {
+  task: ParsedTask;
+  storyId: string | null;
+}
+
+/**
+ * Lowercase word set of a title
+ */
+function tokenize(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word !== '')
+  );
+}
+
+/**
+ * Jaccard similarity of two titles' word sets
+ */
+function titleSimilarity(a: string, b: string): number {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return union > 0 ? shared / union : 0;
+}
+
+/**
+ * Story a task came from: the first `US-XXX` in its title or the indented lines below it
+ */
+function findStoryId(lines: string[], taskIndex: number): string | null {
+  for (let i = taskIndex; i < lines.length; i++) {
+    const line = lines[i] ?? '';
+    if (i > taskIndex && !/^\s+\S/.test(line)) {
+      break;
+    }
+    const match = line.match(STORY_ID_REGEX);
+    if (match !== null) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+/**
+ * How well a regenerated task matches an existing one
+ * Title similarity, nudged up for the same story and down for a different one.
+ */
+function scoreMatch(generated: Task, existing: ExistingTask): number {
+  const generatedStory =
+    generated.story_id ?? (generated.description ?? '').match(STORY_ID_REGEX)?.[0] ?? null;
+  let score = titleSimilarity(generated.title, existing.task.title);
+
+  if (generatedStory !== null && existing.storyId !== null) {
+    score += generatedStory === existing.storyId ? SAME_STORY_BONUS : -OTHER_STORY_PENALTY;
+  }
+
+  return score;
+}
+
+/**
+ * Pair regenerated tasks with existing ones, best scores first
+ */
+function matchTasks(generated: Task[], existing: ExistingTask[]): Map<string, ExistingTask> {
+  const candidates: Array<{ generated: Task; existing: ExistingTask; score: number }> = [];
+  for (const task of generated) {
+    for (const candidate of existing) {
+      const score = scoreMatch(task, candidate);
+      if (score >= MATCH_THRESHOLD) {
+        candidates.push({ generated: task, existing: candidate, score });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<string, ExistingTask>();
+  const taken = new Set<string>();
+  for (const candidate of candidates) {
+    if (matches.has(candidate.generated.id) || taken.has(candidate.existing.task.id)) {
+      continue;
+    }
+    matches.set(candidate.generated.id, candidate.existing);
+    taken.add(candidate.existing.task.id);
+  }
+
+  return matches;
+}
+
+/**
+ * Insert task blocks at the end of each layer's section, appending sections that are missing
+ */
+export function insertTaskBlocks(lines: string[], taskBlocks: TaskBlock[]): string[] {
+  const byLayer = new Map<number, string[][]>();
+  for (const block of taskBlocks) {
+    byLayer.set(block.layer, [...(byLayer.get(block.layer) ?? []), block.lines]);
+  }
+
+  const result = [...lines];
+  const missingLayers: number[] = [];
+
+  const layers = Array.from(byLayer.keys()).sort((a, b) => a - b);
+  for (const layer of layers) {
+    const blocks = (byLayer.get(layer) ?? []).flatMap((block) => ['', ...block]);
+    const header = result.findIndex(
+      (line) => line.match(LAYER_HEADER_REGEX)?.[1] === String(layer)
+    );
+
+    if (header === -1) {
+      missingLayers.push(layer);
+      continue;
+    }
+
+    let end = result.findIndex((line, i) => i > header && /^#{1,6}\s/.test(line));
+    end = end === -1 ? result.length : end;
+    while (end > header + 1 && (result[end - 1] ?? '').trim() === '') {
+      end--;
+    }
+    result.splice(end, 0, ...blocks);
+  }
+
+  for (const layer of missingLayers) {
+    while (result.length > 0 && (result[result.length - 1] ?? '').trim() === '') {
+      result.pop();
+    }
+    const blocks = (byLayer.get(layer) ?? []).flatMap((block) => ['', ...block]);
+    result.push('', formatLayerHeader(layer), ...blocks);
+  }
+
+  return result;
+}
+
+/**
+ * Merge a regenerated breakdown into the current plan content
+ * Matched tasks are left untouched (a stale obsolete flag is dropped), new tasks get IDs after
+ * the highest existing one and open tasks that were not regenerated get an obsolete note.
+ */
+export function mergeImplementationPlan(
+  existingContent: string,
+  generated: Task[],
+  idFormat: IdFormat = {}
+): PlanMergeResult {
+  const lines = existingContent.split('\n');
+  const parsed = parsePlanTasks(existingContent);
+  const existing = parsed.map((task) => ({
+    task,
+    storyId: findStoryId(lines, task.lineNumber - 1),
+  }));
+
+  const matches = matchTasks(generated, existing);
+  const matchedIds = new Set(Array.from(matches.values(), (m) => m.task.id));
+
+  // Fresh IDs continue after the highest existing ID in the same namespace
+  let nextNumber = parseIdNumber(getNextTaskId(parsed, idFormat));
+
+  const idMap = new Map<string, string>();
+  for (const task of generated) {
+    const match = matches.get(task.id);
+    idMap.set(
+      task.id,
+      match !== undefined ? match.task.id : formatId('ST', nextNumber++, idFormat)
+    );
+  }
+
+  const added = generated
+    .filter((task) => !matches.has(task.id))
+    .map((task) => ({
+      ...task,
+      id: idMap.get(task.id) ?? task.id,
+      dependencies: task.dependencies.map((id) => idMap.get(id) ?? id),
+    }));
+
+  const obsolete = parsed.filter((t) => !matchedIds.has(t.id) && isTaskRemaining(t));
+  const obsoleteIds = new Set(obsolete.map((t) => t.id));
+
+  // Flag or unflag existing tasks, bottom-up so line numbers stay valid
+  const merged = [...lines];
+  for (const task of [...parsed].reverse()) {
+    const index = task.lineNumber - 1;
+    const flagged = OBSOLETE_LINE_REGEX.test(merged[index + 1] ?? '');
+
+    if (obsoleteIds.has(task.id) && !flagged) {
+      const indent = (merged[index] ?? '').match(/^(\s*)/)?.[1] ?? '';
+      merged.splice(
+        index + 1,
+        0,
+        `${indent}  - ${OBSOLETE_PREFIX} no longer generated from the brainstorm; review it or mark it [-]`
+      );
+    } else if (!obsoleteIds.has(task.id) && flagged) {
+      merged.splice(index + 1, 1);
+    }
+  }
+
+  const content = insertTaskBlocks(
+    merged,
+    added.map((task) => ({ layer: task.dependency_layer, lines: formatTaskMarkdown(task) }))
+  ).join('\n');
+
+  return {
+    content: content.endsWith('\n') ? content : `${content}\n`,
+    matched: generated.flatMap((task) => {
+      const match = matches.get(task.id);
+      return match !== undefined
+        ? [
+            {
+              id: match.task.id,
+              title: match.task.title,
+              generatedTitle: task.title,
+              status: match.task.status,
+            },
+          ]
+        : [];
+    }),
+    added,
+    obsolete,
+  };
+}
+
+/**
+ * Render the merge as a short diff summary
+ */
+export function formatPlanMergeSummary(result: PlanMergeResult): string {
+  const checked = result.matched.filter((m) => m.status === 'completed').length;
+  const lines = [
+    `Plan merge: ${result.matched.length} kept (${checked} checked), ${result.added.length} added, ` +
+      `${result.obsolete.length} flagged obsolete`,
+  ];
+
+  for (const task of result.added) {
+    lines.push(`  + ${task.id}: ${task.title}`);
+  }
+  for (const task of result.obsolete) {
+    lines.push(`  ! ${task.id}: ${task.title} (obsolete, review)`);
+  }
+
+  return lines.join('\n');
+}
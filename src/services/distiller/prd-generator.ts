@@ -2,7 +2,7 @@
  * PRD.md generation
  * Generates specs/PRD.md with User Stories, Business Logic, Success Criteria
  */
-import { writeFile } from 'node:fs/promises';
+import { access, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
 import { ensureDirectory } from '../../state/index.js';
@@ -49,6 +49,40 @@ export interface PRDResult {
   content: string;
   userStoriesCount: number;
   businessRulesCount: number;
+  /** An existing file was left in place and `content` was not written */
+  kept: boolean;
+}
+
+/**
+ * How a generated spec file treats one already on disk
+ */
+export interface SpecWriteOptions {
+  /** Replace an existing file instead of keeping it (default: false) */
+  overwrite?: boolean;
+}
+
+/**
+ * Write a spec file unless one exists and may not be overwritten
+ * Specs are edited by hand after seeding, so re-seeding keeps them by default.
+ * Returns true when the existing file was kept.
+ */
+export async function writeSpecFile(
+  filePath: string,
+  content: string,
+  options: SpecWriteOptions = {}
+): Promise<boolean> {
+  if (options.overwrite !== true) {
+    const exists = await access(filePath).then(
+      () => true,
+      () => false
+    );
+    if (exists) {
+      return true;
+    }
+  }
+
+  await writeFile(filePath, content, 'utf-8');
+  return false;
 }
 
 /**
@@ -229,8 +263,13 @@ ${rule.description}
 
 /**
  * Generate PRD.md file
+ * An existing PRD.md is kept unless `options.overwrite` is set.
  */
-export async function generatePRD(input: PRDInput, outputPath: string): Promise<PRDResult> {
+export async function generatePRD(
+  input: PRDInput,
+  outputPath: string,
+  options: SpecWriteOptions = {}
+): Promise<PRDResult> {
   const stories = extractUserStories(input.clientSegments);
   const rules = extractBusinessRules(input.clientSegments);
   const content = generatePRDContent(input, stories, rules);
@@ -239,13 +278,14 @@ export async function generatePRD(input: PRDInput, outputPath: string): Promise<
   await ensureDirectory(specsDir);
 
   const filePath = join(specsDir, 'PRD.md');
-  await writeFile(filePath, content, 'utf-8');
+  const kept = await writeSpecFile(filePath, content, options);
 
   return {
     filePath,
     content,
     userStoriesCount: stories.length,
     businessRulesCount: rules.length,
+    kept,
   };
 }
 
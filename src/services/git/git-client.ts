@@ -0,0 +1,425 @@
+/**
+ * Git command runner
+ * Thin wrapper around the git CLI (no shell, arguments passed verbatim)
+ */
+import { execFile } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { appendFile, copyFile, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, isAbsolute, join } from 'node:path';
+import { promisify } from 'node:util';
+
+import { ensureDirectory } from '../../state/index.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Result of a git invocation
+ */
+export interface GitCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+}
+
+/**
+ * Run a git command
+ * Never throws - a non-zero exit code is reported in the result
+ */
+export async function runGit(
+  args: string[],
+  cwd: string,
+  env?: NodeJS.ProcessEnv
+): Promise<GitCommandResult> {
+  try {
+    const { stdout, stderr } = await execFileAsync('git', args, {
+      cwd,
+      env: env !== undefined ? { ...process.env, ...env } : undefined,
+      maxBuffer: 10 * 1024 * 1024,
+    });
+    return { stdout, stderr, exitCode: 0 };
+  } catch (error) {
+    const failure = error as { stdout?: string; stderr?: string; code?: number | string; message?: string };
+    return {
+      stdout: failure.stdout ?? '',
+      stderr: failure.stderr ?? failure.message ?? 'Unknown error',
+      exitCode: typeof failure.code === 'number' ? failure.code : 1,
+    };
+  }
+}
+
+/**
+ * Run a git command and return stdout, throwing with git's stderr on failure
+ */
+export async function git(args: string[], cwd: string, env?: NodeJS.ProcessEnv): Promise<string> {
+  const result = await runGit(args, cwd, env);
+
+  if (result.exitCode !== 0) {
+    throw new Error(`git ${args[0] ?? ''} failed: ${result.stderr.trim()}`);
+  }
+
+  return result.stdout;
+}
+
+/**
+ * Check if a directory is inside a git work tree
+ */
+export async function isGitRepository(cwd: string): Promise<boolean> {
+  const result = await runGit(['rev-parse', '--is-inside-work-tree'], cwd);
+  return result.exitCode === 0 && result.stdout.trim() === 'true';
+}
+
+/**
+ * Get the checked-out branch name
+ */
+export async function getCurrentBranch(cwd: string): Promise<string> {
+  return (await git(['rev-parse', '--abbrev-ref', 'HEAD'], cwd)).trim();
+}
+
+/**
+ * Get the commit hash HEAD points to
+ */
+export async function getHeadCommit(cwd: string): Promise<string> {
+  return (await git(['rev-parse', 'HEAD'], cwd)).trim();
+}
+
+/**
+ * Get the commit hash HEAD points to, or null outside a repository or before the first commit
+ */
+export async function findHeadCommit(cwd: string): Promise<string | null> {
+  const result = await runGit(['rev-parse', '--verify', '--quiet', 'HEAD'], cwd);
+  return result.exitCode === 0 ? result.stdout.trim() : null;
+}
+
+/**
+ * Add a pattern to .git/info/exclude so runtime files never show up as untracked
+ * Unlike .gitignore this does not touch any tracked file.
+ */
+export async function addGitExclude(cwd: string, pattern: string): Promise<void> {
+  const gitPath = (await git(['rev-parse', '--git-path', 'info/exclude'], cwd)).trim();
+  const excludePath = isAbsolute(gitPath) ? gitPath : join(cwd, gitPath);
+
+  let content = '';
+  try {
+    content = await readFile(excludePath, 'utf-8');
+  } catch {
+    // No exclude file yet
+  }
+
+  if (content.split('\n').some((line) => line.trim() === pattern)) {
+    return;
+  }
+
+  await ensureDirectory(dirname(excludePath));
+  const prefix = content === '' || content.endsWith('\n') ? '' : '\n';
+  await appendFile(excludePath, `${prefix}${pattern}\n`, 'utf-8');
+}
+
+/**
+ * Stash uncommitted changes, including untracked files, outside the excluded paths
+ * Returns true if anything was stashed.
+ */
+export async function stashChanges(
+  cwd: string,
+  message: string,
+  excludePaths: string[] = []
+): Promise<boolean> {
+  const pathspec = ['.', ...excludePaths.map((path) => `:(exclude)${path}`)];
+
+  const status = await git(['status', '--porcelain', '--untracked-files=all', '--', ...pathspec], cwd);
+  if (status.trim() === '') {
+    return false;
+  }
+
+  await git(['stash', 'push', '--include-untracked', '-m', message, '--', ...pathspec], cwd);
+  return true;
+}
+
+/**
+ * Excluded paths that `git add` still needs told about
+ * `git add` refuses an exclude naming an ignored path; `add -A` already skips those, unless some
+ * of their files are tracked.
+ */
+async function getAddExcludePaths(cwd: string, excludePaths: string[]): Promise<string[]> {
+  if (excludePaths.length === 0) {
+    return [];
+  }
+
+  const ignored = new Set(
+    (await runGit(['check-ignore', '--', ...excludePaths], cwd)).stdout
+      .split('\n')
+      .map((line) => line.trim())
+  );
+  const kept: string[] = [];
+  for (const path of excludePaths) {
+    if (!ignored.has(path) || (await git(['ls-files', '--', path], cwd)).trim() !== '') {
+      kept.push(path);
+    }
+  }
+  return kept;
+}
+
+/**
+ * Commit every change outside the excluded paths, untracked files included
+ * Hooks are skipped. Returns the commit hash, or null if there was nothing to commit.
+ */
+export async function commitChanges(
+  cwd: string,
+  message: string,
+  excludePaths: string[] = []
+): Promise<string | null> {
+  const excluded = await getAddExcludePaths(cwd, excludePaths);
+  const pathspec = ['.', ...excluded.map((path) => `:(exclude)${path}`)];
+  await git(['add', '-A', '--', ...pathspec], cwd);
+
+  const staged = await runGit(['diff', '--cached', '--quiet'], cwd);
+  if (staged.exitCode === 0) {
+    return null;
+  }
+
+  await git(['commit', '--no-verify', '-m', message], cwd);
+  return getHeadCommit(cwd);
+}
+
+/**
+ * Diff of all uncommitted changes against HEAD, untracked files included, outside the excluded paths
+ * The index is left untouched. Returns an empty string when nothing changed.
+ */
+export async function diffWorkingTree(cwd: string, excludePaths: string[] = []): Promise<string> {
+  const pathspec = ['.', ...excludePaths.map((path) => `:(exclude)${path}`)];
+  const parts: string[] = [];
+
+  if ((await findHeadCommit(cwd)) !== null) {
+    parts.push(await git(['diff', '--binary', 'HEAD', '--', ...pathspec], cwd));
+  }
+
+  const untracked = (
+    await git(['ls-files', '--others', '--exclude-standard', '-z', '--', ...pathspec], cwd)
+  )
+    .split('\0')
+    .filter((path) => path !== '');
+
+  for (const path of untracked) {
+    // --no-index exits 1 when the files differ, which they always do here
+    const result = await runGit(['diff', '--binary', '--no-index', '--', '/dev/null', path], cwd);
+    parts.push(result.stdout);
+  }
+
+  return parts.join('');
+}
+
+/**
+ * How a file changed
+ */
+export type FileChangeType = 'created' | 'modified' | 'deleted';
+
+/**
+ * Lines added and removed in one changed file
+ */
+export interface FileDiffStat {
+  path: string;
+  changeType: FileChangeType;
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+/**
+ * Parse a `git diff --numstat` line; binary files count as changed with no lines
+ */
+function parseNumstatLine(
+  line: string,
+  changeType: FileChangeType,
+  path?: string
+): FileDiffStat | null {
+  const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+  if (match === null) {
+    return null;
+  }
+  return {
+    path: path ?? match[3] ?? '',
+    changeType,
+    linesAdded: match[1] === '-' ? 0 : parseInt(match[1] ?? '0', 10),
+    linesRemoved: match[2] === '-' ? 0 : parseInt(match[2] ?? '0', 10),
+  };
+}
+
+/**
+ * Per-file line counts of a `git diff` between the given commits or trees
+ */
+async function diffRangeStats(
+  cwd: string,
+  range: string[],
+  pathspec: string[]
+): Promise<FileDiffStat[]> {
+  const statuses = new Map<string, FileChangeType>();
+  const nameStatus = await git(
+    ['diff', '--name-status', '--no-renames', ...range, '--', ...pathspec],
+    cwd
+  );
+  for (const line of nameStatus.split('\n')) {
+    const [status, path] = line.split('\t');
+    if (path !== undefined) {
+      statuses.set(path, status === 'A' ? 'created' : status === 'D' ? 'deleted' : 'modified');
+    }
+  }
+
+  const numstat = await git(
+    ['diff', '--numstat', '--no-renames', ...range, '--', ...pathspec],
+    cwd
+  );
+  return numstat.split('\n').flatMap((line) => {
+    const path = line.split('\t')[2];
+    const stat = parseNumstatLine(line, statuses.get(path ?? '') ?? 'modified');
+    return stat !== null ? [stat] : [];
+  });
+}
+
+/**
+ * Per-file line counts of everything that changed since a commit, committed or not, untracked
+ * files included, outside the excluded paths
+ * Without a base commit only untracked files count. Binary files count as changed with no lines.
+ */
+export async function diffStatsSince(
+  cwd: string,
+  baseCommit: string | null,
+  excludePaths: string[] = []
+): Promise<FileDiffStat[]> {
+  const pathspec = ['.', ...excludePaths.map((path) => `:(exclude)${path}`)];
+  const stats = baseCommit !== null ? await diffRangeStats(cwd, [baseCommit], pathspec) : [];
+
+  const untracked = (
+    await git(['ls-files', '--others', '--exclude-standard', '-z', '--', ...pathspec], cwd)
+  )
+    .split('\0')
+    .filter((path) => path !== '');
+
+  for (const path of untracked) {
+    const result = await runGit(['diff', '--numstat', '--no-index', '--', '/dev/null', path], cwd);
+    const stat = parseNumstatLine(result.stdout.trim(), 'created', path);
+    if (stat !== null) {
+      stats.push(stat);
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Per-file line counts of all uncommitted changes against HEAD, untracked files included,
+ * outside the excluded paths
+ */
+export async function diffWorkingTreeStats(
+  cwd: string,
+  excludePaths: string[] = []
+): Promise<FileDiffStat[]> {
+  return diffStatsSince(cwd, await findHeadCommit(cwd), excludePaths);
+}
+
+/**
+ * Working tree content saved as a git tree object, with the commit HEAD pointed to
+ */
+export interface WorkingTreeSnapshot {
+  tree: string;
+  head: string | null;
+}
+
+/**
+ * Save the working tree, untracked files included, without touching the index or the stash
+ * A throwaway copy of the index is used, so unchanged files are not hashed again.
+ */
+export async function snapshotWorkingTree(cwd: string): Promise<WorkingTreeSnapshot> {
+  const indexPath = (await git(['rev-parse', '--git-path', 'index'], cwd)).trim();
+  const tempIndex = join(tmpdir(), `kr-wiggum-index-${randomUUID()}`);
+  const env = { GIT_INDEX_FILE: tempIndex };
+
+  try {
+    try {
+      await copyFile(isAbsolute(indexPath) ? indexPath : join(cwd, indexPath), tempIndex);
+    } catch {
+      // No index before the first commit
+    }
+    await git(['add', '--all'], cwd, env);
+    const tree = (await git(['write-tree'], cwd, env)).trim();
+
+    return { tree, head: await findHeadCommit(cwd) };
+  } finally {
+    await rm(tempIndex, { force: true });
+  }
+}
+
+/**
+ * Diff of everything that changed since a snapshot, committed or not, untracked files included,
+ * outside the excluded paths
+ */
+export async function diffSinceSnapshot(
+  cwd: string,
+  snapshot: WorkingTreeSnapshot,
+  excludePaths: string[] = []
+): Promise<string> {
+  const pathspec = ['.', ...excludePaths.map((path) => `:(exclude)${path}`)];
+  const current = await snapshotWorkingTree(cwd);
+
+  return git(['diff', '--binary', snapshot.tree, current.tree, '--', ...pathspec], cwd);
+}
+
+/**
+ * Per-file line counts of everything that changed since a snapshot, committed or not, untracked
+ * files included, outside the excluded paths
+ * Changes that were already uncommitted when the snapshot was taken do not count.
+ */
+export async function diffStatsSinceSnapshot(
+  cwd: string,
+  snapshot: WorkingTreeSnapshot,
+  excludePaths: string[] = []
+): Promise<FileDiffStat[]> {
+  const pathspec = ['.', ...excludePaths.map((path) => `:(exclude)${path}`)];
+  const current = await snapshotWorkingTree(cwd);
+
+  return diffRangeStats(cwd, [snapshot.tree, current.tree], pathspec);
+}
+
+/**
+ * Put the working tree back the way a snapshot saw it, outside the excluded paths
+ * Commits made since are undone with a mixed reset; files created since are deleted.
+ * Returns the restored paths.
+ */
+export async function restoreSnapshot(
+  cwd: string,
+  snapshot: WorkingTreeSnapshot,
+  excludePaths: string[] = []
+): Promise<string[]> {
+  const pathspec = ['.', ...excludePaths.map((path) => `:(exclude)${path}`)];
+
+  if (snapshot.head !== null && (await findHeadCommit(cwd)) !== snapshot.head) {
+    await git(['reset', '--quiet', snapshot.head], cwd);
+  }
+
+  const current = await snapshotWorkingTree(cwd);
+  const diffArgs = ['--name-status', '--no-renames', '-z', snapshot.tree, current.tree];
+  const entries = (await git(['diff', ...diffArgs, '--', ...pathspec], cwd)).split('\0');
+
+  const created: string[] = [];
+  const changed: string[] = [];
+  for (let i = 0; i + 1 < entries.length; i += 2) {
+    const path = entries[i + 1] ?? '';
+    (entries[i] === 'A' ? created : changed).push(path);
+  }
+
+  for (const path of created) {
+    await rm(join(cwd, path), { force: true });
+  }
+  if (changed.length > 0) {
+    await git(
+      [
+        'restore',
+        `--source=${snapshot.tree}`,
+        '--worktree',
+        '--',
+        ...changed.map((path) => `:(literal)${path}`),
+      ],
+      cwd
+    );
+  }
+
+  return [...created, ...changed];
+}
@@ -0,0 +1,8 @@
+/**
+ * Git service
+ * Git CLI helpers and per-task worktree isolation
+ */
+
+// Re-export sub-modules
+export * from './git-client.js';
+export * from './worktree-manager.js';
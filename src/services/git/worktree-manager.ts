@@ -0,0 +1,263 @@
+/**
+ * Git worktree isolation for Workers
+ * Each task runs on its own branch in .ralph/worktrees/<task-id>, merged back after guardrails pass
+ */
+import { access, rm, symlink } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import {
+  addGitExclude,
+  commitChanges,
+  getCurrentBranch,
+  getHeadCommit,
+  git,
+  runGit,
+} from './git-client.js';
+
+const WORKTREES_DIR = join('.ralph', 'worktrees');
+const TASK_BRANCH_PREFIX = 'ralph/';
+
+/**
+ * Orchestration state and dependencies stay out of task branch commits
+ * The main checkout keeps its own copies, which a merge would otherwise overwrite.
+ */
+const TASK_COMMIT_EXCLUDE_PATHS = ['.ralph', '.agent', 'IMPLEMENTATION_PLAN.md', 'node_modules'];
+
+/**
+ * Pending operation per repository
+ * Concurrent Workers share one .git directory, so worktree and merge commands are serialized.
+ */
+const repositoryQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run an operation once all earlier operations on the same repository have settled
+ */
+async function withRepositoryLock<T>(basePath: string, operation: () => Promise<T>): Promise<T> {
+  const previous = repositoryQueues.get(basePath) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(operation);
+  repositoryQueues.set(basePath, current);
+
+  try {
+    return await current;
+  } finally {
+    if (repositoryQueues.get(basePath) === current) {
+      repositoryQueues.delete(basePath);
+    }
+  }
+}
+
+/**
+ * A task worktree checked out on its own branch
+ */
+export interface TaskWorktree {
+  taskId: string;
+  branch: string;
+  path: string;
+  baseBranch: string;
+  baseCommit: string;
+}
+
+/**
+ * Result of merging a task branch back into the base branch
+ */
+export interface WorktreeMergeResult {
+  success: boolean;
+  conflict: boolean;
+  conflictFiles: string[];
+  error?: string;
+}
+
+/**
+ * Options for creating a worktree
+ */
+export interface WorktreeCreateOptions {
+  /** Keep a worktree left behind by an interrupted Worker instead of starting fresh */
+  reuseExisting?: boolean;
+}
+
+/**
+ * Options for removing a worktree
+ */
+export interface WorktreeRemoveOptions {
+  /** Delete the task branch as well (default: false, kept for inspection) */
+  deleteBranch?: boolean;
+}
+
+/**
+ * Get the branch name used for a task
+ */
+export function getTaskBranchName(taskId: string): string {
+  return `${TASK_BRANCH_PREFIX}${taskId}`;
+}
+
+/**
+ * Check if a path exists
+ */
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Worktree manager for per-task Worker isolation
+ */
+export class WorktreeManager {
+  private readonly basePath: string;
+
+  constructor(basePath: string) {
+    this.basePath = basePath;
+  }
+
+  /**
+   * Get the worktree directory for a task
+   */
+  getWorktreePath(taskId: string): string {
+    return join(this.basePath, WORKTREES_DIR, taskId);
+  }
+
+  /**
+   * Create a fresh worktree for a task, branched from the current HEAD
+   * Leftovers from a previous attempt at the same task are discarded unless reuseExisting is set.
+   */
+  async create(taskId: string, options: WorktreeCreateOptions = {}): Promise<TaskWorktree> {
+    return withRepositoryLock(this.basePath, () => this.createUnlocked(taskId, options));
+  }
+
+  /**
+   * Create a worktree (caller holds the repository lock)
+   */
+  private async createUnlocked(
+    taskId: string,
+    options: WorktreeCreateOptions
+  ): Promise<TaskWorktree> {
+    const branch = getTaskBranchName(taskId);
+    const path = this.getWorktreePath(taskId);
+    const baseBranch = await getCurrentBranch(this.basePath);
+    const baseCommit = await getHeadCommit(this.basePath);
+
+    await addGitExclude(this.basePath, `/${WORKTREES_DIR}/`);
+
+    if (options.reuseExisting === true && (await pathExists(path))) {
+      const checkedOut = await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], path);
+      if (checkedOut.exitCode === 0 && checkedOut.stdout.trim() === branch) {
+        return { taskId, branch, path, baseBranch, baseCommit };
+      }
+    }
+
+    if (await pathExists(path)) {
+      await runGit(['worktree', 'remove', '--force', path], this.basePath);
+      await rm(path, { recursive: true, force: true });
+    }
+    await runGit(['worktree', 'prune'], this.basePath);
+
+    await git(['worktree', 'add', '-B', branch, path, baseCommit], this.basePath);
+
+    // Share installed dependencies so the Worker can build and test in the worktree
+    const nodeModules = join(this.basePath, 'node_modules');
+    if (await pathExists(nodeModules)) {
+      await symlink(nodeModules, join(path, 'node_modules'), 'dir');
+    }
+
+    return { taskId, branch, path, baseBranch, baseCommit };
+  }
+
+  /**
+   * Commit everything the Worker changed in its worktree, orchestration state aside
+   * Returns the commit hash, or null if the Worker changed nothing
+   */
+  async commit(worktree: TaskWorktree, message: string): Promise<string | null> {
+    return commitChanges(worktree.path, message, TASK_COMMIT_EXCLUDE_PATHS);
+  }
+
+  /**
+   * Merge a task branch back into its base branch
+   * On conflict the merge is aborted, so no conflict markers are left in the tree.
+   */
+  async merge(worktree: TaskWorktree, message?: string): Promise<WorktreeMergeResult> {
+    return withRepositoryLock(this.basePath, () => this.mergeUnlocked(worktree, message));
+  }
+
+  /**
+   * Merge a task branch (caller holds the repository lock)
+   */
+  private async mergeUnlocked(
+    worktree: TaskWorktree,
+    message?: string
+  ): Promise<WorktreeMergeResult> {
+    const currentBranch = await getCurrentBranch(this.basePath);
+    if (currentBranch !== worktree.baseBranch) {
+      return {
+        success: false,
+        conflict: false,
+        conflictFiles: [],
+        error: `Expected ${worktree.baseBranch} to be checked out, found ${currentBranch}`,
+      };
+    }
+
+    const result = await runGit(
+      ['merge', '--no-ff', '-m', message ?? `Merge ${worktree.branch}`, worktree.branch],
+      this.basePath
+    );
+
+    if (result.exitCode === 0) {
+      return { success: true, conflict: false, conflictFiles: [] };
+    }
+
+    const unmerged = await runGit(['diff', '--name-only', '--diff-filter=U'], this.basePath);
+    const conflictFiles = unmerged.stdout
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line !== '');
+
+    if (conflictFiles.length > 0) {
+      await runGit(['merge', '--abort'], this.basePath);
+      return { success: false, conflict: true, conflictFiles };
+    }
+
+    return {
+      success: false,
+      conflict: false,
+      conflictFiles: [],
+      error: (result.stderr.trim() !== '' ? result.stderr : result.stdout).trim(),
+    };
+  }
+
+  /**
+   * Remove a task worktree
+   */
+  async remove(worktree: TaskWorktree, options: WorktreeRemoveOptions = {}): Promise<void> {
+    await withRepositoryLock(this.basePath, async () => {
+      await runGit(['worktree', 'remove', '--force', worktree.path], this.basePath);
+      await rm(worktree.path, { recursive: true, force: true });
+      await runGit(['worktree', 'prune'], this.basePath);
+
+      if (options.deleteBranch === true) {
+        await runGit(['branch', '-D', worktree.branch], this.basePath);
+      }
+    });
+  }
+
+  /**
+   * Throw away a task's worktree and branch, e.g. left behind by an interrupted Worker
+   */
+  async discard(taskId: string): Promise<void> {
+    await withRepositoryLock(this.basePath, async () => {
+      const path = this.getWorktreePath(taskId);
+      await runGit(['worktree', 'remove', '--force', path], this.basePath);
+      await rm(path, { recursive: true, force: true });
+      await runGit(['worktree', 'prune'], this.basePath);
+      await runGit(['branch', '-D', getTaskBranchName(taskId)], this.basePath);
+    });
+  }
+}
+
+/**
+ * Create a worktree manager instance
+ */
+export function createWorktreeManager(basePath: string): WorktreeManager {
+  return new WorktreeManager(basePath);
+}
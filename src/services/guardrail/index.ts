@@ -2,7 +2,7 @@
  * Guardrail orchestrator
  * Runs all checks, returns unified status, updates telemetry
  */
-import type { GuardrailStatus } from '../../schemas/index.js';
+import type { GuardrailStatus, ProjectGuardrails } from '../../schemas/index.js';
 import { createTelemetryManager } from '../../state/index.js';
 import type {
   GuardrailResult,
@@ -78,6 +78,19 @@ const DEFAULT_CONFIG: GuardrailConfig = {
   },
 };
 
+/**
+ * Guardrail configuration for a project's kr-wiggum.config.json guardrails section
+ * Checks and coverage thresholds come from the project; the rest keeps the defaults.
+ */
+export function getGuardrailConfig(guardrails: ProjectGuardrails): GuardrailConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    typescript: { ...DEFAULT_CONFIG.typescript, enabled: guardrails.typescript },
+    tests: { enabled: guardrails.tests, coverageThreshold: { ...guardrails.coverage_threshold } },
+    krStandards: { ...DEFAULT_CONFIG.krStandards, enabled: guardrails.kr_standards },
+  };
+}
+
 /**
  * Determine overall guardrail status from individual results
  */
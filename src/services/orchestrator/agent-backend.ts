@@ -0,0 +1,416 @@
+/**
+ * Agent backends
+ * Every Manager and Worker session runs through an AgentBackend: the Claude CLI,
+ * any command that reads its prompt on stdin, or a scripted replay for offline runs
+ */
+import { spawn } from 'node:child_process';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { z } from 'zod';
+
+import { TokenUsageSchema, type TokenUsage } from '../../schemas/index.js';
+import { ensureDirectory } from '../../state/index.js';
+import { EXIT_CODES } from '../../types/index.js';
+
+import {
+  armSessionTimeout,
+  mapProcessExitCode,
+  spawnClaude,
+  type ClaudeSpawnResult,
+} from './claude-spawner.js';
+
+/**
+ * Agent role a session is started for
+ */
+export type AgentRole = 'manager' | 'worker';
+
+/**
+ * A single agent session request
+ */
+export interface AgentRunRequest {
+  role: AgentRole;
+  /** Task the Worker is assigned (Workers only) */
+  taskId?: string;
+  prompt: string;
+  cwd: string;
+  timeout?: number;
+  /** Time to checkpoint between the timeout nudge and the hard kill */
+  gracePeriod?: number;
+  /** Message the timeout nudge sends, for sessions that still read stdin */
+  timeoutNotice?: string;
+  allowedTools?: string[];
+  onOutput?: (data: string) => void;
+  /** Called with the session's PID once it has started (process backends only) */
+  onSpawn?: (pid: number) => void;
+  /** Called with each turn's token usage, for backends that report it */
+  onUsage?: (usage: TokenUsage) => void;
+  env?: Record<string, string>;
+}
+
+/**
+ * Agent session result
+ */
+export type AgentRunResult = ClaudeSpawnResult;
+
+/**
+ * Backend that runs agent sessions
+ */
+export interface AgentBackend {
+  readonly name: string;
+  run(request: AgentRunRequest): Promise<AgentRunResult>;
+}
+
+/**
+ * Backend selection, as given on the command line
+ */
+export type AgentBackendConfig =
+  | { type: 'claude' }
+  | { type: 'command'; command: string; args?: string[] }
+  | { type: 'scripted'; scriptPath: string };
+
+/**
+ * Claude Code CLI backend (`claude --print`)
+ */
+export class ClaudeCliBackend implements AgentBackend {
+  readonly name = 'claude';
+
+  async run(request: AgentRunRequest): Promise<AgentRunResult> {
+    return spawnClaude({
+      prompt: request.prompt,
+      cwd: request.cwd,
+      timeout: request.timeout,
+      gracePeriod: request.gracePeriod,
+      timeoutNotice: request.timeoutNotice,
+      allowedTools: request.allowedTools,
+      onOutput: request.onOutput,
+      onSpawn: request.onSpawn,
+      onUsage: request.onUsage,
+      env: request.env,
+    });
+  }
+}
+
+/**
+ * Generic backend for any command that reads the prompt on stdin
+ * The command sees the session role and task in KR_WIGGUM_ROLE / KR_WIGGUM_TASK_ID.
+ */
+export class StdinCommandBackend implements AgentBackend {
+  readonly name: string;
+  private readonly command: string;
+  private readonly args: string[];
+
+  constructor(command: string, args: string[] = []) {
+    this.command = command;
+    this.args = args;
+    this.name = `command:${command}`;
+  }
+
+  async run(request: AgentRunRequest): Promise<AgentRunResult> {
+    const {
+      prompt,
+      cwd,
+      timeout = 600000,
+      gracePeriod,
+      timeoutNotice,
+      onOutput,
+      onSpawn,
+      env = {},
+    } = request;
+
+    return new Promise((resolve) => {
+      const start = Date.now();
+      let stdout = '';
+      let stderr = '';
+
+      const child = spawn(this.command, this.args, {
+        cwd,
+        env: {
+          ...process.env,
+          ...env,
+          KR_WIGGUM_ROLE: request.role,
+          KR_WIGGUM_TASK_ID: request.taskId ?? '',
+          CI: 'true',
+        },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      if (child.pid !== undefined) {
+        onSpawn?.(child.pid);
+      }
+
+      // Commands that exit without reading stdin would otherwise raise EPIPE
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.write(prompt);
+      child.stdin?.end();
+
+      // stdin is closed by now, so the nudge is a SIGINT the command can trap to checkpoint
+      const sessionTimeout = armSessionTimeout(child, {
+        timeout,
+        gracePeriod,
+        notice: timeoutNotice,
+      });
+
+      child.stdout?.on('data', (data: Buffer) => {
+        const str = data.toString();
+        stdout += str;
+        onOutput?.(str);
+      });
+
+      child.stderr?.on('data', (data: Buffer) => {
+        const str = data.toString();
+        stderr += str;
+        onOutput?.(str);
+      });
+
+      child.on('close', (code) => {
+        sessionTimeout.clear();
+        const timedOut = sessionTimeout.isTimedOut();
+        const exitCode = mapProcessExitCode(code, timedOut);
+
+        resolve({
+          pid: child.pid ?? 0,
+          exitCode,
+          stdout,
+          stderr,
+          duration: Date.now() - start,
+          success: exitCode === EXIT_CODES.SUCCESS,
+          timedOut,
+        });
+      });
+
+      child.on('error', (error) => {
+        sessionTimeout.clear();
+        resolve({
+          pid: child.pid ?? 0,
+          exitCode: EXIT_CODES.CRASH,
+          stdout,
+          stderr: stderr + '\nSpawn error: ' + error.message,
+          duration: Date.now() - start,
+          success: false,
+          timedOut: false,
+        });
+      });
+    });
+  }
+}
+
+/**
+ * One scripted agent session
+ * `content: null` deletes the file; paths are relative to the session's cwd
+ */
+export const ScriptedStepSchema = z.object({
+  role: z.enum(['manager', 'worker']),
+  taskId: z.string().optional(),
+  edits: z
+    .array(
+      z.object({
+        path: z.string().min(1),
+        content: z.string().nullable(),
+      })
+    )
+    .default([]),
+  exitCode: z.number().int(),
+  stdout: z.string().default(''),
+  stderr: z.string().default(''),
+  /** Token usage reported turn by turn, as the Claude CLI would in stream-json mode */
+  usage: z.array(TokenUsageSchema).optional(),
+  /** Replay the session as one that ran into its timeout (edits are left as partial work) */
+  timedOut: z.boolean().optional(),
+});
+
+export const ScriptedBackendScriptSchema = z.object({
+  steps: z.array(ScriptedStepSchema),
+});
+
+export type ScriptedStep = z.infer<typeof ScriptedStepSchema>;
+export type ScriptedBackendScript = z.infer<typeof ScriptedBackendScriptSchema>;
+
+/**
+ * Deterministic backend that replays canned file edits and exit codes
+ * Each session consumes the first unused step matching its role (and task, if the
+ * step names one). Sessions with no matching step crash.
+ */
+export class ScriptedBackend implements AgentBackend {
+  readonly name = 'scripted';
+  private readonly steps: ScriptedStep[];
+  private readonly used: boolean[];
+
+  constructor(script: ScriptedBackendScript) {
+    this.steps = script.steps;
+    this.used = script.steps.map(() => false);
+  }
+
+  async run(request: AgentRunRequest): Promise<AgentRunResult> {
+    const start = Date.now();
+    const index = this.steps.findIndex(
+      (step, i) =>
+        !this.used[i] &&
+        step.role === request.role &&
+        (step.taskId === undefined || step.taskId === request.taskId)
+    );
+    const step = this.steps[index];
+
+    if (step === undefined) {
+      const target = request.taskId !== undefined ? ` for ${request.taskId}` : '';
+      return {
+        pid: 0,
+        exitCode: EXIT_CODES.CRASH,
+        stdout: '',
+        stderr: `No scripted ${request.role} step left${target}`,
+        duration: Date.now() - start,
+        success: false,
+        timedOut: false,
+      };
+    }
+
+    this.used[index] = true;
+
+    for (const edit of step.edits) {
+      const filePath = join(request.cwd, edit.path);
+      if (edit.content === null) {
+        await rm(filePath, { force: true });
+      } else {
+        await ensureDirectory(dirname(filePath));
+        await writeFile(filePath, edit.content, 'utf-8');
+      }
+    }
+
+    for (const usage of step.usage ?? []) {
+      request.onUsage?.(usage);
+    }
+
+    if (step.stdout !== '') {
+      request.onOutput?.(step.stdout);
+    }
+    if (step.stderr !== '') {
+      request.onOutput?.(step.stderr);
+    }
+
+    const timedOut = step.timedOut === true;
+    const exitCode = mapProcessExitCode(step.exitCode, timedOut);
+
+    return {
+      pid: 0,
+      exitCode,
+      stdout: step.stdout,
+      stderr: step.stderr,
+      duration: Date.now() - start,
+      success: exitCode === EXIT_CODES.SUCCESS,
+      timedOut,
+      usage: step.usage?.[step.usage.length - 1],
+    };
+  }
+
+  /**
+   * Number of scripted steps not yet replayed
+   */
+  getRemainingSteps(): number {
+    return this.used.filter((used) => !used).length;
+  }
+}
+
+/**
+ * Load a scripted backend from a JSON script file
+ */
+export async function loadScriptedBackend(scriptPath: string): Promise<ScriptedBackend> {
+  const content = await readFile(scriptPath, 'utf-8');
+  const result = ScriptedBackendScriptSchema.safeParse(JSON.parse(content));
+
+  if (!result.success) {
+    throw new Error(`Invalid agent script ${scriptPath}: ${result.error.message}`);
+  }
+
+  return new ScriptedBackend(result.data);
+}
+
+/**
+ * Default backend shared by Managers and Workers that are not given one
+ */
+const defaultBackend = new ClaudeCliBackend();
+
+/**
+ * Get the default (Claude CLI) backend
+ */
+export function getDefaultAgentBackend(): AgentBackend {
+  return defaultBackend;
+}
+
+/**
+ * Create an agent backend from its configuration
+ */
+export async function createAgentBackend(config: AgentBackendConfig): Promise<AgentBackend> {
+  switch (config.type) {
+    case 'claude':
+      return defaultBackend;
+    case 'command':
+      return new StdinCommandBackend(config.command, config.args);
+    case 'scripted':
+      return loadScriptedBackend(config.scriptPath);
+  }
+}
+
+/**
+ * Join a command and its arguments into one `--backend-command` value
+ * Values with whitespace, quotes or backslashes are single-quoted so parseBackendCommand gives
+ * them back unchanged.
+ */
+export function formatBackendCommand(command: string, args: string[] = []): string {
+  return [command, ...args]
+    .map((value) => (/^[^\s'"\\]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`))
+    .join(' ');
+}
+
+/**
+ * Split a `--backend-command` value into the command and its arguments
+ * Whitespace separates values except inside single or double quotes; a backslash outside single
+ * quotes escapes the next character.
+ */
+export function parseBackendCommand(commandLine: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inValue = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < commandLine.length; i++) {
+    const char = commandLine.charAt(i);
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '\\' && i + 1 < commandLine.length) {
+      current += commandLine.charAt(++i);
+      inValue = true;
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inValue = true;
+    } else if (/\s/.test(char)) {
+      if (inValue) {
+        values.push(current);
+        current = '';
+        inValue = false;
+      }
+    } else {
+      current += char;
+      inValue = true;
+    }
+  }
+
+  if (quote !== null) {
+    throw new Error(`Unterminated ${quote} quote in backend command: ${commandLine}`);
+  }
+  if (inValue) {
+    values.push(current);
+  }
+
+  return values;
+}
@@ -2,11 +2,19 @@
  * Claude Code CLI spawner
  * Spawns Claude Code sessions with prompts for Worker/Manager agents
  */
-import { spawn } from 'node:child_process';
+import { spawn, type ChildProcess } from 'node:child_process';
 
+import type { TokenUsage } from '../../schemas/index.js';
 import { EXIT_CODES, type ExitCode } from '../../types/index.js';
 
 import { ensureClaudeCli } from './cli-detector.js';
+import { createStreamJsonParser } from './stream-json-parser.js';
+
+/**
+ * CLI output format
+ * stream-json reports token usage per turn; stdout is still returned as plain text.
+ */
+export type ClaudeOutputFormat = 'text' | 'stream-json';
 
 /**
  * Claude spawn configuration
@@ -18,10 +26,20 @@ export interface ClaudeSpawnConfig {
   cwd: string;
   /** Timeout in milliseconds (default: 10 minutes) */
   timeout?: number;
+  /** Time the session gets to checkpoint after the timeout nudge before it is killed */
+  gracePeriod?: number;
+  /** Message written to the session's stdin when the timeout nudge fires */
+  timeoutNotice?: string;
   /** Allowed tools (if restricted) */
   allowedTools?: string[];
   /** Callback for output streaming */
   onOutput?: (data: string) => void;
+  /** Called with the PID once the process has started */
+  onSpawn?: (pid: number) => void;
+  /** Output format (default: text, or stream-json when onUsage is set) */
+  outputFormat?: ClaudeOutputFormat;
+  /** Called with each turn's token usage (stream-json only) */
+  onUsage?: (usage: TokenUsage) => void;
   /** Environment variables to pass */
   env?: Record<string, string>;
 }
@@ -44,20 +62,175 @@ export interface ClaudeSpawnResult {
   success: boolean;
   /** Whether the session timed out */
   timedOut: boolean;
+  /** Token usage of the last turn, when the CLI reported it */
+  usage?: TokenUsage;
+}
+
+/**
+ * Default time a session gets between the timeout nudge and the hard kill
+ */
+export const DEFAULT_TIMEOUT_GRACE_PERIOD_MS = 30000;
+
+/**
+ * Default timeout nudge
+ */
+export const DEFAULT_TIMEOUT_NOTICE =
+  'TIMEOUT: your time for this session is up. Stop making changes, checkpoint your progress and exit.';
+
+/**
+ * Two-phase session timeout
+ */
+export interface SessionTimeoutOptions {
+  timeout: number;
+  gracePeriod?: number;
+  notice?: string;
+  /** Called when the nudge fires */
+  onNudge?: () => void;
+}
+
+/**
+ * Handle on an armed session timeout
+ */
+export interface SessionTimeout {
+  isTimedOut(): boolean;
+  clear(): void;
+}
+
+/**
+ * Arm a two-phase timeout on a session process
+ *
+ * 1. After `timeout` the session is nudged: the notice is written to its stdin if that is
+ *    still open, otherwise it is sent SIGINT
+ * 2. After `gracePeriod` more it is killed with SIGKILL
+ */
+export function armSessionTimeout(child: ChildProcess, options: SessionTimeoutOptions): SessionTimeout {
+  const {
+    timeout,
+    gracePeriod = DEFAULT_TIMEOUT_GRACE_PERIOD_MS,
+    notice = DEFAULT_TIMEOUT_NOTICE,
+    onNudge,
+  } = options;
+  let timedOut = false;
+  let killTimer: NodeJS.Timeout | undefined;
+
+  const nudgeTimer = setTimeout(() => {
+    timedOut = true;
+    onNudge?.();
+
+    if (child.stdin?.writable === true) {
+      // The session may exit before reading it
+      child.stdin.on('error', () => undefined);
+      child.stdin.write(`\n${notice}\n`);
+    } else {
+      child.kill('SIGINT');
+    }
+
+    killTimer = setTimeout(() => {
+      child.kill('SIGKILL');
+    }, gracePeriod);
+  }, timeout);
+
+  return {
+    isTimedOut: () => timedOut,
+    clear: (): void => {
+      clearTimeout(nudgeTimer);
+      clearTimeout(killTimer);
+    },
+  };
+}
+
+/**
+ * Collects stdout, decoding stream-json into text and usage when requested
+ */
+interface StdoutCollector {
+  push(chunk: string): void;
+  finish(): CollectedOutput;
+}
+
+/**
+ * Output collected once the process has exited
+ */
+interface CollectedOutput {
+  stdout: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Resolve the output format for a spawn config
+ */
+function getOutputFormat(config: ClaudeSpawnConfig): ClaudeOutputFormat {
+  return config.outputFormat ?? (config.onUsage !== undefined ? 'stream-json' : 'text');
+}
+
+/**
+ * CLI flags for an output format (stream-json requires --verbose with --print)
+ */
+function getOutputFormatArgs(outputFormat: ClaudeOutputFormat): string[] {
+  return outputFormat === 'stream-json' ? ['--output-format', 'stream-json', '--verbose'] : [];
+}
+
+/**
+ * Create a stdout collector for a spawn config
+ */
+function createStdoutCollector(config: ClaudeSpawnConfig): StdoutCollector {
+  const { onOutput, onUsage } = config;
+
+  if (getOutputFormat(config) === 'text') {
+    let stdout = '';
+    return {
+      push: (chunk): void => {
+        stdout += chunk;
+        onOutput?.(chunk);
+      },
+      finish: () => ({ stdout }),
+    };
+  }
+
+  const parser = createStreamJsonParser({ onText: onOutput, onUsage });
+  return {
+    push: (chunk) => parser.push(chunk),
+    finish: (): CollectedOutput => {
+      parser.end();
+      return { stdout: parser.getText(), usage: parser.getUsage() ?? undefined };
+    },
+  };
+}
+
+/**
+ * Map a raw process exit code onto the engine's exit codes
+ * Timeouts, signals and unknown codes are all treated as crashes.
+ */
+export function mapProcessExitCode(code: number | null, timedOut: boolean): ExitCode {
+  if (timedOut || code === null) {
+    return EXIT_CODES.CRASH;
+  }
+
+  switch (code) {
+    case EXIT_CODES.SUCCESS:
+    case EXIT_CODES.TASK_FAILED:
+    case EXIT_CODES.ROTATION_NEEDED:
+    case EXIT_CODES.HUMAN_INTERVENTION:
+      return code;
+    default:
+      return EXIT_CODES.CRASH;
+  }
 }
 
 /**
  * Spawn a Claude Code CLI session
  *
- * Uses `claude --print` for non-interactive mode with prompt via stdin
+ * Uses `claude --print` for non-interactive mode with the prompt as an argument
  */
 export async function spawnClaude(config: ClaudeSpawnConfig): Promise<ClaudeSpawnResult> {
   const {
     prompt,
     cwd,
     timeout = 600000, // 10 minutes default
+    gracePeriod,
+    timeoutNotice,
     allowedTools,
     onOutput,
+    onSpawn,
     env = {},
   } = config;
 
@@ -66,12 +239,11 @@ export async function spawnClaude(config: ClaudeSpawnConfig): Promise<ClaudeSpaw
 
   return new Promise((resolve) => {
     const start = Date.now();
-    let stdout = '';
+    const collector = createStdoutCollector(config);
     let stderr = '';
-    let timedOut = false;
 
     // Build arguments
-    const args: string[] = ['--print'];
+    const args: string[] = ['--print', ...getOutputFormatArgs(getOutputFormat(config))];
 
     // Add allowed tools if specified
     if (allowedTools !== undefined && allowedTools.length > 0) {
@@ -93,17 +265,19 @@ export async function spawnClaude(config: ClaudeSpawnConfig): Promise<ClaudeSpaw
       stdio: ['pipe', 'pipe', 'pipe'],
     });
 
-    // Set timeout
-    const timer = setTimeout(() => {
-      timedOut = true;
-      child.kill('SIGTERM');
-    }, timeout);
+    if (child.pid !== undefined) {
+      onSpawn?.(child.pid);
+    }
+
+    // The CLI never reads stdin in --print mode with a prompt argument
+    child.stdin?.end();
+
+    // stdin is closed by now, so the nudge is a SIGINT, then a kill after the grace period
+    const sessionTimeout = armSessionTimeout(child, { timeout, gracePeriod, notice: timeoutNotice });
 
     // Capture stdout
     child.stdout?.on('data', (data: Buffer) => {
-      const str = data.toString();
-      stdout += str;
-      onOutput?.(str);
+      collector.push(data.toString());
     });
 
     // Capture stderr
@@ -115,30 +289,16 @@ export async function spawnClaude(config: ClaudeSpawnConfig): Promise<ClaudeSpaw
 
     // Handle exit
     child.on('close', (code) => {
-      clearTimeout(timer);
+      sessionTimeout.clear();
+      const timedOut = sessionTimeout.isTimedOut();
 
       // Map exit code
-      let exitCode: ExitCode;
-      if (timedOut) {
-        exitCode = EXIT_CODES.CRASH;
-      } else if (code === null) {
-        exitCode = EXIT_CODES.CRASH;
-      } else if (code === 0) {
-        exitCode = EXIT_CODES.SUCCESS;
-      } else if (code === 1) {
-        exitCode = EXIT_CODES.TASK_FAILED;
-      } else if (code === 10) {
-        exitCode = EXIT_CODES.ROTATION_NEEDED;
-      } else if (code === 20) {
-        exitCode = EXIT_CODES.HUMAN_INTERVENTION;
-      } else {
-        exitCode = EXIT_CODES.CRASH;
-      }
+      const exitCode = mapProcessExitCode(code, timedOut);
 
       resolve({
         pid: child.pid ?? 0,
         exitCode,
-        stdout,
+        ...collector.finish(),
         stderr,
         duration: Date.now() - start,
         success: exitCode === EXIT_CODES.SUCCESS,
@@ -148,11 +308,11 @@ export async function spawnClaude(config: ClaudeSpawnConfig): Promise<ClaudeSpaw
 
     // Handle spawn errors
     child.on('error', (error) => {
-      clearTimeout(timer);
+      sessionTimeout.clear();
       resolve({
         pid: child.pid ?? 0,
         exitCode: EXIT_CODES.CRASH,
-        stdout,
+        ...collector.finish(),
         stderr: stderr + '\nSpawn error: ' + error.message,
         duration: Date.now() - start,
         success: false,
@@ -170,8 +330,11 @@ export async function spawnClaudeWithStdin(config: ClaudeSpawnConfig): Promise<C
     prompt,
     cwd,
     timeout = 600000,
+    gracePeriod,
+    timeoutNotice,
     allowedTools,
     onOutput,
+    onSpawn,
     env = {},
   } = config;
 
@@ -180,12 +343,11 @@ export async function spawnClaudeWithStdin(config: ClaudeSpawnConfig): Promise<C
 
   return new Promise((resolve) => {
     const start = Date.now();
-    let stdout = '';
+    const collector = createStdoutCollector(config);
     let stderr = '';
-    let timedOut = false;
 
     // Build arguments
-    const args: string[] = ['--print'];
+    const args: string[] = ['--print', ...getOutputFormatArgs(getOutputFormat(config))];
 
     // Add allowed tools if specified
     if (allowedTools !== undefined && allowedTools.length > 0) {
@@ -203,21 +365,20 @@ export async function spawnClaudeWithStdin(config: ClaudeSpawnConfig): Promise<C
       stdio: ['pipe', 'pipe', 'pipe'],
     });
 
+    if (child.pid !== undefined) {
+      onSpawn?.(child.pid);
+    }
+
     // Write prompt to stdin
     child.stdin?.write(prompt);
     child.stdin?.end();
 
-    // Set timeout
-    const timer = setTimeout(() => {
-      timedOut = true;
-      child.kill('SIGTERM');
-    }, timeout);
+    // Nudge the session to checkpoint, then kill it after the grace period
+    const sessionTimeout = armSessionTimeout(child, { timeout, gracePeriod, notice: timeoutNotice });
 
     // Capture stdout
     child.stdout?.on('data', (data: Buffer) => {
-      const str = data.toString();
-      stdout += str;
-      onOutput?.(str);
+      collector.push(data.toString());
     });
 
     // Capture stderr
@@ -229,29 +390,15 @@ export async function spawnClaudeWithStdin(config: ClaudeSpawnConfig): Promise<C
 
     // Handle exit
     child.on('close', (code) => {
-      clearTimeout(timer);
-
-      let exitCode: ExitCode;
-      if (timedOut) {
-        exitCode = EXIT_CODES.CRASH;
-      } else if (code === null) {
-        exitCode = EXIT_CODES.CRASH;
-      } else if (code === 0) {
-        exitCode = EXIT_CODES.SUCCESS;
-      } else if (code === 1) {
-        exitCode = EXIT_CODES.TASK_FAILED;
-      } else if (code === 10) {
-        exitCode = EXIT_CODES.ROTATION_NEEDED;
-      } else if (code === 20) {
-        exitCode = EXIT_CODES.HUMAN_INTERVENTION;
-      } else {
-        exitCode = EXIT_CODES.CRASH;
-      }
+      sessionTimeout.clear();
+      const timedOut = sessionTimeout.isTimedOut();
+
+      const exitCode = mapProcessExitCode(code, timedOut);
 
       resolve({
         pid: child.pid ?? 0,
         exitCode,
-        stdout,
+        ...collector.finish(),
         stderr,
         duration: Date.now() - start,
         success: exitCode === EXIT_CODES.SUCCESS,
@@ -261,11 +408,11 @@ export async function spawnClaudeWithStdin(config: ClaudeSpawnConfig): Promise<C
 
     // Handle spawn errors
     child.on('error', (error) => {
-      clearTimeout(timer);
+      sessionTimeout.clear();
       resolve({
         pid: child.pid ?? 0,
         exitCode: EXIT_CODES.CRASH,
-        stdout,
+        ...collector.finish(),
         stderr: stderr + '\nSpawn error: ' + error.message,
         duration: Date.now() - start,
         success: false,
@@ -0,0 +1,308 @@
+/**
+ * Dry run of the orchestration loop
+ * Walks the plan in the order Workers would get it, writes every prompt to .ralph/dry-run/
+ * and estimates tokens and cost - no agent is ever spawned
+ */
+import { rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { generateManagerPrompt, generateWorkerPrompt } from '../../prompts/index.js';
+import type { ProjectConfig, TaskSelectionPolicyName } from '../../schemas/index.js';
+import {
+  createImplementationPlanManager,
+  ensureDirectory,
+  isTaskRemaining,
+  validateTaskGraph,
+} from '../../state/index.js';
+import { listFailedAttemptPatches } from '../shift-manager/failed-attempt-archive.js';
+import {
+  loadFailedAttempts,
+  resolveSelectionPolicy,
+  resolveTaskOrder,
+  type TaskSelectionPolicy,
+} from '../shift-manager/selection-policy.js';
+import { formatCurrentTaskFile } from '../shift-manager/task-selector.js';
+
+import { MANAGER_MAX_TASKS_BEFORE_ROTATION } from './manager-lifecycle.js';
+import { WORKER_MAX_RETRIES } from './worker-spawner.js';
+
+const DRY_RUN_DIR = join('.ralph', 'dry-run');
+const HANDOFF_FILE = '.agent/SHIFT_HANDOFF.md';
+
+/**
+ * Assumptions behind the token and cost estimate
+ */
+export interface DryRunCostModel {
+  /** Context a Worker reads on top of its prompt (PRD, specs, source files, build output) */
+  workerContextTokens: number;
+  workerOutputTokens: number;
+  /** Manager context spent per task it hands out */
+  managerTokensPerTask: number;
+  managerOutputTokensPerTask: number;
+  /** USD per million input tokens */
+  inputCostPerMillion: number;
+  /** USD per million output tokens */
+  outputCostPerMillion: number;
+}
+
+/**
+ * Default cost model
+ */
+export const DEFAULT_DRY_RUN_COST_MODEL: DryRunCostModel = {
+  workerContextTokens: 40000,
+  workerOutputTokens: 8000,
+  managerTokensPerTask: 4000,
+  managerOutputTokensPerTask: 1000,
+  inputCostPerMillion: 3,
+  outputCostPerMillion: 15,
+};
+
+/**
+ * Dry run options
+ */
+export interface DryRunOptions {
+  basePath: string;
+  projectId?: string;
+  costModel?: Partial<DryRunCostModel>;
+  /** Selection policy of the run being simulated (default: by ID) */
+  selectionPolicy?: TaskSelectionPolicyName | TaskSelectionPolicy;
+  /** Commands, retries and paths the Worker prompts should carry */
+  projectConfig?: ProjectConfig;
+}
+
+/**
+ * A task as the dry run would hand it to a Worker
+ */
+export interface DryRunTask {
+  /** Position in the run, starting at 1 */
+  order: number;
+  taskId: string;
+  title: string;
+  layer: number;
+  /** Manager session (starting at 1) that hands out the task */
+  managerSession: number;
+  workerPromptPath: string;
+  currentTaskPath: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Token and cost estimate
+ */
+export interface DryRunEstimate {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Dry run result
+ */
+export interface DryRunResult {
+  outputDir: string;
+  summaryPath: string;
+  tasks: DryRunTask[];
+  managerPromptPaths: string[];
+  /** Tasks left out because they are already checked off */
+  completedTasks: number;
+  /** Tasks left out because they are quarantined */
+  blockedTasks: number;
+  /** Tasks left out because they are marked skipped */
+  skippedTasks: number;
+  /** Pending tasks that never become ready (prerequisites blocked, unknown or cyclic) */
+  unreachableTasks: string[];
+  /** Problems in the `(after: ...)` prerequisites */
+  dependencyIssues: string[];
+  estimate: DryRunEstimate;
+}
+
+/**
+ * Rough token count of a prompt
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Simulate the orchestration loop
+ * Prompts reference the paths a real run would use; the dry run writes its copies of the
+ * prompts and current-task files under .ralph/dry-run/ instead.
+ */
+export async function runDryRun(options: DryRunOptions): Promise<DryRunResult> {
+  const { basePath, projectId, projectConfig } = options;
+  const costModel = { ...DEFAULT_DRY_RUN_COST_MODEL, ...options.costModel };
+  const outputDir = join(basePath, DRY_RUN_DIR);
+
+  const planManager = createImplementationPlanManager(basePath);
+  const allTasks = planManager.parseTasks(await planManager.read());
+  const policy = resolveSelectionPolicy(options.selectionPolicy);
+  const ordered = resolveTaskOrder(allTasks, policy, await loadFailedAttempts(basePath));
+
+  // Stale prompts from an earlier dry run would be misleading
+  await rm(outputDir, { recursive: true, force: true });
+  await ensureDirectory(outputDir);
+
+  const managerSessions = Math.max(
+    1,
+    Math.ceil(ordered.length / MANAGER_MAX_TASKS_BEFORE_ROTATION)
+  );
+  const managerPromptPaths: string[] = [];
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (let session = 1; session <= managerSessions; session++) {
+    const firstTask = (session - 1) * MANAGER_MAX_TASKS_BEFORE_ROTATION;
+    const prompt = generateManagerPrompt({
+      basePath,
+      handoffPath: session > 1 ? HANDOFF_FILE : undefined,
+      projectId,
+      implementationPlanPath: 'IMPLEMENTATION_PLAN.md',
+      maxTasksBeforeRotation: MANAGER_MAX_TASKS_BEFORE_ROTATION,
+      selectionPolicy: policy.name,
+      taskOrder: ordered
+        .slice(firstTask, firstTask + MANAGER_MAX_TASKS_BEFORE_ROTATION)
+        .map((task) => task.id),
+    });
+
+    const promptPath = join(outputDir, `manager-${session}-prompt.md`);
+    await writeFile(promptPath, prompt, 'utf-8');
+    managerPromptPaths.push(promptPath);
+    inputTokens += estimateTokens(prompt);
+  }
+
+  const tasks: DryRunTask[] = [];
+  for (const [index, task] of ordered.entries()) {
+    const taskDir = join(outputDir, task.id);
+    await ensureDirectory(taskDir);
+
+    const contextPath = join(basePath, '.ralph', 'context', `${task.id}.md`);
+    const failedAttemptPatches = await listFailedAttemptPatches(basePath, task.id);
+    const currentTask = formatCurrentTaskFile(
+      task,
+      contextPath,
+      failedAttemptPatches.map((patchPath) => join(basePath, patchPath)),
+      projectConfig?.commands
+    );
+    const currentTaskPath = join(taskDir, 'current-task.md');
+    await writeFile(currentTaskPath, currentTask, 'utf-8');
+
+    const prompt = generateWorkerPrompt({
+      taskId: task.id,
+      prdPath: join(basePath, projectConfig?.paths.specs ?? 'specs', 'PRD.md'),
+      taskPath: join(basePath, '.ralph', `current-task-${task.id}.md`),
+      contextPath,
+      basePath,
+      maxRetries: projectConfig?.limits.worker_max_retries ?? WORKER_MAX_RETRIES,
+      projectId,
+      commands: projectConfig?.commands,
+    });
+    const workerPromptPath = join(taskDir, 'worker-prompt.md');
+    await writeFile(workerPromptPath, prompt, 'utf-8');
+
+    const taskInput =
+      estimateTokens(prompt) +
+      estimateTokens(currentTask) +
+      costModel.workerContextTokens +
+      costModel.managerTokensPerTask;
+    const taskOutput = costModel.workerOutputTokens + costModel.managerOutputTokensPerTask;
+    inputTokens += taskInput;
+    outputTokens += taskOutput;
+
+    tasks.push({
+      order: index + 1,
+      taskId: task.id,
+      title: task.title,
+      layer: task.dependencyLayer,
+      managerSession: Math.floor(index / MANAGER_MAX_TASKS_BEFORE_ROTATION) + 1,
+      workerPromptPath,
+      currentTaskPath,
+      inputTokens: taskInput,
+      outputTokens: taskOutput,
+    });
+  }
+
+  const costUsd =
+    (inputTokens / 1_000_000) * costModel.inputCostPerMillion +
+    (outputTokens / 1_000_000) * costModel.outputCostPerMillion;
+
+  const result: DryRunResult = {
+    outputDir,
+    summaryPath: join(outputDir, 'summary.md'),
+    tasks,
+    managerPromptPaths,
+    completedTasks: allTasks.filter((t) => t.checked).length,
+    blockedTasks: allTasks.filter((t) => t.blocked).length,
+    skippedTasks: allTasks.filter((t) => t.status === 'skipped').length,
+    unreachableTasks: allTasks
+      .filter((t) => isTaskRemaining(t) && !ordered.some((o) => o.id === t.id))
+      .map((t) => t.id),
+    dependencyIssues: validateTaskGraph(allTasks).issues,
+    estimate: {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      costUsd: Math.round(costUsd * 100) / 100,
+    },
+  };
+
+  await writeFile(result.summaryPath, formatDryRunSummary(result, costModel), 'utf-8');
+
+  return result;
+}
+
+/**
+ * Render the dry run summary as markdown
+ */
+function formatDryRunSummary(result: DryRunResult, costModel: DryRunCostModel): string {
+  const lines: string[] = [];
+
+  lines.push('# Dry Run');
+  lines.push('');
+  lines.push(`- **Tasks to run:** ${result.tasks.length}`);
+  lines.push(`- **Already complete:** ${result.completedTasks}`);
+  lines.push(`- **Quarantined:** ${result.blockedTasks}`);
+  lines.push(`- **Skipped:** ${result.skippedTasks}`);
+  if (result.unreachableTasks.length > 0) {
+    lines.push(`- **Never ready:** ${result.unreachableTasks.join(', ')}`);
+  }
+  lines.push(`- **Manager sessions:** ${result.managerPromptPaths.length}`);
+  lines.push('');
+
+  if (result.dependencyIssues.length > 0) {
+    lines.push('## Dependency Issues');
+    lines.push('');
+    for (const issue of result.dependencyIssues) {
+      lines.push(`- ${issue}`);
+    }
+    lines.push('');
+  }
+
+  lines.push('## Task Order');
+  lines.push('');
+  lines.push('| # | Task | Layer | Manager | Est. tokens |');
+  lines.push('|---|------|-------|---------|-------------|');
+  for (const task of result.tasks) {
+    lines.push(
+      `| ${task.order} | ${task.taskId}: ${task.title} | ${task.layer} | ${task.managerSession} | ${task.inputTokens + task.outputTokens} |`
+    );
+  }
+  lines.push('');
+
+  lines.push('## Estimate');
+  lines.push('');
+  lines.push(`- **Input tokens:** ${result.estimate.inputTokens}`);
+  lines.push(`- **Output tokens:** ${result.estimate.outputTokens}`);
+  lines.push(`- **Total tokens:** ${result.estimate.totalTokens}`);
+  lines.push(`- **Cost:** $${result.estimate.costUsd.toFixed(2)}`);
+  lines.push('');
+  lines.push(
+    `Assumes ${costModel.workerContextTokens} context and ${costModel.workerOutputTokens} output ` +
+      `tokens per Worker, ${costModel.managerTokensPerTask}/${costModel.managerOutputTokensPerTask} ` +
+      `Manager tokens per task, at $${costModel.inputCostPerMillion}/$${costModel.outputCostPerMillion} ` +
+      'per million input/output tokens. Retries are not included.'
+  );
+
+  return lines.join('\n');
+}
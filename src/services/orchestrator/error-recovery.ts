@@ -1,15 +1,25 @@
 /**
  * Crash recovery logic
- * Detects non-standard exit codes, max 3 consecutive retries
+ * Classifies failures from agent output, backs off on rate limits, max 3 consecutive retries
  */
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { ensureDirectory } from '../../state/index.js';
 import { EXIT_CODES, type ExitCode } from '../../types/index.js';
 
+import { classifyFailure, isTransientFailure, type FailureClass } from './failure-classifier.js';
+
 /**
  * Error recovery configuration
  */
 export interface ErrorRecoveryConfig {
   maxConsecutiveFailures: number;
   retrySleepMs: number;
+  /** Upper bound for rate limit / network backoff */
+  maxBackoffMs: number;
+  /** Transient failures in a row before giving up */
+  maxTransientRetries: number;
 }
 
 /**
@@ -18,6 +28,8 @@ export interface ErrorRecoveryConfig {
 const DEFAULT_CONFIG: ErrorRecoveryConfig = {
   maxConsecutiveFailures: 3,
   retrySleepMs: 5000,
+  maxBackoffMs: 10 * 60 * 1000,
+  maxTransientRetries: 8,
 };
 
 /**
@@ -25,22 +37,33 @@ const DEFAULT_CONFIG: ErrorRecoveryConfig = {
  */
 export interface RecoveryState {
   consecutiveFailures: number;
+  consecutiveTransientFailures: number;
   lastExitCode: ExitCode | null;
   lastError: string | null;
+  lastFailureClass: FailureClass | null;
+  lastFailureEvidence: string | null;
   recoveryAttempts: number;
   shouldContinue: boolean;
   needsHumanIntervention: boolean;
 }
 
+/**
+ * Extra output used to classify a failure
+ */
+export interface FailureOutput {
+  stdout?: string;
+  timedOut?: boolean;
+}
+
 /**
  * Recovery action
  */
 export type RecoveryAction =
-  | { type: 'retry'; sleepMs: number }
+  | { type: 'retry'; sleepMs: number; failureClass?: FailureClass }
   | { type: 'rotate_manager' }
-  | { type: 'crisis_mode'; reason: string }
+  | { type: 'crisis_mode'; reason: string; failureClass?: FailureClass }
   | { type: 'continue' }
-  | { type: 'abort'; reason: string };
+  | { type: 'abort'; reason: string; failureClass?: FailureClass };
 
 /**
  * Error recovery controller
@@ -53,8 +76,11 @@ export class ErrorRecovery {
     this.config = { ...DEFAULT_CONFIG, ...config };
     this.state = {
       consecutiveFailures: 0,
+      consecutiveTransientFailures: 0,
       lastExitCode: null,
       lastError: null,
+      lastFailureClass: null,
+      lastFailureEvidence: null,
       recoveryAttempts: 0,
       shouldContinue: true,
       needsHumanIntervention: false,
@@ -63,40 +89,23 @@ export class ErrorRecovery {
 
   /**
    * Process an exit code and determine recovery action
+   * Failures are classified from stderr/stdout; each class has its own strategy.
    */
-  processExitCode(exitCode: number, error?: string): RecoveryAction {
+  processExitCode(exitCode: number, error?: string, output: FailureOutput = {}): RecoveryAction {
     this.state.lastExitCode = exitCode as ExitCode;
     this.state.lastError = error ?? null;
 
     switch (exitCode) {
       case EXIT_CODES.SUCCESS:
         // Success - reset failures and continue
-        this.state.consecutiveFailures = 0;
+        this.clearFailures();
         return { type: 'continue' };
 
       case EXIT_CODES.ROTATION_NEEDED:
         // Manager needs rotation - this is expected
-        this.state.consecutiveFailures = 0;
+        this.clearFailures();
         return { type: 'rotate_manager' };
 
-      case EXIT_CODES.TASK_FAILED:
-        // Task failed - count as failure
-        this.state.consecutiveFailures++;
-        this.state.recoveryAttempts++;
-
-        if (this.state.consecutiveFailures >= this.config.maxConsecutiveFailures) {
-          this.state.needsHumanIntervention = true;
-          return {
-            type: 'crisis_mode',
-            reason: `${this.config.maxConsecutiveFailures} consecutive task failures`,
-          };
-        }
-
-        return {
-          type: 'retry',
-          sleepMs: this.config.retrySleepMs,
-        };
-
       case EXIT_CODES.HUMAN_INTERVENTION:
         // Explicit crisis mode request
         this.state.needsHumanIntervention = true;
@@ -105,25 +114,117 @@ export class ErrorRecovery {
           reason: error ?? 'Human intervention requested',
         };
 
-      case EXIT_CODES.CRASH:
       default:
-        // Unexpected crash
-        this.state.consecutiveFailures++;
-        this.state.recoveryAttempts++;
-
-        if (this.state.consecutiveFailures >= this.config.maxConsecutiveFailures) {
-          this.state.shouldContinue = false;
-          return {
-            type: 'abort',
-            reason: `${this.config.maxConsecutiveFailures} consecutive crashes`,
-          };
-        }
+        return this.processFailure(exitCode, error, output);
+    }
+  }
+
+  /**
+   * Pick a recovery action for a failed session based on its failure class
+   */
+  private processFailure(
+    exitCode: number,
+    error: string | undefined,
+    output: FailureOutput
+  ): RecoveryAction {
+    const { failureClass, evidence } = classifyFailure({
+      exitCode,
+      stderr: error,
+      stdout: output.stdout,
+      timedOut: output.timedOut,
+    });
 
+    this.state.lastFailureClass = failureClass;
+    this.state.lastFailureEvidence = evidence;
+    this.state.recoveryAttempts++;
+
+    // Auth and config problems never fix themselves
+    if (failureClass === 'auth' || failureClass === 'config') {
+      this.state.needsHumanIntervention = true;
+      const label = failureClass === 'auth' ? 'Authentication failure' : 'Configuration error';
+      return {
+        type: 'crisis_mode',
+        reason: `${label}: ${evidence ?? 'see agent output'}`,
+        failureClass,
+      };
+    }
+
+    // Rate limits and network blips are waited out without counting against the task
+    if (isTransientFailure(failureClass)) {
+      this.state.consecutiveTransientFailures++;
+
+      if (this.state.consecutiveTransientFailures > this.config.maxTransientRetries) {
+        this.state.needsHumanIntervention = true;
         return {
-          type: 'retry',
-          sleepMs: this.config.retrySleepMs * 2, // Longer sleep after crash
+          type: 'crisis_mode',
+          reason: `${this.config.maxTransientRetries} consecutive ${failureClass} failures`,
+          failureClass,
         };
+      }
+
+      return {
+        type: 'retry',
+        sleepMs: this.getBackoffMs(this.state.consecutiveTransientFailures),
+        failureClass,
+      };
+    }
+
+    this.state.consecutiveTransientFailures = 0;
+    this.state.consecutiveFailures++;
+
+    if (this.state.consecutiveFailures >= this.config.maxConsecutiveFailures) {
+      if (failureClass === 'crash') {
+        this.state.shouldContinue = false;
+        return {
+          type: 'abort',
+          reason: `${this.config.maxConsecutiveFailures} consecutive crashes`,
+          failureClass,
+        };
+      }
+
+      this.state.needsHumanIntervention = true;
+      return {
+        type: 'crisis_mode',
+        reason:
+          failureClass === 'timeout'
+            ? `${this.config.maxConsecutiveFailures} consecutive timeouts`
+            : `${this.config.maxConsecutiveFailures} consecutive task failures`,
+        failureClass,
+      };
     }
+
+    return {
+      type: 'retry',
+      // Timeouts retry the task straight away, crashes wait longer
+      sleepMs:
+        failureClass === 'timeout'
+          ? 0
+          : failureClass === 'crash'
+            ? this.config.retrySleepMs * 2
+            : this.config.retrySleepMs,
+      failureClass,
+    };
+  }
+
+  /**
+   * Exponential backoff with jitter: base * 2^(attempt-1), capped, plus up to 25% random
+   */
+  private getBackoffMs(attempt: number): number {
+    const exponential = Math.min(
+      this.config.retrySleepMs * 2 ** (attempt - 1),
+      this.config.maxBackoffMs
+    );
+    const jitter = Math.random() * exponential * 0.25;
+    return Math.round(Math.min(exponential + jitter, this.config.maxBackoffMs));
+  }
+
+  /**
+   * Clear failure counters after a successful session
+   * The last failure class is kept so status can still show what happened.
+   */
+  private clearFailures(): void {
+    this.state.consecutiveFailures = 0;
+    this.state.consecutiveTransientFailures = 0;
   }
 
   /**
@@ -137,7 +238,7 @@ export class ErrorRecovery {
    * Reset state (after successful recovery)
    */
   reset(): void {
-    this.state.consecutiveFailures = 0;
+    this.clearFailures();
     this.state.lastExitCode = null;
     this.state.lastError = null;
     this.state.shouldContinue = true;
@@ -191,6 +292,55 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Write .ralph/crisis.json so humans and the dashboard can see why the loop stopped
+ */
+export async function writeCrisisFile(basePath: string, reason: string): Promise<string> {
+  const ralphDir = join(basePath, '.ralph');
+  await ensureDirectory(ralphDir);
+
+  const filePath = join(ralphDir, 'crisis.json');
+  const content = {
+    crisis: true,
+    reason,
+    timestamp: new Date().toISOString(),
+  };
+  await writeFile(filePath, JSON.stringify(content, null, 2), 'utf-8');
+
+  return filePath;
+}
+
+/**
+ * Persist recovery state to .ralph/recovery.json for `kr-wiggum status`
+ */
+export async function writeRecoveryStateFile(
+  basePath: string,
+  state: RecoveryState
+): Promise<string> {
+  const ralphDir = join(basePath, '.ralph');
+  await ensureDirectory(ralphDir);
+
+  const filePath = join(ralphDir, 'recovery.json');
+  const content = { ...state, updatedAt: new Date().toISOString() };
+  await writeFile(filePath, JSON.stringify(content, null, 2), 'utf-8');
+
+  return filePath;
+}
+
+/**
+ * Read recovery state written by a running (or finished) loop
+ */
+export async function readRecoveryStateFile(
+  basePath: string
+): Promise<(RecoveryState & { updatedAt: string }) | null> {
+  try {
+    const content = await readFile(join(basePath, '.ralph', 'recovery.json'), 'utf-8');
+    return JSON.parse(content) as RecoveryState & { updatedAt: string };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Execute with retry
  */
@@ -0,0 +1,168 @@
+/**
+ * Failure classification
+ * Reads agent stderr and the end of stdout to tell rate limits, auth/config errors and timeouts
+ * apart from genuine task failures
+ */
+import { EXIT_CODES } from '../../types/index.js';
+
+/**
+ * Failure classes, each with its own recovery strategy
+ */
+export type FailureClass =
+  | 'rate_limit'
+  | 'network'
+  | 'auth'
+  | 'config'
+  | 'timeout'
+  | 'task_failure'
+  | 'crash';
+
+/**
+ * Input for classification
+ */
+export interface FailureDetails {
+  exitCode: number;
+  stderr?: string;
+  stdout?: string;
+  timedOut?: boolean;
+}
+
+/**
+ * Classification result
+ */
+export interface FailureClassification {
+  failureClass: FailureClass;
+  /** Output line that matched, for logs and crisis reasons */
+  evidence: string | null;
+}
+
+/**
+ * Output patterns per class, checked in order
+ * Auth and config come first: a 401 that mentions "retry" is still an auth problem.
+ */
+const FAILURE_PATTERNS: Array<{ failureClass: FailureClass; patterns: RegExp[] }> = [
+  {
+    failureClass: 'auth',
+    patterns: [
+      /(status|error|code)[: ]*40[13]\b/i,
+      /unauthori[sz]ed/i,
+      /invalid api key/i,
+      /authentication (failed|error)/i,
+      /not logged in/i,
+      /please run \/?login/i,
+      /credit balance is too low/i,
+    ],
+  },
+  {
+    failureClass: 'config',
+    patterns: [
+      /command not found/i,
+      /spawn \S+ ENOENT/,
+      /claude cli not found/i,
+      /unknown option/i,
+      /invalid (configuration|config)/i,
+      /invalid model/i,
+    ],
+  },
+  {
+    failureClass: 'rate_limit',
+    patterns: [
+      /(status|error|code)[: ]*429\b/i,
+      /rate[ _-]?limit/i,
+      /too many requests/i,
+      /overloaded/i,
+      /(status|error|code)[: ]*529\b/i,
+      /usage limit/i,
+      /quota exceeded/i,
+    ],
+  },
+  {
+    failureClass: 'timeout',
+    patterns: [/request timed out/i, /api timeout/i, /\bETIMEDOUT\b/],
+  },
+  {
+    failureClass: 'network',
+    patterns: [
+      /\bECONNRESET\b/,
+      /\bECONNREFUSED\b/,
+      /\bENOTFOUND\b/,
+      /\bEAI_AGAIN\b/,
+      /socket hang up/i,
+      /network error/i,
+      /bad gateway|service unavailable|gateway timeout/i,
+    ],
+  },
+];
+
+/**
+ * Trailing stdout lines scanned for failure patterns
+ * Earlier stdout is the session transcript, where tool output such as a Worker's
+ * `command not found` or a test's `status 403` would be mistaken for the agent's own failure.
+ */
+const STDOUT_TAIL_LINES = 5;
+
+/**
+ * Text of a stream-json `result` event line, or the line itself
+ */
+function getResultText(line: string): string {
+  try {
+    const event = JSON.parse(line) as { type?: unknown; result?: unknown };
+    return event.type === 'result' && typeof event.result === 'string' ? event.result : line;
+  } catch {
+    return line;
+  }
+}
+
+/**
+ * Non-empty lines of text
+ */
+function toLines(text: string | undefined): string[] {
+  return (text ?? '').split('\n').filter((line) => line.trim() !== '');
+}
+
+/**
+ * Find the first output line matching any of the patterns
+ */
+function findEvidence(lines: string[], patterns: RegExp[]): string | null {
+  for (const line of lines) {
+    if (patterns.some((pattern) => pattern.test(line))) {
+      return line.trim().slice(0, 200);
+    }
+  }
+  return null;
+}
+
+/**
+ * Classify a failed agent session
+ */
+export function classifyFailure(details: FailureDetails): FailureClassification {
+  if (details.timedOut === true) {
+    return { failureClass: 'timeout', evidence: 'Session exceeded its timeout' };
+  }
+
+  // All of stderr, but only the end of stdout, where the CLI reports why the session ended
+  const stdoutTail = toLines(details.stdout).slice(-STDOUT_TAIL_LINES);
+  const lines = [
+    ...toLines(details.stderr),
+    ...stdoutTail.flatMap((line) => toLines(getResultText(line))),
+  ];
+
+  for (const { failureClass, patterns } of FAILURE_PATTERNS) {
+    const evidence = findEvidence(lines, patterns);
+    if (evidence !== null) {
+      return { failureClass, evidence };
+    }
+  }
+
+  return {
+    failureClass: details.exitCode === EXIT_CODES.TASK_FAILED ? 'task_failure' : 'crash',
+    evidence: null,
+  };
+}
+
+/**
+ * Check if a failure class is transient (worth waiting out rather than counting against the task)
+ */
+export function isTransientFailure(failureClass: FailureClass): boolean {
+  return failureClass === 'rate_limit' || failureClass === 'network';
+}
@@ -2,14 +2,44 @@
  * Orchestrator main service
  * Coordinates Manager and Worker lifecycle management
  */
+import { join } from 'node:path';
+
+import type {
+  InterruptedWorkAction,
+  ProjectConfig,
+  TaskSelectionPolicyName,
+} from '../../schemas/index.js';
+import {
+  createImplementationPlanManager,
+  createOrchestrationJournal,
+  hasInterruptedWork,
+  type JournalEvent,
+  type JournalReplay,
+  type OrchestrationJournal,
+} from '../../state/index.js';
 import { EXIT_CODES } from '../../types/index.js';
+import { findHeadCommit } from '../git/index.js';
+import type { TaskSelectionPolicy } from '../shift-manager/selection-policy.js';
+import { commitCompletedTask, recordTaskADRs } from '../shift-manager/task-committer.js';
+import { createTaskQuarantine, type TaskQuarantine } from '../shift-manager/task-quarantine.js';
+import { createTaskSelector, type TaskSelector } from '../shift-manager/task-selector.js';
+import {
+  createTaskSplitter,
+  type TaskSplit,
+  type TaskSplitter,
+} from '../shift-manager/task-splitter.js';
 
+import { type AgentBackend } from './agent-backend.js';
 import {
   createErrorRecovery,
   type ErrorRecovery,
   type RecoveryAction,
   sleep,
+  writeCrisisFile,
+  writeRecoveryStateFile,
 } from './error-recovery.js';
+import { isTransientFailure } from './failure-classifier.js';
+import { recoverInterruptedWork, type InterruptedWorkRecovery } from './interrupted-work.js';
 import {
   createManagerLifecycle,
   type ManagerLifecycle,
@@ -23,10 +53,15 @@ import {
 } from './worker-spawner.js';
 
 // Re-export sub-modules
+export * from './agent-backend.js';
 export * from './manager-lifecycle.js';
 export * from './worker-spawner.js';
 export * from './error-recovery.js';
+export * from './failure-classifier.js';
+export * from './interrupted-work.js';
+export * from './dry-run.js';
 export * from './claude-spawner.js';
+export * from './stream-json-parser.js';
 export * from './cli-detector.js';
 
 /**
@@ -34,13 +69,37 @@ export * from './cli-detector.js';
  */
 export interface OrchestratorConfig {
   basePath: string;
+  projectId?: string;
   maxManagerRotations?: number;
+  /** Workers run side by side within a dependency layer; needs useWorktrees (default: 1) */
+  maxConcurrentWorkers?: number;
+  /** Run each Worker in its own git worktree and merge back on success */
+  useWorktrees?: boolean;
+  /** Backend for Manager and Worker sessions (default: Claude CLI) */
+  backend?: AgentBackend;
+  /** Commands, thresholds, limits, timeouts and paths from kr-wiggum.config.json */
+  projectConfig?: ProjectConfig;
+  /** Failed Worker attempts before a task is quarantined (default: 3) */
+  maxTaskAttempts?: number;
+  /** How ready tasks within a layer are ordered (default: by ID) */
+  selectionPolicy?: TaskSelectionPolicyName | TaskSelectionPolicy;
   maxConsecutiveFailures?: number;
   retrySleepMs?: number;
+  /** What to do with work a crashed run left in flight (default: resume) */
+  interruptedWorkAction?: InterruptedWorkAction;
+  /** Offered the journal replay when interrupted work is found; may pick a different action */
+  onInterruptedWork?: (
+    replay: JournalReplay
+  ) => InterruptedWorkAction | undefined | Promise<InterruptedWorkAction | undefined>;
+  onInterruptedWorkRecovered?: (recovery: InterruptedWorkRecovery) => void;
   onManagerStart?: () => void;
   onManagerComplete?: (exitCode: number) => void;
   onWorkerStart?: (taskId: string) => void;
   onWorkerComplete?: (result: WorkerSpawnResult) => void;
+  onWorkerOutput?: (taskId: string, data: string) => void;
+  /** Called when a failed task is replaced by sub-tasks because its Worker outgrew the limits */
+  onTaskSplit?: (split: TaskSplit) => void;
+  onRecoveryAction?: (action: RecoveryAction) => void;
   onCrisisMode?: (reason: string) => void;
 }
 
@@ -52,10 +111,26 @@ export interface OrchestratorState {
   managerRotations: number;
   tasksCompleted: number;
   tasksFailed: number;
+  activeTaskIds: string[];
+  completedTaskIds: string[];
+  failedTaskIds: string[];
+  /** Failed tasks whose Worker ran out of time; their partial diffs are kept as patches */
+  timedOutTaskIds: string[];
+  blockedTaskIds: string[];
+  /** Failed tasks split into sub-tasks because their Worker changed too many files or lines */
+  splitTaskIds: string[];
   inCrisisMode: boolean;
   crisisReason: string | null;
 }
 
+/**
+ * Result of running one batch of Workers within a dependency layer
+ */
+export interface LayerBatchResult {
+  layer: number;
+  results: WorkerSpawnResult[];
+}
+
 /**
  * Orchestrator result
  */
@@ -73,22 +148,60 @@ export class Orchestrator {
   private readonly config: OrchestratorConfig;
   private readonly managerLifecycle: ManagerLifecycle;
   private readonly workerPool: WorkerPool;
+  private readonly taskSelector: TaskSelector;
+  private readonly quarantine: TaskQuarantine;
+  private readonly splitter: TaskSplitter;
   private readonly errorRecovery: ErrorRecovery;
+  private readonly journal: OrchestrationJournal;
   private state: OrchestratorState;
+  private stopRequested: boolean = false;
+  /** Tasks whose interrupted worktree the next Worker continues in */
+  private readonly resumeWorktreeTaskIds = new Set<string>();
 
   constructor(config: OrchestratorConfig) {
+    const { projectConfig } = config;
+    // In-place Workers would share one tree, so their commits and rollbacks could not be kept apart
+    if ((config.maxConcurrentWorkers ?? 1) > 1 && config.useWorktrees !== true) {
+      throw new Error('Running Workers side by side needs worktrees (useWorktrees)');
+    }
+
     this.config = config;
-    this.managerLifecycle = createManagerLifecycle(config.basePath);
-    this.workerPool = createWorkerPool(config.basePath, 1);
+    this.managerLifecycle = createManagerLifecycle(config.basePath, config.backend);
+    this.workerPool = createWorkerPool(
+      config.basePath,
+      config.maxConcurrentWorkers ?? 1,
+      config.backend
+    );
+    this.taskSelector = createTaskSelector({
+      basePath: config.basePath,
+      policy: config.selectionPolicy,
+      specsPath:
+        projectConfig !== undefined ? join(config.basePath, projectConfig.paths.specs) : undefined,
+      sourceDirs: projectConfig?.paths.source,
+      contextTokenBudget: projectConfig?.limits.context_token_budget,
+      commands: projectConfig?.commands,
+    });
+    this.quarantine = createTaskQuarantine(
+      config.basePath,
+      config.maxTaskAttempts ?? projectConfig?.limits.max_task_attempts
+    );
+    this.splitter = createTaskSplitter(config.basePath);
     this.errorRecovery = createErrorRecovery({
       maxConsecutiveFailures: config.maxConsecutiveFailures ?? 3,
       retrySleepMs: config.retrySleepMs ?? 5000,
     });
+    this.journal = createOrchestrationJournal(config.basePath);
     this.state = {
       isRunning: false,
       managerRotations: 0,
       tasksCompleted: 0,
       tasksFailed: 0,
+      activeTaskIds: [],
+      completedTaskIds: [],
+      failedTaskIds: [],
+      timedOutTaskIds: [],
+      blockedTaskIds: [],
+      splitTaskIds: [],
       inCrisisMode: false,
       crisisReason: null,
     };
@@ -96,89 +209,203 @@ export class Orchestrator {
 
   /**
    * Run the orchestration loop
+   * Work left in flight by a crashed run is recovered from the journal first. A plan whose
+   * prerequisites form a cycle or name unknown tasks is refused, since those tasks could
+   * never be selected. With worktrees the orchestrator runs the Workers itself, up to
+   * maxConcurrentWorkers at a time within a layer; otherwise Managers pick the tasks.
    */
   async run(): Promise<OrchestratorResult> {
     this.state.isRunning = true;
-    const maxRotations = this.config.maxManagerRotations ?? 10;
+    this.stopRequested = false;
 
+    let result: OrchestratorResult;
     try {
-      while (
-        this.state.isRunning &&
-        this.state.managerRotations < maxRotations &&
-        !this.state.inCrisisMode
-      ) {
-        // Start Manager
-        this.config.onManagerStart?.();
+      await this.recoverFromJournal();
+      await this.assertValidTaskGraph();
+      await this.recordEvent({ type: 'orchestrator_start' });
+      result =
+        this.config.useWorktrees === true ? await this.runLayers() : await this.runManagers();
+    } catch (error) {
+      result = {
+        success: false,
+        state: this.getState(),
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      };
+    } finally {
+      this.state.isRunning = false;
+    }
 
-        const managerResult = await this.managerLifecycle.start({
-          handoffFile: this.state.managerRotations > 0
-            ? '.agent/SHIFT_HANDOFF.md'
-            : undefined,
-        });
+    await this.recordEvent({ type: 'orchestrator_stop', reason: result.reason });
+    return result;
+  }
+
+  /**
+   * Fail fast on `(after: ...)` prerequisites that can never be satisfied
+   */
+  private async assertValidTaskGraph(): Promise<void> {
+    const planManager = createImplementationPlanManager(this.config.basePath);
+    const validation = await planManager.validateDependencies();
 
-        this.config.onManagerComplete?.(managerResult.exitCode ?? EXIT_CODES.CRASH);
+    if (!validation.valid) {
+      throw new Error(`Invalid task dependencies: ${validation.issues.join('; ')}`);
+    }
+  }
 
-        // Process exit code
-        const recovery = this.errorRecovery.processExitCode(
-          managerResult.exitCode ?? EXIT_CODES.CRASH,
-          managerResult.stderr
-        );
+  /**
+   * Replay the journal and resolve anything a previous run left unfinished
+   */
+  private async recoverFromJournal(): Promise<void> {
+    const replay = await this.journal.replay();
+    if (!hasInterruptedWork(replay)) {
+      return;
+    }
 
-        // Handle recovery action
-        const shouldContinue = await this.handleRecoveryAction(recovery);
+    const action =
+      (await this.config.onInterruptedWork?.(replay)) ??
+      this.config.interruptedWorkAction ??
+      'resume';
 
-        if (!shouldContinue) {
-          break;
-        }
+    const recovery = await recoverInterruptedWork(replay, action, {
+      basePath: this.config.basePath,
+      journal: this.journal,
+      quarantine: this.quarantine,
+    });
 
-        // Check for rotation
-        if (this.managerLifecycle.needsRotation()) {
-          this.state.managerRotations++;
-          this.managerLifecycle.reset();
-        }
+    for (const taskId of recovery.resumedWorktrees) {
+      this.resumeWorktreeTaskIds.add(taskId);
+    }
 
-        // Check for completion
-        if (this.managerLifecycle.isComplete()) {
-          this.state.isRunning = false;
-          return {
-            success: true,
-            state: this.getState(),
-            reason: 'All tasks completed successfully',
-          };
-        }
+    this.config.onInterruptedWorkRecovered?.(recovery);
+  }
+
+  /**
+   * Run Managers until the plan completes, crisis mode, a stop, or max rotations
+   */
+  private async runManagers(): Promise<OrchestratorResult> {
+    const maxRotations = this.config.maxManagerRotations ?? 10;
+
+    while (
+      this.state.isRunning &&
+      this.state.managerRotations < maxRotations &&
+      !this.state.inCrisisMode
+    ) {
+      // Start Manager
+      this.config.onManagerStart?.();
+
+      const managerResult = await this.managerLifecycle.start({
+        handoffFile: this.state.managerRotations > 0
+          ? '.agent/SHIFT_HANDOFF.md'
+          : undefined,
+        timeout: this.config.projectConfig?.timeouts.manager_ms,
+        selectionPolicy: this.config.selectionPolicy,
+        onSpawn: (pid) => void this.recordEvent({ type: 'manager_start', manager_pid: pid }),
+      });
+
+      await this.recordEvent({
+        type: 'manager_exit',
+        manager_pid: managerResult.pid,
+        exit_code: managerResult.exitCode ?? EXIT_CODES.CRASH,
+      });
+      this.config.onManagerComplete?.(managerResult.exitCode ?? EXIT_CODES.CRASH);
+
+      // Process exit code
+      const recovery = this.errorRecovery.processExitCode(
+        managerResult.exitCode ?? EXIT_CODES.CRASH,
+        managerResult.stderr,
+        { stdout: managerResult.stdout, timedOut: managerResult.timedOut }
+      );
+      await this.persistRecoveryState();
+
+      // Handle recovery action
+      this.config.onRecoveryAction?.(recovery);
+      const shouldContinue = await this.handleRecoveryAction(recovery);
+
+      if (!shouldContinue) {
+        break;
       }
 
-      // Determine final result
-      if (this.state.inCrisisMode) {
-        return {
-          success: false,
-          state: this.getState(),
-          reason: `Crisis mode: ${this.state.crisisReason}`,
-        };
+      // Rotation was already counted by the recovery action, reset for the next Manager
+      if (this.managerLifecycle.needsRotation()) {
+        this.managerLifecycle.reset();
       }
 
-      if (this.state.managerRotations >= maxRotations) {
+      // Check for completion
+      if (this.managerLifecycle.isComplete()) {
+        this.state.isRunning = false;
         return {
-          success: false,
+          success: true,
           state: this.getState(),
-          reason: `Max Manager rotations (${maxRotations}) reached`,
+          reason: 'All tasks completed successfully',
         };
       }
+    }
+
+    // Running out of rotations means the plan cannot converge without help
+    if (!this.stopRequested && this.state.managerRotations >= maxRotations) {
+      await this.enterCrisisMode(`Max Manager rotations (${maxRotations}) reached`);
+    }
 
+    // Determine final result
+    if (this.state.inCrisisMode) {
       return {
-        success: true,
+        success: false,
         state: this.getState(),
-        reason: 'Orchestration completed',
+        reason: `Crisis mode: ${this.state.crisisReason}`,
       };
-    } catch (error) {
+    }
+
+    if (this.stopRequested) {
       return {
         success: false,
         state: this.getState(),
-        reason: error instanceof Error ? error.message : 'Unknown error',
+        reason: 'Orchestration stopped before completion',
       };
-    } finally {
-      this.state.isRunning = false;
     }
+
+    return {
+      success: true,
+      state: this.getState(),
+      reason: 'Orchestration completed',
+    };
+  }
+
+  /**
+   * Run layer batches until no task is ready, crisis mode, or a stop
+   * Tasks left over are quarantined or wait on quarantined prerequisites.
+   */
+  private async runLayers(): Promise<OrchestratorResult> {
+    await this.runTaskLayers();
+
+    if (this.state.inCrisisMode) {
+      return {
+        success: false,
+        state: this.getState(),
+        reason: `Crisis mode: ${this.state.crisisReason}`,
+      };
+    }
+
+    if (this.stopRequested) {
+      return {
+        success: false,
+        state: this.getState(),
+        reason: 'Orchestration stopped before completion',
+      };
+    }
+
+    const progress = await createImplementationPlanManager(this.config.basePath).getProgress();
+    if (progress.remaining > 0 || progress.blocked > 0) {
+      return {
+        success: false,
+        state: this.getState(),
+        reason: `No task is ready: ${progress.blocked} blocked, ${progress.remaining} remaining`,
+      };
+    }
+
+    return {
+      success: true,
+      state: this.getState(),
+      reason: 'All tasks completed successfully',
+    };
   }
 
   /**
@@ -198,12 +425,12 @@ export class Orchestrator {
         return true;
 
       case 'crisis_mode':
-        this.state.inCrisisMode = true;
-        this.state.crisisReason = action.reason;
-        this.config.onCrisisMode?.(action.reason);
+        await this.enterCrisisMode(action.reason);
         return false;
 
       case 'abort':
+        // Repeated crashes are escalated the same way as explicit crisis requests
+        await this.enterCrisisMode(action.reason);
         return false;
 
       default:
@@ -211,30 +438,306 @@ export class Orchestrator {
     }
   }
 
+  /**
+   * Append an event to .ralph/journal.jsonl
+   * A failed write must not stop the loop; the journal only aids recovery.
+   */
+  private async recordEvent(event: JournalEvent): Promise<void> {
+    try {
+      await this.journal.append(event);
+    } catch {
+      // Journal is best effort
+    }
+  }
+
+  /**
+   * Journal the selection of a task, with the commit its changes start from
+   */
+  private async recordTaskSelected(taskId: string, layer: number | null): Promise<void> {
+    await this.recordEvent({
+      type: 'task_selected',
+      task_id: taskId,
+      layer,
+      head_commit: await findHeadCommit(this.config.basePath),
+      use_worktree: this.config.useWorktrees === true,
+    });
+  }
+
+  /**
+   * Journal a Worker's exit
+   */
+  private async recordWorkerExit(result: WorkerSpawnResult): Promise<void> {
+    await this.recordEvent({
+      type: 'worker_exit',
+      task_id: result.taskId,
+      worker_pid: result.pid,
+      exit_code: result.exitCode ?? EXIT_CODES.CRASH,
+      success: result.success,
+    });
+  }
+
+  /**
+   * Write recovery state to .ralph/recovery.json for `kr-wiggum status`
+   */
+  private async persistRecoveryState(): Promise<void> {
+    try {
+      await writeRecoveryStateFile(this.config.basePath, this.errorRecovery.getState());
+    } catch {
+      // Recovery file is informational only
+    }
+  }
+
+  /**
+   * Enter crisis mode and persist the reason to .ralph/crisis.json
+   */
+  private async enterCrisisMode(reason: string): Promise<void> {
+    this.state.inCrisisMode = true;
+    this.state.crisisReason = reason;
+
+    try {
+      await writeCrisisFile(this.config.basePath, reason);
+    } catch {
+      // Crisis file is informational, state already reflects crisis mode
+    }
+
+    this.config.onCrisisMode?.(reason);
+  }
+
   /**
    * Spawn a Worker for a task
    */
   async spawnWorker(config: Omit<WorkerSpawnConfig, 'basePath'>): Promise<WorkerSpawnResult> {
     this.config.onWorkerStart?.(config.taskId);
+    this.state.activeTaskIds.push(config.taskId);
+
+    try {
+      const result = await this.workerPool.spawnForTask({
+        projectConfig: this.config.projectConfig,
+        ...config,
+        onSpawn: (pid) => {
+          void this.recordEvent({ type: 'worker_spawn', task_id: config.taskId, worker_pid: pid });
+          config.onSpawn?.(pid);
+        },
+      });
+      await this.recordWorkerExit(result);
+      this.recordWorkerResult(result);
+      return result;
+    } finally {
+      this.state.activeTaskIds = this.state.activeTaskIds.filter((id) => id !== config.taskId);
+    }
+  }
+
+  /**
+   * Run one batch of Workers for the lowest incomplete dependency layer
+   * Up to maxConcurrentWorkers tasks run at once; the batch never crosses a layer boundary.
+   * Successful tasks are checked off in IMPLEMENTATION_PLAN.md once the batch finishes;
+   * failed tasks that outgrew their limits are split, other failures spend their retry budget,
+   * and merge conflicts are quarantined straight away. Every result goes through error
+   * recovery: rate limits and network errors back off without spending the retry budget,
+   * and repeated or unrecoverable failures enter crisis mode.
+   */
+  async runLayerBatch(): Promise<LayerBatchResult | null> {
+    const selection = await this.taskSelector.selectLayerTasks(
+      this.workerPool.getMaxConcurrent()
+    );
+
+    if (selection === null) {
+      return null;
+    }
+
+    const onWorkerOutput = this.config.onWorkerOutput;
+    const configs = selection.tasks.map((selected) => {
+      const taskId = selected.task.id;
+      const resumeWorktree = this.resumeWorktreeTaskIds.delete(taskId);
 
-    const result = await this.workerPool.spawnForTask(config);
+      return {
+        taskId,
+        prdPath: selected.prdPath,
+        currentTaskPath: selected.currentTaskPath,
+        contextPath: selected.contextPath,
+        projectId: this.config.projectId,
+        projectConfig: this.config.projectConfig,
+        useWorktree: this.config.useWorktrees,
+        resumeWorktree,
+        onOutput:
+          onWorkerOutput !== undefined
+            ? (data: string): void => onWorkerOutput(taskId, data)
+            : undefined,
+        onSpawn: (pid: number): void =>
+          void this.recordEvent({ type: 'worker_spawn', task_id: taskId, worker_pid: pid }),
+      };
+    });
+    const batchTaskIds = configs.map((c) => c.taskId);
+
+    const planManager = createImplementationPlanManager(this.config.basePath);
+    for (const taskId of batchTaskIds) {
+      await this.recordTaskSelected(taskId, selection.layer);
+      await planManager.markTaskInProgress(taskId);
+      this.config.onWorkerStart?.(taskId);
+      this.state.activeTaskIds.push(taskId);
+    }
+
+    let results: WorkerSpawnResult[];
+    try {
+      results = await this.workerPool.spawnBatch(
+        configs,
+        (result) => void this.recordWorkerExit(result)
+      );
+    } finally {
+      this.state.activeTaskIds = this.state.activeTaskIds.filter(
+        (id) => !batchTaskIds.includes(id)
+      );
+    }
+
+    // Plan writes are sequential so concurrent Workers never race on the file
+    let retrySleepMs = 0;
+    for (const result of results) {
+      const recovery = await this.processWorkerExit(result);
+
+      if (result.success) {
+        await planManager.markTaskComplete(result.taskId);
+        await this.recordEvent({ type: 'task_checked', task_id: result.taskId });
+        await this.commitTask(result);
+      } else if (result.blocked === true) {
+        await this.quarantine.quarantine(
+          result.taskId,
+          result.blockerReason ?? 'Worker reported the task as blocked'
+        );
+      } else {
+        await planManager.markTaskPending(result.taskId);
+        if (!isTransientRetry(recovery) && !(await this.splitOversizeTask(result))) {
+          await this.quarantine.recordFailure(result.taskId, getFailureSummary(result));
+        }
+      }
+      this.recordWorkerResult(result);
+
+      if (recovery?.type === 'retry') {
+        retrySleepMs = Math.max(retrySleepMs, recovery.sleepMs);
+      } else if (
+        (recovery?.type === 'crisis_mode' || recovery?.type === 'abort') &&
+        !this.state.inCrisisMode
+      ) {
+        await this.enterCrisisMode(recovery.reason);
+      }
+    }
+
+    if (!this.state.inCrisisMode && retrySleepMs > 0) {
+      await sleep(retrySleepMs);
+    }
+
+    return { layer: selection.layer, results };
+  }
+
+  /**
+   * Pass a Worker's exit through error recovery
+   * A Worker whose changes failed guardrails or could not be merged counts as a failed task.
+   * Blocked tasks are already quarantined and leave the failure counters alone.
+   */
+  private async processWorkerExit(result: WorkerSpawnResult): Promise<RecoveryAction | null> {
+    if (result.blocked === true) {
+      return null;
+    }
 
+    let exitCode = result.exitCode ?? EXIT_CODES.CRASH;
+    if (!result.success && exitCode === EXIT_CODES.SUCCESS) {
+      exitCode = EXIT_CODES.TASK_FAILED;
+    }
+
+    const recovery = this.errorRecovery.processExitCode(exitCode, result.stderr, {
+      stdout: result.stdout,
+      timedOut: result.timedOut,
+    });
+    await this.persistRecoveryState();
+    this.config.onRecoveryAction?.(recovery);
+    return recovery;
+  }
+
+  /**
+   * Commit a completed in-place Worker's changes, linked to its ADRs and status fragment
+   * (best effort). Worktree Workers are committed on their task branch.
+   */
+  private async commitTask(result: WorkerSpawnResult): Promise<void> {
+    if (this.config.useWorktrees === true) {
+      return;
+    }
+
+    try {
+      const adrIds = await recordTaskADRs(this.config.basePath, result.taskId);
+      await commitCompletedTask(this.config.basePath, result.taskId, adrIds);
+    } catch {
+      // The changes stay uncommitted in the working tree
+    }
+  }
+
+  /**
+   * Split a failed task whose Worker changed more files or lines than the task allows
+   */
+  private async splitOversizeTask(result: WorkerSpawnResult): Promise<boolean> {
+    if (result.diffStats === undefined) {
+      return false;
+    }
+
+    try {
+      const split = await this.splitter.splitIfOversize(result.taskId, result.diffStats);
+      if (split === null) {
+        return false;
+      }
+      this.state.splitTaskIds.push(split.taskId);
+      this.config.onTaskSplit?.(split);
+      return true;
+    } catch {
+      // A split that cannot be written leaves the failure to the retry budget
+      return false;
+    }
+  }
+
+  /**
+   * Run layer batches until every task is complete or quarantined
+   */
+  async runTaskLayers(): Promise<LayerBatchResult[]> {
+    const batches: LayerBatchResult[] = [];
+    this.stopRequested = false;
+
+    while (!this.stopRequested && !this.state.inCrisisMode) {
+      const batch = await this.runLayerBatch();
+      if (batch === null) {
+        break;
+      }
+
+      // Failed tasks are retried until their attempt budget quarantines them
+      batches.push(batch);
+    }
+
+    return batches;
+  }
+
+  /**
+   * Aggregate a Worker result into orchestrator state
+   */
+  private recordWorkerResult(result: WorkerSpawnResult): void {
     if (result.success) {
       this.state.tasksCompleted++;
+      this.state.completedTaskIds.push(result.taskId);
+    } else if (result.blocked === true) {
+      this.state.tasksFailed++;
+      this.state.blockedTaskIds.push(result.taskId);
+    } else if (result.timedOut === true) {
+      this.state.tasksFailed++;
+      this.state.timedOutTaskIds.push(result.taskId);
     } else {
       this.state.tasksFailed++;
+      this.state.failedTaskIds.push(result.taskId);
     }
 
     this.config.onWorkerComplete?.(result);
-
-    return result;
   }
 
   /**
    * Stop the orchestrator
-   * Note: With Claude CLI, running processes are blocking, so this just updates state
+   * Note: agent sessions are blocking, so the loop exits once the current Manager or batch returns
    */
   stop(): void {
+    this.stopRequested = true;
     this.state.isRunning = false;
     this.managerLifecycle.stop();
   }
@@ -242,10 +745,8 @@ export class Orchestrator {
   /**
    * Trigger crisis mode manually
    */
-  triggerCrisisMode(reason: string): void {
-    this.state.inCrisisMode = true;
-    this.state.crisisReason = reason;
-    this.config.onCrisisMode?.(reason);
+  async triggerCrisisMode(reason: string): Promise<void> {
+    await this.enterCrisisMode(reason);
     this.stop();
   }
 
@@ -253,7 +754,15 @@ export class Orchestrator {
    * Get current state
    */
   getState(): OrchestratorState {
-    return { ...this.state };
+    return {
+      ...this.state,
+      activeTaskIds: [...this.state.activeTaskIds],
+      completedTaskIds: [...this.state.completedTaskIds],
+      failedTaskIds: [...this.state.failedTaskIds],
+      timedOutTaskIds: [...this.state.timedOutTaskIds],
+      blockedTaskIds: [...this.state.blockedTaskIds],
+      splitTaskIds: [...this.state.splitTaskIds],
+    };
   }
 
   /**
@@ -277,6 +786,29 @@ export class Orchestrator {
   }
 }
 
+/**
+ * Last non-empty stderr line of a failed Worker, used as its blocker reason
+ */
+function getFailureSummary(result: WorkerSpawnResult): string | undefined {
+  const lines = result.stderr
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+
+  return lines.length > 0 ? lines[lines.length - 1] : undefined;
+}
+
+/**
+ * Whether error recovery retries a rate limit or network failure, which is not the task's fault
+ */
+function isTransientRetry(recovery: RecoveryAction | null): boolean {
+  return (
+    recovery?.type === 'retry' &&
+    recovery.failureClass !== undefined &&
+    isTransientFailure(recovery.failureClass)
+  );
+}
+
 /**
  * Create an Orchestrator instance
  */
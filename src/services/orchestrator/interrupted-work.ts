@@ -0,0 +1,198 @@
+/**
+ * Recovery of work interrupted by a crash
+ * Applies resume / retry / rollback to what the journal replay found in flight
+ */
+import type { InterruptedWorkAction } from '../../schemas/index.js';
+import {
+  createImplementationPlanManager,
+  type InterruptedTask,
+  type JournalReplay,
+  type OrchestrationJournal,
+} from '../../state/index.js';
+import {
+  createWorktreeManager,
+  findHeadCommit,
+  isGitRepository,
+  stashChanges,
+} from '../git/index.js';
+import { type TaskQuarantine } from '../shift-manager/task-quarantine.js';
+
+/**
+ * Orchestration files that are never stashed when discarding in-place changes
+ */
+const ORCHESTRATION_PATHS = ['.ralph', '.agent', 'IMPLEMENTATION_PLAN.md'];
+
+/**
+ * What recovering interrupted work did
+ */
+export interface InterruptedWorkRecovery {
+  action: InterruptedWorkAction;
+  /** Tasks checked off because their Worker had already finished */
+  checkedOff: string[];
+  /** Tasks whose worktree is kept for the next Worker to continue in */
+  resumedWorktrees: string[];
+  /** Tasks whose partial changes were thrown away */
+  discarded: string[];
+  /** Tasks handed to a human */
+  quarantined: string[];
+  /** Message of the stash holding discarded in-place changes */
+  stashMessage: string | null;
+  warnings: string[];
+}
+
+/**
+ * Options for recovering interrupted work
+ */
+export interface InterruptedWorkRecoveryOptions {
+  basePath: string;
+  journal: OrchestrationJournal;
+  quarantine: TaskQuarantine;
+}
+
+/**
+ * Check if a process is alive
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Resolve interrupted work
+ *
+ * - resume: keep partial changes; finished Workers are checked off, interrupted worktrees reused
+ * - retry: discard partial changes and run the tasks again from a clean state
+ * - rollback: discard partial changes and quarantine the tasks for a human
+ *
+ * Every resolved task gets a work_recovered entry so it is not replayed again.
+ */
+export async function recoverInterruptedWork(
+  replay: JournalReplay,
+  action: InterruptedWorkAction,
+  options: InterruptedWorkRecoveryOptions
+): Promise<InterruptedWorkRecovery> {
+  const { basePath, journal, quarantine } = options;
+  const recovery: InterruptedWorkRecovery = {
+    action,
+    checkedOff: [],
+    resumedWorktrees: [],
+    discarded: [],
+    quarantined: [],
+    stashMessage: null,
+    warnings: [],
+  };
+
+  if (replay.interruptedManagerPid !== null) {
+    if (isProcessAlive(replay.interruptedManagerPid)) {
+      recovery.warnings.push(
+        `Manager PID ${replay.interruptedManagerPid} from the interrupted run is still alive`
+      );
+    }
+    await journal.append({ type: 'work_recovered', task_id: null, action });
+  }
+
+  for (const task of replay.interruptedTasks) {
+    if (task.workerPid !== null && task.stage === 'running' && isProcessAlive(task.workerPid)) {
+      recovery.warnings.push(`Worker PID ${task.workerPid} for ${task.taskId} is still alive`);
+    }
+  }
+
+  if (action === 'resume') {
+    await resumeTasks(basePath, replay.interruptedTasks, recovery);
+  } else {
+    await discardTasks(basePath, replay.interruptedTasks, recovery);
+  }
+
+  if (action === 'rollback') {
+    for (const task of replay.interruptedTasks) {
+      const merged = task.useWorktree && task.stage === 'finished';
+      await quarantine.quarantine(
+        task.taskId,
+        merged
+          ? 'Rolled back after an interrupted run; its branch was already merged and must be reverted by hand'
+          : 'Rolled back after an interrupted run'
+      );
+      recovery.quarantined.push(task.taskId);
+    }
+  }
+
+  for (const task of replay.interruptedTasks) {
+    await journal.append({ type: 'work_recovered', task_id: task.taskId, action });
+  }
+
+  return recovery;
+}
+
+/**
+ * Keep partial work and check off tasks whose Worker had already succeeded
+ */
+async function resumeTasks(
+  basePath: string,
+  tasks: InterruptedTask[],
+  recovery: InterruptedWorkRecovery
+): Promise<void> {
+  const planManager = createImplementationPlanManager(basePath);
+
+  for (const task of tasks) {
+    if (task.stage === 'finished') {
+      if (await planManager.markTaskComplete(task.taskId)) {
+        recovery.checkedOff.push(task.taskId);
+      }
+    } else if (task.useWorktree) {
+      recovery.resumedWorktrees.push(task.taskId);
+    }
+  }
+}
+
+/**
+ * Throw away partial work: task worktrees are removed, in-place changes are stashed
+ * Worktree tasks that finished were merged already and are left alone.
+ */
+async function discardTasks(
+  basePath: string,
+  tasks: InterruptedTask[],
+  recovery: InterruptedWorkRecovery
+): Promise<void> {
+  const worktrees = createWorktreeManager(basePath);
+  const inPlace: InterruptedTask[] = [];
+
+  for (const task of tasks) {
+    if (!task.useWorktree) {
+      inPlace.push(task);
+    } else if (task.stage !== 'finished') {
+      await worktrees.discard(task.taskId);
+      recovery.discarded.push(task.taskId);
+    }
+  }
+
+  if (inPlace.length === 0) {
+    return;
+  }
+
+  const taskIds = inPlace.map((t) => t.taskId);
+  if (!(await isGitRepository(basePath))) {
+    recovery.warnings.push(
+      `Not a git repository - in-place changes for ${taskIds.join(', ')} were left as they are`
+    );
+    return;
+  }
+
+  const message = `kr-wiggum: changes from interrupted ${taskIds.join(', ')}`;
+  if (await stashChanges(basePath, message, ORCHESTRATION_PATHS)) {
+    recovery.stashMessage = message;
+  }
+  recovery.discarded.push(...taskIds);
+
+  const head = await findHeadCommit(basePath);
+  for (const task of inPlace) {
+    if (task.headCommit !== null && task.headCommit !== head) {
+      recovery.warnings.push(
+        `Commits were made after ${task.taskId} started (${task.headCommit.slice(0, 7)}..HEAD) and were kept`
+      );
+    }
+  }
+}
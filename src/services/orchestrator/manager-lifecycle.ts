@@ -3,9 +3,22 @@
  * Launches Manager with HANDOFF_FILE, monitors exit codes
  */
 import { generateManagerPrompt } from '../../prompts/index.js';
+import type { TaskSelectionPolicyName, TokenUsage } from '../../schemas/index.js';
+import { createImplementationPlanManager, createTelemetryManager } from '../../state/index.js';
 import { EXIT_CODES, type ProcessSpawnResult } from '../../types/index.js';
+import {
+  loadFailedAttempts,
+  resolveSelectionPolicy,
+  resolveTaskOrder,
+  type TaskSelectionPolicy,
+} from '../shift-manager/selection-policy.js';
 
-import { spawnClaude, type ClaudeSpawnResult } from './claude-spawner.js';
+import { getDefaultAgentBackend, type AgentBackend } from './agent-backend.js';
+
+/**
+ * Tasks a Manager is told to hand out before it rotates
+ */
+export const MANAGER_MAX_TASKS_BEFORE_ROTATION = 5;
 
 /**
  * Manager spawn configuration
@@ -15,7 +28,15 @@ export interface ManagerSpawnConfig {
   handoffFile?: string;
   projectId?: string;
   timeout?: number;
+  /** How ready tasks within a layer are ordered (default: by ID) */
+  selectionPolicy?: TaskSelectionPolicyName | TaskSelectionPolicy;
+  /** Backend that runs the session (default: Claude CLI) */
+  backend?: AgentBackend;
   onOutput?: (data: string) => void;
+  /** Called with the Manager's PID once its session has started */
+  onSpawn?: (pid: number) => void;
+  /** Called with the Manager's token usage after each turn */
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 /**
@@ -30,7 +51,7 @@ export interface ManagerLifecycleState {
 }
 
 /**
- * Spawn a Manager process using Claude Code CLI
+ * Spawn a Manager process through the agent backend
  */
 export async function spawnManager(config: ManagerSpawnConfig): Promise<ProcessSpawnResult> {
   const {
@@ -38,27 +59,50 @@ export async function spawnManager(config: ManagerSpawnConfig): Promise<ProcessS
     handoffFile,
     projectId,
     timeout = 600000, // 10 minutes default
+    selectionPolicy,
+    backend = getDefaultAgentBackend(),
     onOutput,
+    onSpawn,
+    onUsage,
   } = config;
 
-  // Generate the Manager prompt
+  // Generate the Manager prompt, with the next tasks in the order the selection policy gives them
+  const policy = resolveSelectionPolicy(selectionPolicy);
+  const planManager = createImplementationPlanManager(basePath);
+  const taskOrder = resolveTaskOrder(
+    planManager.parseTasks(await planManager.read()),
+    policy,
+    await loadFailedAttempts(basePath)
+  );
   const prompt = generateManagerPrompt({
     basePath,
     handoffPath: handoffFile,
     projectId,
     implementationPlanPath: 'IMPLEMENTATION_PLAN.md',
-    maxTasksBeforeRotation: 5,
+    maxTasksBeforeRotation: MANAGER_MAX_TASKS_BEFORE_ROTATION,
+    selectionPolicy: policy.name,
+    taskOrder: taskOrder.slice(0, MANAGER_MAX_TASKS_BEFORE_ROTATION).map((task) => task.id),
   });
 
-  // Spawn Claude Code CLI with the prompt
-  const result: ClaudeSpawnResult = await spawnClaude({
+  // Real per-turn usage drives context fill, and with it the rotation threshold
+  const telemetry = createTelemetryManager(basePath);
+  let heartbeats: Promise<unknown> = Promise.resolve();
+
+  const result = await backend.run({
+    role: 'manager',
     prompt,
     cwd: basePath,
     timeout,
     onOutput,
+    onSpawn,
+    onUsage: (usage) => {
+      heartbeats = heartbeats.then(() => telemetry.recordUsage(usage)).catch(() => undefined);
+      onUsage?.(usage);
+    },
     // Managers get full tool access for reading, editing, and spawning workers
     allowedTools: ['Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep'],
   });
+  await heartbeats;
 
   return {
     pid: result.pid,
@@ -66,15 +110,17 @@ export async function spawnManager(config: ManagerSpawnConfig): Promise<ProcessS
     stdout: result.stdout,
     stderr: result.stderr,
     duration: result.duration,
+    timedOut: result.timedOut,
   };
 }
 
 /**
  * Manager lifecycle controller
- * Note: With Claude CLI, managers run as blocking processes
+ * Note: Manager sessions are blocking processes
  */
 export class ManagerLifecycle {
   private readonly basePath: string;
+  private readonly backend: AgentBackend | undefined;
   private state: ManagerLifecycleState = {
     pid: null,
     startedAt: null,
@@ -83,8 +129,9 @@ export class ManagerLifecycle {
     rotationCount: 0,
   };
 
-  constructor(basePath: string) {
+  constructor(basePath: string, backend?: AgentBackend) {
     this.basePath = basePath;
+    this.backend = backend;
   }
 
   /**
@@ -100,6 +147,7 @@ export class ManagerLifecycle {
 
     const result = await spawnManager({
       basePath: this.basePath,
+      backend: this.backend,
       ...config,
     });
 
@@ -164,6 +212,9 @@ export class ManagerLifecycle {
 /**
  * Create a Manager lifecycle controller
  */
-export function createManagerLifecycle(basePath: string): ManagerLifecycle {
-  return new ManagerLifecycle(basePath);
+export function createManagerLifecycle(
+  basePath: string,
+  backend?: AgentBackend
+): ManagerLifecycle {
+  return new ManagerLifecycle(basePath, backend);
 }
@@ -0,0 +1,168 @@
+/**
+ * Parser for `claude --output-format stream-json`
+ * Turns newline-delimited CLI events into plain text and per-turn token usage
+ */
+import { TokenUsageSchema, type TokenUsage } from '../../schemas/index.js';
+
+/**
+ * Callbacks fired while the stream is parsed
+ */
+export interface StreamJsonHandlers {
+  /** Assistant text and any non-JSON output, in arrival order */
+  onText?: (text: string) => void;
+  /** Usage of each assistant turn, i.e. the current context size */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * Loosely typed CLI event; only the fields the parser reads
+ */
+interface StreamEvent {
+  type?: unknown;
+  result?: unknown;
+  message?: {
+    content?: unknown;
+    usage?: unknown;
+  };
+}
+
+/**
+ * Incremental stream-json parser
+ * Chunks may split lines anywhere; call end() once the process exits.
+ */
+export class StreamJsonParser {
+  private readonly handlers: StreamJsonHandlers;
+  private buffer = '';
+  private text = '';
+  private resultText: string | null = null;
+  private lastUsage: TokenUsage | null = null;
+
+  constructor(handlers: StreamJsonHandlers = {}) {
+    this.handlers = handlers;
+  }
+
+  /**
+   * Feed a chunk of stdout
+   */
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline = this.buffer.indexOf('\n');
+    while (newline !== -1) {
+      this.parseLine(this.buffer.slice(0, newline));
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf('\n');
+    }
+  }
+
+  /**
+   * Flush a final line that had no trailing newline
+   */
+  end(): void {
+    if (this.buffer !== '') {
+      this.parseLine(this.buffer);
+      this.buffer = '';
+    }
+  }
+
+  /**
+   * Session output as text: the CLI's final result, or the streamed text if there was none
+   */
+  getText(): string {
+    return this.resultText ?? this.text;
+  }
+
+  /**
+   * Usage of the last assistant turn, or null if the CLI reported none
+   */
+  getUsage(): TokenUsage | null {
+    return this.lastUsage;
+  }
+
+  /**
+   * Parse one line of output
+   */
+  private parseLine(line: string): void {
+    if (line.trim() === '') {
+      return;
+    }
+
+    let event: StreamEvent;
+    try {
+      event = JSON.parse(line) as StreamEvent;
+    } catch {
+      // Not an event (e.g. a warning printed by the CLI) - pass it through as text
+      this.appendText(`${line}\n`);
+      return;
+    }
+
+    if (event.type === 'assistant' && event.message !== undefined) {
+      this.appendText(getMessageText(event.message.content));
+      this.recordUsage(event.message.usage);
+    } else if (event.type === 'result' && typeof event.result === 'string') {
+      this.resultText = event.result;
+    }
+  }
+
+  /**
+   * Append text and forward it to the output callback
+   */
+  private appendText(text: string): void {
+    if (text === '') {
+      return;
+    }
+    this.text += text;
+    this.handlers.onText?.(text);
+  }
+
+  /**
+   * Record a turn's usage, skipping repeats of the same turn
+   * The CLI emits one assistant event per content block, all carrying the same usage.
+   */
+  private recordUsage(raw: unknown): void {
+    const parsed = TokenUsageSchema.safeParse(raw);
+    if (!parsed.success) {
+      return;
+    }
+
+    const usage = parsed.data;
+    const previous = this.lastUsage;
+    if (
+      previous !== null &&
+      previous.input_tokens === usage.input_tokens &&
+      previous.output_tokens === usage.output_tokens &&
+      previous.cache_creation_input_tokens === usage.cache_creation_input_tokens &&
+      previous.cache_read_input_tokens === usage.cache_read_input_tokens
+    ) {
+      return;
+    }
+
+    this.lastUsage = usage;
+    this.handlers.onUsage?.(usage);
+  }
+}
+
+/**
+ * Concatenate the text blocks of an assistant message
+ */
+function getMessageText(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+
+  return content
+    .map((block: { type?: unknown; text?: unknown }) =>
+      block.type === 'text' && typeof block.text === 'string' ? block.text : ''
+    )
+    .join('');
+}
+
+/**
+ * Create a stream-json parser
+ */
+export function createStreamJsonParser(handlers: StreamJsonHandlers = {}): StreamJsonParser {
+  return new StreamJsonParser(handlers);
+}
@@ -2,10 +2,69 @@
  * Worker process spawning
  * Spawns fresh Claude Code instance per task, kills after completion
  */
+import { randomUUID } from 'node:crypto';
+import { writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
 import { generateWorkerPrompt } from '../../prompts/index.js';
-import { type ProcessSpawnResult } from '../../types/index.js';
+import type { ProjectConfig } from '../../schemas/index.js';
+import {
+  createImplementationPlanManager,
+  createTaskHistoryManager,
+  ensureDirectory,
+} from '../../state/index.js';
+import { EXIT_CODES, type ProcessSpawnResult } from '../../types/index.js';
+import {
+  createWorktreeManager,
+  diffSinceSnapshot,
+  diffStatsSinceSnapshot,
+  diffWorkingTree,
+  isGitRepository,
+  restoreSnapshot,
+  snapshotWorkingTree,
+  type FileDiffStat,
+  type TaskWorktree,
+  type WorkingTreeSnapshot,
+} from '../git/index.js';
+import { getBlockingReasons, getGuardrailConfig, runGuardrails } from '../guardrail/index.js';
+import { archiveFailedAttempt } from '../shift-manager/failed-attempt-archive.js';
+import {
+  formatTaskCommitMessage,
+  linkTaskCommit,
+  recordTaskADRs,
+} from '../shift-manager/task-committer.js';
+import { createTaskQuarantine } from '../shift-manager/task-quarantine.js';
+import { checkChangeLimits } from '../worker/change-capture.js';
+import {
+  readStatusFragment,
+  reconcileStatusFragment,
+  toFileChanges,
+  writeBlockedFragment,
+} from '../worker/status-fragment-writer.js';
 
-import { spawnClaude, type ClaudeSpawnResult } from './claude-spawner.js';
+import { getDefaultAgentBackend, type AgentBackend } from './agent-backend.js';
+
+/**
+ * Where partial diffs of timed-out Workers are kept, relative to the project
+ */
+const PATCHES_DIR = join('.ralph', 'patches');
+
+/**
+ * Files left out of partial diffs: orchestration state and shared dependencies
+ */
+const PATCH_EXCLUDE_PATHS = ['.ralph', '.agent', 'IMPLEMENTATION_PLAN.md', 'node_modules'];
+
+/**
+ * Build/test fix attempts a Worker is allowed within one session
+ */
+export const WORKER_MAX_RETRIES = 5;
+
+/**
+ * Nudge sent to a Worker whose time is up
+ */
+const WORKER_TIMEOUT_NOTICE =
+  'TIMEOUT: your time for this task is up. Stop making changes, write a blocked status fragment ' +
+  'to .ralph/status-fragment.json describing what is done and what is left, then exit with code 1.';
 
 /**
  * Worker spawn configuration
@@ -15,9 +74,25 @@ export interface WorkerSpawnConfig {
   taskId: string;
   prdPath: string;
   currentTaskPath: string;
+  /** Context bundle written by the task selector */
+  contextPath?: string;
   projectId?: string;
   timeout?: number;
+  /** Time to checkpoint after the timeout nudge before the Worker is killed (default: 30 seconds) */
+  gracePeriod?: number;
+  /** Run the Worker in its own git worktree on branch ralph/<task-id> */
+  useWorktree?: boolean;
+  /** Continue in the worktree an interrupted Worker left behind */
+  resumeWorktree?: boolean;
+  /** Other in-place Workers run in the same working tree at the same time */
+  sharedTree?: boolean;
+  /** Backend that runs the session (default: Claude CLI) */
+  backend?: AgentBackend;
+  /** Commands, retries, guardrails and timeouts from kr-wiggum.config.json */
+  projectConfig?: ProjectConfig;
   onOutput?: (data: string) => void;
+  /** Called with the Worker's PID once its session has started */
+  onSpawn?: (pid: number) => void;
 }
 
 /**
@@ -26,20 +101,98 @@ export interface WorkerSpawnConfig {
 export interface WorkerSpawnResult extends ProcessSpawnResult {
   taskId: string;
   success: boolean;
+  /** Task could not be merged back and needs a human */
+  blocked?: boolean;
+  blockerReason?: string;
+  /** Why a worktree Worker whose session succeeded still failed (guardrails or merge) */
+  failureReason?: string;
+  /** Task branch when the Worker ran in a worktree */
+  branch?: string;
+  /** Commit holding the Worker's changes on its task branch */
+  commitHash?: string;
+  /** Partial diff of a timed-out Worker, relative to the project */
+  patchPath?: string;
+  /** Diff of a failed Worker that was rolled back, archived under .ralph/failed */
+  failedPatchPath?: string;
+  /** Tokens the session used, when the backend reports usage */
+  tokensUsed?: number;
+  /** Files the session changed with their line counts; absent outside a git repository */
+  diffStats?: FileDiffStat[];
 }
 
 /**
- * Spawn a Worker process using Claude Code CLI
+ * Working tree snapshot to roll a failed Worker back to, or null outside a git repository
  */
-export async function spawnWorker(config: WorkerSpawnConfig): Promise<WorkerSpawnResult> {
+async function takeSnapshot(cwd: string): Promise<WorkingTreeSnapshot | null> {
+  try {
+    return (await isGitRepository(cwd)) ? await snapshotWorkingTree(cwd) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * What the session changed since its snapshot, commits included, or null when it cannot be
+ * measured
+ */
+async function measureChanges(
+  cwd: string,
+  snapshot: WorkingTreeSnapshot
+): Promise<FileDiffStat[] | null> {
+  try {
+    return await diffStatsSinceSnapshot(cwd, snapshot, PATCH_EXCLUDE_PATHS);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Put git's account of the session's changes into the status fragment the Worker wrote
+ * Agents list changed files from memory; changes beyond the task's limits are recorded as
+ * guardrail violations.
+ */
+async function reconcileWorkerFragment(
+  config: WorkerSpawnConfig,
+  cwd: string,
+  startedAt: number,
+  changes: FileDiffStat[]
+): Promise<void> {
+  const fragment = await readStatusFragment(cwd);
+  if (
+    fragment === null ||
+    fragment.task_id !== config.taskId ||
+    Date.parse(fragment.created_at) < startedAt
+  ) {
+    return;
+  }
+
+  try {
+    const violations = await checkChangeLimits(config.basePath, config.taskId, changes);
+    await reconcileStatusFragment(cwd, fragment, toFileChanges(changes), violations);
+  } catch {
+    // The agent's own fragment stays
+  }
+}
+
+/**
+ * Run the Worker's agent session in the given directory
+ */
+async function runWorkerSession(
+  config: WorkerSpawnConfig,
+  cwd: string
+): Promise<WorkerSpawnResult> {
   const {
-    basePath,
     taskId,
     prdPath,
     currentTaskPath,
+    contextPath,
     projectId,
-    timeout = 300000, // 5 minutes default
+    projectConfig,
+    timeout = projectConfig?.timeouts.worker_ms ?? 300000, // 5 minutes default
+    gracePeriod = projectConfig?.timeouts.grace_period_ms,
+    backend = getDefaultAgentBackend(),
     onOutput,
+    onSpawn,
   } = config;
 
   // Generate the Worker prompt
@@ -47,45 +200,361 @@ export async function spawnWorker(config: WorkerSpawnConfig): Promise<WorkerSpaw
     taskId,
     prdPath,
     taskPath: currentTaskPath,
-    basePath,
-    maxRetries: 5,
+    contextPath,
+    basePath: cwd,
+    maxRetries: projectConfig?.limits.worker_max_retries ?? WORKER_MAX_RETRIES,
     projectId,
+    commands: projectConfig?.commands,
   });
 
-  // Spawn Claude Code CLI with the prompt
-  const result: ClaudeSpawnResult = await spawnClaude({
+  // Only what this session changes counts, not what was already uncommitted
+  const snapshot = await takeSnapshot(cwd);
+  const startedAt = Date.now();
+
+  // Cache reads re-read earlier context every turn, so they are not counted as used
+  let tokensUsed: number | undefined;
+
+  const result = await backend.run({
+    role: 'worker',
+    taskId,
     prompt,
-    cwd: basePath,
+    cwd,
     timeout,
+    gracePeriod,
+    timeoutNotice: WORKER_TIMEOUT_NOTICE,
     onOutput,
+    onSpawn,
+    onUsage: (usage) => {
+      tokensUsed =
+        (tokensUsed ?? 0) +
+        usage.input_tokens +
+        usage.cache_creation_input_tokens +
+        usage.output_tokens;
+    },
     // Workers get full tool access for editing, building, testing
     allowedTools: ['Read', 'Write', 'Edit', 'Bash', 'Glob', 'Grep'],
   });
 
-  return {
+  const changes = snapshot !== null ? await measureChanges(cwd, snapshot) : null;
+
+  const workerResult: WorkerSpawnResult = {
     pid: result.pid,
     exitCode: result.exitCode,
     stdout: result.stdout,
     stderr: result.stderr,
     duration: result.duration,
+    timedOut: result.timedOut,
     taskId,
     success: result.success,
+    tokensUsed,
+    diffStats: changes ?? undefined,
   };
+
+  if (workerResult.diffStats !== undefined) {
+    await reconcileWorkerFragment(config, cwd, startedAt, workerResult.diffStats);
+  }
+
+  const finished = result.timedOut
+    ? await checkpointTimedOutWorker(config, cwd, workerResult)
+    : workerResult;
+
+  const failed =
+    finished.exitCode === EXIT_CODES.TASK_FAILED || finished.exitCode === EXIT_CODES.CRASH;
+  if (!failed || snapshot === null) {
+    return finished;
+  }
+
+  return config.sharedTree === true
+    ? quarantineSharedTreeWorker(config, finished)
+    : rollBackFailedWorker(config.basePath, cwd, snapshot, finished);
+}
+
+/**
+ * Quarantine a failed Worker that shared its working tree with other Workers
+ * Restoring its snapshot would also undo what the others changed since, so its changes are left
+ * in place for a human to sort out.
+ */
+async function quarantineSharedTreeWorker(
+  config: WorkerSpawnConfig,
+  result: WorkerSpawnResult
+): Promise<WorkerSpawnResult> {
+  const blockerReason =
+    'Worker failed while sharing the working tree with other Workers; its changes were not ' +
+    'rolled back';
+
+  try {
+    await createTaskQuarantine(config.basePath).quarantine(result.taskId, blockerReason);
+  } catch {
+    // The blocked result still tells the caller the task needs a human
+  }
+
+  return { ...result, blocked: true, blockerReason };
+}
+
+/**
+ * Undo what a failed Worker left in the working tree so the next Worker starts from a clean build
+ * Its diff is archived first as .ralph/failed/<task-id>-attempt-<n>.patch.
+ */
+async function rollBackFailedWorker(
+  basePath: string,
+  cwd: string,
+  snapshot: WorkingTreeSnapshot,
+  result: WorkerSpawnResult
+): Promise<WorkerSpawnResult> {
+  try {
+    const diff = await diffSinceSnapshot(cwd, snapshot, PATCH_EXCLUDE_PATHS);
+    if (diff === '') {
+      return result;
+    }
+
+    const failedPatchPath = await archiveFailedAttempt(basePath, result.taskId, diff);
+    await restoreSnapshot(cwd, snapshot, PATCH_EXCLUDE_PATHS);
+
+    return {
+      ...result,
+      stderr: `${result.stderr}\nWorker changes rolled back; diff archived to ${failedPatchPath}`,
+      failedPatchPath,
+    };
+  } catch (error) {
+    return {
+      ...result,
+      stderr: `${result.stderr}\nWorker changes could not be rolled back: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Keep what a timed-out Worker left behind
+ * Its partial diff is saved as a patch, and a blocked status fragment is written unless the
+ * Worker checkpointed one itself in response to the timeout nudge.
+ */
+async function checkpointTimedOutWorker(
+  config: WorkerSpawnConfig,
+  cwd: string,
+  result: WorkerSpawnResult
+): Promise<WorkerSpawnResult> {
+  const { basePath, taskId, projectId } = config;
+  const startedAt = Date.now() - result.duration;
+  const seconds = Math.round(result.duration / 1000);
+
+  let patchPath: string | null = null;
+  let outcome = 'no partial changes';
+  try {
+    patchPath = await savePartialDiff(basePath, cwd, taskId);
+    if (patchPath !== null) {
+      outcome = `partial diff saved to ${patchPath}`;
+    }
+  } catch (error) {
+    outcome = `partial diff could not be saved: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  const fragment = await readStatusFragment(cwd);
+  const checkpointed =
+    fragment !== null && fragment.task_id === taskId && Date.parse(fragment.created_at) >= startedAt;
+
+  // A checkpoint written inside a worktree is removed with it, so it is copied to the project
+  if (!checkpointed || cwd !== basePath) {
+    const progress = checkpointed
+      ? fragment.what_fixed.replace(/^BLOCKED:\s*/, '')
+      : 'no checkpoint was written';
+    await writeBlockedFragment(basePath, {
+      projectId: projectId ?? '',
+      sessionId: randomUUID(),
+      taskId,
+      blockerDescription: `Timed out after ${seconds}s (${outcome}): ${progress}`,
+      retryCount: 0,
+    });
+  }
+
+  return {
+    ...result,
+    stderr: `${result.stderr}\nWorker timed out after ${seconds}s; ${outcome}`,
+    patchPath: patchPath ?? undefined,
+  };
+}
+
+/**
+ * Save a Worker's uncommitted changes as .ralph/patches/<task-id>-<timestamp>.patch
+ * Returns the patch path relative to the project, or null if there was nothing to save.
+ */
+async function savePartialDiff(basePath: string, cwd: string, taskId: string): Promise<string | null> {
+  if (!(await isGitRepository(cwd))) {
+    return null;
+  }
+
+  const diff = await diffWorkingTree(cwd, PATCH_EXCLUDE_PATHS);
+  if (diff === '') {
+    return null;
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const patchPath = join(PATCHES_DIR, `${taskId}-${timestamp}.patch`);
+  await ensureDirectory(join(basePath, PATCHES_DIR));
+  await writeFile(join(basePath, patchPath), diff, 'utf-8');
+
+  return patchPath;
+}
+
+/**
+ * Run a Worker in an isolated worktree and merge its branch back after guardrails pass
+ * A merge conflict marks the task blocked and keeps the branch for a human to resolve.
+ */
+async function spawnWorkerInWorktree(config: WorkerSpawnConfig): Promise<WorkerSpawnResult> {
+  const { basePath, taskId, projectId } = config;
+  const worktrees = createWorktreeManager(basePath);
+
+  let worktree: TaskWorktree;
+  try {
+    worktree = await worktrees.create(taskId, { reuseExisting: config.resumeWorktree });
+  } catch (error) {
+    return {
+      pid: 0,
+      exitCode: EXIT_CODES.TASK_FAILED,
+      stdout: '',
+      stderr: `Failed to create worktree: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      duration: 0,
+      taskId,
+      success: false,
+    };
+  }
+
+  let merged = false;
+
+  try {
+    const result = await runWorkerSession(config, worktree.path);
+    const withBranch = { ...result, branch: worktree.branch };
+
+    if (!result.success) {
+      return withBranch;
+    }
+
+    const guardrails = await runGuardrails({
+      basePath: worktree.path,
+      updateTelemetry: false,
+      config:
+        config.projectConfig !== undefined
+          ? getGuardrailConfig(config.projectConfig.guardrails)
+          : undefined,
+    });
+    if (!guardrails.allPassing) {
+      const failureReason = `Guardrails failed: ${getBlockingReasons(guardrails).join('; ')}`;
+      return {
+        ...withBranch,
+        success: false,
+        stderr: `${result.stderr}\n${failureReason}`,
+        failureReason,
+      };
+    }
+
+    const fragment = await readStatusFragment(worktree.path);
+    const ownFragment = fragment?.task_id === taskId ? fragment : null;
+    const whatFixed = ownFragment?.what_fixed ?? 'Worker changes';
+    // ADRs are best effort; the task is committed either way
+    const adrIds = await recordTaskADRs(basePath, taskId, worktree.path).catch((): string[] => []);
+    const commitHash = await worktrees.commit(
+      worktree,
+      formatTaskCommitMessage(taskId, whatFixed, adrIds)
+    );
+    const merge = await worktrees.merge(worktree, `Merge ${worktree.branch} (${taskId})`);
+
+    if (merge.conflict) {
+      const blockerReason = `Merge conflict with ${worktree.baseBranch} in ${merge.conflictFiles.join(', ')}`;
+      await writeBlockedFragment(basePath, {
+        projectId: projectId ?? '',
+        sessionId: randomUUID(),
+        taskId,
+        blockerDescription: `${blockerReason} (branch ${worktree.branch} kept for manual merge)`,
+        retryCount: 0,
+      });
+
+      return { ...withBranch, success: false, blocked: true, blockerReason };
+    }
+
+    if (!merge.success) {
+      const failureReason = `Merge failed: ${merge.error ?? 'Unknown error'}`;
+      return {
+        ...withBranch,
+        success: false,
+        stderr: `${result.stderr}\n${failureReason}`,
+        failureReason,
+      };
+    }
+
+    merged = true;
+    if (commitHash !== null) {
+      await linkTaskCommit(basePath, commitHash, adrIds, ownFragment).catch(() => undefined);
+    }
+    return { ...withBranch, commitHash: commitHash ?? undefined };
+  } catch (error) {
+    return {
+      pid: 0,
+      exitCode: EXIT_CODES.TASK_FAILED,
+      stdout: '',
+      stderr: `Worktree run failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      duration: 0,
+      taskId,
+      success: false,
+      branch: worktree.branch,
+    };
+  } finally {
+    // Unmerged branches are kept so the work can be inspected
+    await worktrees.remove(worktree, { deleteBranch: merged });
+  }
+}
+
+/**
+ * Add a Worker's attempt to .ralph/task-history.json (best effort)
+ */
+async function recordTaskRun(basePath: string, result: WorkerSpawnResult): Promise<void> {
+  try {
+    const task = await createImplementationPlanManager(basePath).getTask(result.taskId);
+    await createTaskHistoryManager(basePath).recordAttempt({
+      taskId: result.taskId,
+      title: task?.title ?? '',
+      layer: task?.dependencyLayer ?? null,
+      estimatedMinutes: task?.estimatedMinutes ?? null,
+      durationMs: result.duration,
+      tokensUsed: result.tokensUsed ?? null,
+      completed: result.success,
+    });
+  } catch {
+    // History only calibrates estimates
+  }
+}
+
+/**
+ * Spawn a Worker process through the agent backend
+ * Each attempt's duration and tokens are added to the task's history.
+ */
+export async function spawnWorker(config: WorkerSpawnConfig): Promise<WorkerSpawnResult> {
+  const result =
+    config.useWorktree === true
+      ? await spawnWorkerInWorktree(config)
+      : await runWorkerSession(config, config.basePath);
+
+  // No Worker ran when its worktree could not be created
+  if (config.useWorktree !== true || result.branch !== undefined) {
+    await recordTaskRun(config.basePath, result);
+  }
+
+  return result;
 }
 
 /**
  * Worker pool for managing multiple concurrent workers
- * Note: With Claude CLI, workers are spawned as blocking processes
+ * Each Worker is a separate Claude CLI process, so a batch can run them side by side
  */
 export class WorkerPool {
   private readonly basePath: string;
   private readonly maxConcurrent: number;
+  private readonly backend: AgentBackend | undefined;
   private activeCount: number = 0;
   private completedTasks: WorkerSpawnResult[] = [];
 
-  constructor(basePath: string, maxConcurrent: number = 1) {
+  constructor(basePath: string, maxConcurrent: number = 1, backend?: AgentBackend) {
     this.basePath = basePath;
     this.maxConcurrent = maxConcurrent;
+    this.backend = backend;
   }
 
   /**
@@ -100,7 +569,9 @@ export class WorkerPool {
     try {
       const result = await spawnWorker({
         basePath: this.basePath,
+        backend: this.backend,
         ...config,
+        sharedTree: this.maxConcurrent > 1 && config.useWorktree !== true,
       });
 
       this.completedTasks.push(result);
@@ -110,6 +581,47 @@ export class WorkerPool {
     }
   }
 
+  /**
+   * Spawn workers for a batch of tasks, running at most maxConcurrent at once
+   * Results are returned in the same order as the input configs; onResult fires as each finishes
+   */
+  async spawnBatch(
+    configs: Array<Omit<WorkerSpawnConfig, 'basePath'>>,
+    onResult?: (result: WorkerSpawnResult) => void
+  ): Promise<WorkerSpawnResult[]> {
+    const results: WorkerSpawnResult[] = new Array<WorkerSpawnResult>(configs.length);
+    let nextIndex = 0;
+
+    const runNext = async (): Promise<void> => {
+      while (nextIndex < configs.length) {
+        const index = nextIndex++;
+        const config = configs[index];
+        if (config === undefined) {
+          continue;
+        }
+        const result = await this.spawnForTask(config);
+        results[index] = result;
+        onResult?.(result);
+      }
+    };
+
+    const lanes = Math.min(this.maxConcurrent - this.activeCount, configs.length);
+    if (configs.length > 0 && lanes <= 0) {
+      throw new Error(`Max concurrent workers (${this.maxConcurrent}) reached`);
+    }
+
+    await Promise.all(Array.from({ length: lanes }, () => runNext()));
+
+    return results;
+  }
+
+  /**
+   * Get max concurrent worker count
+   */
+  getMaxConcurrent(): number {
+    return this.maxConcurrent;
+  }
+
   /**
    * Get active worker count
    */
@@ -139,6 +651,10 @@ export class WorkerPool {
 /**
  * Create a worker pool
  */
-export function createWorkerPool(basePath: string, maxConcurrent: number = 1): WorkerPool {
-  return new WorkerPool(basePath, maxConcurrent);
+export function createWorkerPool(
+  basePath: string,
+  maxConcurrent: number = 1,
+  backend?: AgentBackend
+): WorkerPool {
+  return new WorkerPool(basePath, maxConcurrent, backend);
 }
@@ -0,0 +1,192 @@
+/**
+ * ETA estimator
+ * Calibrates each remaining task's `Est:` minutes against how long similar tasks actually took
+ * (same layer, shared title keywords), and sums them into a rolling ETA with a confidence band
+ */
+import type { TaskRunRecord } from '../../schemas/index.js';
+import {
+  createImplementationPlanManager,
+  createTaskHistoryManager,
+  extractTaskKeywords,
+  isTaskRemaining,
+  type ParsedTask,
+} from '../../state/index.js';
+
+/**
+ * Minutes assumed for a task without an `Est:` line (the task schema default)
+ */
+export const DEFAULT_TASK_MINUTES = 30;
+
+/**
+ * Most recently completed tasks the calibration looks at, so the ETA follows the current pace
+ */
+export const ETA_HISTORY_WINDOW = 50;
+
+// Below this many samples the spread of past errors says little, so a wide default band is used
+const MIN_BAND_SAMPLES = 3;
+const DEFAULT_BAND = { low: 0.5, high: 2 };
+const BAND_PERCENTILES = { low: 0.1, high: 0.9 };
+
+/**
+ * Calibrated estimate for one remaining task
+ */
+export interface TaskEtaEstimate {
+  taskId: string;
+  /** The plan's `Est:` minutes, or the default when there is none */
+  plannedMinutes: number;
+  calibratedMinutes: number;
+  /** Completed tasks in the same layer or with shared keywords that calibrated it */
+  similarTasks: number;
+}
+
+/**
+ * Rolling ETA for the remaining tasks
+ */
+export interface EtaEstimate {
+  remainingTasks: number;
+  /** Calibrated Worker hours left; what ImplementationPlan.estimated_hours_remaining holds */
+  estimatedHoursRemaining: number;
+  /** Confidence band from the 10th and 90th percentile of past estimate errors */
+  lowHours: number;
+  highHours: number;
+  /** Completed tasks the calibration drew on; 0 means plan estimates only */
+  samples: number;
+  estimatedCompletionAt: string;
+  /** Average tokens per completed task times the remaining tasks; null without usage data */
+  estimatedTokensRemaining: number | null;
+  tasks: TaskEtaEstimate[];
+}
+
+/**
+ * How much longer than estimated a completed task took (retries included)
+ */
+function getActualRatio(record: TaskRunRecord): number {
+  const estimated = record.estimated_minutes ?? DEFAULT_TASK_MINUTES;
+  return record.duration_ms / 60000 / (estimated > 0 ? estimated : DEFAULT_TASK_MINUTES);
+}
+
+/**
+ * Linear-interpolated percentile of sorted values
+ */
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = sorted[Math.floor(position)] ?? 0;
+  const upper = sorted[Math.ceil(position)] ?? lower;
+  return lower + (upper - lower) * (position - Math.floor(position));
+}
+
+/**
+ * Similarity of a past task to a remaining one: 1 for the same layer plus the share of
+ * keywords they have in common
+ */
+function getSimilarity(task: ParsedTask, keywords: string[], record: TaskRunRecord): number {
+  const shared = keywords.filter((word) => record.keywords.includes(word)).length;
+  const union = new Set([...keywords, ...record.keywords]).size;
+  return (record.layer === task.dependencyLayer ? 1 : 0) + (union > 0 ? shared / union : 0);
+}
+
+/**
+ * Calibrate one task against the history window
+ * Similar tasks are weighted by similarity; without any, the whole window is averaged.
+ */
+export function calibrateTaskEstimate(task: ParsedTask, history: TaskRunRecord[]): TaskEtaEstimate {
+  const plannedMinutes = task.estimatedMinutes ?? DEFAULT_TASK_MINUTES;
+  const keywords = extractTaskKeywords(task.title);
+
+  const similar = history
+    .map((record) => ({ record, weight: getSimilarity(task, keywords, record) }))
+    .filter(({ weight }) => weight > 0);
+  const weighted = similar.length > 0 ? similar : history.map((record) => ({ record, weight: 1 }));
+
+  const totalWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+  const ratio =
+    totalWeight > 0
+      ? weighted.reduce((sum, { record, weight }) => sum + getActualRatio(record) * weight, 0) /
+        totalWeight
+      : 1;
+
+  return {
+    taskId: task.id,
+    plannedMinutes,
+    calibratedMinutes: Math.round(plannedMinutes * ratio),
+    similarTasks: similar.length,
+  };
+}
+
+/**
+ * Estimate the time left for the plan's remaining tasks from the run history
+ */
+export function estimateRemainingTime(
+  tasks: ParsedTask[],
+  records: TaskRunRecord[],
+  now: Date = new Date()
+): EtaEstimate {
+  const history = records
+    .filter((record) => record.completed && record.completed_at !== null)
+    .sort((a, b) => Date.parse(b.completed_at ?? '') - Date.parse(a.completed_at ?? ''))
+    .slice(0, ETA_HISTORY_WINDOW);
+
+  const estimates = tasks
+    .filter(isTaskRemaining)
+    .map((task) => calibrateTaskEstimate(task, history));
+  const minutes = estimates.reduce((sum, estimate) => sum + estimate.calibratedMinutes, 0);
+
+  let band = DEFAULT_BAND;
+  const ratios = history.map(getActualRatio).sort((a, b) => a - b);
+  const mean = ratios.reduce((sum, ratio) => sum + ratio, 0) / (ratios.length || 1);
+  if (ratios.length >= MIN_BAND_SAMPLES && mean > 0) {
+    band = {
+      low: Math.min(1, percentile(ratios, BAND_PERCENTILES.low) / mean),
+      high: Math.max(1, percentile(ratios, BAND_PERCENTILES.high) / mean),
+    };
+  }
+
+  const withTokens = history.filter((record) => record.tokens_used !== null);
+  const tokensPerTask =
+    withTokens.length > 0
+      ? withTokens.reduce((sum, record) => sum + (record.tokens_used ?? 0), 0) / withTokens.length
+      : null;
+
+  const toHours = (value: number): number => Math.round((value / 60) * 10) / 10;
+
+  return {
+    remainingTasks: estimates.length,
+    estimatedHoursRemaining: toHours(minutes),
+    lowHours: toHours(minutes * band.low),
+    highHours: toHours(minutes * band.high),
+    samples: history.length,
+    estimatedCompletionAt: new Date(now.getTime() + minutes * 60000).toISOString(),
+    estimatedTokensRemaining:
+      tokensPerTask !== null ? Math.round(tokensPerTask * estimates.length) : null,
+    tasks: estimates,
+  };
+}
+
+/**
+ * Estimate the time left for a project from IMPLEMENTATION_PLAN.md and .ralph/task-history.json
+ */
+export async function loadEta(basePath: string, tasks?: ParsedTask[]): Promise<EtaEstimate> {
+  const planManager = createImplementationPlanManager(basePath);
+  const planTasks = tasks ?? planManager.parseTasks(await planManager.read());
+
+  const historyManager = createTaskHistoryManager(basePath);
+  const records = (await historyManager.exists()) ? await historyManager.getRecords() : [];
+
+  return estimateRemainingTime(planTasks, records);
+}
+
+/**
+ * One-line ETA, e.g. `~3.5 h left (2.1-6.0 h), calibrated on 12 completed tasks`
+ */
+export function formatEta(eta: EtaEstimate): string {
+  if (eta.remainingTasks === 0) {
+    return 'No tasks remaining';
+  }
+
+  const basis =
+    eta.samples > 0
+      ? `calibrated on ${eta.samples} completed task${eta.samples === 1 ? '' : 's'}`
+      : 'from plan estimates only';
+
+  return `~${eta.estimatedHoursRemaining} h left (${eta.lowHours}-${eta.highHours} h), ${basis}`;
+}
@@ -7,6 +7,7 @@ import { access, readFile, readdir } from 'node:fs/promises';
 import { join } from 'node:path';
 
 import { createImplementationPlanManager } from '../../state/index.js';
+import type { GuardrailConfig } from '../../types/index.js';
 import { runGuardrails } from '../guardrail/index.js';
 
 /**
@@ -59,6 +60,8 @@ export interface SanityCheckerOptions {
   basePath: string;
   skipTests?: boolean;
   skipGuardrails?: boolean;
+  /** Guardrail checks and thresholds, e.g. from kr-wiggum.config.json */
+  guardrails?: GuardrailConfig;
 }
 
 /**
@@ -218,14 +221,16 @@ async function checkTaskCompletion(basePath: string): Promise<SanityCheck[]> {
     const planManager = createImplementationPlanManager(basePath);
     const progress = await planManager.getProgress();
 
-    const completionRate = progress.total > 0
-      ? Math.round((progress.completed / progress.total) * 100)
+    // Skipped tasks are left out of the rate
+    const counted = progress.total - progress.skipped;
+    const completionRate = counted > 0
+      ? Math.round((progress.completed / counted) * 100)
       : 100;
 
     checks.push({
       name: 'Task completion',
       status: completionRate === 100 ? 'pass' : completionRate >= 90 ? 'warn' : 'fail',
-      message: `${completionRate}% of tasks completed (${progress.completed}/${progress.total})`,
+      message: `${completionRate}% of tasks completed (${progress.completed}/${counted})`,
       details:
         progress.remaining > 0
           ? [`${progress.remaining} tasks remaining`]
@@ -235,7 +240,7 @@ async function checkTaskCompletion(basePath: string): Promise<SanityCheck[]> {
     // Check for unchecked tasks (potential blockers)
     const planContent = await planManager.read();
     const parsedTasks = planManager.parseTasks(planContent);
-    const uncheckedTasks = parsedTasks.filter((t) => !t.checked);
+    const uncheckedTasks = parsedTasks.filter((t) => !t.checked && t.status !== 'skipped');
 
     if (uncheckedTasks.length > 0 && progress.remaining > 0) {
       checks.push({
@@ -261,7 +266,8 @@ async function checkTaskCompletion(basePath: string): Promise<SanityCheck[]> {
  */
 async function checkCodeQuality(
   basePath: string,
-  skipGuardrails: boolean
+  skipGuardrails: boolean,
+  guardrails: GuardrailConfig | undefined
 ): Promise<SanityCheck[]> {
   const checks: SanityCheck[] = [];
 
@@ -278,6 +284,7 @@ async function checkCodeQuality(
     const result = await runGuardrails({
       basePath,
       updateTelemetry: false,
+      config: guardrails,
     });
 
     checks.push({
@@ -366,7 +373,7 @@ async function checkDocumentation(basePath: string): Promise<SanityCheck[]> {
 export async function runFinalSanityCheck(
   options: SanityCheckerOptions
 ): Promise<FinalSanityResult> {
-  const { basePath, skipTests = false, skipGuardrails = false } = options;
+  const { basePath, skipTests = false, skipGuardrails = false, guardrails } = options;
   const startTime = Date.now();
 
   // Run all check categories
@@ -382,7 +389,7 @@ export async function runFinalSanityCheck(
     checkSourceStructure(basePath),
     checkDependencies(basePath),
     checkTaskCompletion(basePath),
-    checkCodeQuality(basePath, skipGuardrails),
+    checkCodeQuality(basePath, skipGuardrails, guardrails),
     checkDocumentation(basePath),
   ]);
 
@@ -6,3 +6,4 @@ export * from './shift-report-generator.js';
 export * from './forensic-analyzer.js';
 export * from './final-sanity-checker.js';
 export * from './client-doc-generator.js';
+export * from './eta-estimator.js';
@@ -6,11 +6,13 @@ import { randomUUID } from 'node:crypto';
 import { writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
-import type { ShiftReport, SystemStatus } from '../../schemas/index.js';
+import type { ShiftReport, ShiftReportEta, SystemStatus } from '../../schemas/index.js';
 import { createTelemetryManager, createImplementationPlanManager } from '../../state/index.js';
 import type { GuardrailResult } from '../../types/guardrail.types.js';
 import type { ManagerSession } from '../../types/index.js';
 
+import { loadEta } from './eta-estimator.js';
+
 /**
  * Shift report generation options
  */
@@ -46,6 +48,7 @@ function generateExecutiveSummary(
 ): string {
   const tasksCompleted = session.tasksCompleted.length;
   const tasksAssigned = session.tasksAssigned.length;
+  const tasksTimedOut = session.tasksTimedOut?.length ?? 0;
   const contextUsed = session.currentContextFill - session.contextFillAtStart;
 
   const lines: string[] = [];
@@ -60,6 +63,12 @@ function generateExecutiveSummary(
     lines.push('No tasks were completed during this shift.');
   }
 
+  if (tasksTimedOut > 0) {
+    lines.push(
+      `${tasksTimedOut} task${tasksTimedOut === 1 ? '' : 's'} timed out; partial diffs were kept in .ralph/patches.`
+    );
+  }
+
   // Context usage
   lines.push(
     `Context usage: Started at ${session.contextFillAtStart}%, ` +
@@ -110,6 +119,7 @@ function generateMarkdown(report: ShiftReport): string {
   lines.push(`- **Completed:** ${report.tasks_completed.length > 0 ? report.tasks_completed.join(', ') : 'None'}`);
   lines.push(`- **Failed:** ${report.tasks_failed.length > 0 ? report.tasks_failed.join(', ') : 'None'}`);
   lines.push(`- **Blocked:** ${report.tasks_blocked.length > 0 ? report.tasks_blocked.join(', ') : 'None'}`);
+  lines.push(`- **Timed out:** ${report.tasks_timed_out.length > 0 ? report.tasks_timed_out.join(', ') : 'None'}`);
   lines.push('');
 
   lines.push('## System Status');
@@ -134,6 +144,20 @@ function generateMarkdown(report: ShiftReport): string {
   lines.push(`- **Cost:** $${report.cost_usd.toFixed(2)}`);
   lines.push('');
 
+  if (report.eta !== undefined) {
+    lines.push('## Forecast');
+    lines.push('');
+    lines.push(
+      `- **Estimated time remaining:** ${report.eta.estimated_hours_remaining} hours ` +
+        `(${report.eta.low_hours}-${report.eta.high_hours} hours)`
+    );
+    lines.push(`- **Estimated completion:** ${report.eta.estimated_completion_at}`);
+    lines.push(
+      `- **Calibrated on:** ${report.eta.samples > 0 ? `${report.eta.samples} completed tasks` : 'plan estimates only'}`
+    );
+    lines.push('');
+  }
+
   if (report.adrs_created.length > 0) {
     lines.push('## ADRs Created');
     lines.push('');
@@ -178,22 +202,37 @@ export async function generateShiftReport(
 
   // Get failed/blocked tasks from implementation plan
   const planManager = createImplementationPlanManager(basePath);
+  const timedOutTasks = session.tasksTimedOut ?? [];
   let failedTasks: string[] = [];
   let blockedTasks: string[] = [];
+  let eta: ShiftReportEta | undefined;
 
   try {
     const planContent = await planManager.read();
     const parsedTasks = planManager.parseTasks(planContent);
 
-    // Tasks that were assigned but not completed are considered failed
+    // Tasks that were assigned but not completed are considered failed, unless they timed out
     failedTasks = session.tasksAssigned.filter(
-      (taskId) => !session.tasksCompleted.includes(taskId)
+      (taskId) => !session.tasksCompleted.includes(taskId) && !timedOutTasks.includes(taskId)
     );
 
-    // Tasks that are unchecked and not assigned are blocked/pending
+    // Tasks that are unchecked and not assigned are blocked/pending; skipped tasks are neither
     blockedTasks = parsedTasks
-      .filter((t) => !t.checked && !session.tasksAssigned.includes(t.id))
+      .filter(
+        (t) => !t.checked && t.status !== 'skipped' && !session.tasksAssigned.includes(t.id)
+      )
       .map((t) => t.id);
+
+    const estimate = await loadEta(basePath, parsedTasks);
+    if (estimate.remainingTasks > 0) {
+      eta = {
+        estimated_hours_remaining: estimate.estimatedHoursRemaining,
+        low_hours: estimate.lowHours,
+        high_hours: estimate.highHours,
+        samples: estimate.samples,
+        estimated_completion_at: estimate.estimatedCompletionAt,
+      };
+    }
   } catch {
     // Plan may not exist yet
   }
@@ -207,6 +246,7 @@ export async function generateShiftReport(
     tasks_completed: session.tasksCompleted,
     tasks_failed: failedTasks,
     tasks_blocked: blockedTasks,
+    tasks_timed_out: timedOutTasks,
     llvm_status: llvmStatus,
     tests_status: testsStatus,
     lint_status: lintStatus,
@@ -215,6 +255,7 @@ export async function generateShiftReport(
     duration_minutes: durationMinutes,
     cost_usd: costUsd,
     adrs_created: session.adrsCreated,
+    eta,
     created_at: now.toISOString(),
   };
 
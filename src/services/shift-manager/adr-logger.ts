@@ -58,9 +58,9 @@ export class ADRLogger {
   }
 
   /**
-   * Generate ADR from status fragment
+   * Generate ADR from status fragment and return its ID
    */
-  async generateADRFromFragment(input: ADRFromFragmentInput): Promise<void> {
+  async generateADRFromFragment(input: ADRFromFragmentInput): Promise<string> {
     const { statusFragment, commitHash } = input;
     const adrManager = createADRManager(this.basePath);
 
@@ -111,6 +111,7 @@ ${statusFragment.patterns_used.length > 0 ? statusFragment.patterns_used.map((p)
     };
 
     await adrManager.append(entry);
+    return nextId;
   }
 
   /**
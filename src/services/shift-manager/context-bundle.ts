@@ -0,0 +1,300 @@
+/**
+ * Worker context bundles
+ * Ranks ADR entries, PRD sections and source files by how well they match a task's keywords
+ * and writes the best of them, within a token budget, to .ralph/context/<task-id>.md
+ */
+import { readdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { extname, join, relative } from 'node:path';
+
+import {
+  createADRManager,
+  ensureDirectory,
+  extractTaskKeywords,
+  readFileSafe,
+  type ParsedTask,
+} from '../../state/index.js';
+
+/**
+ * Tokens a bundle may use by default
+ */
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6000;
+
+const CONTEXT_DIR = join('.ralph', 'context');
+const SOURCE_EXTENSIONS = new Set(['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs']);
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'coverage']);
+const MAX_SOURCE_FILES = 2000;
+const MAX_SOURCE_BYTES = 100_000;
+// A keyword in a heading or file path says more than one in the body
+const HEADING_WEIGHT = 3;
+const MAX_BODY_HITS = 5;
+
+/**
+ * Kind of context a chunk comes from, in the order the bundle lists them
+ */
+export type ContextChunkKind = 'adr' | 'prd' | 'source';
+
+/**
+ * Rankable piece of project context
+ */
+export interface ContextChunk {
+  kind: ContextChunkKind;
+  /** ADR ID and title, PRD heading or source path */
+  label: string;
+  content: string;
+  score: number;
+  tokens: number;
+}
+
+/**
+ * Context bundle options
+ */
+export interface ContextBundleOptions {
+  basePath: string;
+  /** Directory holding PRD.md (default: <basePath>/specs, falling back to .agent/PRD.md) */
+  specsPath?: string;
+  /** Directories searched for source files, relative to basePath (default: src) */
+  sourceDirs?: string[];
+  tokenBudget?: number;
+}
+
+/**
+ * Written context bundle
+ */
+export interface ContextBundle {
+  path: string;
+  keywords: string[];
+  tokens: number;
+  /** Labels of the chunks in the bundle, best match first */
+  included: string[];
+  /** Labels of matching chunks left out for the budget */
+  omitted: string[];
+}
+
+const SECTION_TITLES: Record<ContextChunkKind, string> = {
+  adr: 'Architecture Decisions',
+  prd: 'PRD Sections',
+  source: 'Source Files',
+};
+
+/**
+ * Rough token count (4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Keyword relevance of a chunk: heading hits weigh more, body hits are capped per keyword
+ */
+export function scoreRelevance(keywords: string[], heading: string, body: string): number {
+  const lowerHeading = heading.toLowerCase();
+  const lowerBody = body.toLowerCase();
+
+  return keywords.reduce((score, keyword) => {
+    const headingHit = lowerHeading.includes(keyword) ? HEADING_WEIGHT : 0;
+    const bodyHits = Math.min(lowerBody.split(keyword).length - 1, MAX_BODY_HITS);
+    return score + headingHit + bodyHits;
+  }, 0);
+}
+
+/**
+ * Split markdown into `##` and `###` sections
+ */
+function splitMarkdownSections(content: string): Array<{ heading: string; body: string }> {
+  return content
+    .split(/^(?=#{2,3} )/m)
+    .filter((section) => /^#{2,3} /.test(section))
+    .map((section) => {
+      const [heading = '', ...body] = section.split('\n');
+      return { heading: heading.replace(/^#+\s*/, ''), body: body.join('\n').trim() };
+    });
+}
+
+/**
+ * Source files under the given directories, skipping dependencies and build output
+ */
+async function findSourceFiles(basePath: string, sourceDirs: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (files.length >= MAX_SOURCE_FILES) {
+        return;
+      }
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+          await walk(fullPath);
+        }
+      } else if (entry.isFile() && SOURCE_EXTENSIONS.has(extname(entry.name))) {
+        files.push(fullPath);
+      }
+    }
+  };
+
+  for (const dir of sourceDirs) {
+    await walk(join(basePath, dir));
+  }
+
+  return files;
+}
+
+/**
+ * Read the PRD from the specs directory, or .agent/PRD.md when there is none
+ */
+async function readPrd(basePath: string, specsPath: string): Promise<string> {
+  const prd = await readFileSafe(join(specsPath, 'PRD.md'));
+  return prd ?? (await readFileSafe(join(basePath, '.agent', 'PRD.md'))) ?? '';
+}
+
+/**
+ * Every ADR entry, PRD section and source file that matches at least one keyword
+ */
+export async function collectContextChunks(
+  keywords: string[],
+  options: ContextBundleOptions
+): Promise<ContextChunk[]> {
+  const { basePath } = options;
+  const specsPath = options.specsPath ?? join(basePath, 'specs');
+  const chunks: ContextChunk[] = [];
+
+  const add = (kind: ContextChunkKind, label: string, heading: string, content: string): void => {
+    const score = scoreRelevance(keywords, heading, content);
+    if (score > 0) {
+      chunks.push({ kind, label, content, score, tokens: estimateTokens(content) });
+    }
+  };
+
+  for (const adr of await createADRManager(basePath).getSections()) {
+    add('adr', `${adr.id}: ${adr.title}`, adr.title, adr.markdown);
+  }
+
+  for (const section of splitMarkdownSections(await readPrd(basePath, specsPath))) {
+    add('prd', section.heading, section.heading, `### ${section.heading}\n\n${section.body}\n`);
+  }
+
+  for (const filePath of await findSourceFiles(basePath, options.sourceDirs ?? ['src'])) {
+    if ((await stat(filePath)).size > MAX_SOURCE_BYTES) {
+      continue;
+    }
+    const path = relative(basePath, filePath);
+    const source = await readFile(filePath, 'utf-8');
+    add(
+      'source',
+      path,
+      path,
+      `### ${path}\n\n\`\`\`${extname(path).slice(1)}\n${source}\n\`\`\`\n`
+    );
+  }
+
+  return chunks;
+}
+
+/**
+ * Best chunks first; those that no longer fit the budget are left out
+ */
+export function selectWithinBudget(
+  chunks: ContextChunk[],
+  tokenBudget: number
+): { included: ContextChunk[]; omitted: ContextChunk[] } {
+  const kindOrder = Object.keys(SECTION_TITLES);
+  const ranked = [...chunks].sort(
+    (a, b) =>
+      b.score - a.score ||
+      kindOrder.indexOf(a.kind) - kindOrder.indexOf(b.kind) ||
+      a.label.localeCompare(b.label)
+  );
+
+  const included: ContextChunk[] = [];
+  const omitted: ContextChunk[] = [];
+  let remaining = tokenBudget;
+  for (const chunk of ranked) {
+    if (chunk.tokens <= remaining) {
+      included.push(chunk);
+      remaining -= chunk.tokens;
+    } else {
+      omitted.push(chunk);
+    }
+  }
+
+  return { included, omitted };
+}
+
+/**
+ * Render a bundle: included chunks grouped by kind, best match first, then what was left out
+ */
+function formatContextBundle(
+  task: ParsedTask,
+  keywords: string[],
+  included: ContextChunk[],
+  omitted: ContextChunk[],
+  tokenBudget: number
+): string {
+  const tokens = included.reduce((sum, chunk) => sum + chunk.tokens, 0);
+  const lines = [
+    `# Context for ${task.id}: ${task.title}`,
+    '',
+    `**Keywords**: ${keywords.length > 0 ? keywords.join(', ') : 'none'}`,
+    `**Budget**: ~${tokens} of ${tokenBudget} tokens`,
+    '',
+    'Only the ADRs, PRD sections and source files most relevant to this task are included.',
+    'The full PRD and .agent/ADR.md are still there if something is missing.',
+    '',
+  ];
+
+  if (included.length === 0) {
+    lines.push('Nothing in the ADRs, PRD or source files matched this task.', '');
+  }
+
+  for (const [kind, title] of Object.entries(SECTION_TITLES)) {
+    const chunks = included.filter((chunk) => chunk.kind === kind);
+    if (chunks.length > 0) {
+      lines.push(`## ${title}`, '', ...chunks.map((chunk) => chunk.content.trimEnd() + '\n'));
+    }
+  }
+
+  if (omitted.length > 0) {
+    lines.push('## Also Relevant (over budget)', '');
+    lines.push(...omitted.map((chunk) => `- ${chunk.label}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Write the context bundle for a task to .ralph/context/<task-id>.md
+ */
+export async function writeContextBundle(
+  task: ParsedTask,
+  options: ContextBundleOptions
+): Promise<ContextBundle> {
+  const tokenBudget = options.tokenBudget ?? DEFAULT_CONTEXT_TOKEN_BUDGET;
+  const keywords = extractTaskKeywords(`${task.title} ${task.description ?? ''}`);
+
+  const chunks = await collectContextChunks(keywords, options);
+  const { included, omitted } = selectWithinBudget(chunks, tokenBudget);
+
+  const contextDir = join(options.basePath, CONTEXT_DIR);
+  await ensureDirectory(contextDir);
+  const path = join(contextDir, `${task.id}.md`);
+  await writeFile(
+    path,
+    formatContextBundle(task, keywords, included, omitted, tokenBudget),
+    'utf-8'
+  );
+
+  return {
+    path,
+    keywords,
+    tokens: included.reduce((sum, chunk) => sum + chunk.tokens, 0),
+    included: included.map((chunk) => chunk.label),
+    omitted: omitted.map((chunk) => chunk.label),
+  };
+}
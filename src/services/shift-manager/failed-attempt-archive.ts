@@ -0,0 +1,80 @@
+/**
+ * Failed attempt archive
+ * Keeps the diff of each failed Worker attempt as .ralph/failed/<task-id>-attempt-<n>.patch so
+ * the next attempt can see what was tried before
+ */
+import { readdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { createTaskAttemptManager, ensureDirectory } from '../../state/index.js';
+
+/**
+ * Where failed attempts are archived, relative to the project
+ */
+export const FAILED_ATTEMPTS_DIR = join('.ralph', 'failed');
+
+/**
+ * Attempt number of an archived patch for the task, or null for another task's file
+ */
+function parseAttemptNumber(fileName: string, taskId: string): number | null {
+  const prefix = `${taskId}-attempt-`;
+  if (!fileName.startsWith(prefix) || !fileName.endsWith('.patch')) {
+    return null;
+  }
+
+  const attempt = Number(fileName.slice(prefix.length, -'.patch'.length));
+  return Number.isInteger(attempt) && attempt > 0 ? attempt : null;
+}
+
+/**
+ * Attempt numbers and file names of a task's archived patches, oldest first
+ */
+async function listArchivedAttempts(
+  basePath: string,
+  taskId: string
+): Promise<Array<{ fileName: string; attempt: number }>> {
+  let entries: string[];
+  try {
+    entries = await readdir(join(basePath, FAILED_ATTEMPTS_DIR));
+  } catch {
+    return [];
+  }
+
+  return entries
+    .map((fileName) => ({ fileName, attempt: parseAttemptNumber(fileName, taskId) }))
+    .filter((entry): entry is { fileName: string; attempt: number } => entry.attempt !== null)
+    .sort((a, b) => a.attempt - b.attempt);
+}
+
+/**
+ * Archived patches of a task's failed attempts, oldest first, relative to the project
+ */
+export async function listFailedAttemptPatches(
+  basePath: string,
+  taskId: string
+): Promise<string[]> {
+  const archived = await listArchivedAttempts(basePath, taskId);
+  return archived.map((entry) => join(FAILED_ATTEMPTS_DIR, entry.fileName));
+}
+
+/**
+ * Archive the diff of a failed attempt and return its path relative to the project
+ * The attempt is numbered after the failures already recorded for the task.
+ */
+export async function archiveFailedAttempt(
+  basePath: string,
+  taskId: string,
+  diff: string
+): Promise<string> {
+  const lastArchived = (await listArchivedAttempts(basePath, taskId)).at(-1)?.attempt ?? 0;
+  const recorded = await createTaskAttemptManager(basePath).getFailedAttempts(taskId);
+
+  const patchPath = join(
+    FAILED_ATTEMPTS_DIR,
+    `${taskId}-attempt-${Math.max(recorded, lastArchived) + 1}.patch`
+  );
+  await ensureDirectory(join(basePath, FAILED_ATTEMPTS_DIR));
+  await writeFile(join(basePath, patchPath), diff, 'utf-8');
+
+  return patchPath;
+}
@@ -3,25 +3,48 @@
  * Full Manager lifecycle with exit code 10 for rotation, 0 for completion
  */
 import { randomUUID } from 'node:crypto';
+import { join } from 'node:path';
 
-import type { GuardrailStatus } from '../../schemas/index.js';
+import type {
+  GuardrailStatus,
+  ProjectConfig,
+  TaskSelectionPolicyName,
+} from '../../schemas/index.js';
 import {
   createProjectStateManager,
   createTelemetryManager,
   createImplementationPlanManager,
+  createOrchestrationJournal,
+  type JournalEvent,
+  type OrchestrationJournal,
 } from '../../state/index.js';
 import { EXIT_CODES, type ManagerSession } from '../../types/index.js';
+import { findHeadCommit, type FileDiffStat } from '../git/index.js';
 
 import { createADRLogger, type ADRLogger } from './adr-logger.js';
 import { createContextMonitor, type ContextMonitor, type ContextStatus } from './context-monitor.js';
+import type { TaskSelectionPolicy } from './selection-policy.js';
 import { createShiftHandoffWriter, type ShiftHandoffWriter } from './shift-handoff-writer.js';
+import { commitCompletedTask } from './task-committer.js';
+import {
+  createTaskQuarantine,
+  type TaskQuarantine,
+  type TaskFailureOutcome,
+} from './task-quarantine.js';
 import { createTaskSelector, type TaskSelector, type TaskSelectionResult } from './task-selector.js';
+import { createTaskSplitter, type TaskSplit, type TaskSplitter } from './task-splitter.js';
 
 // Re-export sub-modules
 export * from './context-monitor.js';
 export * from './task-selector.js';
+export * from './context-bundle.js';
+export * from './selection-policy.js';
 export * from './shift-handoff-writer.js';
 export * from './adr-logger.js';
+export * from './task-quarantine.js';
+export * from './task-splitter.js';
+export * from './failed-attempt-archive.js';
+export * from './task-committer.js';
 
 /**
  * Shift Manager configuration
@@ -31,6 +54,12 @@ export interface ShiftManagerConfig {
   projectId?: string;
   rotationThreshold?: number;
   contextWindowSize?: number;
+  /** Failed Worker attempts before a task is quarantined (default: 3) */
+  maxTaskAttempts?: number;
+  /** How ready tasks within a layer are ordered (default: by ID) */
+  selectionPolicy?: TaskSelectionPolicyName | TaskSelectionPolicy;
+  /** Rotation threshold, attempt limit and paths from kr-wiggum.config.json */
+  projectConfig?: ProjectConfig;
 }
 
 /**
@@ -54,6 +83,12 @@ export interface ShiftManagerResult {
   reason: string;
 }
 
+/**
+ * How a Worker's attempt at a task ended
+ * `split` means the task was already replaced by sub-tasks through splitOversizeTask.
+ */
+export type TaskExecutionOutcome = 'completed' | 'failed' | 'timed_out' | 'split';
+
 /**
  * Shift Manager service
  * Orchestrates the Manager lifecycle
@@ -65,26 +100,42 @@ export class ShiftManager {
   private readonly taskSelector: TaskSelector;
   private readonly handoffWriter: ShiftHandoffWriter;
   private readonly adrLogger: ADRLogger;
+  private readonly quarantine: TaskQuarantine;
+  private readonly splitter: TaskSplitter;
+  private readonly journal: OrchestrationJournal;
   private session: ManagerSession | null = null;
   private accomplishments: string[] = [];
   private architectureDelta: string = '';
 
   constructor(config: ShiftManagerConfig) {
+    const { projectConfig } = config;
     this.basePath = config.basePath;
     this.projectId = config.projectId ?? randomUUID();
 
     this.contextMonitor = createContextMonitor({
       basePath: config.basePath,
-      rotationThreshold: config.rotationThreshold ?? 60,
+      rotationThreshold: config.rotationThreshold ?? projectConfig?.limits.rotation_threshold ?? 60,
       contextWindowSize: config.contextWindowSize,
     });
 
     this.taskSelector = createTaskSelector({
       basePath: config.basePath,
+      policy: config.selectionPolicy,
+      specsPath:
+        projectConfig !== undefined ? join(config.basePath, projectConfig.paths.specs) : undefined,
+      sourceDirs: projectConfig?.paths.source,
+      contextTokenBudget: projectConfig?.limits.context_token_budget,
+      commands: projectConfig?.commands,
     });
 
     this.handoffWriter = createShiftHandoffWriter(config.basePath);
     this.adrLogger = createADRLogger(config.basePath);
+    this.quarantine = createTaskQuarantine(
+      config.basePath,
+      config.maxTaskAttempts ?? projectConfig?.limits.max_task_attempts
+    );
+    this.splitter = createTaskSplitter(config.basePath);
+    this.journal = createOrchestrationJournal(config.basePath);
   }
 
   /**
@@ -112,6 +163,7 @@ export class ShiftManager {
       currentContextFill: contextStatus.fillPercent,
       tasksAssigned: [],
       tasksCompleted: [],
+      tasksTimedOut: [],
       adrsCreated: [],
       handoffFile: null,
     };
@@ -145,6 +197,7 @@ export class ShiftManager {
   async markTaskCompleted(taskId: string): Promise<void> {
     const planManager = createImplementationPlanManager(this.basePath);
     await planManager.markTaskComplete(taskId);
+    await this.recordEvent({ type: 'task_checked', task_id: taskId });
 
     if (this.session !== null) {
       this.session.tasksCompleted.push(taskId);
@@ -153,13 +206,89 @@ export class ShiftManager {
     this.accomplishments.push(`Completed task ${taskId}`);
 
     // Process any pending status fragments into ADRs
+    const adrIds: string[] = [];
     const adrCreated = await this.adrLogger.processPendingFragment();
     if (adrCreated) {
       const recentADRs = await this.adrLogger.getRecentADRs(1);
+      adrIds.push(...recentADRs);
       if (recentADRs.length > 0 && this.session !== null) {
         this.session.adrsCreated.push(recentADRs[0] ?? '');
       }
     }
+
+    await this.commitTask(taskId, adrIds);
+  }
+
+  /**
+   * Commit a completed task's changes, linked to its ADRs and status fragment (best effort)
+   */
+  private async commitTask(taskId: string, adrIds: string[]): Promise<void> {
+    try {
+      const commit = await commitCompletedTask(this.basePath, taskId, adrIds);
+      if (commit !== null) {
+        this.accomplishments.push(`Committed task ${taskId} as ${commit.commitHash.slice(0, 7)}`);
+      }
+    } catch {
+      // The changes stay uncommitted in the working tree
+    }
+  }
+
+  /**
+   * Record a failed Worker attempt; the task is quarantined once its retry budget is spent
+   */
+  async markTaskFailed(taskId: string, reason?: string): Promise<TaskFailureOutcome> {
+    await createImplementationPlanManager(this.basePath).markTaskPending(taskId);
+    const outcome = await this.quarantine.recordFailure(taskId, reason);
+
+    if (outcome.quarantined) {
+      this.accomplishments.push(
+        `Quarantined task ${taskId} after ${outcome.failedAttempts} failed attempts`
+      );
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Replace a failed task by sub-tasks if its Worker changed more files or lines than allowed
+   * Returns null when the changes were within the task's limits.
+   */
+  async splitOversizeTask(taskId: string, changes: FileDiffStat[]): Promise<TaskSplit | null> {
+    await createImplementationPlanManager(this.basePath).markTaskPending(taskId);
+    const split = await this.splitter.splitIfOversize(taskId, changes);
+
+    if (split !== null) {
+      this.accomplishments.push(
+        `Split oversize task ${taskId} into ${split.subTaskIds.join(', ')} (${split.reason})`
+      );
+      this.session?.adrsCreated.push(split.adrId);
+    }
+
+    return split;
+  }
+
+  /**
+   * Record a Worker that ran out of time; it counts as a failed attempt
+   */
+  async markTaskTimedOut(taskId: string, reason?: string): Promise<TaskFailureOutcome> {
+    if (this.session !== null) {
+      this.session.tasksTimedOut = [...(this.session.tasksTimedOut ?? []), taskId];
+    }
+
+    this.accomplishments.push(`Worker for ${taskId} timed out, partial diff kept in .ralph/patches`);
+
+    return this.markTaskFailed(taskId, reason);
+  }
+
+  /**
+   * Append an event to .ralph/journal.jsonl (best effort)
+   */
+  private async recordEvent(event: JournalEvent): Promise<void> {
+    try {
+      await this.journal.append(event);
+    } catch {
+      // Journal only aids crash recovery
+    }
   }
 
   /**
@@ -212,6 +341,7 @@ export class ShiftManager {
       sessionId: this.session.sessionId,
       accomplishments: this.accomplishments,
       architectureDelta: this.architectureDelta || 'No architectural changes this shift.',
+      blockers: await this.quarantine.getBlockers(),
       contextFillAtHandoff: contextStatus.fillPercent,
     });
 
@@ -242,6 +372,16 @@ export class ShiftManager {
       return this.performRotation();
     }
 
+    if (progress.blocked > 0) {
+      // Only quarantined tasks are left - hand them to a human
+      const rotation = await this.performRotation();
+      return {
+        ...rotation,
+        exitCode: EXIT_CODES.HUMAN_INTERVENTION,
+        reason: `${progress.blocked} quarantined task(s) need human attention`,
+      };
+    }
+
     // All done!
     return {
       exitCode: EXIT_CODES.SUCCESS,
@@ -274,7 +414,7 @@ export class ShiftManager {
    * Run the Manager loop
    */
   async run(
-    onTaskSelected: (task: TaskSelectionResult) => Promise<boolean>,
+    onTaskSelected: (task: TaskSelectionResult) => Promise<boolean | TaskExecutionOutcome>,
     onProgress?: (state: ShiftManagerState) => void
   ): Promise<ShiftManagerResult> {
     await this.startSession();
@@ -294,11 +434,24 @@ export class ShiftManager {
         return this.completeShift();
       }
 
+      await this.recordEvent({
+        type: 'task_selected',
+        task_id: task.task.id,
+        layer: task.task.dependencyLayer,
+        head_commit: await findHeadCommit(this.basePath),
+        use_worktree: false,
+      });
+      await createImplementationPlanManager(this.basePath).markTaskInProgress(task.task.id);
+
       // Execute task (Worker will be spawned externally)
-      const success = await onTaskSelected(task);
+      const outcome = await onTaskSelected(task);
 
-      if (success) {
+      if (outcome === true || outcome === 'completed') {
         await this.markTaskCompleted(task.task.id);
+      } else if (outcome === 'timed_out') {
+        await this.markTaskTimedOut(task.task.id);
+      } else if (outcome !== 'split') {
+        await this.markTaskFailed(task.task.id);
       }
 
       // Report progress
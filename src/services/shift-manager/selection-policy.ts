@@ -0,0 +1,184 @@
+/**
+ * Task selection policies
+ * Order the ready tasks of a dependency layer: by ID, by `(priority: ...)` tag, by critical
+ * path length or by fewest failed attempts. Layers always come first, so a batch never mixes them.
+ */
+import {
+  compareIds,
+  type TaskPriority,
+  type TaskSelectionPolicyName,
+} from '../../schemas/index.js';
+import {
+  createTaskAttemptManager,
+  findReadyTasks,
+  isTaskRemaining,
+  type ParsedTask,
+} from '../../state/index.js';
+
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+  critical: 3,
+  high: 2,
+  medium: 1,
+  low: 0,
+};
+
+/**
+ * What a policy can look at besides the two tasks it compares
+ */
+export interface SelectionContext {
+  /** Every task in the plan, not just the ready ones */
+  tasks: ParsedTask[];
+  /** Failed Worker attempts per task ID, from .ralph/task-attempts.json */
+  failedAttempts: Map<string, number>;
+  /** Critical path length per task ID, see computeCriticalPaths() */
+  criticalPaths: Map<string, number>;
+}
+
+/**
+ * Selection policy
+ * Custom policies can be passed wherever a built-in policy name is accepted.
+ */
+export interface TaskSelectionPolicy {
+  name: string;
+  /** Negative when `a` should go first; ties fall back to ID order */
+  compare(a: ParsedTask, b: ParsedTask, context: SelectionContext): number;
+}
+
+/**
+ * Length of the longest chain of remaining tasks waiting on each task, the task included
+ * A task that unblocks a long chain scores high; a leaf scores 1. Cycles count once.
+ */
+export function computeCriticalPaths(tasks: ParsedTask[]): Map<string, number> {
+  const dependents = new Map<string, ParsedTask[]>();
+  for (const task of tasks.filter(isTaskRemaining)) {
+    for (const dependencyId of task.dependencies) {
+      dependents.set(dependencyId, [...(dependents.get(dependencyId) ?? []), task]);
+    }
+  }
+
+  const lengths = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const measure = (taskId: string): number => {
+    const known = lengths.get(taskId);
+    if (known !== undefined) {
+      return known;
+    }
+    if (visiting.has(taskId)) {
+      return 0;
+    }
+
+    visiting.add(taskId);
+    const longest = Math.max(0, ...(dependents.get(taskId) ?? []).map((t) => measure(t.id)));
+    visiting.delete(taskId);
+
+    lengths.set(taskId, longest + 1);
+    return longest + 1;
+  };
+
+  for (const task of tasks) {
+    measure(task.id);
+  }
+
+  return lengths;
+}
+
+/**
+ * Built-in selection policies
+ */
+export const SELECTION_POLICIES: Record<TaskSelectionPolicyName, TaskSelectionPolicy> = {
+  id: {
+    name: 'id',
+    compare(): number {
+      return 0;
+    },
+  },
+  priority: {
+    name: 'priority',
+    compare(a, b): number {
+      return PRIORITY_RANK[b.priority ?? 'medium'] - PRIORITY_RANK[a.priority ?? 'medium'];
+    },
+  },
+  'critical-path': {
+    name: 'critical-path',
+    compare(a, b, context): number {
+      return (context.criticalPaths.get(b.id) ?? 1) - (context.criticalPaths.get(a.id) ?? 1);
+    },
+  },
+  'fewest-failures': {
+    name: 'fewest-failures',
+    compare(a, b, context): number {
+      return (context.failedAttempts.get(a.id) ?? 0) - (context.failedAttempts.get(b.id) ?? 0);
+    },
+  },
+};
+
+/**
+ * Resolve a policy name to its built-in policy; custom policies are returned as they are
+ */
+export function resolveSelectionPolicy(
+  policy: TaskSelectionPolicyName | TaskSelectionPolicy = 'id'
+): TaskSelectionPolicy {
+  return typeof policy === 'string' ? SELECTION_POLICIES[policy] : policy;
+}
+
+/**
+ * Ready tasks in the order a policy hands them out: lowest layer first, then the policy,
+ * then by ID
+ */
+export function orderReadyTasks(
+  tasks: ParsedTask[],
+  policy: TaskSelectionPolicy,
+  failedAttempts: Map<string, number> = new Map()
+): ParsedTask[] {
+  const context: SelectionContext = {
+    tasks,
+    failedAttempts,
+    criticalPaths: computeCriticalPaths(tasks),
+  };
+
+  return findReadyTasks(tasks).sort(
+    (a, b) =>
+      a.dependencyLayer - b.dependencyLayer ||
+      policy.compare(a, b, context) ||
+      compareIds(a.id, b.id)
+  );
+}
+
+/**
+ * Order pending tasks the way Workers would get them, checking each off as it is handed out
+ * Assumes every task succeeds; used to preview the order of a run.
+ */
+export function resolveTaskOrder(
+  tasks: ParsedTask[],
+  policy: TaskSelectionPolicy,
+  failedAttempts: Map<string, number> = new Map()
+): ParsedTask[] {
+  const remaining = tasks.map((task) => ({ ...task }));
+  const ordered: ParsedTask[] = [];
+
+  let next = orderReadyTasks(remaining, policy, failedAttempts)[0];
+  while (next !== undefined) {
+    ordered.push({ ...next });
+    next.status = 'completed';
+    next.checked = true;
+    next = orderReadyTasks(remaining, policy, failedAttempts)[0];
+  }
+
+  return ordered;
+}
+
+/**
+ * Failed attempts per task from .ralph/task-attempts.json (empty when there is none yet)
+ */
+export async function loadFailedAttempts(basePath: string): Promise<Map<string, number>> {
+  const attemptManager = createTaskAttemptManager(basePath);
+  if (!(await attemptManager.exists())) {
+    return new Map();
+  }
+
+  const state = await attemptManager.read();
+  return new Map(
+    Object.values(state.tasks).map((record) => [record.task_id, record.failed_attempts])
+  );
+}
@@ -11,6 +11,7 @@ import {
   createADRManager,
   createImplementationPlanManager,
   ensureDirectory,
+  isTaskRemaining,
 } from '../../state/index.js';
 
 /**
@@ -64,7 +65,7 @@ export class ShiftHandoffWriter {
     const content = await planManager.read();
     const allTasks = planManager.parseTasks(content);
     const morePending = allTasks
-      .filter((t) => !t.checked)
+      .filter(isTaskRemaining)
       .slice(0, 10)
       .map((t) => t.id);
 
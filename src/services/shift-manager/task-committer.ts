@@ -0,0 +1,150 @@
+/**
+ * Per-task commits
+ * Commits a completed task's changes with a message naming the task, what the Worker fixed and
+ * the ADRs it produced, then writes the hash back into those ADRs and the status fragment
+ */
+import type { StatusFragment } from '../../schemas/index.js';
+import { createADRManager, createImplementationPlanManager } from '../../state/index.js';
+import { commitChanges, isGitRepository } from '../git/index.js';
+import { linkStatusFragmentCommit, readStatusFragment } from '../worker/status-fragment-writer.js';
+
+import { createADRLogger } from './adr-logger.js';
+
+/**
+ * Orchestration state and dependencies stay out of task commits
+ */
+const TASK_COMMIT_EXCLUDE_PATHS = ['.ralph', '.agent', 'IMPLEMENTATION_PLAN.md', 'node_modules'];
+
+const MAX_SUBJECT_LENGTH = 72;
+
+/**
+ * Pending ADR write per project
+ * Worktree Workers finish side by side, and each new ADR takes the next free ID in .agent/ADR.md.
+ */
+const adrQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * A completed task's commit
+ */
+export interface TaskCommit {
+  taskId: string;
+  commitHash: string;
+  /** ADRs whose entries now name the commit */
+  adrIds: string[];
+}
+
+/**
+ * Commit message for a completed task
+ * The subject starts with the task ID so `git log --grep <task-id>` finds it; the ADRs are listed
+ * in an `ADRs:` trailer.
+ */
+export function formatTaskCommitMessage(
+  taskId: string,
+  whatFixed: string,
+  adrIds: string[] = []
+): string {
+  const summary = whatFixed.trim();
+  const firstLine = summary.split('\n')[0] ?? '';
+  const subject = `${taskId}: ${firstLine}`;
+  const truncated =
+    subject.length > MAX_SUBJECT_LENGTH
+      ? `${subject.slice(0, MAX_SUBJECT_LENGTH - 3)}...`
+      : subject;
+
+  const trailers = [`Task: ${taskId}`];
+  if (adrIds.length > 0) {
+    trailers.push(`ADRs: ${adrIds.join(', ')}`);
+  }
+
+  const body = truncated !== subject || summary !== firstLine ? `${summary}\n\n` : '';
+  return `${truncated}\n\n${body}${trailers.join('\n')}\n`;
+}
+
+/**
+ * Turn a completed task's status fragment into an ADR when the fragment calls for one
+ * The fragment is read from workerPath, where the Worker ran: its worktree or the project itself.
+ * The ADR is always written to basePath. Returns the IDs of the ADRs to name in the task's commit.
+ */
+export async function recordTaskADRs(
+  basePath: string,
+  taskId: string,
+  workerPath: string = basePath
+): Promise<string[]> {
+  const fragment = await readStatusFragment(workerPath);
+  if (fragment === null || fragment.task_id !== taskId) {
+    return [];
+  }
+
+  const adrLogger = createADRLogger(basePath);
+  if (!adrLogger.shouldCreateADR(fragment)) {
+    return [];
+  }
+
+  const previous = adrQueues.get(basePath) ?? Promise.resolve();
+  const current = previous
+    .catch(() => undefined)
+    .then(() => adrLogger.generateADRFromFragment({ statusFragment: fragment }));
+  adrQueues.set(basePath, current);
+
+  try {
+    return [await current];
+  } finally {
+    if (adrQueues.get(basePath) === current) {
+      adrQueues.delete(basePath);
+    }
+  }
+}
+
+/**
+ * Write a task's commit hash into its ADRs and, when given, its status fragment in basePath
+ * Returns the ADRs whose entries now name the commit.
+ */
+export async function linkTaskCommit(
+  basePath: string,
+  commitHash: string,
+  adrIds: string[],
+  fragment: StatusFragment | null
+): Promise<string[]> {
+  const linked =
+    adrIds.length > 0 ? await createADRManager(basePath).linkCommit(adrIds, commitHash) : [];
+  if (fragment !== null) {
+    await linkStatusFragmentCommit(basePath, fragment, commitHash);
+  }
+
+  return linked;
+}
+
+/**
+ * Commit everything a completed task changed and link the commit to its ADRs and status fragment
+ * The message comes from the task's status fragment, or the plan's task title without one.
+ * Returns null outside a git repository or when the task changed nothing.
+ */
+export async function commitCompletedTask(
+  basePath: string,
+  taskId: string,
+  adrIds: string[] = []
+): Promise<TaskCommit | null> {
+  if (!(await isGitRepository(basePath))) {
+    return null;
+  }
+
+  const fragment = await readStatusFragment(basePath);
+  const ownFragment = fragment !== null && fragment.task_id === taskId ? fragment : null;
+  const whatFixed =
+    ownFragment?.what_fixed ??
+    (await createImplementationPlanManager(basePath).getTask(taskId))?.title ??
+    'Task completed';
+
+  const commitHash = await commitChanges(
+    basePath,
+    formatTaskCommitMessage(taskId, whatFixed, adrIds),
+    TASK_COMMIT_EXCLUDE_PATHS
+  );
+  if (commitHash === null) {
+    return null;
+  }
+
+  const linked = await linkTaskCommit(basePath, commitHash, adrIds, ownFragment);
+
+  return { taskId, commitHash, adrIds: linked };
+}
@@ -0,0 +1,123 @@
+/**
+ * Per-task retry budget
+ * Counts failed Worker attempts and quarantines a task after N failures
+ */
+import {
+  createImplementationPlanManager,
+  createTaskAttemptManager,
+  DEFAULT_MAX_TASK_ATTEMPTS,
+  type TaskAttemptManager,
+} from '../../state/index.js';
+import { readStatusFragment } from '../worker/status-fragment-writer.js';
+
+const BLOCKED_FRAGMENT_PREFIX = 'BLOCKED:';
+
+/**
+ * Outcome of recording a failed attempt
+ */
+export interface TaskFailureOutcome {
+  taskId: string;
+  failedAttempts: number;
+  maxAttempts: number;
+  quarantined: boolean;
+  reason: string;
+}
+
+/**
+ * Handoff blocker entry for a quarantined task
+ */
+export interface QuarantineBlocker {
+  taskId: string;
+  description: string;
+  suggestedResolution: string;
+}
+
+/**
+ * Task quarantine controller
+ */
+export class TaskQuarantine {
+  private readonly basePath: string;
+  private readonly maxAttempts: number;
+  private readonly attempts: TaskAttemptManager;
+
+  constructor(basePath: string, maxAttempts: number = DEFAULT_MAX_TASK_ATTEMPTS) {
+    this.basePath = basePath;
+    this.maxAttempts = maxAttempts;
+    this.attempts = createTaskAttemptManager(basePath);
+  }
+
+  /**
+   * Record a failed Worker attempt, quarantining the task once its budget is spent
+   */
+  async recordFailure(taskId: string, fallbackReason?: string): Promise<TaskFailureOutcome> {
+    const reason =
+      (await this.readBlockerReason(taskId)) ?? fallbackReason ?? 'Worker failed without a blocker';
+    const record = await this.attempts.recordFailure(taskId, reason);
+
+    const outcome: TaskFailureOutcome = {
+      taskId,
+      failedAttempts: record.failed_attempts,
+      maxAttempts: this.maxAttempts,
+      quarantined: false,
+      reason,
+    };
+
+    if (record.failed_attempts >= this.maxAttempts && !record.quarantined) {
+      await this.quarantine(
+        taskId,
+        `${reason} (quarantined after ${record.failed_attempts} failed attempts)`
+      );
+      outcome.quarantined = true;
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Quarantine a task immediately, e.g. when its branch cannot be merged
+   */
+  async quarantine(taskId: string, reason: string): Promise<void> {
+    const planManager = createImplementationPlanManager(this.basePath);
+    await planManager.markTaskBlocked(taskId, reason);
+    await this.attempts.markQuarantined(taskId, reason);
+  }
+
+  /**
+   * Get handoff blockers for every quarantined task
+   */
+  async getBlockers(): Promise<QuarantineBlocker[]> {
+    const quarantined = await this.attempts.getQuarantined();
+
+    return quarantined.map((record) => ({
+      taskId: record.task_id,
+      description: `Quarantined after ${record.failed_attempts} failed attempt(s): ${
+        record.last_blocker ?? 'no blocker reported'
+      }`,
+      suggestedResolution: `Resolve the blocker, then change "- [!] ${record.task_id}" back to "- [ ]" (or "- [-]" to skip it) in IMPLEMENTATION_PLAN.md`,
+    }));
+  }
+
+  /**
+   * Read the blocker the Worker reported in its status fragment, if it is for this task
+   */
+  private async readBlockerReason(taskId: string): Promise<string | null> {
+    const fragment = await readStatusFragment(this.basePath);
+
+    if (fragment === null || fragment.task_id !== taskId) {
+      return null;
+    }
+
+    if (!fragment.what_fixed.startsWith(BLOCKED_FRAGMENT_PREFIX)) {
+      return null;
+    }
+
+    return fragment.what_fixed.slice(BLOCKED_FRAGMENT_PREFIX.length).trim();
+  }
+}
+
+/**
+ * Create a task quarantine controller
+ */
+export function createTaskQuarantine(basePath: string, maxAttempts?: number): TaskQuarantine {
+  return new TaskQuarantine(basePath, maxAttempts);
+}
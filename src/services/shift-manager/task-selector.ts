@@ -5,23 +5,49 @@
 import { readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
-import type { Task } from '../../schemas/index.js';
+import {
+  ProjectCommandsSchema,
+  type ProjectCommands,
+  type Task,
+  type TaskSelectionPolicyName,
+} from '../../schemas/index.js';
 import {
   createImplementationPlanManager,
   type ParsedTask,
   ensureDirectory,
+  isTaskRemaining,
 } from '../../state/index.js';
 
+import { writeContextBundle } from './context-bundle.js';
+import { listFailedAttemptPatches } from './failed-attempt-archive.js';
+import {
+  loadFailedAttempts,
+  orderReadyTasks,
+  resolveSelectionPolicy,
+  type TaskSelectionPolicy,
+} from './selection-policy.js';
+import { getTaskLimits } from './task-splitter.js';
+
 /**
  * Task selection result
  */
 export interface TaskSelectionResult {
   task: ParsedTask;
   contextFiles: string[];
+  /** Ranked, token-budgeted context bundle at .ralph/context/<task-id>.md */
+  contextPath: string;
   prdPath: string;
   currentTaskPath: string;
 }
 
+/**
+ * Batch of tasks from a single dependency layer
+ */
+export interface LayerSelectionResult {
+  layer: number;
+  tasks: TaskSelectionResult[];
+}
+
 /**
  * Task selection options
  */
@@ -29,6 +55,107 @@ export interface TaskSelectionOptions {
   basePath: string;
   specsPath?: string;
   preferLayer?: number;
+  /** How ready tasks within a layer are ordered (default: by ID) */
+  policy?: TaskSelectionPolicyName | TaskSelectionPolicy;
+  /** Tokens a Worker's context bundle may use (default: 6000) */
+  contextTokenBudget?: number;
+  /** Directories searched for context bundle source files, relative to basePath (default: src) */
+  sourceDirs?: string[];
+  /** Build and test commands the Worker is told to run (default: npm scripts) */
+  commands?: ProjectCommands;
+}
+
+/**
+ * Render the current-task file a Worker is pointed at
+ * Carries the task's acceptance criteria, which the Worker reports on in its status fragment,
+ * its file and LOC limits, the project's build and test commands, and the archived diffs of
+ * earlier failed attempts.
+ */
+export function formatCurrentTaskFile(
+  task: ParsedTask,
+  contextPath?: string,
+  failedAttemptPatches: string[] = [],
+  commands: ProjectCommands = ProjectCommandsSchema.parse({})
+): string {
+  const readContext =
+    contextPath !== undefined
+      ? `Read the context bundle at ${contextPath}; open the full PRD.md only if it is not enough`
+      : 'Read the PRD.md to understand the full context';
+  const { maxFiles, maxLoc } = getTaskLimits(task);
+  const story = task.storyId !== null ? `**User Story**: ${task.storyId}\n` : '';
+  const criteria =
+    task.acceptanceCriteria.length > 0
+      ? task.acceptanceCriteria.map((criterion) => `- [ ] ${criterion}`).join('\n')
+      : '*None listed in the plan; the task title is the bar.*';
+  const triedBefore =
+    failedAttemptPatches.length > 0
+      ? `## What Was Tried Before
+
+Earlier attempts at this task failed and were rolled back. Read their diffs before starting and
+take a different approach where they went wrong:
+
+${failedAttemptPatches.map((patchPath) => `- ${patchPath}`).join('\n')}
+
+---
+
+`
+      : '';
+
+  return `# Current Task
+
+## ${task.id}: ${task.title}
+
+**Dependency Layer**: ${task.dependencyLayer}
+**Depends On**: ${task.dependencies.length > 0 ? task.dependencies.join(', ') : 'none'}
+**Priority**: ${task.priority ?? 'medium'}
+**Line in Plan**: ${task.lineNumber}
+${story}
+---
+
+## Acceptance Criteria
+
+${criteria}
+
+---
+
+${triedBefore}## Instructions
+
+1. ${readContext}
+2. Implement the task described above
+3. Follow the Ralph Wiggum Loop:
+   - Edit code
+   - Build (\`${commands.build}\`)
+   - Test (\`${commands.test}\`)
+   - Fix any errors
+   - Repeat until tests pass
+4. Check each acceptance criterion and note how you verified it
+5. Write a status fragment when complete
+6. Self-destruct (exit 0)
+
+---
+
+## Constraints
+
+- Maximum ${maxFiles} files modified
+- Maximum ${maxLoc} lines of code added
+- Must pass TypeScript compilation
+- Must pass all tests
+- Must follow KreativReason standards
+
+---
+
+## On Completion
+
+When the task is complete:
+1. Ensure all tests pass
+2. Write status fragment to .ralph/status-fragment.json, with one \`acceptance_criteria\` entry
+   per criterion above: \`{ "criterion", "satisfied", "verification" }\`
+3. Exit with code 0
+
+If blocked:
+1. Write blocker description to status fragment
+2. Exit with code 1
+`;
 }
 
 /**
@@ -37,113 +164,131 @@ export interface TaskSelectionOptions {
 export class TaskSelector {
   private readonly basePath: string;
   private readonly specsPath: string;
+  private readonly policy: TaskSelectionPolicy;
+  private readonly contextTokenBudget: number | undefined;
+  private readonly sourceDirs: string[] | undefined;
+  private readonly commands: ProjectCommands | undefined;
 
   constructor(options: TaskSelectionOptions) {
     this.basePath = options.basePath;
     this.specsPath = options.specsPath ?? join(options.basePath, 'specs');
+    this.policy = resolveSelectionPolicy(options.policy);
+    this.contextTokenBudget = options.contextTokenBudget;
+    this.sourceDirs = options.sourceDirs;
+    this.commands = options.commands;
+  }
+
+  /**
+   * Ready tasks in the order the selection policy hands them out
+   */
+  private async getReadyTasks(): Promise<ParsedTask[]> {
+    const planManager = createImplementationPlanManager(this.basePath);
+    const tasks = planManager.parseTasks(await planManager.read());
+    return orderReadyTasks(tasks, this.policy, await loadFailedAttempts(this.basePath));
   }
 
   /**
    * Select the next task for a Worker
    */
   async selectNextTask(): Promise<TaskSelectionResult | null> {
-    const planManager = createImplementationPlanManager(this.basePath);
-    const nextTask = await planManager.getNextTask();
+    const nextTask = (await this.getReadyTasks())[0];
 
-    if (nextTask === null) {
+    if (nextTask === undefined) {
       return null;
     }
 
-    // Prepare context files - minimal set for Worker
-    const contextFiles = await this.prepareContextFiles(nextTask);
+    // Prepare context - minimal set for Worker
+    const contextPath = await this.prepareContext(nextTask);
 
     // Write current task file
-    const currentTaskPath = await this.writeCurrentTaskFile(nextTask);
+    const currentTaskPath = await this.writeCurrentTaskFile(nextTask, contextPath);
 
     return {
       task: nextTask,
-      contextFiles,
+      contextFiles: [contextPath],
+      contextPath,
       prdPath: join(this.specsPath, 'PRD.md'),
       currentTaskPath,
     };
   }
 
   /**
-   * Prepare minimal context files for Worker
+   * Select up to `limit` ready tasks from the lowest layer that has any
+   * Never crosses a layer boundary, and only takes tasks whose prerequisites are already
+   * checked, so every task in the batch can run concurrently.
+   * Each task gets its own .ralph/current-task-<id>.md
    */
-  private async prepareContextFiles(task: ParsedTask): Promise<string[]> {
-    const contextFiles: string[] = [];
+  async selectLayerTasks(limit: number): Promise<LayerSelectionResult | null> {
+    const readyTasks = await this.getReadyTasks();
+    const nextTask = readyTasks[0];
 
-    // Always include PRD
-    const prdPath = join(this.specsPath, 'PRD.md');
-    contextFiles.push(prdPath);
+    if (nextTask === undefined) {
+      return null;
+    }
 
-    // Include specification index
-    const pinPath = join(this.specsPath, 'index.md');
-    contextFiles.push(pinPath);
+    const layer = nextTask.dependencyLayer;
+    const layerTasks = readyTasks
+      .filter((t) => t.dependencyLayer === layer)
+      .slice(0, Math.max(limit, 1));
+
+    const tasks: TaskSelectionResult[] = [];
+    for (const task of layerTasks) {
+      const contextPath = await this.prepareContext(task);
+      const currentTaskPath = await this.writeCurrentTaskFile(
+        task,
+        contextPath,
+        `current-task-${task.id}.md`
+      );
+
+      tasks.push({
+        task,
+        contextFiles: [contextPath],
+        contextPath,
+        prdPath: join(this.specsPath, 'PRD.md'),
+        currentTaskPath,
+      });
+    }
 
-    // Include relevant ADR entries (search by task keywords)
-    // For now, just include the ADR file if it exists
-    const adrPath = join(this.basePath, '.agent', 'ADR.md');
-    contextFiles.push(adrPath);
+    return { layer, tasks };
+  }
 
-    return contextFiles;
+  /**
+   * Prepare minimal context for a Worker and return the bundle's path
+   * The ADR entries, PRD sections and source files that best match the task go into one
+   * token-budgeted bundle instead of handing over the whole PRD and ADR log.
+   */
+  private async prepareContext(task: ParsedTask): Promise<string> {
+    const bundle = await writeContextBundle(task, {
+      basePath: this.basePath,
+      specsPath: this.specsPath,
+      sourceDirs: this.sourceDirs,
+      tokenBudget: this.contextTokenBudget,
+    });
+
+    return bundle.path;
   }
 
   /**
    * Write current task file for Worker
+   * Paths in it are absolute, so a Worker in a worktree finds them in the main checkout.
    */
-  private async writeCurrentTaskFile(task: ParsedTask): Promise<string> {
+  private async writeCurrentTaskFile(
+    task: ParsedTask,
+    contextPath: string,
+    fileName: string = 'current-task.md'
+  ): Promise<string> {
     const ralphDir = join(this.basePath, '.ralph');
     await ensureDirectory(ralphDir);
 
-    const content = `# Current Task
-
-## ${task.id}: ${task.title}
-
-**Dependency Layer**: ${task.dependencyLayer}
-**Line in Plan**: ${task.lineNumber}
-
----
-
-## Instructions
-
-1. Read the PRD.md to understand the full context
-2. Implement the task described above
-3. Follow the Ralph Wiggum Loop:
-   - Edit code
-   - Build (tsc)
-   - Test (vitest)
-   - Fix any errors
-   - Repeat until tests pass
-4. Write a status fragment when complete
-5. Self-destruct (exit 0)
-
----
-
-## Constraints
-
-- Maximum 5 files modified
-- Maximum 150 lines of code
-- Must pass TypeScript compilation
-- Must pass all tests
-- Must follow KreativReason standards
-
----
-
-## On Completion
-
-When the task is complete:
-1. Ensure all tests pass
-2. Write status fragment to .ralph/status-fragment.json
-3. Exit with code 0
-
-If blocked:
-1. Write blocker description to status fragment
-2. Exit with code 1
-`;
+    const failedAttemptPatches = await listFailedAttemptPatches(this.basePath, task.id);
+    const content = formatCurrentTaskFile(
+      task,
+      contextPath,
+      failedAttemptPatches.map((patchPath) => join(this.basePath, patchPath)),
+      this.commands
+    );
 
-    const filePath = join(ralphDir, 'current-task.md');
+    const filePath = join(ralphDir, fileName);
     await writeFile(filePath, content, 'utf-8');
 
     return filePath;
@@ -161,14 +306,14 @@ If blocked:
   }
 
   /**
-   * Get all pending tasks
+   * Get all pending and in-progress tasks (quarantined and skipped tasks are not pending)
    */
   async getPendingTasks(): Promise<ParsedTask[]> {
     const planManager = createImplementationPlanManager(this.basePath);
     const content = await planManager.read();
     const tasks = planManager.parseTasks(content);
 
-    return tasks.filter((t) => !t.checked);
+    return tasks.filter(isTaskRemaining);
   }
 
   /**
@@ -183,11 +328,11 @@ If blocked:
   }
 
   /**
-   * Check if all tasks in a layer are complete
+   * Check if all tasks in a layer are complete (skipped tasks count as done)
    */
   async isLayerComplete(layer: number): Promise<boolean> {
     const layerTasks = await this.getTasksByLayer(layer);
-    return layerTasks.every((t) => t.checked);
+    return layerTasks.every((t) => t.status === 'completed' || t.status === 'skipped');
   }
 
   /**
@@ -210,7 +355,7 @@ If blocked:
     const sortedLayers = Array.from(layers.keys()).sort((a, b) => a - b);
     for (const layer of sortedLayers) {
       const layerTasks = layers.get(layer) ?? [];
-      if (layerTasks.some((t) => !t.checked)) {
+      if (layerTasks.some(isTaskRemaining)) {
         return layer;
       }
     }
@@ -0,0 +1,289 @@
+/**
+ * Oversize task splitting
+ * Compares a failed Worker's changes against the task's file and LOC limits; a task that proved
+ * too big is skipped in IMPLEMENTATION_PLAN.md in favour of smaller sub-tasks, and an ADR says why
+ */
+import { randomUUID } from 'node:crypto';
+
+import {
+  formatId,
+  parseIdNumber,
+  TaskSchema,
+  type IdFormat,
+  type Task,
+} from '../../schemas/index.js';
+import {
+  createADRManager,
+  createImplementationPlanManager,
+  getNextTaskId,
+  parsePlanTasks,
+  TASK_STATUS_MARKERS,
+  type ParsedTask,
+} from '../../state/index.js';
+import { formatTaskMarkdown, TASK_CONSTRAINTS } from '../distiller/index.js';
+import type { FileDiffStat } from '../git/index.js';
+
+/**
+ * Most sub-tasks one split produces
+ */
+export const MAX_SPLIT_PARTS = 4;
+
+// Limits of a task without an `Est:` line (the task schema defaults)
+const DEFAULT_MAX_FILES = 5;
+const DEFAULT_MAX_LOC = 150;
+const DEFAULT_MINUTES = 30;
+const SPLIT_PREFIX = 'Split:';
+const DEPENDENCY_TAG_REGEX = /\((after|depends on):([^)]*)\)/i;
+
+/**
+ * How a Worker's changes compare with the task's limits
+ */
+export interface TaskSizeCheck {
+  oversize: boolean;
+  filesChanged: number;
+  linesAdded: number;
+  maxFiles: number;
+  maxLoc: number;
+  /** e.g. `9 files (max 5), 320 lines added (max 150)`; empty within the limits */
+  reason: string;
+}
+
+/**
+ * A task replaced by sub-tasks
+ */
+export interface TaskSplit {
+  taskId: string;
+  /** In the order they run; each waits on the one before */
+  subTaskIds: string[];
+  reason: string;
+  adrId: string;
+}
+
+/**
+ * A task's file and LOC limits: its `Max files` / `Max LOC`, or the task schema defaults
+ */
+export function getTaskLimits(task: ParsedTask): { maxFiles: number; maxLoc: number } {
+  return {
+    maxFiles: task.maxFiles ?? DEFAULT_MAX_FILES,
+    maxLoc: task.maxLoc ?? DEFAULT_MAX_LOC,
+  };
+}
+
+/**
+ * Compare a Worker's changes with the task's `Max files` and `Max LOC`
+ */
+export function checkTaskSize(task: ParsedTask, changes: FileDiffStat[]): TaskSizeCheck {
+  const { maxFiles, maxLoc } = getTaskLimits(task);
+  const filesChanged = changes.length;
+  const linesAdded = changes.reduce((sum, change) => sum + change.linesAdded, 0);
+
+  const reasons: string[] = [];
+  if (filesChanged > maxFiles) {
+    reasons.push(`${filesChanged} files (max ${maxFiles})`);
+  }
+  if (linesAdded > maxLoc) {
+    reasons.push(`${linesAdded} lines added (max ${maxLoc})`);
+  }
+
+  return {
+    oversize: reasons.length > 0,
+    filesChanged,
+    linesAdded,
+    maxFiles,
+    maxLoc,
+    reason: reasons.join(', '),
+  };
+}
+
+/**
+ * Namespace and width of an existing task ID, so sub-task IDs match it
+ */
+function getIdFormat(taskId: string): IdFormat {
+  const match = taskId.match(/^(?:(.+)-)?ST-(\d+)$/);
+  return { namespace: match?.[1], digits: match?.[2]?.length };
+}
+
+/**
+ * Sub-tasks for an oversize task: enough parts for the changes to fit the limits, each taking
+ * a share of the files the Worker touched
+ */
+function planSubTasks(
+  task: ParsedTask,
+  changes: FileDiffStat[],
+  check: TaskSizeCheck,
+  firstId: string
+): Task[] {
+  const parts = Math.min(
+    Math.max(
+      Math.ceil(check.filesChanged / check.maxFiles),
+      Math.ceil(check.linesAdded / check.maxLoc),
+      2
+    ),
+    MAX_SPLIT_PARTS
+  );
+
+  const files = changes.map((change) => change.path).sort();
+  const idFormat = getIdFormat(task.id);
+  const firstNumber = parseIdNumber(firstId);
+  const implementationPlanId = randomUUID();
+  const now = new Date().toISOString();
+
+  const subTasks: Task[] = [];
+  for (let part = 0; part < parts; part++) {
+    // With fewer files than parts, every part works on all of them
+    const partFiles =
+      files.length >= parts
+        ? files.slice(
+            Math.floor((part * files.length) / parts),
+            Math.floor(((part + 1) * files.length) / parts)
+          )
+        : files;
+    const scope = partFiles.length > 0 ? `; limit changes to ${partFiles.join(', ')}` : '';
+    const description = `Part ${part + 1} of ${parts} of ${task.id}: ${task.description ?? task.title}${scope}`;
+
+    subTasks.push(
+      TaskSchema.parse({
+        id: formatId('ST', firstNumber + part, idFormat),
+        implementation_plan_id: implementationPlanId,
+        title: `${task.title} (part ${part + 1} of ${parts})`.slice(0, 255),
+        description: description.slice(0, 1000),
+        status: 'pending',
+        dependency_layer: task.dependencyLayer,
+        dependencies: part === 0 ? task.dependencies : [subTasks[part - 1]?.id ?? task.id],
+        priority: task.priority ?? undefined,
+        story_id: task.storyId ?? undefined,
+        acceptance_criteria:
+          task.acceptanceCriteria.length > 0 ? task.acceptanceCriteria : undefined,
+        estimated_minutes: Math.max(
+          Math.ceil((task.estimatedMinutes ?? DEFAULT_MINUTES) / parts),
+          TASK_CONSTRAINTS.MIN_MINUTES
+        ),
+        max_files: check.maxFiles,
+        max_loc: check.maxLoc,
+        created_at: now,
+      })
+    );
+  }
+
+  return subTasks;
+}
+
+/**
+ * Rewrite the plan for a split: the task is skipped with a `Split:` note, its sub-tasks follow
+ * it, and tasks that waited on it wait on the last sub-task instead
+ */
+export function splitPlanTask(
+  content: string,
+  task: ParsedTask,
+  subTasks: Task[],
+  reason: string
+): string {
+  const lines = content.split('\n');
+  const start = task.lineNumber - 1;
+  let end = start + 1;
+  while (end < lines.length && /^\s+\S/.test(lines[end] ?? '')) {
+    end++;
+  }
+
+  const taskLine = lines[start] ?? '';
+  const indent = taskLine.match(/^(\s*)/)?.[1] ?? '';
+  const subTaskIds = subTasks.map((subTask) => subTask.id);
+  const lastId = subTaskIds[subTaskIds.length - 1] ?? task.id;
+
+  lines[start] = taskLine.replace(/- \[[ xX~!-]\]/, `- [${TASK_STATUS_MARKERS.skipped}]`);
+  const block = [
+    ...lines.slice(start, end),
+    `${indent}  - ${SPLIT_PREFIX} into ${subTaskIds.join(', ')} (${reason})`,
+    ...subTasks.flatMap((subTask) => [
+      '',
+      ...formatTaskMarkdown(subTask).map((line) => `${indent}${line}`),
+    ]),
+  ];
+  lines.splice(start, end - start, ...block);
+
+  const dependents = new Set(
+    parsePlanTasks(content)
+      .filter((t) => t.dependencies.includes(task.id))
+      .map((t) => t.id)
+  );
+
+  return lines
+    .map((line) => {
+      const id = line.match(/^\s*- \[[ xX~!-]\] (\S+):/)?.[1];
+      if (id === undefined || !dependents.has(id)) {
+        return line;
+      }
+      return line.replace(DEPENDENCY_TAG_REGEX, (_tag, keyword: string, list: string) => {
+        const ids = list.split(',').map((dep) => (dep.trim() === task.id ? lastId : dep.trim()));
+        return `(${keyword}: ${ids.join(', ')})`;
+      });
+    })
+    .join('\n');
+}
+
+/**
+ * Task splitter for Workers whose changes outgrew the task's limits
+ */
+export class TaskSplitter {
+  private readonly basePath: string;
+
+  constructor(basePath: string) {
+    this.basePath = basePath;
+  }
+
+  /**
+   * Split a task whose Worker changed more files or lines than the task allows
+   * Returns null, leaving the plan alone, when the changes were within the limits.
+   */
+  async splitIfOversize(taskId: string, changes: FileDiffStat[]): Promise<TaskSplit | null> {
+    const planManager = createImplementationPlanManager(this.basePath);
+    const content = await planManager.read();
+    const tasks = parsePlanTasks(content);
+    const task = tasks.find((t) => t.id === taskId);
+
+    if (task === undefined || task.status === 'completed' || task.status === 'skipped') {
+      return null;
+    }
+
+    const check = checkTaskSize(task, changes);
+    if (!check.oversize) {
+      return null;
+    }
+
+    const idFormat = getIdFormat(task.id);
+    const subTasks = planSubTasks(task, changes, check, getNextTaskId(tasks, idFormat));
+    const subTaskIds = subTasks.map((subTask) => subTask.id);
+    const lastId = subTaskIds[subTaskIds.length - 1] ?? task.id;
+
+    // A plan edited while the split was planned is left alone; the next failure splits again
+    const splitContent = splitPlanTask(content, task, subTasks, check.reason);
+    if (!(await planManager.writeIfUnchanged(content, splitContent))) {
+      return null;
+    }
+
+    const adrManager = createADRManager(this.basePath, idFormat);
+    const adrId = await adrManager.getNextId();
+    await adrManager.append({
+      id: adrId,
+      title: `Split ${task.id} into ${subTaskIds.join(', ')}`,
+      decision:
+        `${task.id} (${task.title}) is skipped and replaced by ${subTaskIds.join(', ')}, ` +
+        `done in that order. Tasks that waited on ${task.id} now wait on ${lastId}.`,
+      rationale:
+        `A Worker's attempt at ${task.id} changed ${check.reason}, beyond what one atomic task ` +
+        `may touch, and did not succeed. Smaller parts keep each Worker within the limits.`,
+      keywords: ['task-split', 'atomicity', task.id, ...subTaskIds],
+      status: 'accepted',
+      createdBy: 'manager',
+    });
+
+    return { taskId: task.id, subTaskIds, reason: check.reason, adrId };
+  }
+}
+
+/**
+ * Create a task splitter
+ */
+export function createTaskSplitter(basePath: string): TaskSplitter {
+  return new TaskSplitter(basePath);
+}
@@ -0,0 +1,175 @@
+/**
+ * Affected test selection
+ * Walks the relative imports of the project's test files to find the tests that reach a changed
+ * file, so the Ralph Wiggum Loop can iterate on those instead of the whole suite
+ */
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { dirname, extname, join, normalize, relative } from 'node:path';
+
+import { diffWorkingTreeStats, isGitRepository } from '../git/index.js';
+
+const TEST_FILE_REGEX = /\.(test|spec)\.[cm]?[jt]sx?$/;
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'coverage']);
+const MAX_WALKED_FILES = 5000;
+// Orchestration state is never imported by tests
+const CHANGE_EXCLUDE_PATHS = ['.ralph', '.agent', 'IMPLEMENTATION_PLAN.md', 'node_modules'];
+
+// `from '…'`, `import '…'`, `import('…')`, `require('…')` and `export … from '…'`
+const IMPORT_REGEX = /(?:\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)['"](\.{1,2}\/[^'"]+)['"]/g;
+
+/**
+ * Test files under the project, relative to it, skipping dependencies and build output
+ */
+export async function findTestFiles(basePath: string): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (files.length >= MAX_WALKED_FILES) {
+        return;
+      }
+      const fullPath = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+          await walk(fullPath);
+        }
+      } else if (entry.isFile() && TEST_FILE_REGEX.test(entry.name)) {
+        files.push(relative(basePath, fullPath));
+      }
+    }
+  };
+
+  await walk(basePath);
+  return files.sort();
+}
+
+/**
+ * Relative import specifiers in a source file
+ */
+export function parseRelativeImports(source: string): string[] {
+  return [...source.matchAll(IMPORT_REGEX)].map((match) => match[1] ?? '');
+}
+
+/**
+ * Whether a path is a regular file
+ */
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Project file a relative import points at, trying the TypeScript source behind a `.js`
+ * specifier, extensionless paths and directory index files
+ */
+async function resolveImport(
+  basePath: string,
+  fromFile: string,
+  specifier: string
+): Promise<string | null> {
+  const target = normalize(join(dirname(fromFile), specifier));
+  const extension = extname(target);
+  const stem = SOURCE_EXTENSIONS.includes(extension) ? target.slice(0, -extension.length) : target;
+
+  const candidates = [
+    target,
+    ...SOURCE_EXTENSIONS.map((ext) => `${stem}${ext}`),
+    ...SOURCE_EXTENSIONS.map((ext) => join(target, `index${ext}`)),
+  ];
+  for (const candidate of candidates) {
+    if (await isFile(join(basePath, candidate))) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Test files that import a changed file, directly or through other project files
+ * A changed test file is affected itself. Paths are relative to the project.
+ */
+export async function findAffectedTests(
+  basePath: string,
+  changedFiles: string[]
+): Promise<string[]> {
+  const changed = new Set(changedFiles.map((file) => normalize(file)));
+  const imports = new Map<string, string[]>();
+
+  const importsOf = async (file: string): Promise<string[]> => {
+    const cached = imports.get(file);
+    if (cached !== undefined) {
+      return cached;
+    }
+    imports.set(file, []);
+
+    let source: string;
+    try {
+      source = await readFile(join(basePath, file), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const resolved: string[] = [];
+    for (const specifier of parseRelativeImports(source)) {
+      const target = await resolveImport(basePath, file, specifier);
+      if (target !== null) {
+        resolved.push(target);
+      }
+    }
+    imports.set(file, resolved);
+    return resolved;
+  };
+
+  const reachesChange = async (testFile: string): Promise<boolean> => {
+    const seen = new Set<string>();
+    const queue = [testFile];
+    while (queue.length > 0 && seen.size < MAX_WALKED_FILES) {
+      const file = queue.shift() ?? '';
+      if (seen.has(file)) {
+        continue;
+      }
+      seen.add(file);
+      if (changed.has(file)) {
+        return true;
+      }
+      queue.push(...(await importsOf(file)));
+    }
+    return false;
+  };
+
+  const affected: string[] = [];
+  for (const testFile of await findTestFiles(basePath)) {
+    if (await reachesChange(testFile)) {
+      affected.push(testFile);
+    }
+  }
+
+  return affected;
+}
+
+/**
+ * Files changed against HEAD, untracked ones included, or null outside a git repository
+ */
+export async function findChangedFiles(basePath: string): Promise<string[] | null> {
+  try {
+    if (!(await isGitRepository(basePath))) {
+      return null;
+    }
+    const stats = await diffWorkingTreeStats(basePath, CHANGE_EXCLUDE_PATHS);
+    return stats.map((change) => change.path);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Ground-truth change capture
+ * Measures what a task changed with git instead of trusting the agent's own list, and checks
+ * the result against the task's file and LOC limits
+ */
+import { createImplementationPlanManager } from '../../state/index.js';
+import { diffStatsSince, isGitRepository, type FileDiffStat } from '../git/index.js';
+import { checkTaskSize } from '../shift-manager/task-splitter.js';
+
+/**
+ * Paths whose changes are not the task's: orchestration state and dependencies
+ */
+const CAPTURE_EXCLUDE_PATHS = ['.ralph', '.agent', 'IMPLEMENTATION_PLAN.md', 'node_modules'];
+
+/**
+ * Everything changed since the task's start commit, committed or not, with created and
+ * deleted files told apart
+ * Returns null outside a git repository.
+ */
+export async function captureTaskChanges(
+  cwd: string,
+  startCommit: string | null
+): Promise<FileDiffStat[] | null> {
+  try {
+    if (!(await isGitRepository(cwd))) {
+      return null;
+    }
+    return await diffStatsSince(cwd, startCommit, CAPTURE_EXCLUDE_PATHS);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Guardrail violations for changes beyond the task's `Max files` / `Max LOC`
+ * A task that is not in the plan has no limits to break.
+ */
+export async function checkChangeLimits(
+  basePath: string,
+  taskId: string,
+  changes: FileDiffStat[]
+): Promise<string[]> {
+  const task = await createImplementationPlanManager(basePath).getTask(taskId);
+  if (task === null) {
+    return [];
+  }
+
+  const check = checkTaskSize(task, changes);
+  return check.oversize ? [`Task limits exceeded: ${check.reason}`] : [];
+}
@@ -4,8 +4,11 @@
  */
 import { randomUUID } from 'node:crypto';
 
+import type { ProjectCommands } from '../../schemas/index.js';
 import type { WorkerSession } from '../../types/index.js';
+import { findHeadCommit } from '../git/index.js';
 
+import { captureTaskChanges, checkChangeLimits } from './change-capture.js';
 import {
   bootFreshContext,
   WORKER_CONSTRAINTS,
@@ -32,6 +35,7 @@ import {
   writeStatusFragment,
   writeBlockedFragment,
   readStatusFragment,
+  toFileChanges,
   type StatusFragmentInput,
   type FileChange,
 } from './status-fragment-writer.js';
@@ -39,6 +43,8 @@ import {
 // Re-export sub-modules
 export * from './fresh-context-boot.js';
 export * from './ralph-wiggum-loop.js';
+export * from './affected-tests.js';
+export * from './change-capture.js';
 export * from './status-fragment-writer.js';
 export * from './self-destruct.js';
 
@@ -53,6 +59,10 @@ export interface WorkerConfig {
   currentTaskPath: string;
   maxRetries?: number;
   contextWindowSize?: number;
+  /** Build, test and lint commands from kr-wiggum.config.json (default: npm scripts) */
+  commands?: ProjectCommands;
+  /** Commit the task started from (default: HEAD when the Worker boots) */
+  startCommit?: string;
 }
 
 /**
@@ -77,6 +87,7 @@ export class Worker {
   private session: WorkerSession | null = null;
   private bootResult: WorkerBootResult | null = null;
   private filesChanged: FileChange[] = [];
+  private startCommit: string | null = null;
 
   constructor(config: WorkerConfig) {
     this.config = config;
@@ -96,6 +107,7 @@ export class Worker {
     };
 
     this.bootResult = await bootFreshContext(bootConfig);
+    this.startCommit = this.config.startCommit ?? (await findHeadCommit(this.config.basePath));
 
     this.session = {
       sessionId: this.bootResult.sessionId,
@@ -122,6 +134,10 @@ export class Worker {
     const loopConfig: LoopConfig = {
       basePath: this.config.basePath,
       maxIterations: this.session.maxRetries,
+      buildCommand: this.config.commands?.build,
+      testCommand: this.config.commands?.test,
+      lintCommand: this.config.commands?.lint,
+      affectedTestCommand: this.config.commands?.affected_test,
     };
 
     const result = await runRalphWiggumLoop(loopConfig);
@@ -139,6 +155,22 @@ export class Worker {
     this.filesChanged.push(change);
   }
 
+  /**
+   * Files the task changed, measured with git since the start commit, and the task limits they
+   * break; outside a git repository the recorded changes are used as they are
+   */
+  private async captureChanges(): Promise<{ whatChanged: FileChange[]; violations: string[] }> {
+    const changes = await captureTaskChanges(this.config.basePath, this.startCommit);
+    if (changes === null) {
+      return { whatChanged: this.filesChanged, violations: [] };
+    }
+
+    return {
+      whatChanged: toFileChanges(changes),
+      violations: await checkChangeLimits(this.config.basePath, this.config.taskId, changes),
+    };
+  }
+
   /**
    * Write status fragment
    */
@@ -147,13 +179,15 @@ export class Worker {
       throw new Error('Worker not booted. Call boot() first.');
     }
 
+    const { whatChanged, violations } = await this.captureChanges();
     const input: StatusFragmentInput = {
       projectId: this.config.projectId,
       sessionId: this.bootResult.sessionId,
       taskId: this.config.taskId,
       whatFixed,
-      whatChanged: this.filesChanged,
+      whatChanged,
       patternsUsed,
+      guardrailViolations: violations,
       testsPassed: true, // Will be updated by loop
       compilerPassed: true,
       retryCount: this.session.retryCount,
@@ -185,13 +219,15 @@ export class Worker {
         : `Task ${this.config.taskId} failed: ${loopResult.reason}`;
 
       // Update status fragment with actual results
+      const { whatChanged, violations } = await this.captureChanges();
       const input: StatusFragmentInput = {
         projectId: this.config.projectId,
         sessionId: this.bootResult.sessionId,
         taskId: this.config.taskId,
         whatFixed,
-        whatChanged: this.filesChanged,
+        whatChanged,
         patternsUsed: [],
+        guardrailViolations: violations,
         testsPassed: loopResult.finalState.testsPass,
         compilerPassed: loopResult.finalState.compilerPass,
         retryCount: loopResult.iterations,
@@ -1,6 +1,7 @@
 /**
  * Edit-Build-Test-Fix cycle
- * Iterates until tests pass (exit 0), max 5 retry attempts
+ * Iterates until tests pass (exit 0), max 5 retry attempts; iterations run the tests related to
+ * the changed files, and the full suite runs once they pass
  */
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
@@ -8,6 +9,8 @@ import { promisify } from 'node:util';
 import { createCompilerErrorManager } from '../../state/index.js';
 import type { RalphWiggumLoopState } from '../../types/index.js';
 
+import { findAffectedTests, findChangedFiles } from './affected-tests.js';
+
 const execAsync = promisify(exec);
 
 /**
@@ -19,6 +22,8 @@ export interface LoopConfig {
   buildCommand?: string;
   testCommand?: string;
   lintCommand?: string;
+  /** Command the affected test files are appended to (default: `<testCommand> --`) */
+  affectedTestCommand?: string;
 }
 
 /**
@@ -31,6 +36,12 @@ export interface LoopIterationResult {
   lintPassed: boolean;
   errors: string[];
   duration: number;
+  /** Test files related to the changes; null when the changes could not be determined */
+  affectedTests: string[] | null;
+  /** Time spent on the affected tests; null when they did not run on their own */
+  affectedTestDuration: number | null;
+  /** Time spent on the full suite; null when it did not run */
+  fullTestDuration: number | null;
 }
 
 /**
@@ -41,6 +52,7 @@ export interface LoopResult {
   iterations: number;
   finalState: RalphWiggumLoopState;
   reason: string;
+  iterationResults: LoopIterationResult[];
 }
 
 /**
@@ -73,8 +85,18 @@ async function executeCommand(
   }
 }
 
+/**
+ * Quote a path for the shell
+ */
+function quoteArgument(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
 /**
  * Run the Ralph Wiggum Loop
+ * Each iteration builds, lints and runs only the tests that import a changed file. Once those
+ * pass, the full suite runs before the loop declares success; outside a git repository every
+ * iteration runs the full suite.
  */
 export async function runRalphWiggumLoop(config: LoopConfig): Promise<LoopResult> {
   const {
@@ -83,6 +105,7 @@ export async function runRalphWiggumLoop(config: LoopConfig): Promise<LoopResult
     buildCommand = 'npm run build',
     testCommand = 'npm test',
     lintCommand = 'npm run lint',
+    affectedTestCommand = `${testCommand} --`,
   } = config;
 
   const errorManager = createCompilerErrorManager(basePath);
@@ -95,31 +118,76 @@ export async function runRalphWiggumLoop(config: LoopConfig): Promise<LoopResult
     compilerPass: false,
     filesModified: [],
   };
+  const iterationResults: LoopIterationResult[] = [];
 
   for (let i = 0; i < maxIterations; i++) {
     state.iteration = i + 1;
+    const iterationStart = Date.now();
+    const iteration: LoopIterationResult = {
+      iteration: state.iteration,
+      buildPassed: false,
+      testsPassed: false,
+      lintPassed: false,
+      errors: [],
+      duration: 0,
+      affectedTests: null,
+      affectedTestDuration: null,
+      fullTestDuration: null,
+    };
+    iterationResults.push(iteration);
 
     // Step 1: Build (TypeScript compilation)
     const buildResult = await executeCommand(buildCommand, basePath);
     state.compilerPass = buildResult.success;
+    iteration.buildPassed = buildResult.success;
 
     if (!buildResult.success) {
       state.lastError = buildResult.output;
+      iteration.errors.push(`Build failed: ${buildResult.output.slice(0, 500)}`);
+      iteration.duration = Date.now() - iterationStart;
       await errorManager.writeTypeScriptError(buildResult.output);
       continue;
     }
 
     // Step 2: Lint
     const lintResult = await executeCommand(lintCommand, basePath);
+    iteration.lintPassed = lintResult.success;
     if (!lintResult.success) {
       state.lastError = lintResult.output;
+      iteration.errors.push(`Lint failed: ${lintResult.output.slice(0, 500)}`);
       await errorManager.writeLintError(lintResult.output);
       // Lint failures are warnings, continue to tests
     }
 
-    // Step 3: Test
+    // Step 3: Test what the changes affect
+    const changedFiles = await findChangedFiles(basePath);
+    state.filesModified = changedFiles ?? [];
+    iteration.affectedTests =
+      changedFiles !== null ? await findAffectedTests(basePath, changedFiles) : null;
+
+    if (iteration.affectedTests !== null && iteration.affectedTests.length > 0) {
+      const affectedResult = await executeCommand(
+        `${affectedTestCommand} ${iteration.affectedTests.map(quoteArgument).join(' ')}`,
+        basePath
+      );
+      iteration.affectedTestDuration = affectedResult.duration;
+
+      if (!affectedResult.success) {
+        state.testsPass = false;
+        state.lastError = affectedResult.output;
+        iteration.errors.push(`Affected tests failed: ${affectedResult.output.slice(0, 500)}`);
+        iteration.duration = Date.now() - iterationStart;
+        await errorManager.writeTestError(affectedResult.output);
+        continue;
+      }
+    }
+
+    // Step 4: Full suite, once before declaring success
     const testResult = await executeCommand(testCommand, basePath);
     state.testsPass = testResult.success;
+    iteration.testsPassed = testResult.success;
+    iteration.fullTestDuration = testResult.duration;
+    iteration.duration = Date.now() - iterationStart;
 
     if (testResult.success) {
       // All checks passed!
@@ -129,11 +197,13 @@ export async function runRalphWiggumLoop(config: LoopConfig): Promise<LoopResult
         iterations: state.iteration,
         finalState: state,
         reason: `All checks passed after ${state.iteration} iteration(s)`,
+        iterationResults,
       };
     }
 
     // Tests failed
     state.lastError = testResult.output;
+    iteration.errors.push(`Tests failed: ${testResult.output.slice(0, 500)}`);
     await errorManager.writeTestError(testResult.output);
   }
 
@@ -143,6 +213,7 @@ export async function runRalphWiggumLoop(config: LoopConfig): Promise<LoopResult
     iterations: state.iteration,
     finalState: state,
     reason: `Max iterations (${maxIterations}) reached without all checks passing`,
+    iterationResults,
   };
 }
 
@@ -187,6 +258,9 @@ export async function runSingleIteration(
     lintPassed: lintResult.success,
     errors,
     duration: Date.now() - start,
+    affectedTests: null,
+    affectedTestDuration: null,
+    fullTestDuration: testResult.duration,
   };
 }
 
@@ -1,6 +1,6 @@
 /**
  * Status fragment generation
- * Documents what_fixed, what_changed, patterns_used (<500 tokens)
+ * Documents what_fixed, what_changed, patterns_used, acceptance_criteria (<500 tokens)
  */
 import { randomUUID } from 'node:crypto';
 import { writeFile } from 'node:fs/promises';
@@ -8,6 +8,7 @@ import { join } from 'node:path';
 
 import type { StatusFragment } from '../../schemas/index.js';
 import { ensureDirectory } from '../../state/index.js';
+import type { FileDiffStat } from '../git/index.js';
 
 /**
  * File change record
@@ -19,6 +20,16 @@ export interface FileChange {
   linesRemoved: number;
 }
 
+/**
+ * Outcome of checking one acceptance criterion
+ */
+export interface AcceptanceCheck {
+  criterion: string;
+  satisfied: boolean;
+  /** How it was verified, e.g. the test or command that showed it */
+  verification: string;
+}
+
 /**
  * Status fragment input
  */
@@ -29,6 +40,9 @@ export interface StatusFragmentInput {
   whatFixed: string;
   whatChanged: FileChange[];
   patternsUsed?: string[];
+  acceptanceCriteria?: AcceptanceCheck[];
+  /** Guardrails the changes broke, e.g. the task's file or LOC limits */
+  guardrailViolations?: string[];
   testsPassed: boolean;
   compilerPassed: boolean;
   retryCount: number;
@@ -61,6 +75,57 @@ function truncateToTokens(text: string, maxTokens: number): string {
   return text.slice(0, maxChars - 3) + '...';
 }
 
+/**
+ * File changes as the fragment records them, from git's line counts
+ */
+export function toFileChanges(stats: FileDiffStat[]): FileChange[] {
+  return stats.map((stat) => ({
+    filePath: stat.path,
+    changeType: stat.changeType,
+    linesAdded: stat.linesAdded,
+    linesRemoved: stat.linesRemoved,
+  }));
+}
+
+/**
+ * File changes in the fragment's snake_case form
+ */
+function toFragmentChanges(changes: FileChange[]): StatusFragment['what_changed'] {
+  return changes.map((change) => ({
+    file_path: change.filePath,
+    change_type: change.changeType,
+    lines_added: change.linesAdded,
+    lines_removed: change.linesRemoved,
+  }));
+}
+
+/**
+ * Write a fragment's JSON and markdown to .ralph/, with its token count filled in
+ */
+async function saveStatusFragment(
+  basePath: string,
+  fragment: StatusFragment
+): Promise<StatusFragmentResult> {
+  fragment.token_count = 0;
+  fragment.token_count = Math.min(estimateTokens(JSON.stringify(fragment)), 500);
+
+  const ralphDir = join(basePath, '.ralph');
+  await ensureDirectory(ralphDir);
+
+  const filePath = join(ralphDir, 'status-fragment.json');
+  await writeFile(filePath, JSON.stringify(fragment, null, 2), 'utf-8');
+
+  // Also write a human-readable markdown version
+  const markdownPath = join(ralphDir, 'status-fragment.md');
+  await writeFile(markdownPath, generateFragmentMarkdown(fragment), 'utf-8');
+
+  return {
+    filePath,
+    fragment,
+    tokenCount: fragment.token_count,
+  };
+}
+
 /**
  * Write a status fragment
  */
@@ -75,6 +140,8 @@ export async function writeStatusFragment(
     whatFixed,
     whatChanged,
     patternsUsed = [],
+    acceptanceCriteria = [],
+    guardrailViolations = [],
     testsPassed,
     compilerPassed,
     retryCount,
@@ -89,13 +156,14 @@ export async function writeStatusFragment(
     session_id: sessionId,
     task_id: taskId,
     what_fixed: truncatedWhatFixed,
-    what_changed: whatChanged.map((change) => ({
-      file_path: change.filePath,
-      change_type: change.changeType,
-      lines_added: change.linesAdded,
-      lines_removed: change.linesRemoved,
-    })),
+    what_changed: toFragmentChanges(whatChanged),
     patterns_used: patternsUsed,
+    acceptance_criteria: acceptanceCriteria.map((check) => ({
+      criterion: check.criterion,
+      satisfied: check.satisfied,
+      verification: truncateToTokens(check.verification, 50),
+    })),
+    guardrail_violations: guardrailViolations,
     token_count: 0, // Will be calculated
     tests_passed: testsPassed,
     compiler_passed: compilerPassed,
@@ -103,27 +171,36 @@ export async function writeStatusFragment(
     created_at: new Date().toISOString(),
   };
 
-  // Calculate token count
-  const fragmentJson = JSON.stringify(fragment);
-  fragment.token_count = Math.min(estimateTokens(fragmentJson), 500);
-
-  // Write to file
-  const ralphDir = join(basePath, '.ralph');
-  await ensureDirectory(ralphDir);
-
-  const filePath = join(ralphDir, 'status-fragment.json');
-  await writeFile(filePath, JSON.stringify(fragment, null, 2), 'utf-8');
+  return saveStatusFragment(basePath, fragment);
+}
 
-  // Also write a human-readable markdown version
-  const markdownPath = join(ralphDir, 'status-fragment.md');
-  const markdown = generateFragmentMarkdown(fragment);
-  await writeFile(markdownPath, markdown, 'utf-8');
+/**
+ * Replace the changes a fragment reports with the ones measured from git
+ * Agents list files from memory; the measured list and any guardrail violations it shows win.
+ * When git measured no changes the fragment's own list stays, since a fragment needs at least one.
+ */
+export async function reconcileStatusFragment(
+  basePath: string,
+  fragment: StatusFragment,
+  whatChanged: FileChange[],
+  guardrailViolations: string[]
+): Promise<StatusFragmentResult> {
+  return saveStatusFragment(basePath, {
+    ...fragment,
+    what_changed: whatChanged.length > 0 ? toFragmentChanges(whatChanged) : fragment.what_changed,
+    guardrail_violations: guardrailViolations,
+  });
+}
 
-  return {
-    filePath,
-    fragment,
-    tokenCount: fragment.token_count,
-  };
+/**
+ * Record the commit a completed task landed in
+ */
+export async function linkStatusFragmentCommit(
+  basePath: string,
+  fragment: StatusFragment,
+  commitHash: string
+): Promise<StatusFragmentResult> {
+  return saveStatusFragment(basePath, { ...fragment, commit_hash: commitHash });
 }
 
 /**
@@ -142,12 +219,26 @@ function generateFragmentMarkdown(fragment: StatusFragment): string {
       ? fragment.patterns_used.map((p) => `- ${p}`).join('\n')
       : '*No new patterns used*';
 
+  const criteria =
+    fragment.acceptance_criteria.length > 0
+      ? fragment.acceptance_criteria
+          .map((c) => `- [${c.satisfied ? 'x' : ' '}] ${c.criterion} (${c.verification})`)
+          .join('\n')
+      : '*No acceptance criteria recorded*';
+
+  const violations =
+    (fragment.guardrail_violations ?? []).length > 0
+      ? (fragment.guardrail_violations ?? []).map((v) => `- ${v}`).join('\n')
+      : '*None*';
+
+  const commit = fragment.commit_hash !== undefined ? `**Commit**: ${fragment.commit_hash}\n` : '';
+
   return `# Status Fragment
 
 **Task**: ${fragment.task_id}
 **Session**: ${fragment.session_id.slice(0, 8)}...
 **Created**: ${fragment.created_at}
-
+${commit}
 ---
 
 ## What Was Fixed
@@ -168,6 +259,18 @@ ${patterns}
 
 ---
 
+## Acceptance Criteria
+
+${criteria}
+
+---
+
+## Guardrail Violations
+
+${violations}
+
+---
+
 ## Status
 
 - **Tests**: ${fragment.tests_passed ? 'PASSING' : 'FAILING'}
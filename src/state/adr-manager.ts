@@ -5,12 +5,20 @@
 import { readFile, writeFile, appendFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
-import type { ADR } from '../schemas/index.js';
+import {
+  ADR_ID_PATTERN,
+  formatId,
+  parseIdNumber,
+  type ADR,
+  type IdFormat,
+} from '../schemas/index.js';
 
 import { ensureDirectory, calculateHash } from './file-state-manager.js';
 
 const ADR_FILE = 'ADR.md';
 const AGENT_DIR = '.agent';
+const ADR_HEADING_REGEX = new RegExp(`^## (${ADR_ID_PATTERN}):`, 'gm');
+const ADR_SECTION_ID_REGEX = new RegExp(`^(${ADR_ID_PATTERN}):`);
 
 /**
  * ADR entry for markdown format
@@ -26,14 +34,26 @@ export interface ADREntry {
   commitHash?: string;
 }
 
+/**
+ * One ADR as it appears in .agent/ADR.md
+ */
+export interface ADRSection {
+  id: string;
+  title: string;
+  /** The section from its `## ADR-XXX:` heading, without the trailing `---` */
+  markdown: string;
+}
+
 /**
  * ADR manager for .agent/ADR.md
  */
 export class ADRManager {
   private readonly basePath: string;
+  private readonly idFormat: IdFormat;
 
-  constructor(basePath: string) {
+  constructor(basePath: string, idFormat: IdFormat = {}) {
     this.basePath = basePath;
+    this.idFormat = idFormat;
   }
 
   private getFilePath(): string {
@@ -103,33 +123,65 @@ ${entry.rationale}
   }
 
   /**
-   * Get the last N ADR IDs
+   * Record the commit an ADR's decision landed in, replacing any earlier commit line
+   * Returns the IDs whose section now names the commit; a section with neither a commit nor a
+   * keywords line to put it before is left alone.
    */
-  async getLastADRIds(count: number = 5): Promise<string[]> {
+  async linkCommit(adrIds: string[], commitHash: string): Promise<string[]> {
     const content = await this.read();
-    const adrRegex = /^## (ADR-\d{3}):/gm;
-    const ids: string[] = [];
-
-    let match;
-    while ((match = adrRegex.exec(content)) !== null) {
-      ids.push(match[1] ?? '');
+    const commitLine = `- **Commit**: \`${commitHash}\``;
+    const linked: string[] = [];
+
+    const sections = content.split(/^(?=## )/m).map((section) => {
+      const id = section.slice(3).match(ADR_SECTION_ID_REGEX)?.[1];
+      if (id === undefined || !adrIds.includes(id)) {
+        return section;
+      }
+
+      const updated = /^- \*\*Commit\*\*: .*$/m.test(section)
+        ? section.replace(/^- \*\*Commit\*\*: .*$/m, commitLine)
+        : section.replace(/^- \*\*Keywords\*\*:/m, `${commitLine}\n- **Keywords**:`);
+      if (updated.includes(commitLine)) {
+        linked.push(id);
+      }
+      return updated;
+    });
+
+    const updatedContent = sections.join('');
+    if (updatedContent !== content) {
+      await writeFile(this.getFilePath(), updatedContent, 'utf-8');
     }
 
+    return linked;
+  }
+
+  /**
+   * Get the last N ADR IDs
+   */
+  async getLastADRIds(count: number = 5): Promise<string[]> {
+    const ids = await this.getAllIds();
     return ids.slice(-count);
   }
 
   /**
-   * Get the next ADR ID
+   * Get every ADR ID in file order
+   */
+  private async getAllIds(): Promise<string[]> {
+    const content = await this.read();
+    return Array.from(content.matchAll(ADR_HEADING_REGEX), (match) => match[1] ?? '');
+  }
+
+  /**
+   * Get the next ADR ID in this manager's namespace
+   * Numbering continues from the highest existing ID, so other namespaces do not interfere.
    */
   async getNextId(): Promise<string> {
-    const lastIds = await this.getLastADRIds(1);
-    if (lastIds.length === 0) {
-      return 'ADR-001';
-    }
+    const prefix = formatId('ADR', 0, this.idFormat).replace(/\d+$/, '');
+    const numbers = (await this.getAllIds())
+      .filter((id) => id.startsWith(prefix) && /^\d+$/.test(id.slice(prefix.length)))
+      .map(parseIdNumber);
 
-    const lastId = lastIds[0] ?? 'ADR-000';
-    const lastNum = parseInt(lastId.split('-')[1] ?? '0', 10);
-    return `ADR-${String(lastNum + 1).padStart(3, '0')}`;
+    return formatId('ADR', Math.max(0, ...numbers) + 1, this.idFormat);
   }
 
   /**
@@ -142,12 +194,37 @@ ${entry.rationale}
     return sections
       .filter((section) => section.toLowerCase().includes(keyword.toLowerCase()))
       .map((section) => {
-        const match = section.match(/^(ADR-\d{3}):/);
+        const match = section.match(ADR_SECTION_ID_REGEX);
         return match?.[1] ?? '';
       })
       .filter((id) => id !== '');
   }
 
+  /**
+   * Every ADR as its ID, title and markdown section, in file order
+   */
+  async getSections(): Promise<ADRSection[]> {
+    const content = await this.read();
+
+    return content
+      .split(/^## /m)
+      .slice(1)
+      .flatMap((section) => {
+        const match = section.match(ADR_SECTION_ID_REGEX);
+        if (match === null) {
+          return [];
+        }
+        const [heading = '', ...body] = section.split('\n');
+        return [
+          {
+            id: match[1] ?? '',
+            title: heading.slice(match[0].length).trim(),
+            markdown: `## ${heading}\n${body.join('\n').replace(/\n-{3,}\s*$/, '').trim()}\n`,
+          },
+        ];
+      });
+  }
+
   /**
    * Get content hash for change detection
    */
@@ -172,15 +249,13 @@ ${entry.rationale}
    * Get total ADR count
    */
   async getCount(): Promise<number> {
-    const content = await this.read();
-    const matches = content.match(/^## ADR-\d{3}:/gm);
-    return matches?.length ?? 0;
+    return (await this.getAllIds()).length;
   }
 }
 
 /**
  * Create an ADR manager instance
  */
-export function createADRManager(basePath: string): ADRManager {
-  return new ADRManager(basePath);
+export function createADRManager(basePath: string, idFormat?: IdFormat): ADRManager {
+  return new ADRManager(basePath, idFormat);
 }
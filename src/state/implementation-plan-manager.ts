@@ -1,15 +1,178 @@
 /**
  * Manager for IMPLEMENTATION_PLAN.md
- * Checkbox parsing, progress calculation, next unchecked task retrieval
+ * Checkbox parsing, task prerequisites, progress calculation, next ready task retrieval
+ *
+ * Checkbox markers: `[ ]` pending, `[~]` in progress, `[x]` completed,
+ * `[!]` blocked (reason on the next indented line), `[-]` skipped
  */
-import { readFile, writeFile } from 'node:fs/promises';
+import { open, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
-import type { Task, TaskStatus } from '../schemas/index.js';
+import {
+  compareIds,
+  formatId,
+  parseIdNumber,
+  TASK_ID_PATTERN,
+  TaskPrioritySchema,
+  type IdFormat,
+  type Task,
+  type TaskPriority,
+  type TaskStatus,
+} from '../schemas/index.js';
 
 import { calculateHash, ensureDirectory } from './file-state-manager.js';
 
 const IMPLEMENTATION_PLAN_FILE = 'IMPLEMENTATION_PLAN.md';
+// Held across read-modify-write cycles; under .ralph so task commits never pick it up
+const PLAN_LOCK_FILE = join('.ralph', 'plan.lock');
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 5000;
+// A lock with no holder PID this old was left behind by a process that died holding it
+const STALE_LOCK_MS = 30000;
+const BLOCKED_PREFIX = 'Blocked:';
+const BLOCKER_LINE_REGEX = /^\s+- Blocked:\s*(.*)$/;
+const ESTIMATE_LINE_REGEX = /^\s+- Est:\s*(\d+)\s*min/;
+const MAX_FILES_REGEX = /Max files:\s*(\d+)/;
+const MAX_LOC_REGEX = /Max LOC:\s*(\d+)/;
+const STORY_LINE_REGEX = /^\s+- Story:\s*(US-\d{3,})/;
+const ACCEPT_LINE_REGEX = /^\s+- Accept:\s*(.*)$/;
+const NOTE_LINE_REGEX = /^\s+- (?:Est|Blocked|Obsolete|Story|Accept|Split):/;
+const TASK_LINE_REGEX = new RegExp(`^(\\s*)- \\[([ xX~!-])\\] (${TASK_ID_PATTERN}):\\s*(.+)$`);
+
+/**
+ * Checkbox marker written for each task status
+ */
+export const TASK_STATUS_MARKERS: Record<TaskStatus, string> = {
+  pending: ' ',
+  in_progress: '~',
+  completed: 'x',
+  blocked: '!',
+  skipped: '-',
+};
+
+/**
+ * Task status for a checkbox marker
+ */
+function parseStatusMarker(marker: string): TaskStatus {
+  switch (marker) {
+    case 'x':
+    case 'X':
+      return 'completed';
+    case '~':
+      return 'in_progress';
+    case '!':
+      return 'blocked';
+    case '-':
+      return 'skipped';
+    default:
+      return 'pending';
+  }
+}
+// `(after: ST-003, ST-007)` and `(priority: high)`, in either order; `depends on:` is what
+// older distiller output used
+const TAG_SUFFIX_REGEX = /\s*\((after|depends on|priority):([^)]*)\)\s*$/i;
+
+/**
+ * Read the blocker reason from the indented line following a blocked task
+ */
+function findBlockerReason(lines: string[], taskIndex: number): string | null {
+  const match = (lines[taskIndex + 1] ?? '').match(BLOCKER_LINE_REGEX);
+  return match?.[1]?.trim() ?? null;
+}
+
+/**
+ * The indented `- ` lines under a task
+ */
+function getTaskDetailLines(lines: string[], taskIndex: number): string[] {
+  const details: string[] = [];
+  for (let i = taskIndex + 1; i < lines.length && /^\s+-/.test(lines[i] ?? ''); i++) {
+    details.push(lines[i] ?? '');
+  }
+  return details;
+}
+
+/**
+ * Read the minutes, file and LOC limits from the `Est:` line under a task
+ */
+function findLimits(
+  details: string[]
+): Pick<ParsedTask, 'estimatedMinutes' | 'maxFiles' | 'maxLoc'> {
+  const line = details.find((l) => ESTIMATE_LINE_REGEX.test(l));
+  const read = (regex: RegExp): number | null => {
+    const match = line?.match(regex) ?? null;
+    return match !== null ? parseInt(match[1] ?? '0', 10) : null;
+  };
+
+  return {
+    estimatedMinutes: read(ESTIMATE_LINE_REGEX),
+    maxFiles: read(MAX_FILES_REGEX),
+    maxLoc: read(MAX_LOC_REGEX),
+  };
+}
+
+/**
+ * The story reference from the `Story:` line under a task
+ */
+function findStoryId(details: string[]): string | null {
+  for (const line of details) {
+    const match = line.match(STORY_LINE_REGEX);
+    if (match !== null) {
+      return match[1] ?? null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Every `Accept:` line under a task, in plan order
+ */
+function findAcceptanceCriteria(details: string[]): string[] {
+  return details
+    .map((line) => line.match(ACCEPT_LINE_REGEX)?.[1]?.trim() ?? '')
+    .filter((criterion) => criterion !== '');
+}
+
+/**
+ * The first indented line under a task that is not an `Est:`, `Blocked:`, `Obsolete:`,
+ * `Story:`, `Accept:` or `Split:` note
+ */
+function findDescription(details: string[]): string | null {
+  const line = details.find((l) => !NOTE_LINE_REGEX.test(l));
+  const description = line?.replace(/^\s+-\s*/, '').trim() ?? '';
+  return description !== '' ? description : null;
+}
+
+/**
+ * Split trailing `(after: ...)` and `(priority: ...)` tags off a task title
+ * An unknown priority is dropped with its tag.
+ */
+function parseTaskTags(text: string): {
+  title: string;
+  dependencies: string[];
+  priority: TaskPriority | null;
+} {
+  let title = text;
+  let dependencies: string[] = [];
+  let priority: TaskPriority | null = null;
+
+  let match = title.match(TAG_SUFFIX_REGEX);
+  while (match !== null) {
+    const value = (match[2] ?? '').trim();
+    if ((match[1] ?? '').toLowerCase() === 'priority') {
+      const parsed = TaskPrioritySchema.safeParse(value.toLowerCase());
+      priority = parsed.success ? parsed.data : null;
+    } else {
+      dependencies = value
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id !== '');
+    }
+    title = title.slice(0, match.index);
+    match = title.match(TAG_SUFFIX_REGEX);
+  }
+
+  return { title: title.trim(), dependencies, priority };
+}
 
 /**
  * Parsed task from markdown checkbox
@@ -17,21 +180,300 @@ const IMPLEMENTATION_PLAN_FILE = 'IMPLEMENTATION_PLAN.md';
 export interface ParsedTask {
   id: string;
   title: string;
+  status: TaskStatus;
+  /** Completed (`- [x]`) */
   checked: boolean;
+  /** Quarantined with `- [!]`; never selected until a human unblocks it */
+  blocked: boolean;
+  blockerReason: string | null;
   dependencyLayer: number;
+  /** Tasks that must be checked off first, from `(after: ST-003, ST-007)` */
+  dependencies: string[];
+  /** From `(priority: high)`; null when untagged */
+  priority: TaskPriority | null;
+  /** First indented line under the task that is not a note; null when there is none */
+  description: string | null;
+  /** From the `- Est: 30 min | ...` line under the task; null when there is none */
+  estimatedMinutes: number | null;
+  /** `Max files:` and `Max LOC:` from the same line; null when there is none */
+  maxFiles: number | null;
+  maxLoc: number | null;
+  /** From the `- Story: US-001` line under the task; null when there is none */
+  storyId: string | null;
+  /** From the `- Accept: ...` lines under the task */
+  acceptanceCriteria: string[];
   lineNumber: number;
 }
 
+/**
+ * Result of validating the prerequisite graph
+ */
+export interface TaskGraphValidation {
+  valid: boolean;
+  /** Prerequisites that name no task in the plan */
+  unknownDependencies: Array<{ taskId: string; dependencyId: string }>;
+  /** Each cycle as the task IDs along it, ending where it started */
+  cycles: string[][];
+  issues: string[];
+}
+
 /**
  * Progress summary
+ * Blocked and skipped tasks are neither completed nor remaining; skipped tasks do not
+ * count towards the percentage either.
  */
 export interface ProgressSummary {
   total: number;
   completed: number;
+  /** Pending and in-progress tasks */
   remaining: number;
+  inProgress: number;
+  blocked: number;
+  skipped: number;
   percentComplete: number;
 }
 
+/**
+ * A task is remaining while it is pending or in progress
+ */
+export function isTaskRemaining(task: ParsedTask): boolean {
+  return task.status === 'pending' || task.status === 'in_progress';
+}
+
+/**
+ * Summarize progress over parsed tasks
+ */
+export function summarizeProgress(tasks: ParsedTask[]): ProgressSummary {
+  const count = (status: TaskStatus): number => tasks.filter((t) => t.status === status).length;
+  const completed = count('completed');
+  const inProgress = count('in_progress');
+  const skipped = count('skipped');
+  const counted = tasks.length - skipped;
+
+  return {
+    total: tasks.length,
+    completed,
+    remaining: count('pending') + inProgress,
+    inProgress,
+    blocked: count('blocked'),
+    skipped,
+    percentComplete: counted > 0 ? Math.round((completed / counted) * 100) : 0,
+  };
+}
+
+/**
+ * A task is ready when it is remaining and every prerequisite is checked off or skipped
+ * Prerequisites that are blocked or missing from the plan keep it waiting. In-progress tasks
+ * stay selectable, so work left `[~]` by a crashed run is picked up again.
+ */
+export function isTaskReady(task: ParsedTask, tasksById: Map<string, ParsedTask>): boolean {
+  return (
+    isTaskRemaining(task) &&
+    task.dependencies.every((id) => {
+      const status = tasksById.get(id)?.status;
+      return status === 'completed' || status === 'skipped';
+    })
+  );
+}
+
+/**
+ * All ready tasks, lowest dependency layer first, then by ID
+ */
+export function findReadyTasks(tasks: ParsedTask[]): ParsedTask[] {
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+
+  return tasks
+    .filter((t) => isTaskReady(t, tasksById))
+    .sort((a, b) => {
+      if (a.dependencyLayer !== b.dependencyLayer) {
+        return a.dependencyLayer - b.dependencyLayer;
+      }
+      return compareIds(a.id, b.id);
+    });
+}
+
+/**
+ * Pick the task a Worker gets next: lowest dependency layer first, then by ID
+ * Checked and blocked tasks, and tasks with unchecked prerequisites, are skipped.
+ */
+export function findNextTask(tasks: ParsedTask[]): ParsedTask | null {
+  return findReadyTasks(tasks)[0] ?? null;
+}
+
+/**
+ * Check the prerequisite graph for references to unknown tasks and for cycles
+ * Tasks caught in either can never become ready.
+ */
+export function validateTaskGraph(tasks: ParsedTask[]): TaskGraphValidation {
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+  const unknownDependencies: TaskGraphValidation['unknownDependencies'] = [];
+  const cycles: string[][] = [];
+
+  for (const task of tasks) {
+    for (const dependencyId of task.dependencies) {
+      if (!tasksById.has(dependencyId)) {
+        unknownDependencies.push({ taskId: task.id, dependencyId });
+      }
+    }
+  }
+
+  // Depth-first search; an edge back into the current path closes a cycle
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (task: ParsedTask): void => {
+    visited.add(task.id);
+    path.push(task.id);
+
+    for (const dependencyId of task.dependencies) {
+      const onPath = path.indexOf(dependencyId);
+      if (onPath !== -1) {
+        cycles.push([...path.slice(onPath), dependencyId]);
+        continue;
+      }
+
+      const dependency = tasksById.get(dependencyId);
+      if (dependency !== undefined && !visited.has(dependencyId)) {
+        visit(dependency);
+      }
+    }
+
+    path.pop();
+  };
+
+  for (const task of tasks) {
+    if (!visited.has(task.id)) {
+      visit(task);
+    }
+  }
+
+  const issues = [
+    ...unknownDependencies.map(
+      ({ taskId, dependencyId }) => `${taskId} depends on unknown task ${dependencyId}`
+    ),
+    ...cycles.map((cycle) => `Dependency cycle: ${cycle.join(' -> ')}`),
+  ];
+
+  return {
+    valid: issues.length === 0,
+    unknownDependencies,
+    cycles,
+    issues,
+  };
+}
+
+/**
+ * Next free task ID in the namespace of `idFormat`: one past the highest existing number
+ */
+export function getNextTaskId(tasks: ParsedTask[], idFormat: IdFormat = {}): string {
+  const prefix = formatId('ST', 0, idFormat).replace(/\d+$/, '');
+  const highest = Math.max(
+    0,
+    ...tasks
+      .filter((t) => t.id.startsWith(prefix) && /^\d+$/.test(t.id.slice(prefix.length)))
+      .map((t) => parseIdNumber(t.id))
+  );
+  return formatId('ST', highest + 1, idFormat);
+}
+
+/**
+ * Parse checkbox tasks from plan markdown
+ * Each task takes its dependency layer from the nearest `## Layer N` header above it.
+ */
+export function parsePlanTasks(content: string): ParsedTask[] {
+  const tasks: ParsedTask[] = [];
+  const lines = content.split('\n');
+  let currentLayer = 0;
+
+  lines.forEach((line, index) => {
+    // Detect dependency layer from headers
+    const headerMatch = line.match(/^(#{1,6})\s+Layer\s+(\d+)/i);
+    if (headerMatch !== null) {
+      currentLayer = parseInt(headerMatch[2] ?? '0', 10);
+      return;
+    }
+
+    const match = line.match(TASK_LINE_REGEX);
+    if (match !== null) {
+      const status = parseStatusMarker(match[2] ?? ' ');
+      const blocked = status === 'blocked';
+      const { title, dependencies, priority } = parseTaskTags(match[4] ?? '');
+      const details = getTaskDetailLines(lines, index);
+      tasks.push({
+        id: match[3] ?? '',
+        title,
+        status,
+        checked: status === 'completed',
+        blocked,
+        blockerReason: blocked ? findBlockerReason(lines, index) : null,
+        dependencyLayer: currentLayer,
+        dependencies,
+        priority,
+        description: findDescription(details),
+        ...findLimits(details),
+        storyId: findStoryId(details),
+        acceptanceCriteria: findAcceptanceCriteria(details),
+        lineNumber: index + 1,
+      });
+    }
+  });
+
+  return tasks;
+}
+
+/**
+ * Check if a process is alive
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether a lock was left behind by a holder that is gone
+ * The holder's PID is checked when the lock has one, its age otherwise.
+ */
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  const holderPid = Number.parseInt(await readFile(lockPath, 'utf-8').catch(() => ''), 10);
+  if (Number.isInteger(holderPid) && holderPid > 0) {
+    return !isProcessAlive(holderPid);
+  }
+
+  const lockedAt = await stat(lockPath).then(
+    (stats) => stats.mtimeMs,
+    () => null
+  );
+  return lockedAt !== null && Date.now() - lockedAt > STALE_LOCK_MS;
+}
+
+/**
+ * Create the lock file holding our PID, or return false when another holder has it
+ * A stale lock is removed so the next attempt can take it.
+ */
+async function tryAcquireLock(lockPath: string): Promise<boolean> {
+  try {
+    const handle = await open(lockPath, 'wx');
+    try {
+      await handle.writeFile(String(process.pid), 'utf-8');
+    } finally {
+      await handle.close();
+    }
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+      throw error;
+    }
+    if (await isStaleLock(lockPath)) {
+      await rm(lockPath, { force: true });
+    }
+    return false;
+  }
+}
+
 /**
  * Implementation plan manager for IMPLEMENTATION_PLAN.md
  */
@@ -59,44 +501,59 @@ export class ImplementationPlanManager {
 
   /**
    * Write the implementation plan
+   * Written to a temp file and renamed over the plan, so readers never see a half-written file.
    */
   async write(content: string): Promise<void> {
     await ensureDirectory(this.basePath);
-    await writeFile(this.getFilePath(), content, 'utf-8');
+    const tempPath = `${this.getFilePath()}.${process.pid}.tmp`;
+    await writeFile(tempPath, content, 'utf-8');
+    await rename(tempPath, this.getFilePath());
   }
 
   /**
-   * Parse tasks from markdown content
+   * Write the implementation plan only if it still reads `expected`
+   * The check and the write happen under the plan lock, so a status change from the running
+   * loop cannot land between them. Returns false, writing nothing, when the plan changed.
    */
-  parseTasks(content: string): ParsedTask[] {
-    const tasks: ParsedTask[] = [];
-    const lines = content.split('\n');
-    let currentLayer = 0;
+  async writeIfUnchanged(expected: string, content: string): Promise<boolean> {
+    return this.withLock(async () => {
+      if ((await this.read()) !== expected) {
+        return false;
+      }
+      await this.write(content);
+      return true;
+    });
+  }
 
-    // Regex to match checkbox tasks: - [ ] ST-001: Title or - [x] ST-001: Title
-    const taskRegex = /^(\s*)- \[([ x])\] (ST-\d{3}):\s*(.+)$/;
+  /**
+   * Run a read-modify-write of the plan while holding its lock
+   * The lock is a file under .ralph, so it is shared with other processes (the loop and the
+   * task command) working on the same project.
+   */
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const lockPath = join(this.basePath, PLAN_LOCK_FILE);
+    await ensureDirectory(join(this.basePath, '.ralph'));
 
-    lines.forEach((line, index) => {
-      // Detect dependency layer from headers
-      const headerMatch = line.match(/^(#{1,6})\s+Layer\s+(\d+)/i);
-      if (headerMatch !== null) {
-        currentLayer = parseInt(headerMatch[2] ?? '0', 10);
-        return;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    while (!(await tryAcquireLock(lockPath))) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the plan lock (${PLAN_LOCK_FILE})`);
       }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
 
-      const match = line.match(taskRegex);
-      if (match !== null) {
-        tasks.push({
-          id: match[3] ?? '',
-          title: match[4] ?? '',
-          checked: match[2] === 'x',
-          dependencyLayer: currentLayer,
-          lineNumber: index + 1,
-        });
-      }
-    });
+    try {
+      return await fn();
+    } finally {
+      await rm(lockPath, { force: true });
+    }
+  }
 
-    return tasks;
+  /**
+   * Parse tasks from markdown content
+   */
+  parseTasks(content: string): ParsedTask[] {
+    return parsePlanTasks(content);
   }
 
   /**
@@ -104,83 +561,146 @@ export class ImplementationPlanManager {
    */
   async getProgress(): Promise<ProgressSummary> {
     const content = await this.read();
-    const tasks = this.parseTasks(content);
-    const completed = tasks.filter((t) => t.checked).length;
+    return summarizeProgress(this.parseTasks(content));
+  }
+
+  /**
+   * Find a task by ID
+   */
+  async getTask(taskId: string): Promise<ParsedTask | null> {
+    const content = await this.read();
+    return this.parseTasks(content).find((t) => t.id === taskId) ?? null;
+  }
 
-    return {
-      total: tasks.length,
-      completed,
-      remaining: tasks.length - completed,
-      percentComplete: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0,
-    };
+  /**
+   * Next free task ID, see getNextTaskId()
+   */
+  async getNextTaskId(idFormat: IdFormat = {}): Promise<string> {
+    const content = await this.read();
+    return getNextTaskId(this.parseTasks(content), idFormat);
   }
 
   /**
-   * Get next unchecked task
+   * Get next unchecked task whose prerequisites are checked (blocked tasks are skipped)
    */
   async getNextTask(): Promise<ParsedTask | null> {
     const content = await this.read();
-    const tasks = this.parseTasks(content);
-
-    // Sort by dependency layer, then by ID
-    const unchecked = tasks
-      .filter((t) => !t.checked)
-      .sort((a, b) => {
-        if (a.dependencyLayer !== b.dependencyLayer) {
-          return a.dependencyLayer - b.dependencyLayer;
-        }
-        return a.id.localeCompare(b.id);
-      });
+    return findNextTask(this.parseTasks(content));
+  }
 
-    return unchecked[0] ?? null;
+  /**
+   * Validate the `(after: ...)` prerequisites across the plan
+   */
+  async validateDependencies(): Promise<TaskGraphValidation> {
+    const content = await this.read();
+    return validateTaskGraph(this.parseTasks(content));
   }
 
   /**
-   * Mark a task as complete (check the checkbox)
+   * Mark a pending or in-progress task as complete (`- [x]`)
    */
   async markTaskComplete(taskId: string): Promise<boolean> {
-    const content = await this.read();
-    const lines = content.split('\n');
-    let found = false;
+    return this.updateTaskStatus(taskId, ['pending', 'in_progress'], 'completed');
+  }
 
-    const updatedLines = lines.map((line) => {
-      const match = line.match(/^(\s*)- \[ \] (ST-\d{3}):/);
-      if (match !== null && match[2] === taskId) {
-        found = true;
-        return line.replace('- [ ]', '- [x]');
-      }
-      return line;
-    });
+  /**
+   * Unmark a task (uncheck the checkbox)
+   */
+  async unmarkTask(taskId: string): Promise<boolean> {
+    return this.updateTaskStatus(taskId, ['completed'], 'pending');
+  }
 
-    if (found) {
-      await this.write(updatedLines.join('\n'));
-    }
+  /**
+   * Reopen a completed, blocked or skipped task (`- [ ]`)
+   */
+  async reopenTask(taskId: string): Promise<boolean> {
+    return this.updateTaskStatus(taskId, ['completed', 'blocked', 'skipped'], 'pending');
+  }
+
+  /**
+   * Mark a pending task as handed to a Worker (`- [~]`)
+   */
+  async markTaskInProgress(taskId: string): Promise<boolean> {
+    return this.updateTaskStatus(taskId, ['pending'], 'in_progress');
+  }
 
-    return found;
+  /**
+   * Put an in-progress task back to pending, e.g. after a failed attempt
+   */
+  async markTaskPending(taskId: string): Promise<boolean> {
+    return this.updateTaskStatus(taskId, ['in_progress'], 'pending');
   }
 
   /**
-   * Unmark a task (uncheck the checkbox)
+   * Quarantine a task: it becomes `- [!]` with the reason on the next indented line
    */
-  async unmarkTask(taskId: string): Promise<boolean> {
+  async markTaskBlocked(taskId: string, reason: string): Promise<boolean> {
+    return this.updateTaskStatus(taskId, ['pending', 'in_progress', 'blocked'], 'blocked', reason);
+  }
+
+  /**
+   * Skip a task that will not be done (`- [-]`); tasks that depend on it become ready
+   */
+  async markTaskSkipped(taskId: string): Promise<boolean> {
+    return this.updateTaskStatus(taskId, ['pending', 'in_progress', 'blocked'], 'skipped');
+  }
+
+  /**
+   * Rewrite a task's checkbox marker if its current status is one of `from`
+   * Blocked tasks carry their reason on the next indented line; it is replaced rather than
+   * stacked, and dropped once the task leaves the blocked state.
+   */
+  private async updateTaskStatus(
+    taskId: string,
+    from: TaskStatus[],
+    to: TaskStatus,
+    reason?: string
+  ): Promise<boolean> {
+    return this.withLock(() => this.applyTaskStatus(taskId, from, to, reason));
+  }
+
+  /**
+   * Body of updateTaskStatus(), run under the plan lock
+   */
+  private async applyTaskStatus(
+    taskId: string,
+    from: TaskStatus[],
+    to: TaskStatus,
+    reason?: string
+  ): Promise<boolean> {
     const content = await this.read();
     const lines = content.split('\n');
-    let found = false;
 
-    const updatedLines = lines.map((line) => {
-      const match = line.match(/^(\s*)- \[x\] (ST-\d{3}):/);
-      if (match !== null && match[2] === taskId) {
-        found = true;
-        return line.replace('- [x]', '- [ ]');
-      }
-      return line;
+    const index = lines.findIndex((line) => {
+      const match = line.match(TASK_LINE_REGEX);
+      return (
+        match !== null && match[3] === taskId && from.includes(parseStatusMarker(match[2] ?? ' '))
+      );
     });
 
-    if (found) {
-      await this.write(updatedLines.join('\n'));
+    const line = lines[index];
+    if (line === undefined) {
+      return false;
+    }
+
+    lines[index] = line.replace(/- \[[ xX~!-]\]/, `- [${TASK_STATUS_MARKERS[to]}]`);
+
+    const hasBlockerLine = BLOCKER_LINE_REGEX.test(lines[index + 1] ?? '');
+    if (to === 'blocked') {
+      const indent = line.match(/^(\s*)/)?.[1] ?? '';
+      const reasonLine = (reason ?? '').replace(/\s+/g, ' ').trim();
+      const blockerLine = `${indent}  - ${BLOCKED_PREFIX} ${reasonLine}`;
+      if (hasBlockerLine) {
+        lines[index + 1] = blockerLine;
+      } else {
+        lines.splice(index + 1, 0, blockerLine);
+      }
+    } else if (hasBlockerLine) {
+      lines.splice(index + 1, 1);
     }
 
-    return found;
+    await this.write(lines.join('\n'));
+    return true;
   }
 
   /**
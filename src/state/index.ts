@@ -22,21 +22,59 @@ export {
 export {
   ImplementationPlanManager,
   createImplementationPlanManager,
+  findNextTask,
+  findReadyTasks,
+  getNextTaskId,
+  isTaskReady,
+  isTaskRemaining,
+  parsePlanTasks,
+  summarizeProgress,
+  validateTaskGraph,
+  TASK_STATUS_MARKERS,
   type ParsedTask,
   type ProgressSummary,
+  type TaskGraphValidation,
 } from './implementation-plan-manager.js';
 
 // Telemetry manager (.ralph/telemetry.json)
 export {
   TelemetryManager,
   createTelemetryManager,
+  getContextTokens,
 } from './telemetry-manager.js';
 
+// Task attempt manager (.ralph/task-attempts.json)
+export {
+  TaskAttemptManager,
+  createTaskAttemptManager,
+  DEFAULT_MAX_TASK_ATTEMPTS,
+} from './task-attempt-manager.js';
+
+// Task history manager (.ralph/task-history.json)
+export {
+  TaskHistoryManager,
+  createTaskHistoryManager,
+  extractTaskKeywords,
+  type TaskRunSample,
+} from './task-history-manager.js';
+
+// Orchestration journal (.ralph/journal.jsonl)
+export {
+  OrchestrationJournal,
+  createOrchestrationJournal,
+  replayJournal,
+  hasInterruptedWork,
+  type JournalEvent,
+  type JournalReplay,
+  type InterruptedTask,
+} from './orchestration-journal.js';
+
 // ADR manager (.agent/ADR.md)
 export {
   ADRManager,
   createADRManager,
   type ADREntry,
+  type ADRSection,
 } from './adr-manager.js';
 
 // Compiler error manager (LAST_COMPILER_ERROR.log)
@@ -46,3 +84,11 @@ export {
   type CompilerErrorEntry,
   type ParsedCompilerError,
 } from './compiler-error-manager.js';
+
+// Project configuration (kr-wiggum.config.json)
+export {
+  PROJECT_CONFIG_FILE,
+  getDefaultProjectConfig,
+  loadProjectConfig,
+  parseProjectConfig,
+} from './project-config.js';
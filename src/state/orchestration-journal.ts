@@ -0,0 +1,218 @@
+/**
+ * Orchestration journal for .ralph/journal.jsonl
+ * Append-only event log, replayed on startup to find work a crash interrupted
+ */
+import { appendFile, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { compareIds, JournalEntrySchema, type JournalEntry } from '../schemas/index.js';
+
+import { ensureDirectory } from './file-state-manager.js';
+
+const JOURNAL_FILE = 'journal.jsonl';
+const RALPH_DIR = '.ralph';
+
+/**
+ * Omit that keeps each member of a union separate
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Event to append; the journal fills in timestamp and writer PID
+ */
+export type JournalEvent = DistributiveOmit<JournalEntry, 'timestamp' | 'pid'>;
+
+/**
+ * A task that was in flight when the journal stopped
+ */
+export interface InterruptedTask {
+  taskId: string;
+  layer: number | null;
+  /** selected: no Worker yet, running: Worker never exited, finished: never checked off */
+  stage: 'selected' | 'running' | 'finished';
+  workerPid: number | null;
+  headCommit: string | null;
+  useWorktree: boolean;
+  selectedAt: string;
+}
+
+/**
+ * Result of replaying the journal
+ */
+export interface JournalReplay {
+  entryCount: number;
+  /** False when the last Orchestrator run never logged its stop */
+  cleanShutdown: boolean;
+  /** Manager that started but never exited */
+  interruptedManagerPid: number | null;
+  interruptedTasks: InterruptedTask[];
+}
+
+/**
+ * Replay journal entries in order and collect the work that never finished
+ */
+export function replayJournal(entries: JournalEntry[]): JournalReplay {
+  const tasks = new Map<string, InterruptedTask>();
+  let cleanShutdown = true;
+  let managerPid: number | null = null;
+
+  for (const entry of entries) {
+    switch (entry.type) {
+      case 'orchestrator_start':
+        cleanShutdown = false;
+        break;
+
+      case 'orchestrator_stop':
+        cleanShutdown = true;
+        break;
+
+      case 'manager_start':
+        managerPid = entry.manager_pid;
+        break;
+
+      case 'manager_exit':
+        managerPid = null;
+        break;
+
+      case 'task_selected':
+        tasks.set(entry.task_id, {
+          taskId: entry.task_id,
+          layer: entry.layer,
+          stage: 'selected',
+          workerPid: null,
+          headCommit: entry.head_commit,
+          useWorktree: entry.use_worktree,
+          selectedAt: entry.timestamp,
+        });
+        break;
+
+      case 'worker_spawn': {
+        const task = tasks.get(entry.task_id);
+        if (task !== undefined) {
+          task.stage = 'running';
+          task.workerPid = entry.worker_pid;
+        }
+        break;
+      }
+
+      case 'worker_exit': {
+        const task = tasks.get(entry.task_id);
+        // Failed attempts are already counted by the quarantine, nothing is left in flight
+        if (task !== undefined && entry.success) {
+          task.stage = 'finished';
+        } else {
+          tasks.delete(entry.task_id);
+        }
+        break;
+      }
+
+      case 'task_checked':
+        tasks.delete(entry.task_id);
+        break;
+
+      case 'work_recovered':
+        if (entry.task_id === null) {
+          managerPid = null;
+        } else {
+          tasks.delete(entry.task_id);
+        }
+        break;
+    }
+  }
+
+  return {
+    entryCount: entries.length,
+    cleanShutdown,
+    interruptedManagerPid: managerPid,
+    interruptedTasks: Array.from(tasks.values()).sort((a, b) => compareIds(a.taskId, b.taskId)),
+  };
+}
+
+/**
+ * Check if a replay found anything that needs recovering
+ */
+export function hasInterruptedWork(replay: JournalReplay): boolean {
+  return replay.interruptedTasks.length > 0 || replay.interruptedManagerPid !== null;
+}
+
+/**
+ * Orchestration journal for .ralph/journal.jsonl
+ * The Orchestrator and Manager processes append to the same file; each entry is one line.
+ */
+export class OrchestrationJournal {
+  private readonly basePath: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(basePath: string) {
+    this.basePath = basePath;
+  }
+
+  /**
+   * Get the journal file path
+   */
+  getFilePath(): string {
+    return join(this.basePath, RALPH_DIR, JOURNAL_FILE);
+  }
+
+  /**
+   * Append an event
+   * Appends from this process are written in call order.
+   */
+  async append(event: JournalEvent): Promise<void> {
+    const entry = { ...event, timestamp: new Date().toISOString(), pid: process.pid };
+    const line = `${JSON.stringify(entry)}\n`;
+
+    const write = this.pending.then(async () => {
+      await ensureDirectory(join(this.basePath, RALPH_DIR));
+      await appendFile(this.getFilePath(), line, 'utf-8');
+    });
+    this.pending = write.catch(() => undefined);
+
+    return write;
+  }
+
+  /**
+   * Read all valid entries
+   * A line torn by a crash mid-write (or otherwise invalid) is skipped.
+   */
+  async readEntries(): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.getFilePath(), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+
+      try {
+        const parsed = JournalEntrySchema.safeParse(JSON.parse(line));
+        if (parsed.success) {
+          entries.push(parsed.data);
+        }
+      } catch {
+        // Torn line
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Replay the journal to find interrupted work
+   */
+  async replay(): Promise<JournalReplay> {
+    return replayJournal(await this.readEntries());
+  }
+}
+
+/**
+ * Create an orchestration journal instance
+ */
+export function createOrchestrationJournal(basePath: string): OrchestrationJournal {
+  return new OrchestrationJournal(basePath);
+}
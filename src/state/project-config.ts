@@ -0,0 +1,70 @@
+/**
+ * Loader for kr-wiggum.config.json
+ * Read once per run and validated with ProjectConfigSchema; a project without the file gets
+ * the engine defaults
+ */
+import { isAbsolute, join } from 'node:path';
+
+import { ProjectConfigSchema, type ProjectConfig } from '../schemas/index.js';
+
+import { readFileSafe } from './file-state-manager.js';
+
+/**
+ * Configuration file looked up in the project root
+ */
+export const PROJECT_CONFIG_FILE = 'kr-wiggum.config.json';
+
+/**
+ * Engine defaults, as used when a project has no configuration file
+ */
+export function getDefaultProjectConfig(): ProjectConfig {
+  return ProjectConfigSchema.parse({});
+}
+
+/**
+ * Parse and validate configuration file content
+ * Throws with every invalid field listed, so one edit fixes them all.
+ */
+export function parseProjectConfig(content: string, source: string): ProjectConfig {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid ${source}: ${error instanceof Error ? error.message : 'not valid JSON'}`
+    );
+  }
+
+  const result = ProjectConfigSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    );
+    throw new Error(`Invalid ${source}: ${issues.join('; ')}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load the project configuration
+ * configPath is relative to basePath and defaults to kr-wiggum.config.json; only an explicitly
+ * given file has to exist.
+ */
+export async function loadProjectConfig(
+  basePath: string,
+  configPath?: string
+): Promise<ProjectConfig> {
+  const file = configPath ?? PROJECT_CONFIG_FILE;
+  const filePath = isAbsolute(file) ? file : join(basePath, file);
+  const content = await readFileSafe(filePath);
+
+  if (content === null) {
+    if (configPath !== undefined) {
+      throw new Error(`Config file not found: ${filePath}`);
+    }
+    return getDefaultProjectConfig();
+  }
+
+  return parseProjectConfig(content, file);
+}
@@ -0,0 +1,125 @@
+/**
+ * Manager for .ralph/task-attempts.json
+ * Counts failed Worker attempts per task so a poisoned task can be quarantined
+ */
+import { join } from 'node:path';
+
+import { z } from 'zod';
+
+import {
+  compareIds,
+  TaskAttemptsSchema,
+  type TaskAttemptRecord,
+  type TaskAttempts,
+} from '../schemas/index.js';
+
+import { FileStateManager } from './file-state-manager.js';
+
+const TASK_ATTEMPTS_FILE = 'task-attempts.json';
+const RALPH_DIR = '.ralph';
+
+/**
+ * Default failed attempts before a task is quarantined
+ */
+export const DEFAULT_MAX_TASK_ATTEMPTS = 3;
+
+/**
+ * Task attempt state manager for .ralph/task-attempts.json
+ */
+export class TaskAttemptManager extends FileStateManager<TaskAttempts> {
+  protected getSchema(): z.ZodSchema<TaskAttempts> {
+    return TaskAttemptsSchema as z.ZodSchema<TaskAttempts>;
+  }
+
+  protected getFilePath(): string {
+    return join(this.basePath, RALPH_DIR, TASK_ATTEMPTS_FILE);
+  }
+
+  protected getDefaultState(): TaskAttempts {
+    return {
+      tasks: {},
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get the attempt record for a task
+   */
+  async getRecord(taskId: string): Promise<TaskAttemptRecord | null> {
+    const state = await this.read();
+    return state.tasks[taskId] ?? null;
+  }
+
+  /**
+   * Get the number of failed attempts for a task
+   */
+  async getFailedAttempts(taskId: string): Promise<number> {
+    return (await this.getRecord(taskId))?.failed_attempts ?? 0;
+  }
+
+  /**
+   * Record a failed attempt and return the updated record
+   */
+  async recordFailure(taskId: string, blocker: string | null): Promise<TaskAttemptRecord> {
+    const state = await this.read();
+    const now = new Date().toISOString();
+    const existing = state.tasks[taskId];
+
+    const record: TaskAttemptRecord = {
+      task_id: taskId,
+      failed_attempts: (existing?.failed_attempts ?? 0) + 1,
+      last_blocker: blocker ?? existing?.last_blocker ?? null,
+      last_failure_at: now,
+      quarantined: existing?.quarantined ?? false,
+      quarantined_at: existing?.quarantined_at ?? null,
+    };
+
+    await this.write({
+      tasks: { ...state.tasks, [taskId]: record },
+      updated_at: now,
+    });
+
+    return record;
+  }
+
+  /**
+   * Mark a task as quarantined
+   */
+  async markQuarantined(taskId: string, blocker?: string): Promise<void> {
+    const state = await this.read();
+    const existing = state.tasks[taskId];
+    const now = new Date().toISOString();
+
+    await this.write({
+      tasks: {
+        ...state.tasks,
+        [taskId]: {
+          task_id: taskId,
+          failed_attempts: existing?.failed_attempts ?? 0,
+          last_blocker: blocker ?? existing?.last_blocker ?? null,
+          last_failure_at: existing?.last_failure_at ?? null,
+          quarantined: true,
+          quarantined_at: now,
+        },
+      },
+      updated_at: now,
+    });
+  }
+
+  /**
+   * Get all quarantined task records
+   */
+  async getQuarantined(): Promise<TaskAttemptRecord[]> {
+    const state = await this.read();
+    return Object.values(state.tasks)
+      .filter((record) => record.quarantined)
+      .sort((a, b) => compareIds(a.task_id, b.task_id));
+  }
+}
+
+/**
+ * Create a task attempt manager instance
+ */
+export function createTaskAttemptManager(basePath: string): TaskAttemptManager {
+  return new TaskAttemptManager({ basePath, createIfMissing: true });
+}
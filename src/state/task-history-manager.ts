@@ -0,0 +1,126 @@
+/**
+ * Manager for .ralph/task-history.json
+ * Records how long each task actually took, so estimates can be calibrated against history
+ */
+import { join } from 'node:path';
+
+import { z } from 'zod';
+
+import { TaskHistorySchema, type TaskHistory, type TaskRunRecord } from '../schemas/index.js';
+
+import { FileStateManager } from './file-state-manager.js';
+
+const TASK_HISTORY_FILE = 'task-history.json';
+const RALPH_DIR = '.ralph';
+
+// Words that say nothing about the kind of work a task is
+const STOP_WORDS = new Set([
+  'add',
+  'and',
+  'for',
+  'from',
+  'into',
+  'the',
+  'with',
+  'to',
+  'of',
+  'in',
+  'on',
+  'new',
+]);
+
+/**
+ * One Worker attempt at a task
+ */
+export interface TaskRunSample {
+  taskId: string;
+  title: string;
+  layer: number | null;
+  estimatedMinutes: number | null;
+  durationMs: number;
+  tokensUsed: number | null;
+  completed: boolean;
+}
+
+/**
+ * Significant lowercase words of a task title, without duplicates
+ */
+export function extractTaskKeywords(title: string): string[] {
+  const words = title
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+
+  return [...new Set(words)];
+}
+
+/**
+ * Task history state manager for .ralph/task-history.json
+ */
+export class TaskHistoryManager extends FileStateManager<TaskHistory> {
+  protected getSchema(): z.ZodSchema<TaskHistory> {
+    return TaskHistorySchema as z.ZodSchema<TaskHistory>;
+  }
+
+  protected getFilePath(): string {
+    return join(this.basePath, RALPH_DIR, TASK_HISTORY_FILE);
+  }
+
+  protected getDefaultState(): TaskHistory {
+    return {
+      tasks: {},
+      updated_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * All run records
+   */
+  async getRecords(): Promise<TaskRunRecord[]> {
+    const state = await this.read();
+    return Object.values(state.tasks);
+  }
+
+  /**
+   * Add an attempt to a task's record and return the updated record
+   * Durations and tokens accumulate, so retries are part of what a task cost.
+   */
+  async recordAttempt(sample: TaskRunSample): Promise<TaskRunRecord> {
+    const state = await this.read();
+    const now = new Date().toISOString();
+    const existing = state.tasks[sample.taskId];
+
+    const previousTokens = existing?.tokens_used ?? null;
+    const tokensUsed =
+      sample.tokensUsed === null && previousTokens === null
+        ? null
+        : (previousTokens ?? 0) + (sample.tokensUsed ?? 0);
+
+    const record: TaskRunRecord = {
+      task_id: sample.taskId,
+      layer: sample.layer,
+      keywords: extractTaskKeywords(sample.title),
+      estimated_minutes: sample.estimatedMinutes,
+      attempts: (existing?.attempts ?? 0) + 1,
+      duration_ms: (existing?.duration_ms ?? 0) + Math.max(0, sample.durationMs),
+      tokens_used: tokensUsed,
+      completed: sample.completed,
+      completed_at: sample.completed ? now : null,
+      updated_at: now,
+    };
+
+    await this.write({
+      tasks: { ...state.tasks, [sample.taskId]: record },
+      updated_at: now,
+    });
+
+    return record;
+  }
+}
+
+/**
+ * Create a task history manager instance
+ */
+export function createTaskHistoryManager(basePath: string): TaskHistoryManager {
+  return new TaskHistoryManager({ basePath, createIfMissing: true });
+}
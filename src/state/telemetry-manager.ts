@@ -13,6 +13,7 @@ import {
   type AgentType,
   type ContextZone,
   type GuardrailStatus,
+  type TokenUsage,
 } from '../schemas/index.js';
 import { ZONE_THRESHOLDS } from '../types/index.js';
 
@@ -26,6 +27,18 @@ const RALPH_DIR = '.ralph';
  */
 const DEFAULT_CONTEXT_WINDOW = 200000;
 
+/**
+ * Tokens a turn occupies in the context window: fresh input, cache reads/writes and output
+ */
+export function getContextTokens(usage: TokenUsage): number {
+  return (
+    usage.input_tokens +
+    usage.cache_creation_input_tokens +
+    usage.cache_read_input_tokens +
+    usage.output_tokens
+  );
+}
+
 /**
  * Telemetry state manager for .ralph/telemetry.json
  */
@@ -38,7 +51,7 @@ export class TelemetryManager extends FileStateManager<Telemetry> {
   }
 
   protected getSchema(): z.ZodSchema<Telemetry> {
-    return TelemetrySchema;
+    return TelemetrySchema as z.ZodSchema<Telemetry>;
   }
 
   protected getFilePath(): string {
@@ -112,23 +125,38 @@ export class TelemetryManager extends FileStateManager<Telemetry> {
 
   /**
    * Update heartbeat with token count
+   * Pass the CLI's usage breakdown when tokensUsed is real rather than estimated.
    */
-  async heartbeat(tokensUsed: number, currentTaskId?: string): Promise<Telemetry> {
-    const fillPercent = this.calculateFillPercent(tokensUsed);
+  async heartbeat(
+    tokensUsed: number,
+    currentTaskId?: string,
+    usage?: TokenUsage
+  ): Promise<Telemetry> {
+    const fillPercent = Math.min(this.calculateFillPercent(tokensUsed), 100);
     const zone = this.calculateZone(fillPercent);
     const now = new Date().toISOString();
 
     return this.update({
       tokens_used: tokensUsed,
-      tokens_remaining: this.contextWindowSize - tokensUsed,
+      tokens_remaining: Math.max(this.contextWindowSize - tokensUsed, 0),
       context_fill_percent: fillPercent,
       zone,
       current_task_id: currentTaskId,
+      token_usage: usage,
       heartbeat_at: now,
       updated_at: now,
     });
   }
 
+  /**
+   * Heartbeat from real token usage reported by the agent CLI
+   * Keeps the current task, since usage arrives mid-session.
+   */
+  async recordUsage(usage: TokenUsage): Promise<Telemetry> {
+    const current = await this.read();
+    return this.heartbeat(getContextTokens(usage), current.current_task_id, usage);
+  }
+
   /**
    * Update guardrail status
    */
@@ -28,6 +28,8 @@ export interface ManagerSession {
   currentContextFill: number;
   tasksAssigned: string[];
   tasksCompleted: string[];
+  /** Tasks whose Worker ran out of time */
+  tasksTimedOut?: string[];
   adrsCreated: string[];
   handoffFile: string | null;
 }
@@ -98,4 +100,5 @@ export interface ProcessSpawnResult {
   stdout: string;
   stderr: string;
   duration: number;
+  timedOut?: boolean;
 }
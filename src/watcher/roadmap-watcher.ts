@@ -8,13 +8,20 @@ import { join } from 'node:path';
 
 import type { Server as SocketServer } from 'socket.io';
 
+import { loadEta, type EtaEstimate } from '../services/reports/index.js';
+import { createImplementationPlanManager, summarizeProgress } from '../state/index.js';
+
 /**
  * Roadmap progress
+ * Blocked and skipped tasks are counted on their own, not as remaining.
  */
 export interface RoadmapProgress {
   total: number;
   completed: number;
   remaining: number;
+  inProgress: number;
+  blocked: number;
+  skipped: number;
   percentComplete: number;
   lastUpdated: Date;
 }
@@ -32,6 +39,8 @@ export interface RoadmapWatcherConfig {
  */
 export interface RoadmapUpdateEvent {
   progress: RoadmapProgress;
+  /** Calibrated time left; null when it could not be estimated */
+  eta: EtaEstimate | null;
   taskCompleted: boolean;
   previousCompleted: number;
 }
@@ -114,32 +123,26 @@ export class RoadmapWatcher {
    * Parse progress from markdown content
    */
   private parseProgress(content: string): RoadmapProgress {
-    const lines = content.split('\n');
-    let total = 0;
-    let completed = 0;
-
-    // Match checkbox patterns
-    const checkedRegex = /^(\s*)- \[x\] ST-\d{3}:/i;
-    const uncheckedRegex = /^(\s*)- \[ \] ST-\d{3}:/i;
-
-    for (const line of lines) {
-      if (checkedRegex.test(line)) {
-        total++;
-        completed++;
-      } else if (uncheckedRegex.test(line)) {
-        total++;
-      }
-    }
+    const planManager = createImplementationPlanManager(this.basePath);
 
     return {
-      total,
-      completed,
-      remaining: total - completed,
-      percentComplete: total > 0 ? Math.round((completed / total) * 100) : 0,
+      ...summarizeProgress(planManager.parseTasks(content)),
       lastUpdated: new Date(),
     };
   }
 
+  /**
+   * Rolling ETA for the plan content (best effort)
+   */
+  private async estimateEta(content: string): Promise<EtaEstimate | null> {
+    try {
+      const planManager = createImplementationPlanManager(this.basePath);
+      return await loadEta(this.basePath, planManager.parseTasks(content));
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Read roadmap and emit event
    */
@@ -153,6 +156,7 @@ export class RoadmapWatcher {
 
       const event: RoadmapUpdateEvent = {
         progress,
+        eta: await this.estimateEta(content),
         taskCompleted,
         previousCompleted,
       };
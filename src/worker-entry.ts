@@ -10,6 +10,8 @@
  *   - PRD_PATH: Path to PRD file (required)
  *   - CURRENT_TASK_PATH: Path to current task file (required)
  *
+ * Build, test and lint commands and the retry limit come from kr-wiggum.config.json.
+ *
  * Exit Codes:
  *   - 0: Task completed successfully
  *   - 1: Task failed after retries
@@ -21,6 +23,7 @@ import {
   createWorker,
   type WorkerResult,
 } from './services/worker/index.js';
+import { loadProjectConfig } from './state/index.js';
 import { EXIT_CODES } from './types/index.js';
 
 /**
@@ -78,6 +81,7 @@ function loadConfigFromEnv(): WorkerEnvConfig {
  */
 async function runWorker(): Promise<WorkerResult> {
   const config = loadConfigFromEnv();
+  const projectConfig = await loadProjectConfig(config.projectPath);
 
   console.error('='.repeat(50));
   console.error('[WORKER] Starting Worker process');
@@ -94,7 +98,8 @@ async function runWorker(): Promise<WorkerResult> {
     taskId: config.taskId,
     prdPath: config.prdPath,
     currentTaskPath: config.currentTaskPath,
-    maxRetries: 5,
+    maxRetries: projectConfig.limits.worker_max_retries,
+    commands: projectConfig.commands,
   });
 
   // Run the Worker lifecycle
@@ -0,0 +1,24 @@
+/**
+ * Git fixtures shared by tests that run against a throwaway repository
+ */
+import { execFileSync } from 'node:child_process';
+
+/**
+ * Run a git command in a directory and return its stdout
+ */
+export function gitSync(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' });
+}
+
+/**
+ * Turn a directory into a repository on `main` with everything in it committed
+ * Returns the hash of the initial commit.
+ */
+export function initGitRepo(cwd: string): string {
+  gitSync(cwd, 'init', '--quiet', '--initial-branch=main');
+  gitSync(cwd, 'config', 'user.name', 'Test');
+  gitSync(cwd, 'config', 'user.email', 'test@example.com');
+  gitSync(cwd, 'add', '-A');
+  gitSync(cwd, 'commit', '--quiet', '-m', 'initial');
+  return gitSync(cwd, 'rev-parse', 'HEAD').trim();
+}
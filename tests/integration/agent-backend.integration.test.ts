@@ -0,0 +1,291 @@
+/**
+ * Integration tests for agent backends
+ * Runs the orchestrator end to end against the scripted backend (no network)
+ */
+import { access, chmod, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { ProjectConfigSchema } from '../../src/schemas/index.js';
+import {
+  createOrchestrator,
+  formatBackendCommand,
+  loadScriptedBackend,
+  parseBackendCommand,
+  ScriptedBackend,
+  spawnClaude,
+  StdinCommandBackend,
+} from '../../src/services/orchestrator/index.js';
+import { EXIT_CODES } from '../../src/types/index.js';
+import { initGitRepo } from '../helpers/git.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Add greeting
+- [ ] ST-002: Add farewell
+
+## Layer 1
+
+- [ ] ST-003: Combine messages
+`;
+
+describe('Agent Backend Integration', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-backend-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('ScriptedBackend', () => {
+    it('should replay edits and exit codes for matching sessions', async () => {
+      const backend = new ScriptedBackend({
+        steps: [
+          {
+            role: 'worker',
+            taskId: 'ST-002',
+            edits: [{ path: 'src/farewell.ts', content: 'export const bye = 1;\n' }],
+            exitCode: 0,
+            stdout: '',
+            stderr: '',
+          },
+        ],
+      });
+
+      const missing = await backend.run({ role: 'worker', taskId: 'ST-001', prompt: '', cwd: testDir });
+      const result = await backend.run({ role: 'worker', taskId: 'ST-002', prompt: '', cwd: testDir });
+
+      expect(missing.exitCode).toBe(EXIT_CODES.CRASH);
+      expect(result.success).toBe(true);
+      expect(await readFile(join(testDir, 'src', 'farewell.ts'), 'utf-8')).toContain('bye');
+      expect(backend.getRemainingSteps()).toBe(0);
+    });
+
+    it('should reject invalid script files', async () => {
+      const scriptPath = join(testDir, 'script.json');
+      await writeFile(scriptPath, JSON.stringify({ steps: [{ role: 'robot' }] }), 'utf-8');
+
+      await expect(loadScriptedBackend(scriptPath)).rejects.toThrow('Invalid agent script');
+    });
+
+    it('should run the Manager loop end to end', async () => {
+      const scriptPath = join(testDir, 'script.json');
+      await writeFile(
+        scriptPath,
+        JSON.stringify({
+          steps: [
+            { role: 'manager', exitCode: EXIT_CODES.ROTATION_NEEDED },
+            {
+              role: 'manager',
+              edits: [{ path: 'DONE.md', content: 'done\n' }],
+              exitCode: EXIT_CODES.SUCCESS,
+            },
+          ],
+        }),
+        'utf-8'
+      );
+
+      const orchestrator = createOrchestrator({
+        basePath: testDir,
+        backend: await loadScriptedBackend(scriptPath),
+        retrySleepMs: 0,
+      });
+      const result = await orchestrator.run();
+
+      expect(result.success).toBe(true);
+      expect(result.state.managerRotations).toBe(1);
+      await expect(access(join(testDir, 'DONE.md'))).resolves.toBeUndefined();
+    });
+
+    it('should run Worker layers end to end', async () => {
+      await writeFile(join(testDir, '.gitignore'), 'script.json\n.ralph/\n', 'utf-8');
+      initGitRepo(testDir);
+      const worker = (taskId: string): Record<string, unknown> => ({
+        role: 'worker',
+        taskId,
+        edits: [{ path: `src/${taskId}.ts`, content: `export const id = '${taskId}';\n` }],
+        exitCode: EXIT_CODES.SUCCESS,
+      });
+      const scriptPath = join(testDir, 'script.json');
+      await writeFile(
+        scriptPath,
+        JSON.stringify({ steps: [worker('ST-001'), worker('ST-002'), worker('ST-003')] }),
+        'utf-8'
+      );
+
+      const orchestrator = createOrchestrator({
+        basePath: testDir,
+        backend: await loadScriptedBackend(scriptPath),
+        useWorktrees: true,
+        maxConcurrentWorkers: 2,
+        projectConfig: ProjectConfigSchema.parse({
+          guardrails: { typescript: false, tests: false, kr_standards: false },
+        }),
+      });
+      const result = await orchestrator.run();
+      const plan = await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8');
+      const journal = await readFile(join(testDir, '.ralph', 'journal.jsonl'), 'utf-8');
+      const selectedLayers = journal
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line) as { type: string; layer?: number })
+        .filter((event) => event.type === 'task_selected')
+        .map((event) => event.layer);
+
+      expect(result.success).toBe(true);
+      expect(result.state.managerRotations).toBe(0);
+      expect(selectedLayers).toEqual([0, 0, 1]);
+      expect(result.state.completedTaskIds).toEqual(['ST-001', 'ST-002', 'ST-003']);
+      expect(plan).not.toContain('- [ ]');
+    });
+
+    it('should refuse to run Workers side by side without worktrees', () => {
+      const backend = new ScriptedBackend({ steps: [] });
+
+      expect(() =>
+        createOrchestrator({ basePath: testDir, backend, maxConcurrentWorkers: 2 })
+      ).toThrow('Running Workers side by side needs worktrees');
+    });
+
+    it('should refuse a plan with cyclic task dependencies', async () => {
+      await writeFile(
+        join(testDir, 'IMPLEMENTATION_PLAN.md'),
+        '- [ ] ST-001: Add greeting (after: ST-002)\n- [ ] ST-002: Add farewell (after: ST-001)\n',
+        'utf-8'
+      );
+      const backend = new ScriptedBackend({ steps: [] });
+
+      const orchestrator = createOrchestrator({ basePath: testDir, backend });
+      const result = await orchestrator.run();
+
+      expect(result.success).toBe(false);
+      expect(result.reason).toBe(
+        'Invalid task dependencies: Dependency cycle: ST-001 -> ST-002 -> ST-001'
+      );
+    });
+  });
+
+  describe('Backend command lines', () => {
+    it('should quote values so they survive the trip to a background loop', () => {
+      const args = ['--model', 'my model', "it's", 'a"b', 'c\\d', ''];
+      const commandLine = formatBackendCommand('/opt/my agent/run', args);
+
+      expect(parseBackendCommand(commandLine)).toEqual(['/opt/my agent/run', ...args]);
+      expect(formatBackendCommand('my-agent', ['--fast'])).toBe('my-agent --fast');
+    });
+
+    it('should split on whitespace outside quotes', () => {
+      expect(parseBackendCommand('  agent  "two words" \'single quoted\' a\\ b ')).toEqual([
+        'agent',
+        'two words',
+        'single quoted',
+        'a b',
+      ]);
+      expect(() => parseBackendCommand('agent "open')).toThrow('Unterminated " quote');
+    });
+  });
+
+  describe('StdinCommandBackend', () => {
+    it('should pass the prompt on stdin and map exit codes', async () => {
+      const backend = new StdinCommandBackend(process.execPath, [
+        '-e',
+        "let d='';process.stdin.on('data',c=>d+=c).on('end',()=>{process.stdout.write(d.toUpperCase());process.exit(10);});",
+      ]);
+
+      const result = await backend.run({ role: 'manager', prompt: 'rotate please', cwd: testDir });
+
+      expect(result.stdout).toBe('ROTATE PLEASE');
+      expect(result.exitCode).toBe(EXIT_CODES.ROTATION_NEEDED);
+      expect(result.success).toBe(false);
+    });
+
+    it('should nudge a timed-out command with SIGINT so it can checkpoint', async () => {
+      const backend = new StdinCommandBackend(process.execPath, [
+        '-e',
+        "process.stdin.resume();process.on('SIGINT',()=>{require('fs').writeFileSync('checkpoint.txt','saved');process.exit(1);});setInterval(()=>{},1000);",
+      ]);
+
+      const result = await backend.run({
+        role: 'worker',
+        prompt: 'work',
+        cwd: testDir,
+        timeout: 1000,
+        gracePeriod: 10000,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBe(EXIT_CODES.CRASH);
+      expect(await readFile(join(testDir, 'checkpoint.txt'), 'utf-8')).toBe('saved');
+    });
+
+    it('should kill a command that ignores the nudge after the grace period', async () => {
+      const backend = new StdinCommandBackend(process.execPath, [
+        '-e',
+        "process.on('SIGINT',()=>{});setInterval(()=>{},1000);",
+      ]);
+
+      const result = await backend.run({
+        role: 'worker',
+        prompt: 'work',
+        cwd: testDir,
+        timeout: 500,
+        gracePeriod: 500,
+      });
+
+      expect(result.timedOut).toBe(true);
+      expect(result.exitCode).toBe(EXIT_CODES.CRASH);
+      expect(result.duration).toBeLessThan(10000);
+    });
+  });
+
+  describe('spawnClaude', () => {
+    it('should close stdin and nudge a timed-out session with SIGINT', async () => {
+      // Stand-in for the CLI: it only checkpoints once stdin has ended and SIGINT arrives
+      const binDir = join(testDir, 'bin');
+      await mkdir(binDir, { recursive: true });
+      await writeFile(
+        join(binDir, 'claude'),
+        `#!${process.execPath}
+const fs = require('fs');
+if (process.argv.includes('--version')) { console.log('1.0.0'); process.exit(0); }
+let stdinEnded = false;
+process.stdin.on('data', () => undefined).on('end', () => { stdinEnded = true; });
+process.on('SIGINT', () => {
+  fs.writeFileSync('checkpoint.txt', stdinEnded ? 'saved' : 'stdin still open');
+  process.exit(1);
+});
+setInterval(() => undefined, 1000);
+`,
+        'utf-8'
+      );
+      await chmod(join(binDir, 'claude'), 0o755);
+
+      const originalPath = process.env['PATH'];
+      process.env['PATH'] = `${binDir}:${originalPath ?? ''}`;
+      try {
+        const result = await spawnClaude({
+          prompt: 'work',
+          cwd: testDir,
+          timeout: 1000,
+          gracePeriod: 10000,
+        });
+
+        expect(result.timedOut).toBe(true);
+        expect(result.exitCode).toBe(EXIT_CODES.CRASH);
+        expect(result.duration).toBeLessThan(10000);
+        expect(await readFile(join(testDir, 'checkpoint.txt'), 'utf-8')).toBe('saved');
+      } finally {
+        process.env['PATH'] = originalPath;
+      }
+    });
+  });
+});
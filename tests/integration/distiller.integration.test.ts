@@ -11,6 +11,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 
 
 import {
+  distill,
   parseBrainstorm,
   analyzePatterns,
   generatePRD,
@@ -96,6 +97,30 @@ I want admins to manage all users in the system.
       expect(fileContent).toBe(prd.content);
     });
 
+    it('should keep hand-edited spec files when re-seeding', async () => {
+      const input = {
+        projectName: 'Test Project',
+        projectDescription: 'A test project for authentication',
+        brainstormContent: 'I want to login with email and password to access my account.\n',
+        basePath: testDir,
+        runPatternAnalysis: false,
+      };
+      const first = await distill(input);
+      expect(first.prd.kept).toBe(false);
+      await writeFile(first.prd.filePath, '# PRD\n\nEdited by hand\n', 'utf-8');
+      await writeFile(first.pin.filePath, '# Index\n\nEdited by hand\n', 'utf-8');
+
+      const reseeded = await distill(input);
+      expect(reseeded.prd.kept).toBe(true);
+      expect(reseeded.pin.kept).toBe(true);
+      expect(await readFile(first.prd.filePath, 'utf-8')).toContain('Edited by hand');
+      expect(await readFile(first.pin.filePath, 'utf-8')).toContain('Edited by hand');
+
+      const overwritten = await distill({ ...input, overwriteSpecs: true });
+      expect(overwritten.prd.kept).toBe(false);
+      expect(await readFile(first.prd.filePath, 'utf-8')).toBe(overwritten.prd.content);
+    });
+
     it('should breakdown PRD into atomic tasks', async () => {
       const brainstormContent = `
 ## Features
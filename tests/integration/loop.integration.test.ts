@@ -0,0 +1,307 @@
+/**
+ * Integration tests for the loop command
+ * Tests PID file tracking shared across processes
+ */
+import { access, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  getLoopPid,
+  isLoopRunning,
+  loop,
+  stopLoop,
+  type LoopResult,
+} from '../../src/commands/loop.js';
+import { writeCrisisFile } from '../../src/services/orchestrator/index.js';
+import { gitSync, initGitRepo } from '../helpers/git.js';
+
+describe('Loop Command Integration', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-loop-test-${Date.now()}`);
+    await mkdir(join(testDir, '.ralph'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('PID file tracking', () => {
+    it('should report not running without a PID file', () => {
+      expect(isLoopRunning(testDir)).toBe(false);
+      expect(getLoopPid(testDir)).toBeNull();
+    });
+
+    it('should detect a live loop from the PID file', async () => {
+      await writeFile(join(testDir, '.ralph', 'loop.pid'), String(process.pid));
+
+      expect(isLoopRunning(testDir)).toBe(true);
+      expect(getLoopPid(testDir)).toBe(process.pid);
+    });
+
+    it('should clean up a stale PID file', async () => {
+      const pidPath = join(testDir, '.ralph', 'loop.pid');
+      // PIDs this large are never allocated on Linux or macOS
+      await writeFile(pidPath, '99999999');
+
+      expect(isLoopRunning(testDir)).toBe(false);
+      await expect(access(pidPath)).rejects.toThrow();
+    });
+
+    it('should fail to stop when no loop is running', () => {
+      const result = stopLoop(testDir);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No loop');
+    });
+
+    it('should refuse to start a second loop', async () => {
+      await writeFile(join(testDir, '.ralph', 'loop.pid'), String(process.pid));
+
+      const result = await loop({ basePath: testDir, background: false });
+
+      expect(result.success).toBe(false);
+      expect(result.pid).toBe(process.pid);
+      expect(result.message).toContain('already running');
+    });
+
+    it('should start only one of two background loops launched together', async () => {
+      const scriptPath = join(testDir, '.ralph', 'script.json');
+      await writeFile(scriptPath, JSON.stringify({ steps: [] }));
+      const launch = (): Promise<LoopResult> =>
+        loop({
+          basePath: testDir,
+          maxFailures: 1,
+          retrySleepMs: 0,
+          backend: { type: 'scripted', scriptPath },
+        });
+
+      const results = await Promise.all([launch(), launch()]);
+      const started = results.filter((result) => result.success);
+
+      expect(started).toHaveLength(1);
+      expect(results.find((result) => !result.success)?.message).toContain('already running');
+
+      // The project is removed once the test ends, so let the background loop finish first
+      const deadline = Date.now() + 8000;
+      while (isLoopRunning(testDir) && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+      expect(isLoopRunning(testDir)).toBe(false);
+    });
+  });
+
+  describe('Dry run', () => {
+    it('should write prompts in task order without starting the loop', async () => {
+      await writeFile(
+        join(testDir, 'IMPLEMENTATION_PLAN.md'),
+        [
+          '# Implementation Plan',
+          '',
+          '## Layer 1',
+          '',
+          '- [ ] ST-010: Wire everything together',
+          '',
+          '## Layer 0',
+          '',
+          '- [ ] ST-003: Add farewell',
+          '- [x] ST-001: Add greeting',
+          '- [!] ST-002: Add logging',
+          '  - Blocked: Needs a decision',
+          '- [ ] ST-004: Add help',
+          '- [ ] ST-005: Add version',
+          '- [ ] ST-006: Add config',
+          '- [ ] ST-007: Add docs',
+          '',
+        ].join('\n')
+      );
+
+      const result = await loop({ basePath: testDir, background: false, dryRun: true });
+      const dryRunDir = join(testDir, '.ralph', 'dry-run');
+
+      expect(result.success).toBe(true);
+      expect(result.message).toContain('1 complete, 1 quarantined');
+      expect(result.message.indexOf('ST-007')).toBeLessThan(result.message.indexOf('ST-010'));
+
+      const workerPrompt = await readFile(join(dryRunDir, 'ST-010', 'worker-prompt.md'), 'utf-8');
+      expect(workerPrompt).toContain('ST-010');
+      expect(await readFile(join(dryRunDir, 'ST-010', 'current-task.md'), 'utf-8')).toContain(
+        '**Dependency Layer**: 1'
+      );
+      // Six tasks need a second Manager, which starts from the handoff
+      const secondManager = await readFile(join(dryRunDir, 'manager-2-prompt.md'), 'utf-8');
+      expect(secondManager).toContain('SHIFT_HANDOFF.md');
+      expect(secondManager).toContain('the next tasks are handed out in this order:\n1. ST-010\n');
+      expect(await readFile(join(dryRunDir, 'summary.md'), 'utf-8')).toContain('**Cost:** $');
+
+      expect(isLoopRunning(testDir)).toBe(false);
+      await expect(access(join(testDir, '.ralph', 'journal.jsonl'))).rejects.toThrow();
+    });
+  });
+
+  describe('Worktrees', () => {
+    it('should run each Worker in a worktree and merge its commit back', async () => {
+      await writeFile(
+        join(testDir, 'IMPLEMENTATION_PLAN.md'),
+        '# Implementation Plan\n\n## Layer 0\n\n- [ ] ST-001: Add greeting\n\n' +
+          '## Layer 1\n\n- [ ] ST-002: Add farewell (after: ST-001)\n'
+      );
+      await writeFile(
+        join(testDir, 'kr-wiggum.config.json'),
+        JSON.stringify({ guardrails: { typescript: false, tests: false, kr_standards: false } })
+      );
+      await writeFile(join(testDir, '.gitignore'), '.ralph/\n');
+      initGitRepo(testDir);
+
+      const worker = (taskId: string): Record<string, unknown> => ({
+        role: 'worker',
+        taskId,
+        edits: [{ path: `src/${taskId}.ts`, content: `export const id = '${taskId}';\n` }],
+        exitCode: 0,
+      });
+      const scriptPath = join(testDir, '.ralph', 'script.json');
+      await writeFile(scriptPath, JSON.stringify({ steps: [worker('ST-001'), worker('ST-002')] }));
+      const logs: string[] = [];
+
+      const result = await loop({
+        basePath: testDir,
+        background: false,
+        useWorktrees: true,
+        backend: { type: 'scripted', scriptPath },
+        onLog: (message) => logs.push(message),
+      });
+
+      expect(result.message).toBe('All tasks completed successfully');
+      expect(result.success).toBe(true);
+      expect(logs).not.toContain('[MANAGER] Starting initial Manager');
+      const subjects = gitSync(testDir, 'log', '--format=%s', '--no-merges').trim().split('\n');
+      expect(subjects.sort()).toEqual([
+        'ST-001: Worker changes',
+        'ST-002: Worker changes',
+        'initial',
+      ]);
+      expect(await readFile(join(testDir, 'src', 'ST-002.ts'), 'utf-8')).toContain('ST-002');
+      expect(gitSync(testDir, 'worktree', 'list').trim().split('\n')).toHaveLength(1);
+    });
+
+    it('should keep orchestration state out of the task branches', async () => {
+      const plan =
+        '# Implementation Plan\n\n## Layer 0\n\n- [ ] ST-001: Add greeting\n\n' +
+        '## Layer 1\n\n- [ ] ST-002: Add farewell (after: ST-001)\n';
+      await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), plan);
+      await writeFile(
+        join(testDir, 'kr-wiggum.config.json'),
+        JSON.stringify({ guardrails: { typescript: false, tests: false, kr_standards: false } })
+      );
+      initGitRepo(testDir);
+
+      // Workers also touch the fragment, the ADR log and the plan, none of which is ignored
+      const worker = (taskId: string): Record<string, unknown> => ({
+        role: 'worker',
+        taskId,
+        edits: [
+          { path: `src/${taskId}.ts`, content: `export const id = '${taskId}';\n` },
+          { path: '.ralph/status-fragment.json', content: `{"task_id":"${taskId}"}\n` },
+          { path: '.agent/ADR.md', content: `# ${taskId}\n` },
+          {
+            path: 'IMPLEMENTATION_PLAN.md',
+            content: plan.replace(`[ ] ${taskId}`, `[x] ${taskId}`),
+          },
+        ],
+        exitCode: 0,
+      });
+      const scriptPath = join(tmpdir(), `kr-wiggum-loop-script-${Date.now()}.json`);
+      await writeFile(scriptPath, JSON.stringify({ steps: [worker('ST-001'), worker('ST-002')] }));
+
+      try {
+        const result = await loop({
+          basePath: testDir,
+          background: false,
+          useWorktrees: true,
+          backend: { type: 'scripted', scriptPath },
+          onLog: () => undefined,
+        });
+
+        expect(result.message).toBe('All tasks completed successfully');
+        const changed = gitSync(
+          testDir,
+          'log',
+          '--no-merges',
+          '--format=',
+          '--name-only',
+          'HEAD~2..'
+        );
+        expect(changed.trim().split('\n').sort()).toEqual(['src/ST-001.ts', 'src/ST-002.ts']);
+        expect(gitSync(testDir, 'branch', '--list', 'ralph/*')).toBe('');
+      } finally {
+        await rm(scriptPath, { force: true });
+      }
+    });
+
+    it('should log why a Worker that exited 0 was not merged', async () => {
+      await writeFile(
+        join(testDir, 'IMPLEMENTATION_PLAN.md'),
+        '# Implementation Plan\n\n## Layer 0\n\n' +
+          '- [ ] ST-001: Add greeting\n- [ ] ST-002: Add farewell\n'
+      );
+      await writeFile(
+        join(testDir, 'kr-wiggum.config.json'),
+        JSON.stringify({ guardrails: { typescript: false, tests: false, kr_standards: false } })
+      );
+      await writeFile(join(testDir, '.gitignore'), '.ralph/\n');
+      initGitRepo(testDir);
+
+      // Both Workers create the same file, so whichever merges second conflicts
+      const worker = (taskId: string): Record<string, unknown> => ({
+        role: 'worker',
+        taskId,
+        edits: [{ path: 'src/shared.ts', content: `export const id = '${taskId}';\n` }],
+        exitCode: 0,
+      });
+      const scriptPath = join(testDir, '.ralph', 'script.json');
+      await writeFile(scriptPath, JSON.stringify({ steps: [worker('ST-001'), worker('ST-002')] }));
+      const logs: string[] = [];
+
+      await loop({
+        basePath: testDir,
+        background: false,
+        useWorktrees: true,
+        maxConcurrentWorkers: 2,
+        backend: { type: 'scripted', scriptPath },
+        onLog: (message) => logs.push(message),
+      });
+
+      const outcomes = logs.filter((line) =>
+        /^\[WORKER\] ST-00\d (completed|blocked|failed)/.test(line)
+      );
+      expect(outcomes).toHaveLength(2);
+      expect(outcomes.filter((line) => line.endsWith(' completed'))).toHaveLength(1);
+      expect(outcomes.find((line) => !line.endsWith(' completed'))).toMatch(
+        /^\[WORKER\] ST-00\d blocked: Merge conflict with main in src\/shared\.ts$/
+      );
+    });
+
+    it('should refuse to run Workers side by side without worktrees', async () => {
+      const result = await loop({ basePath: testDir, background: true, maxConcurrentWorkers: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Running Workers side by side needs --worktrees');
+      expect(isLoopRunning(testDir)).toBe(false);
+    });
+  });
+
+  describe('Crisis file', () => {
+    it('should write crisis reason to .ralph/crisis.json', async () => {
+      const filePath = await writeCrisisFile(testDir, '3 consecutive task failures');
+      const content = JSON.parse(await readFile(filePath, 'utf-8'));
+
+      expect(content.crisis).toBe(true);
+      expect(content.reason).toBe('3 consecutive task failures');
+      expect(content.timestamp).toBeDefined();
+    });
+  });
+});
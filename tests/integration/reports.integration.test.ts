@@ -88,6 +88,30 @@ describe('Reports Integration', () => {
       expect(result.report.tasks_completed).toEqual([]);
       expect(result.report.executive_summary).toContain('No tasks');
     });
+
+    it('should report timed-out tasks separately from failed ones', async () => {
+      const session: ManagerSession = {
+        sessionId: randomUUID(),
+        projectId: randomUUID(),
+        startedAt: new Date(),
+        contextFillAtStart: 5,
+        currentContextFill: 20,
+        tasksAssigned: ['ST-001', 'ST-002'],
+        tasksCompleted: [],
+        tasksTimedOut: ['ST-002'],
+        adrsCreated: [],
+        handoffFile: null,
+      };
+
+      const result = await generateShiftReport({
+        basePath: testDir,
+        session,
+      });
+
+      expect(result.report.tasks_failed).toEqual(['ST-001']);
+      expect(result.report.tasks_timed_out).toEqual(['ST-002']);
+      expect(result.markdown).toContain('- **Timed out:** ST-002');
+    });
   });
 
   describe('ForensicAnalyzer', () => {
@@ -0,0 +1,149 @@
+/**
+ * Integration tests for the task command
+ * Tests plan edits through the plan manager and Worker ownership
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { task } from '../../src/commands/task.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0: Infrastructure
+
+- [x] ST-001: Set up config schema
+  - Est: 20 min | Max files: 3 | Max LOC: 80
+
+- [~] ST-002: Define shared types
+  - Est: 15 min | Max files: 2 | Max LOC: 60
+
+## Layer 1: Core Services
+
+- [ ] ST-003: Build session store (after: ST-001)
+  - Store sessions in memory
+  - Est: 30 min | Max files: 4 | Max LOC: 120
+`;
+
+describe('Task Command Integration', () => {
+  let testDir: string;
+  let planPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-task-test-${Date.now()}`);
+    planPath = join(testDir, 'IMPLEMENTATION_PLAN.md');
+    await mkdir(join(testDir, '.ralph'), { recursive: true });
+    await writeFile(planPath, PLAN);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should add a task with the next ID at the end of its layer', async () => {
+    const result = await task({
+      action: 'add',
+      basePath: testDir,
+      title: 'Add login route',
+      layer: 1,
+      dependencies: ['ST-003'],
+      estimatedMinutes: 20,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.task?.id).toBe('ST-004');
+    expect(result.task?.dependencyLayer).toBe(1);
+
+    const content = await readFile(planPath, 'utf-8');
+    expect(
+      content.endsWith(
+        '- [ ] ST-004: Add login route (after: ST-003)\n  - Est: 20 min | Max files: 5 | Max LOC: 150\n'
+      )
+    ).toBe(true);
+  });
+
+  it('should reject tasks that are not atomic or name unknown prerequisites', async () => {
+    const tooLarge = await task({
+      action: 'add',
+      basePath: testDir,
+      title: 'Rewrite everything',
+      estimatedMinutes: 45,
+    });
+    const unknown = await task({
+      action: 'edit',
+      basePath: testDir,
+      taskId: 'ST-003',
+      dependencies: ['ST-099'],
+    });
+    const cycle = await task({
+      action: 'edit',
+      basePath: testDir,
+      taskId: 'ST-001',
+      dependencies: ['ST-003'],
+    });
+
+    expect(tooLarge.error).toContain('Task too large');
+    expect(unknown.error).toContain('ST-003 depends on unknown task ST-099');
+    expect(cycle.error).toContain('Dependency cycle');
+    expect(await readFile(planPath, 'utf-8')).toBe(PLAN);
+  });
+
+  it('should edit a task in place and keep its marker and description', async () => {
+    const result = await task({
+      action: 'edit',
+      basePath: testDir,
+      taskId: 'ST-003',
+      title: 'Build Redis session store',
+      maxLoc: 140,
+    });
+
+    expect(result.success).toBe(true);
+    const content = await readFile(planPath, 'utf-8');
+    expect(content).toContain(
+      '- [ ] ST-003: Build Redis session store (after: ST-001)\n' +
+        '  - Store sessions in memory\n' +
+        '  - Est: 30 min | Max files: 4 | Max LOC: 140\n'
+    );
+  });
+
+  it('should skip, block, reopen and move tasks', async () => {
+    expect((await task({ action: 'skip', basePath: testDir, taskId: 'ST-003' })).task?.status).toBe(
+      'skipped'
+    );
+    expect((await task({ action: 'skip', basePath: testDir, taskId: 'ST-001' })).error).toContain(
+      'it is completed'
+    );
+    expect((await task({ action: 'block', basePath: testDir, taskId: 'ST-003' })).error).toContain(
+      'requires a reason'
+    );
+
+    await task({ action: 'reopen', basePath: testDir, taskId: 'ST-003' });
+    await task({ action: 'block', basePath: testDir, taskId: 'ST-003', reason: 'Needs Redis' });
+    const moved = await task({ action: 'move', basePath: testDir, taskId: 'ST-003', layer: 2 });
+
+    expect(moved.task?.dependencyLayer).toBe(2);
+    expect(moved.task?.blockerReason).toBe('Needs Redis');
+
+    const shown = await task({ action: 'show', basePath: testDir, taskId: 'ST-001' });
+    expect(shown.dependents).toEqual(['ST-003']);
+  });
+
+  it('should refuse to change a task a running Worker owns', async () => {
+    await writeFile(join(testDir, '.ralph', 'loop.pid'), String(process.pid));
+
+    const owned = await task({ action: 'skip', basePath: testDir, taskId: 'ST-002' });
+    const free = await task({ action: 'skip', basePath: testDir, taskId: 'ST-003' });
+
+    expect(owned.success).toBe(false);
+    expect(owned.error).toContain('owned by a running Worker');
+    expect(free.success).toBe(true);
+
+    // Without a running loop a leftover [~] is editable
+    await rm(join(testDir, '.ralph', 'loop.pid'));
+    expect((await task({ action: 'skip', basePath: testDir, taskId: 'ST-002' })).success).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for the task and ADR identifier grammar
+ */
+import { describe, it, expect } from 'vitest';
+
+import {
+  AdrIdSchema,
+  TaskIdSchema,
+  compareIds,
+  formatId,
+  parseIdNumber,
+} from '../../src/schemas/identifier.schema.js';
+import { createImplementationPlanManager } from '../../src/state/index.js';
+
+describe('Identifier grammar', () => {
+  it('should accept three-digit, wider and namespaced task IDs', () => {
+    for (const id of ['ST-001', 'ST-1042', 'AUTH-ST-0042', 'BILLING-API-ST-007']) {
+      expect(TaskIdSchema.safeParse(id).success).toBe(true);
+    }
+  });
+
+  it('should reject malformed IDs', () => {
+    for (const id of ['ST-01', 'TASK-001', 'auth-ST-001', 'ST-001a', 'ADR-001']) {
+      expect(TaskIdSchema.safeParse(id).success).toBe(false);
+    }
+    expect(AdrIdSchema.safeParse('ADR-001').success).toBe(true);
+    expect(AdrIdSchema.safeParse('AUTH-ADR-0003').success).toBe(true);
+  });
+
+  it('should format IDs with a namespace and width', () => {
+    expect(formatId('ST', 7)).toBe('ST-007');
+    expect(formatId('ST', 1042)).toBe('ST-1042');
+    expect(formatId('ST', 42, { namespace: 'AUTH', digits: 4 })).toBe('AUTH-ST-0042');
+    expect(formatId('ADR', 3, { digits: 1 })).toBe('ADR-003');
+    expect(() => formatId('ST', 1, { namespace: 'auth' })).toThrow('Invalid identifier namespace');
+  });
+
+  it('should order IDs numerically', () => {
+    const ids = ['ST-1000', 'ST-999', 'AUTH-ST-0002', 'ST-010'];
+
+    expect([...ids].sort(compareIds)).toEqual(['AUTH-ST-0002', 'ST-010', 'ST-999', 'ST-1000']);
+    expect(parseIdNumber('AUTH-ST-0042')).toBe(42);
+  });
+
+  it('should parse wide and namespaced IDs from the plan', () => {
+    const planManager = createImplementationPlanManager('.');
+    const tasks = planManager.parseTasks(
+      '- [ ] ST-1000: Wide\n- [ ] AUTH-ST-0042: Namespaced (after: ST-999)\n- [x] ST-999: Legacy'
+    );
+
+    expect(tasks.map((t) => [t.id, t.dependencies])).toEqual([
+      ['ST-1000', []],
+      ['AUTH-ST-0042', ['ST-999']],
+      ['ST-999', []],
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the project configuration file (kr-wiggum.config.json)
+ */
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { generateWorkerPrompt } from '../../src/prompts/index.js';
+import { ProjectConfigSchema } from '../../src/schemas/project-config.schema.js';
+import { getGuardrailConfig } from '../../src/services/guardrail/index.js';
+import { getDefaultProjectConfig, loadProjectConfig } from '../../src/state/index.js';
+
+describe('Project configuration', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-config-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should fill every section with the engine defaults', () => {
+    const config = ProjectConfigSchema.parse({ commands: { test: 'pnpm vitest run' } });
+
+    expect(config.commands).toEqual({
+      build: 'npm run build',
+      test: 'pnpm vitest run',
+      lint: 'npm run lint',
+    });
+    expect(config.guardrails.coverage_threshold.lines).toBe(80);
+    expect(config.limits).toMatchObject({ max_task_attempts: 3, rotation_threshold: 60 });
+    expect(config.timeouts).toEqual({
+      worker_ms: 300000,
+      manager_ms: 600000,
+      grace_period_ms: 30000,
+    });
+    expect(config.paths).toEqual({ specs: 'specs', source: ['src'] });
+  });
+
+  it('should use the defaults when the project has no config file', async () => {
+    expect(await loadProjectConfig(testDir)).toEqual(getDefaultProjectConfig());
+    await expect(loadProjectConfig(testDir, 'missing.json')).rejects.toThrow(
+      'Config file not found'
+    );
+  });
+
+  it('should list every invalid field of a config file', async () => {
+    await writeFile(
+      join(testDir, 'kr-wiggum.config.json'),
+      JSON.stringify({ limits: { rotation_threshold: 120 }, timeouts: { worker: 5 } }),
+      'utf-8'
+    );
+
+    const error = await loadProjectConfig(testDir).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('Invalid kr-wiggum.config.json');
+    expect((error as Error).message).toContain('limits.rotation_threshold');
+    expect((error as Error).message).toContain("Unrecognized key(s) in object: 'worker'");
+  });
+
+  it('should carry commands and thresholds into the Worker prompt and guardrails', async () => {
+    await writeFile(
+      join(testDir, 'kr-wiggum.config.json'),
+      JSON.stringify({
+        commands: { build: 'make build', test: 'make test', lint: 'make lint' },
+        guardrails: { kr_standards: false, coverage_threshold: { lines: 65 } },
+      }),
+      'utf-8'
+    );
+    const config = await loadProjectConfig(testDir);
+
+    const prompt = generateWorkerPrompt({
+      taskId: 'ST-001',
+      prdPath: 'specs/PRD.md',
+      taskPath: '.ralph/current-task-ST-001.md',
+      basePath: testDir,
+      commands: config.commands,
+    });
+    expect(prompt).toContain('Run: make build');
+    expect(prompt).toContain('make lint');
+    expect(prompt).not.toContain('npm test');
+
+    const guardrails = getGuardrailConfig(config.guardrails);
+    expect(guardrails.krStandards.enabled).toBe(false);
+    expect(guardrails.krStandards.rules.length).toBeGreaterThan(0);
+    expect(guardrails.tests.coverageThreshold).toEqual({
+      lines: 65,
+      functions: 80,
+      branches: 80,
+      statements: 80,
+    });
+  });
+});
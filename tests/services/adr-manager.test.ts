@@ -0,0 +1,61 @@
+/**
+ * Tests for ADRManager
+ */
+import { mkdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { createADRManager, type ADREntry } from '../../src/state/index.js';
+
+function entry(id: string): ADREntry {
+  return {
+    id,
+    title: `Decision ${id}`,
+    decision: 'Use the shared identifier grammar',
+    rationale: 'Plans outgrow three-digit IDs and need to be namespaced by epic.',
+    keywords: ['identifiers'],
+    status: 'accepted',
+    createdBy: 'manager',
+  };
+}
+
+describe('ADRManager', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-adr-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should start at ADR-001', async () => {
+    expect(await createADRManager(testDir).getNextId()).toBe('ADR-001');
+  });
+
+  it('should continue past ADR-999 and count every ADR', async () => {
+    const adrManager = createADRManager(testDir);
+    await adrManager.append(entry('ADR-998'));
+    await adrManager.append(entry('ADR-999'));
+
+    expect(await adrManager.getNextId()).toBe('ADR-1000');
+
+    await adrManager.append(entry('ADR-1000'));
+    expect(await adrManager.getCount()).toBe(3);
+    expect(await adrManager.getLastADRIds(2)).toEqual(['ADR-999', 'ADR-1000']);
+  });
+
+  it('should number each namespace on its own', async () => {
+    const adrManager = createADRManager(testDir, { namespace: 'AUTH', digits: 4 });
+    await adrManager.append(entry('ADR-012'));
+    await adrManager.append(entry('AUTH-ADR-0003'));
+
+    expect(await adrManager.getNextId()).toBe('AUTH-ADR-0004');
+    expect(await createADRManager(testDir).getNextId()).toBe('ADR-013');
+    expect(await adrManager.searchByKeyword('identifiers')).toEqual(['ADR-012', 'AUTH-ADR-0003']);
+  });
+});
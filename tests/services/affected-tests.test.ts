@@ -0,0 +1,119 @@
+/**
+ * Tests for affected test selection in the Ralph Wiggum Loop
+ * Uses a throwaway git repository per test
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  findAffectedTests,
+  findChangedFiles,
+  parseRelativeImports,
+  runRalphWiggumLoop,
+} from '../../src/services/worker/index.js';
+import { initGitRepo } from '../helpers/git.js';
+
+describe('Affected tests', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-affected-test-${Date.now()}`);
+    await mkdir(join(testDir, 'src', 'auth'), { recursive: true });
+    await mkdir(join(testDir, 'tests'), { recursive: true });
+
+    await writeFile(join(testDir, 'src', 'auth', 'token.ts'), 'export const ttl = 60;\n', 'utf-8');
+    await writeFile(
+      join(testDir, 'src', 'auth', 'index.ts'),
+      "export { ttl } from './token.js';\n",
+      'utf-8'
+    );
+    await writeFile(join(testDir, 'src', 'billing.ts'), 'export const day = 1;\n', 'utf-8');
+    await writeFile(
+      join(testDir, 'tests', 'auth.test.ts'),
+      "import { ttl } from '../src/auth/index.js';\n",
+      'utf-8'
+    );
+    await writeFile(
+      join(testDir, 'tests', 'billing.test.ts'),
+      "import { day } from '../src/billing.js';\n",
+      'utf-8'
+    );
+
+    initGitRepo(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should parse relative imports, re-exports and requires', () => {
+    const source = [
+      "import type { A } from './a.js';",
+      "export * from '../b';",
+      "import './side-effect.js';",
+      "const c = require('./c');",
+      "import { z } from 'zod';",
+    ].join('\n');
+
+    expect(parseRelativeImports(source)).toEqual(['./a.js', '../b', './side-effect.js', './c']);
+  });
+
+  it('should select the tests that reach a changed file through other imports', async () => {
+    await writeFile(join(testDir, 'src', 'auth', 'token.ts'), 'export const ttl = 30;\n', 'utf-8');
+
+    const changed = await findChangedFiles(testDir);
+
+    expect(changed).toEqual([join('src', 'auth', 'token.ts')]);
+    expect(await findAffectedTests(testDir, changed ?? [])).toEqual([
+      join('tests', 'auth.test.ts'),
+    ]);
+  });
+
+  it('should iterate on the affected tests and run the full suite once before success', async () => {
+    await writeFile(join(testDir, 'src', 'billing.ts'), 'export const day = 2;\n', 'utf-8');
+
+    const result = await runRalphWiggumLoop({
+      basePath: testDir,
+      maxIterations: 2,
+      buildCommand: 'true',
+      lintCommand: 'true',
+      testCommand: 'echo full >> runs.log',
+      affectedTestCommand: 'echo affected >> runs.log',
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.iterationResults).toHaveLength(1);
+    expect(result.iterationResults[0]).toMatchObject({
+      testsPassed: true,
+      affectedTests: [join('tests', 'billing.test.ts')],
+    });
+    expect(result.iterationResults[0]?.affectedTestDuration).not.toBeNull();
+    expect(result.iterationResults[0]?.fullTestDuration).not.toBeNull();
+    expect(await readFile(join(testDir, 'runs.log'), 'utf-8')).toBe(
+      'affected tests/billing.test.ts\nfull\n'
+    );
+  });
+
+  it('should not reach the full suite while the affected tests fail', async () => {
+    await writeFile(join(testDir, 'src', 'billing.ts'), 'export const day = 2;\n', 'utf-8');
+
+    const result = await runRalphWiggumLoop({
+      basePath: testDir,
+      maxIterations: 2,
+      buildCommand: 'true',
+      lintCommand: 'true',
+      testCommand: 'echo full >> runs.log',
+      affectedTestCommand: 'false',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.iterationResults.map((iteration) => iteration.fullTestDuration)).toEqual([
+      null,
+      null,
+    ]);
+    await expect(readFile(join(testDir, 'runs.log'), 'utf-8')).rejects.toThrow();
+  });
+});
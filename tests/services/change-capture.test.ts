@@ -0,0 +1,148 @@
+/**
+ * Tests for ground-truth change capture in status fragments
+ * Uses a throwaway git repository per test
+ */
+import { mkdir, readFile, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { spawnWorker, type AgentBackend } from '../../src/services/orchestrator/index.js';
+import {
+  captureTaskChanges,
+  checkChangeLimits,
+  reconcileStatusFragment,
+  toFileChanges,
+  writeStatusFragment,
+} from '../../src/services/worker/index.js';
+import { gitSync, initGitRepo } from '../helpers/git.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [~] ST-001: Rework the session store
+  - Est: 20 min | Max files: 2 | Max LOC: 5
+`;
+
+describe('Change capture', () => {
+  let testDir: string;
+  let startCommit: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-capture-test-${Date.now()}`);
+    await mkdir(join(testDir, 'src'), { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+    await writeFile(join(testDir, 'src', 'session.ts'), 'export const ttl = 60;\n', 'utf-8');
+    await writeFile(join(testDir, 'src', 'legacy.ts'), 'export const old = 1;\n', 'utf-8');
+
+    startCommit = initGitRepo(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should measure created, modified and deleted files since the start commit', async () => {
+    await writeFile(join(testDir, 'src', 'store.ts'), 'export const store = new Map();\n', 'utf-8');
+    gitSync(testDir, 'add', 'src/store.ts');
+    gitSync(testDir, 'commit', '--quiet', '-m', 'add store');
+    await writeFile(join(testDir, 'src', 'session.ts'), 'export const ttl = 30;\n', 'utf-8');
+    await unlink(join(testDir, 'src', 'legacy.ts'));
+    await writeFile(join(testDir, 'src', 'cache.ts'), 'export const a = 1;\nexport const b = 2;\n');
+
+    const changes = await captureTaskChanges(testDir, startCommit);
+    const byPath = new Map(changes?.map((change) => [change.path, change]));
+
+    expect(changes).toHaveLength(4);
+    expect(byPath.get('src/store.ts')).toMatchObject({ changeType: 'created', linesAdded: 1 });
+    expect(byPath.get('src/session.ts')).toMatchObject({
+      changeType: 'modified',
+      linesAdded: 1,
+      linesRemoved: 1,
+    });
+    expect(byPath.get('src/legacy.ts')).toMatchObject({ changeType: 'deleted', linesRemoved: 1 });
+    expect(byPath.get('src/cache.ts')).toMatchObject({ changeType: 'created', linesAdded: 2 });
+
+    expect(await checkChangeLimits(testDir, 'ST-001', changes ?? [])).toEqual([
+      'Task limits exceeded: 4 files (max 2)',
+    ]);
+    expect(await checkChangeLimits(testDir, 'ST-001', (changes ?? []).slice(0, 2))).toEqual([]);
+  });
+
+  it("should replace the agent's file list with the measured one", async () => {
+    await writeFile(join(testDir, 'src', 'session.ts'), 'export const ttl = 30;\n', 'utf-8');
+    const { fragment } = await writeStatusFragment(testDir, {
+      projectId: '00000000-0000-4000-8000-000000000001',
+      sessionId: '00000000-0000-4000-8000-000000000002',
+      taskId: 'ST-001',
+      whatFixed: 'Shortened the session lifetime',
+      whatChanged: [
+        { filePath: 'src/imagined.ts', changeType: 'modified', linesAdded: 40, linesRemoved: 0 },
+      ],
+      testsPassed: true,
+      compilerPassed: true,
+      retryCount: 0,
+    });
+
+    const changes = (await captureTaskChanges(testDir, startCommit)) ?? [];
+    await reconcileStatusFragment(testDir, fragment, toFileChanges(changes), [
+      'Task limits exceeded',
+    ]);
+
+    const saved = JSON.parse(
+      await readFile(join(testDir, '.ralph', 'status-fragment.json'), 'utf-8')
+    ) as typeof fragment;
+    expect(saved.id).toBe(fragment.id);
+    expect(saved.what_changed).toEqual([
+      { file_path: 'src/session.ts', change_type: 'modified', lines_added: 1, lines_removed: 1 },
+    ]);
+    expect(saved.guardrail_violations).toEqual(['Task limits exceeded']);
+    expect(await readFile(join(testDir, '.ralph', 'status-fragment.md'), 'utf-8')).toContain(
+      '## Guardrail Violations\n\n- Task limits exceeded'
+    );
+
+    // A fragment needs at least one change, so an empty measurement keeps the agent's list
+    await reconcileStatusFragment(testDir, fragment, [], []);
+    const kept = JSON.parse(
+      await readFile(join(testDir, '.ralph', 'status-fragment.json'), 'utf-8')
+    ) as typeof fragment;
+    expect(kept.what_changed).toEqual(fragment.what_changed);
+  });
+
+  it("should count a Worker's commits but not what was uncommitted before it started", async () => {
+    await writeFile(join(testDir, 'src', 'session.ts'), 'export const ttl = 45;\n', 'utf-8');
+    const committingWorker: AgentBackend = {
+      name: 'committing',
+      run: async () => {
+        await writeFile(join(testDir, 'src', 'store.ts'), 'export const store = 1;\n', 'utf-8');
+        gitSync(testDir, 'add', 'src/store.ts');
+        gitSync(testDir, 'commit', '--quiet', '-m', 'add store');
+        await writeFile(join(testDir, 'src', 'legacy.ts'), '', 'utf-8');
+        return {
+          pid: 1,
+          exitCode: 0,
+          stdout: '',
+          stderr: '',
+          duration: 0,
+          success: true,
+          timedOut: false,
+        };
+      },
+    };
+
+    const result = await spawnWorker({
+      basePath: testDir,
+      taskId: 'ST-001',
+      prdPath: '.agent/PRD.md',
+      currentTaskPath: '.agent/tasks/ST-001.json',
+      backend: committingWorker,
+    });
+
+    expect(result.diffStats).toEqual([
+      { path: 'src/legacy.ts', changeType: 'modified', linesAdded: 0, linesRemoved: 1 },
+      { path: 'src/store.ts', changeType: 'created', linesAdded: 1, linesRemoved: 0 },
+    ]);
+  });
+});
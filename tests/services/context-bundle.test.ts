@@ -0,0 +1,134 @@
+/**
+ * Tests for relevance-ranked Worker context bundles
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  scoreRelevance,
+  writeContextBundle,
+} from '../../src/services/shift-manager/context-bundle.js';
+import { createTaskSelector } from '../../src/services/shift-manager/task-selector.js';
+import { createADRManager, parsePlanTasks } from '../../src/state/index.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Refresh expired sessions
+  - Extend the login token before the session cookie expires
+  - Est: 20 min | Max files: 3 | Max LOC: 100
+`;
+
+const PRD = `# PRD
+
+## Authentication
+
+Users log in with email and password. A session cookie keeps them logged in;
+sessions expire after one hour of inactivity.
+
+## Billing
+
+Invoices are sent monthly through the payment provider.
+`;
+
+describe('Context bundles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-context-test-${Date.now()}`);
+    await mkdir(join(testDir, 'specs'), { recursive: true });
+    await mkdir(join(testDir, 'src', 'auth'), { recursive: true });
+    await mkdir(join(testDir, 'src', 'billing'), { recursive: true });
+    await mkdir(join(testDir, 'src', 'node_modules'), { recursive: true });
+
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+    await writeFile(join(testDir, 'specs', 'PRD.md'), PRD, 'utf-8');
+    await writeFile(
+      join(testDir, 'src', 'auth', 'session.ts'),
+      'export function refreshSession(token: string): string {\n  return token;\n}\n',
+      'utf-8'
+    );
+    await writeFile(
+      join(testDir, 'src', 'billing', 'invoice.ts'),
+      'export const invoiceDay = 1;\n',
+      'utf-8'
+    );
+    await writeFile(
+      join(testDir, 'src', 'node_modules', 'session.js'),
+      'module.exports = "session";\n',
+      'utf-8'
+    );
+
+    const adrManager = createADRManager(testDir);
+    await adrManager.append({
+      id: 'ADR-001',
+      title: 'Store sessions in Redis',
+      decision: 'Session tokens live in Redis with a TTL.',
+      rationale: 'Expiry comes for free.',
+      keywords: ['session', 'redis'],
+      status: 'accepted',
+      createdBy: 'manager',
+    });
+    await adrManager.append({
+      id: 'ADR-002',
+      title: 'Use Stripe for payments',
+      decision: 'Invoices go through Stripe.',
+      rationale: 'No PCI scope.',
+      keywords: ['billing', 'stripe'],
+      status: 'accepted',
+      createdBy: 'manager',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should weigh heading matches above body matches', () => {
+    expect(scoreRelevance(['session'], 'Session store', '')).toBe(3);
+    expect(scoreRelevance(['session'], 'Store', 'session session')).toBe(2);
+    expect(scoreRelevance(['session'], 'Billing', 'invoices')).toBe(0);
+  });
+
+  it('should bundle only the ADRs, PRD sections and files that match the task', async () => {
+    const [task] = parsePlanTasks(PLAN);
+    expect(task?.description).toBe('Extend the login token before the session cookie expires');
+
+    const bundle = await writeContextBundle(task, { basePath: testDir });
+    const content = await readFile(bundle.path, 'utf-8');
+
+    expect(bundle.path).toBe(join(testDir, '.ralph', 'context', 'ST-001.md'));
+    expect(bundle.keywords).toContain('session');
+    expect(bundle.included).toEqual(
+      expect.arrayContaining(['ADR-001: Store sessions in Redis', 'Authentication'])
+    );
+    expect(bundle.included).toContain(join('src', 'auth', 'session.ts'));
+    expect(bundle.included.join('\n')).not.toMatch(/Stripe|Billing|invoice|node_modules/);
+    expect(content).toContain('## Architecture Decisions');
+    expect(content).toContain('export function refreshSession');
+    expect(content).not.toContain('Use Stripe for payments');
+  });
+
+  it('should leave out what does not fit the token budget', async () => {
+    const [task] = parsePlanTasks(PLAN);
+
+    const bundle = await writeContextBundle(task, { basePath: testDir, tokenBudget: 60 });
+    const content = await readFile(bundle.path, 'utf-8');
+
+    expect(bundle.tokens).toBeLessThanOrEqual(60);
+    expect(bundle.omitted.length).toBeGreaterThan(0);
+    expect(content).toContain('## Also Relevant (over budget)');
+  });
+
+  it('should point the Worker at the bundle instead of the whole PRD', async () => {
+    const selection = await createTaskSelector({ basePath: testDir }).selectNextTask();
+    const currentTask = await readFile(selection?.currentTaskPath ?? '', 'utf-8');
+
+    expect(selection?.contextFiles).toEqual([selection?.contextPath]);
+    expect(currentTask).toContain(`Read the context bundle at ${selection?.contextPath}`);
+  });
+});
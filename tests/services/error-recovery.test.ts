@@ -0,0 +1,217 @@
+/**
+ * Tests for ErrorRecovery failure classification and backoff
+ */
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { ProjectConfigSchema } from '../../src/schemas/index.js';
+import {
+  classifyFailure,
+  createErrorRecovery,
+  createOrchestrator,
+  type OrchestratorResult,
+  ScriptedBackend,
+  type ScriptedStep,
+} from '../../src/services/orchestrator/index.js';
+import { DEFAULT_MAX_TASK_ATTEMPTS } from '../../src/state/index.js';
+import { EXIT_CODES } from '../../src/types/index.js';
+import { initGitRepo } from '../helpers/git.js';
+
+describe('classifyFailure', () => {
+  it('should detect rate limits from stderr', () => {
+    const result = classifyFailure({
+      exitCode: EXIT_CODES.TASK_FAILED,
+      stderr: 'API Error: 429 rate_limit_error: Too many requests',
+    });
+
+    expect(result.failureClass).toBe('rate_limit');
+    expect(result.evidence).toContain('429');
+  });
+
+  it('should detect auth failures from stdout', () => {
+    const result = classifyFailure({
+      exitCode: EXIT_CODES.CRASH,
+      stdout: 'Invalid API key · Please run /login',
+    });
+
+    expect(result.failureClass).toBe('auth');
+  });
+
+  it('should ignore tool output earlier in the session transcript', () => {
+    const transcript = [
+      '{"type":"assistant","message":{"content":[{"type":"text","text":"Running the tests"}]}}',
+      '{"type":"user","message":{"content":"bash: pnpm: command not found"}}',
+      '{"type":"user","message":{"content":"GET /admin returned status 403 Unauthorized"}}',
+      ...Array.from({ length: 5 }, () => '{"type":"assistant","message":{"content":[]}}'),
+      '{"type":"result","subtype":"success","result":"Tests are still failing"}',
+    ].join('\n');
+
+    const result = classifyFailure({ exitCode: EXIT_CODES.TASK_FAILED, stdout: transcript });
+
+    expect(result.failureClass).toBe('task_failure');
+  });
+
+  it('should read the final result event of a stream-json session', () => {
+    const result = classifyFailure({
+      exitCode: EXIT_CODES.CRASH,
+      stdout: '{"type":"result","subtype":"error","result":"API Error: 429 Too many requests"}',
+    });
+
+    expect(result.failureClass).toBe('rate_limit');
+    expect(result.evidence).toBe('API Error: 429 Too many requests');
+  });
+
+  it('should treat timed out sessions as timeouts', () => {
+    expect(classifyFailure({ exitCode: EXIT_CODES.CRASH, timedOut: true }).failureClass).toBe(
+      'timeout'
+    );
+  });
+
+  it('should fall back to the exit code', () => {
+    const taskFailure = classifyFailure({
+      exitCode: EXIT_CODES.TASK_FAILED,
+      stderr: 'Tests failed: 2',
+    });
+
+    expect(taskFailure.failureClass).toBe('task_failure');
+    expect(classifyFailure({ exitCode: EXIT_CODES.CRASH }).failureClass).toBe('crash');
+  });
+});
+
+describe('ErrorRecovery', () => {
+  it('should back off exponentially on rate limits without counting task failures', () => {
+    const recovery = createErrorRecovery({ retrySleepMs: 1000, maxBackoffMs: 60000 });
+    const delays: number[] = [];
+
+    for (let i = 0; i < 4; i++) {
+      const action = recovery.processExitCode(EXIT_CODES.TASK_FAILED, 'Error: rate limit exceeded');
+      expect(action.type).toBe('retry');
+      if (action.type === 'retry') {
+        delays.push(action.sleepMs);
+      }
+    }
+
+    // 1s, 2s, 4s, 8s plus up to 25% jitter
+    delays.forEach((delay, i) => {
+      expect(delay).toBeGreaterThanOrEqual(1000 * 2 ** i);
+      expect(delay).toBeLessThanOrEqual(1250 * 2 ** i);
+    });
+    expect(recovery.getState().consecutiveFailures).toBe(0);
+    expect(recovery.getState().lastFailureClass).toBe('rate_limit');
+  });
+
+  it('should enter crisis mode immediately on auth errors', () => {
+    const recovery = createErrorRecovery();
+    const action = recovery.processExitCode(EXIT_CODES.CRASH, 'Error: 401 Unauthorized');
+
+    expect(action.type).toBe('crisis_mode');
+    expect(recovery.needsHumanIntervention()).toBe(true);
+  });
+
+  it('should retry timeouts immediately', () => {
+    const recovery = createErrorRecovery({ retrySleepMs: 5000 });
+    const action = recovery.processExitCode(EXIT_CODES.CRASH, '', { timedOut: true });
+
+    expect(action).toEqual({ type: 'retry', sleepMs: 0, failureClass: 'timeout' });
+  });
+
+  it('should escalate repeated task failures to crisis mode', () => {
+    const recovery = createErrorRecovery({ maxConsecutiveFailures: 2, retrySleepMs: 10 });
+
+    expect(recovery.processExitCode(EXIT_CODES.TASK_FAILED, 'Tests failed').type).toBe('retry');
+    expect(recovery.processExitCode(EXIT_CODES.TASK_FAILED, 'Tests failed').type).toBe(
+      'crisis_mode'
+    );
+  });
+
+  it('should keep the last failure class after a success', () => {
+    const recovery = createErrorRecovery();
+    recovery.processExitCode(EXIT_CODES.TASK_FAILED, 'overloaded_error');
+    recovery.processExitCode(EXIT_CODES.SUCCESS);
+
+    expect(recovery.getState().consecutiveTransientFailures).toBe(0);
+    expect(recovery.getState().lastFailureClass).toBe('rate_limit');
+  });
+});
+
+describe('Worktree Worker recovery', () => {
+  let testDir: string;
+
+  function failedWorker(stderr: string, exitCode: number = EXIT_CODES.TASK_FAILED): ScriptedStep {
+    return { role: 'worker', taskId: 'ST-001', edits: [], exitCode, stdout: '', stderr };
+  }
+
+  function runWorkers(
+    steps: ScriptedStep[],
+    maxConsecutiveFailures?: number
+  ): Promise<OrchestratorResult> {
+    return createOrchestrator({
+      basePath: testDir,
+      backend: new ScriptedBackend({ steps }),
+      useWorktrees: true,
+      maxConsecutiveFailures,
+      retrySleepMs: 1,
+      projectConfig: ProjectConfigSchema.parse({
+        guardrails: { typescript: false, tests: false, kr_standards: false },
+      }),
+    }).run();
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-recovery-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      join(testDir, 'IMPLEMENTATION_PLAN.md'),
+      '# Implementation Plan\n\n## Layer 0\n\n- [ ] ST-001: Add greeting\n',
+      'utf-8'
+    );
+    initGitRepo(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should back off on rate limits without spending the task attempt budget', async () => {
+    const rateLimited = Array.from({ length: DEFAULT_MAX_TASK_ATTEMPTS }, () =>
+      failedWorker('API Error: 429 rate_limit_error: Too many requests')
+    );
+
+    const result = await runWorkers([
+      ...rateLimited,
+      {
+        role: 'worker',
+        taskId: 'ST-001',
+        edits: [{ path: 'src/greeting.ts', content: 'export const greeting = "hello";\n' }],
+        exitCode: EXIT_CODES.SUCCESS,
+        stdout: '',
+        stderr: '',
+      },
+    ]);
+
+    expect(result.reason).toBe('All tasks completed successfully');
+    expect(result.state.completedTaskIds).toEqual(['ST-001']);
+    expect(result.state.blockedTaskIds).toEqual([]);
+  });
+
+  it('should enter crisis mode when a Worker cannot authenticate', async () => {
+    const result = await runWorkers([failedWorker('Error: 401 Unauthorized', EXIT_CODES.CRASH)]);
+
+    expect(result.success).toBe(false);
+    expect(result.state.inCrisisMode).toBe(true);
+    expect(result.state.failedTaskIds).toEqual(['ST-001']);
+  });
+
+  it('should enter crisis mode after maxConsecutiveFailures failed Workers', async () => {
+    const result = await runWorkers(
+      [failedWorker('Tests failed'), failedWorker('Tests failed'), failedWorker('Tests failed')],
+      2
+    );
+
+    expect(result.state.inCrisisMode).toBe(true);
+    expect(result.state.failedTaskIds).toEqual(['ST-001', 'ST-001']);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for task run history and the calibrated ETA
+ */
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { TaskRunRecord } from '../../src/schemas/index.js';
+import { ScriptedBackend, spawnWorker } from '../../src/services/orchestrator/index.js';
+import {
+  calibrateTaskEstimate,
+  estimateRemainingTime,
+  formatEta,
+  loadEta,
+} from '../../src/services/reports/eta-estimator.js';
+import {
+  createTaskHistoryManager,
+  extractTaskKeywords,
+  parsePlanTasks,
+} from '../../src/state/index.js';
+import { EXIT_CODES } from '../../src/types/index.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [x] ST-001: Add user route
+  - Est: 30 min | Max files: 3 | Max LOC: 100
+- [x] ST-002: Build cache layer
+  - Est: 30 min | Max files: 3 | Max LOC: 100
+- [ ] ST-003: Add order route
+  - Build the order endpoint
+  - Est: 20 min | Max files: 3 | Max LOC: 100
+
+## Layer 1
+
+- [ ] ST-004: Write deployment docs
+- [-] ST-005: Add metrics
+  - Est: 30 min | Max files: 3 | Max LOC: 100
+`;
+
+function record(
+  taskId: string,
+  title: string,
+  layer: number,
+  minutes: number,
+  overrides: Partial<TaskRunRecord> = {}
+): TaskRunRecord {
+  const now = new Date().toISOString();
+  return {
+    task_id: taskId,
+    layer,
+    keywords: extractTaskKeywords(title),
+    estimated_minutes: 30,
+    attempts: 1,
+    duration_ms: minutes * 60000,
+    tokens_used: null,
+    completed: true,
+    completed_at: now,
+    updated_at: now,
+    ...overrides,
+  };
+}
+
+describe('ETA estimator', () => {
+  it('should read estimates from the plan and keywords from titles', () => {
+    const tasks = parsePlanTasks(PLAN);
+
+    expect(tasks.map((t) => t.estimatedMinutes)).toEqual([30, 30, 20, null, 30]);
+    expect(extractTaskKeywords('Add the user route and user model')).toEqual([
+      'user',
+      'route',
+      'model',
+    ]);
+  });
+
+  it('should calibrate a task against similar tasks first', () => {
+    const [, , orderRoute, docs] = parsePlanTasks(PLAN);
+    const history = [
+      record('ST-001', 'Add user route', 0, 60),
+      record('ST-002', 'Build cache layer', 1, 30),
+    ];
+
+    // ST-001 shares the layer and a keyword; ST-002 shares neither and is left out
+    const calibrated = calibrateTaskEstimate(orderRoute, history);
+    expect(calibrated).toMatchObject({
+      plannedMinutes: 20,
+      calibratedMinutes: 40,
+      similarTasks: 1,
+    });
+
+    // Nothing similar: the whole history is averaged (1.5x) over the 30 minute default
+    const otherLayer = history.map((r) => ({ ...r, layer: 0 }));
+    expect(calibrateTaskEstimate(docs, otherLayer)).toMatchObject({
+      plannedMinutes: 30,
+      calibratedMinutes: 45,
+      similarTasks: 0,
+    });
+  });
+
+  it('should only count remaining tasks and band the estimate', () => {
+    const tasks = parsePlanTasks(PLAN);
+
+    const uncalibrated = estimateRemainingTime(tasks, []);
+    expect(uncalibrated).toMatchObject({
+      remainingTasks: 2,
+      estimatedHoursRemaining: 0.8,
+      lowHours: 0.4,
+      highHours: 1.7,
+      samples: 0,
+      estimatedTokensRemaining: null,
+    });
+    expect(formatEta(uncalibrated)).toContain('from plan estimates only');
+
+    const history = [15, 30, 30, 45, 90].map((minutes, i) =>
+      record(`ST-10${i}`, 'Tune things', 3, minutes, { tokens_used: 1000 * (i + 1) })
+    );
+    const calibrated = estimateRemainingTime(tasks, history);
+
+    expect(calibrated.samples).toBe(5);
+    expect(calibrated.lowHours).toBeLessThan(calibrated.estimatedHoursRemaining);
+    expect(calibrated.highHours).toBeGreaterThan(calibrated.estimatedHoursRemaining);
+    expect(calibrated.estimatedTokensRemaining).toBe(6000);
+    expect(formatEta(calibrated)).toContain('calibrated on 5 completed tasks');
+  });
+
+  describe('task history', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `kr-wiggum-eta-test-${Date.now()}`);
+      await mkdir(join(testDir, '.ralph'), { recursive: true });
+      await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should record every Worker attempt with its tokens', async () => {
+      // Cache reads are context re-read every turn and are not counted
+      const usage = {
+        input_tokens: 100,
+        output_tokens: 50,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 5000,
+      };
+      const step = { role: 'worker' as const, taskId: 'ST-003', edits: [], stdout: '', stderr: '' };
+      const backend = new ScriptedBackend({
+        steps: [
+          { ...step, exitCode: EXIT_CODES.TASK_FAILED, usage: [usage] },
+          { ...step, exitCode: EXIT_CODES.SUCCESS, usage: [usage, usage] },
+        ],
+      });
+      const config = {
+        basePath: testDir,
+        taskId: 'ST-003',
+        prdPath: 'PRD.md',
+        currentTaskPath: '.ralph/current-task.md',
+        backend,
+      };
+
+      const failed = await spawnWorker(config);
+      await spawnWorker(config);
+
+      expect(failed.tokensUsed).toBe(150);
+      const [run] = await createTaskHistoryManager(testDir).getRecords();
+      expect(run).toMatchObject({
+        task_id: 'ST-003',
+        layer: 0,
+        keywords: ['order', 'route'],
+        estimated_minutes: 20,
+        attempts: 2,
+        tokens_used: 450,
+        completed: true,
+      });
+
+      const eta = await loadEta(testDir);
+      expect(eta.samples).toBe(1);
+      expect(eta.remainingTasks).toBe(2);
+    });
+  });
+});
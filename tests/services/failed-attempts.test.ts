@@ -0,0 +1,137 @@
+/**
+ * Tests for failed Workers: rollback to the pre-Worker tree and archived attempt patches
+ */
+import { access, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  createWorkerPool,
+  ScriptedBackend,
+  spawnWorker,
+} from '../../src/services/orchestrator/index.js';
+import {
+  createTaskSelector,
+  listFailedAttemptPatches,
+} from '../../src/services/shift-manager/index.js';
+import { EXIT_CODES } from '../../src/types/index.js';
+import { gitSync, initGitRepo } from '../helpers/git.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Add greeting
+`;
+
+function failingWorker(exitCode: number): ScriptedBackend {
+  return new ScriptedBackend({
+    steps: [
+      {
+        role: 'worker',
+        taskId: 'ST-001',
+        edits: [
+          { path: 'src/app.ts', content: 'export const greeting = "hel' },
+          { path: 'src/greeting.ts', content: 'export {};\n' },
+          { path: 'README.md', content: null },
+          { path: 'notes.md', content: 'overwritten\n' },
+        ],
+        exitCode,
+        stdout: '',
+        stderr: '',
+      },
+    ],
+  });
+}
+
+describe('Failed Worker rollback', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-rollback-test-${Date.now()}`);
+    await mkdir(join(testDir, 'src'), { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+    await writeFile(join(testDir, 'README.md'), '# Project\n', 'utf-8');
+    await writeFile(join(testDir, 'src', 'app.ts'), 'export const app = 1;\n', 'utf-8');
+    initGitRepo(testDir);
+    // Uncommitted work from before the Worker must survive the rollback
+    await writeFile(join(testDir, 'notes.md'), 'mine\n', 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should archive the diff of a failed Worker and restore the tree it started from', async () => {
+    const result = await spawnWorker({
+      basePath: testDir,
+      taskId: 'ST-001',
+      prdPath: '.agent/PRD.md',
+      currentTaskPath: '.agent/tasks/ST-001.json',
+      backend: failingWorker(EXIT_CODES.TASK_FAILED),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.failedPatchPath).toBe(join('.ralph', 'failed', 'ST-001-attempt-1.patch'));
+
+    const patch = await readFile(join(testDir, result.failedPatchPath ?? ''), 'utf-8');
+    expect(patch).toContain('+export const greeting = "hel');
+    expect(patch).toContain('b/src/greeting.ts');
+    expect(patch).toContain('deleted file mode');
+    expect(patch).toContain('-mine');
+    expect(patch).not.toContain('IMPLEMENTATION_PLAN.md');
+
+    expect(await readFile(join(testDir, 'src', 'app.ts'), 'utf-8')).toBe('export const app = 1;\n');
+    expect(await readFile(join(testDir, 'README.md'), 'utf-8')).toBe('# Project\n');
+    expect(await readFile(join(testDir, 'notes.md'), 'utf-8')).toBe('mine\n');
+    await expect(access(join(testDir, 'src', 'greeting.ts'))).rejects.toThrow();
+    expect(gitSync(testDir, 'status', '--porcelain', '--', 'src', 'README.md', 'notes.md')).toBe(
+      '?? notes.md\n'
+    );
+  });
+
+  it('should quarantine instead of rolling back a Worker that shares the tree', async () => {
+    const pool = createWorkerPool(testDir, 2, failingWorker(EXIT_CODES.TASK_FAILED));
+
+    const result = await pool.spawnForTask({
+      taskId: 'ST-001',
+      prdPath: '.agent/PRD.md',
+      currentTaskPath: '.agent/tasks/ST-001.json',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.blocked).toBe(true);
+    expect(result.failedPatchPath).toBeUndefined();
+    expect(await readFile(join(testDir, 'src', 'greeting.ts'), 'utf-8')).toBe('export {};\n');
+    expect(await readFile(join(testDir, 'notes.md'), 'utf-8')).toBe('overwritten\n');
+    expect(await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8')).toContain(
+      '- [!] ST-001: Add greeting'
+    );
+  });
+
+  it('should hand the archived attempts to the next Worker', async () => {
+    for (const exitCode of [EXIT_CODES.TASK_FAILED, EXIT_CODES.CRASH]) {
+      await spawnWorker({
+        basePath: testDir,
+        taskId: 'ST-001',
+        prdPath: '.agent/PRD.md',
+        currentTaskPath: '.agent/tasks/ST-001.json',
+        backend: failingWorker(exitCode),
+      });
+    }
+
+    expect(await listFailedAttemptPatches(testDir, 'ST-001')).toEqual([
+      join('.ralph', 'failed', 'ST-001-attempt-1.patch'),
+      join('.ralph', 'failed', 'ST-001-attempt-2.patch'),
+    ]);
+
+    const selection = await createTaskSelector({ basePath: testDir }).selectNextTask();
+    const currentTask = await readFile(selection?.currentTaskPath ?? '', 'utf-8');
+    expect(currentTask).toContain('## What Was Tried Before');
+    expect(currentTask).toContain(
+      `- ${join(testDir, '.ralph', 'failed', 'ST-001-attempt-2.patch')}`
+    );
+  });
+});
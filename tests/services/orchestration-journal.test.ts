@@ -0,0 +1,198 @@
+/**
+ * Tests for the orchestration journal and interrupted work recovery
+ */
+import { appendFile, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  createOrchestrator,
+  recoverInterruptedWork,
+  ScriptedBackend,
+} from '../../src/services/orchestrator/index.js';
+import { createTaskQuarantine } from '../../src/services/shift-manager/task-quarantine.js';
+import { createOrchestrationJournal, hasInterruptedWork } from '../../src/state/index.js';
+import { EXIT_CODES } from '../../src/types/index.js';
+import { gitSync, initGitRepo } from '../helpers/git.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Add greeting
+- [ ] ST-002: Add farewell
+`;
+
+describe('OrchestrationJournal', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-journal-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Journal of a run that died with ST-001 finished but unchecked and ST-002 mid-Worker
+   */
+  async function writeCrashedRun(headCommit: string | null = null): Promise<void> {
+    const journal = createOrchestrationJournal(testDir);
+    await journal.append({ type: 'orchestrator_start' });
+    await journal.append({ type: 'manager_start', manager_pid: 999999 });
+    for (const taskId of ['ST-001', 'ST-002']) {
+      await journal.append({
+        type: 'task_selected',
+        task_id: taskId,
+        layer: 0,
+        head_commit: headCommit,
+        use_worktree: false,
+      });
+      await journal.append({ type: 'worker_spawn', task_id: taskId, worker_pid: 999998 });
+    }
+    await journal.append({
+      type: 'worker_exit',
+      task_id: 'ST-001',
+      worker_pid: 999998,
+      exit_code: EXIT_CODES.SUCCESS,
+      success: true,
+    });
+  }
+
+  describe('replay', () => {
+    it('should report nothing for a clean run', async () => {
+      const journal = createOrchestrationJournal(testDir);
+      await journal.append({ type: 'orchestrator_start' });
+      await journal.append({
+        type: 'task_selected',
+        task_id: 'ST-001',
+        layer: 0,
+        head_commit: null,
+        use_worktree: false,
+      });
+      await journal.append({
+        type: 'worker_exit',
+        task_id: 'ST-001',
+        worker_pid: 1,
+        exit_code: 0,
+        success: true,
+      });
+      await journal.append({ type: 'task_checked', task_id: 'ST-001' });
+      await journal.append({ type: 'orchestrator_stop', reason: 'done' });
+
+      const replay = await journal.replay();
+
+      expect(replay.cleanShutdown).toBe(true);
+      expect(hasInterruptedWork(replay)).toBe(false);
+    });
+
+    it('should find in-flight tasks and the interrupted Manager', async () => {
+      await writeCrashedRun();
+
+      const replay = await createOrchestrationJournal(testDir).replay();
+
+      expect(replay.cleanShutdown).toBe(false);
+      expect(replay.interruptedManagerPid).toBe(999999);
+      expect(replay.interruptedTasks.map((t) => [t.taskId, t.stage, t.workerPid])).toEqual([
+        ['ST-001', 'finished', 999998],
+        ['ST-002', 'running', 999998],
+      ]);
+    });
+
+    it('should skip a line torn by a crash', async () => {
+      await writeCrashedRun();
+      const journal = createOrchestrationJournal(testDir);
+      await appendFile(journal.getFilePath(), '{"type":"task_checked","task_', 'utf-8');
+
+      const replay = await journal.replay();
+
+      expect(replay.interruptedTasks).toHaveLength(2);
+    });
+  });
+
+  describe('recoverInterruptedWork', () => {
+    it('should check off finished tasks on resume', async () => {
+      await writeCrashedRun();
+      const journal = createOrchestrationJournal(testDir);
+
+      const recovery = await recoverInterruptedWork(await journal.replay(), 'resume', {
+        basePath: testDir,
+        journal,
+        quarantine: createTaskQuarantine(testDir),
+      });
+      const plan = await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8');
+
+      expect(recovery.checkedOff).toEqual(['ST-001']);
+      expect(plan).toContain('- [x] ST-001');
+      expect(plan).toContain('- [ ] ST-002');
+      // Resolved work is not offered again
+      expect(hasInterruptedWork(await journal.replay())).toBe(false);
+    });
+
+    it('should stash in-place changes on retry', async () => {
+      await writeCrashedRun(initGitRepo(testDir));
+      await writeFile(join(testDir, 'partial.ts'), 'export const half = true;\n', 'utf-8');
+
+      const journal = createOrchestrationJournal(testDir);
+      const recovery = await recoverInterruptedWork(await journal.replay(), 'retry', {
+        basePath: testDir,
+        journal,
+        quarantine: createTaskQuarantine(testDir),
+      });
+
+      expect(recovery.discarded).toEqual(['ST-001', 'ST-002']);
+      expect(recovery.stashMessage).toContain('ST-002');
+      expect(gitSync(testDir, 'status', '--porcelain', '--', 'partial.ts')).toBe('');
+      // The journal itself is never stashed
+      expect(await readFile(journal.getFilePath(), 'utf-8')).toContain('work_recovered');
+    });
+
+    it('should quarantine tasks on rollback', async () => {
+      await writeCrashedRun();
+      const journal = createOrchestrationJournal(testDir);
+
+      const recovery = await recoverInterruptedWork(await journal.replay(), 'rollback', {
+        basePath: testDir,
+        journal,
+        quarantine: createTaskQuarantine(testDir),
+      });
+      const plan = await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8');
+
+      expect(recovery.quarantined).toEqual(['ST-001', 'ST-002']);
+      expect(plan).toContain('- [!] ST-002');
+      expect(recovery.warnings[0]).toContain('Not a git repository');
+    });
+  });
+
+  describe('Orchestrator.run', () => {
+    it('should replay the journal and offer the interrupted work on startup', async () => {
+      await writeCrashedRun();
+      const offered: string[] = [];
+
+      const orchestrator = createOrchestrator({
+        basePath: testDir,
+        backend: new ScriptedBackend({
+          steps: [
+            { role: 'manager', edits: [], exitCode: EXIT_CODES.SUCCESS, stdout: '', stderr: '' },
+          ],
+        }),
+        onInterruptedWork: (replay) => {
+          offered.push(...replay.interruptedTasks.map((t) => t.taskId));
+          return 'resume';
+        },
+      });
+      await orchestrator.run();
+
+      const replay = await createOrchestrationJournal(testDir).replay();
+
+      expect(offered).toEqual(['ST-001', 'ST-002']);
+      expect(replay.cleanShutdown).toBe(true);
+      expect(hasInterruptedWork(replay)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for merging a regenerated breakdown into an existing plan
+ */
+import { describe, it, expect } from 'vitest';
+
+import {
+  breakdownToAtomicTasks,
+  formatPlanMergeSummary,
+  generateImplementationPlanMarkdown,
+  mergeImplementationPlan,
+  type UserStory,
+} from '../../src/services/distiller/index.js';
+import { parsePlanTasks } from '../../src/state/index.js';
+
+function story(id: string, iWant: string): UserStory {
+  return {
+    id,
+    asA: 'user',
+    iWant,
+    soThat: 'the system is complete',
+    acceptanceCriteria: ['Feature works'],
+  };
+}
+
+function breakdown(stories: UserStory[]): ReturnType<typeof breakdownToAtomicTasks>['tasks'] {
+  return breakdownToAtomicTasks({ implementationPlanId: crypto.randomUUID(), userStories: stories })
+    .tasks;
+}
+
+describe('mergeImplementationPlan', () => {
+  const original = generateImplementationPlanMarkdown(
+    breakdown([story('US-001', 'log in'), story('US-002', 'export reports')])
+  )
+    .replace('- [ ] ST-001:', '- [x] ST-001:')
+    .replace('Implement service for log in', 'Implement service for log in (OAuth only)');
+
+  it('should keep checked state, IDs and manual edits of matched tasks', () => {
+    const merge = mergeImplementationPlan(
+      original,
+      breakdown([story('US-001', 'log in'), story('US-002', 'export reports')])
+    );
+
+    expect(merge.matched.map((m) => m.id).sort()).toEqual([
+      'ST-001',
+      'ST-002',
+      'ST-003',
+      'ST-004',
+      'ST-005',
+      'ST-006',
+    ]);
+    expect(merge.added).toEqual([]);
+    expect(merge.obsolete).toEqual([]);
+    expect(merge.content).toBe(original);
+  });
+
+  it('should append new tasks with fresh IDs and flag obsolete ones', () => {
+    const merge = mergeImplementationPlan(
+      original,
+      breakdown([story('US-001', 'log in'), story('US-002', 'manage invoices')])
+    );
+    const tasks = parsePlanTasks(merge.content);
+
+    expect(merge.added.map((t) => [t.id, t.title, t.dependencies])).toEqual([
+      ['ST-007', 'Define types for manage invoices', []],
+      ['ST-008', 'Implement service for manage invoices', ['ST-007']],
+      ['ST-009', 'Write tests for manage invoices', ['ST-008']],
+    ]);
+    expect(merge.obsolete.map((t) => t.id)).toEqual(['ST-004', 'ST-005', 'ST-006']);
+    expect(tasks.find((t) => t.id === 'ST-001')?.checked).toBe(true);
+    expect(tasks.find((t) => t.id === 'ST-008')?.dependencyLayer).toBe(1);
+    expect(merge.content).toContain(
+      '- [ ] ST-004: Define types for export reports\n  - Obsolete: no longer generated'
+    );
+
+    expect(formatPlanMergeSummary(merge)).toBe(
+      [
+        'Plan merge: 3 kept (1 checked), 3 added, 3 flagged obsolete',
+        '  + ST-007: Define types for manage invoices',
+        '  + ST-008: Implement service for manage invoices',
+        '  + ST-009: Write tests for manage invoices',
+        '  ! ST-004: Define types for export reports (obsolete, review)',
+        '  ! ST-005: Implement service for export reports (obsolete, review)',
+        '  ! ST-006: Write tests for export reports (obsolete, review)',
+      ].join('\n')
+    );
+  });
+
+  it('should use the story origin to tell similar titles apart', () => {
+    const plan = generateImplementationPlanMarkdown(
+      breakdown([story('US-001', 'implement feature 1')])
+    );
+
+    const renamed = mergeImplementationPlan(
+      plan,
+      breakdown([story('US-001', 'implement feature 1 with retries')])
+    );
+    const otherStory = mergeImplementationPlan(
+      plan,
+      breakdown([story('US-002', 'implement feature 2')])
+    );
+
+    expect(renamed.matched.map((m) => m.id)).toEqual(['ST-001', 'ST-002', 'ST-003']);
+    expect(otherStory.matched).toEqual([]);
+    expect(otherStory.added.map((t) => t.id)).toEqual(['ST-004', 'ST-005', 'ST-006']);
+  });
+
+  it('should drop the obsolete flag once a task is regenerated again', () => {
+    const flagged = mergeImplementationPlan(original, breakdown([story('US-001', 'log in')]));
+    const restored = mergeImplementationPlan(
+      flagged.content,
+      breakdown([story('US-001', 'log in'), story('US-002', 'export reports')])
+    );
+
+    expect(restored.obsolete).toEqual([]);
+    expect(restored.content).not.toContain('Obsolete:');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for task selection policies
+ */
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { spawnManager, type AgentBackend } from '../../src/services/orchestrator/index.js';
+import {
+  computeCriticalPaths,
+  orderReadyTasks,
+  SELECTION_POLICIES,
+} from '../../src/services/shift-manager/selection-policy.js';
+import { createTaskSelector } from '../../src/services/shift-manager/task-selector.js';
+import { parsePlanTasks } from '../../src/state/index.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Add logger (priority: low)
+- [ ] ST-002: Add config loader
+- [ ] ST-003: Define core types (priority: high)
+- [ ] ST-004: Add metrics (priority: bogus)
+
+## Layer 1
+
+- [ ] ST-005: Build session store (after: ST-002)
+- [ ] ST-006: Build user store (after: ST-005) (priority: critical)
+- [ ] ST-007: Add login route (priority: low) (after: ST-006)
+`;
+
+const order = (policy: keyof typeof SELECTION_POLICIES, attempts?: Map<string, number>): string[] =>
+  orderReadyTasks(parsePlanTasks(PLAN), SELECTION_POLICIES[policy], attempts).map((t) => t.id);
+
+describe('Task selection policies', () => {
+  it('should parse priority tags next to prerequisites in either order', () => {
+    const tasks = parsePlanTasks(PLAN);
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+
+    expect(byId.get('ST-001')?.priority).toBe('low');
+    expect(byId.get('ST-002')?.priority).toBeNull();
+    expect(byId.get('ST-004')?.priority).toBeNull();
+    expect(byId.get('ST-004')?.title).toBe('Add metrics');
+    expect(byId.get('ST-006')).toMatchObject({ priority: 'critical', dependencies: ['ST-005'] });
+    expect(byId.get('ST-007')).toMatchObject({
+      title: 'Add login route',
+      priority: 'low',
+      dependencies: ['ST-006'],
+    });
+  });
+
+  it('should keep ID order by default and honour priority tags', () => {
+    expect(order('id')).toEqual(['ST-001', 'ST-002', 'ST-003', 'ST-004']);
+    expect(order('priority')).toEqual(['ST-003', 'ST-002', 'ST-004', 'ST-001']);
+  });
+
+  it('should put the task that unblocks the longest chain first', () => {
+    const lengths = computeCriticalPaths(parsePlanTasks(PLAN));
+
+    expect(lengths.get('ST-002')).toBe(4);
+    expect(lengths.get('ST-007')).toBe(1);
+    expect(order('critical-path')[0]).toBe('ST-002');
+  });
+
+  it('should try tasks with the fewest failed attempts first', () => {
+    const attempts = new Map([
+      ['ST-001', 2],
+      ['ST-002', 1],
+    ]);
+
+    expect(order('fewest-failures', attempts)).toEqual(['ST-003', 'ST-004', 'ST-002', 'ST-001']);
+  });
+
+  describe('TaskSelector', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `kr-wiggum-policy-test-${Date.now()}`);
+      await mkdir(join(testDir, '.ralph'), { recursive: true });
+      await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+    });
+
+    afterEach(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should select with the configured policy and never cross a layer', async () => {
+      await writeFile(
+        join(testDir, '.ralph', 'task-attempts.json'),
+        JSON.stringify({
+          tasks: {
+            'ST-003': {
+              task_id: 'ST-003',
+              failed_attempts: 2,
+              last_blocker: null,
+              last_failure_at: new Date().toISOString(),
+              quarantined: false,
+              quarantined_at: null,
+            },
+          },
+          updated_at: new Date().toISOString(),
+        }),
+        'utf-8'
+      );
+
+      const byPriority = createTaskSelector({ basePath: testDir, policy: 'priority' });
+      const byFailures = createTaskSelector({ basePath: testDir, policy: 'fewest-failures' });
+      const custom = createTaskSelector({
+        basePath: testDir,
+        policy: { name: 'reverse', compare: (a, b): number => b.id.localeCompare(a.id) },
+      });
+
+      expect((await byPriority.selectNextTask())?.task.id).toBe('ST-003');
+      expect((await byFailures.selectLayerTasks(4))?.tasks.map((t) => t.task.id)).toEqual([
+        'ST-001',
+        'ST-002',
+        'ST-004',
+        'ST-003',
+      ]);
+      expect((await custom.selectLayerTasks(10))?.tasks.map((t) => t.task.id)).toEqual([
+        'ST-004',
+        'ST-003',
+        'ST-002',
+        'ST-001',
+      ]);
+    });
+
+    it('should give the Manager its tasks in the order of the policy', async () => {
+      const prompts: string[] = [];
+      const backend: AgentBackend = {
+        name: 'capture',
+        run: async (request) => {
+          prompts.push(request.prompt);
+          return {
+            pid: 1,
+            exitCode: 0,
+            stdout: '',
+            stderr: '',
+            duration: 0,
+            success: true,
+            timedOut: false,
+          };
+        },
+      };
+
+      await spawnManager({ basePath: testDir, backend, selectionPolicy: 'priority' });
+
+      expect(prompts[0]).toContain('**Priority**');
+      expect(prompts[0]).toContain('1. ST-003\n2. ST-002\n3. ST-004\n4. ST-001\n5. ST-005');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the stream-json parser and Manager token accounting
+ */
+import { mkdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import type { TokenUsage } from '../../src/schemas/index.js';
+import {
+  createStreamJsonParser,
+  ScriptedBackend,
+  spawnManager,
+} from '../../src/services/orchestrator/index.js';
+import { createTelemetryManager } from '../../src/state/index.js';
+import { EXIT_CODES } from '../../src/types/index.js';
+
+function assistantEvent(text: string, inputTokens: number): string {
+  return JSON.stringify({
+    type: 'assistant',
+    message: {
+      content: [{ type: 'text', text }],
+      usage: {
+        input_tokens: inputTokens,
+        output_tokens: 100,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 5000,
+      },
+    },
+  });
+}
+
+describe('StreamJsonParser', () => {
+  it('should parse events split across chunks', () => {
+    const usages: TokenUsage[] = [];
+    const parser = createStreamJsonParser({ onUsage: (usage) => usages.push(usage) });
+    const stream = `${assistantEvent('Hello ', 1000)}\n${assistantEvent('world', 1500)}\n`;
+
+    parser.push(stream.slice(0, 40));
+    parser.push(stream.slice(40, 200));
+    parser.push(stream.slice(200));
+    parser.end();
+
+    expect(parser.getText()).toBe('Hello world');
+    expect(usages.map((u) => u.input_tokens)).toEqual([1000, 1500]);
+    expect(parser.getUsage()?.cache_read_input_tokens).toBe(5000);
+  });
+
+  it('should report the usage of a turn once', () => {
+    const usages: TokenUsage[] = [];
+    const parser = createStreamJsonParser({ onUsage: (usage) => usages.push(usage) });
+
+    parser.push(`${assistantEvent('a', 1000)}\n${assistantEvent('b', 1000)}\n`);
+
+    expect(usages).toHaveLength(1);
+  });
+
+  it('should prefer the final result text', () => {
+    const parser = createStreamJsonParser();
+
+    parser.push(`${assistantEvent('thinking...', 1000)}\n`);
+    parser.push(JSON.stringify({ type: 'result', result: 'Done' }));
+    parser.end();
+
+    expect(parser.getText()).toBe('Done');
+  });
+
+  it('should pass non-JSON lines through as text', () => {
+    const text: string[] = [];
+    const parser = createStreamJsonParser({ onText: (chunk) => text.push(chunk) });
+
+    parser.push('Warning: something\n');
+
+    expect(text).toEqual(['Warning: something\n']);
+    expect(parser.getUsage()).toBeNull();
+  });
+});
+
+describe('spawnManager token accounting', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-usage-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should heartbeat telemetry with the usage of each Manager turn', async () => {
+    const backend = new ScriptedBackend({
+      steps: [
+        {
+          role: 'manager',
+          edits: [],
+          exitCode: EXIT_CODES.ROTATION_NEEDED,
+          stdout: '',
+          stderr: '',
+          usage: [
+            {
+              input_tokens: 500,
+              output_tokens: 500,
+              cache_creation_input_tokens: 20000,
+              cache_read_input_tokens: 0,
+            },
+            {
+              input_tokens: 1000,
+              output_tokens: 1000,
+              cache_creation_input_tokens: 8000,
+              cache_read_input_tokens: 110000,
+            },
+          ],
+        },
+      ],
+    });
+
+    await spawnManager({ basePath: testDir, backend });
+    const telemetry = await createTelemetryManager(testDir).read();
+
+    expect(telemetry.tokens_used).toBe(120000);
+    expect(telemetry.context_fill_percent).toBe(60);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for per-task commits linked to ADRs and status fragments
+ * Uses a throwaway git repository per test
+ */
+import { appendFile, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { ProjectConfigSchema } from '../../src/schemas/index.js';
+import { createOrchestrator, ScriptedBackend } from '../../src/services/orchestrator/index.js';
+import {
+  commitCompletedTask,
+  formatTaskCommitMessage,
+} from '../../src/services/shift-manager/index.js';
+import { readStatusFragment, writeStatusFragment } from '../../src/services/worker/index.js';
+import { createADRManager, type ADREntry } from '../../src/state/index.js';
+import { gitSync, initGitRepo } from '../helpers/git.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [x] ST-014: Add login route
+`;
+
+function adrEntry(id: string): ADREntry {
+  return {
+    id,
+    title: `Task ST-014 Implementation ${id}`,
+    decision: 'Sessions are kept in signed cookies',
+    rationale: 'Cookies avoid a session store for now and can be rotated with the signing key.',
+    keywords: ['session', 'cookie'],
+    status: 'accepted',
+    createdBy: 'worker',
+  };
+}
+
+/**
+ * Workers that each add one route and report a pattern, which calls for an ADR
+ * `routes` maps task IDs to route names; ST-014 adds the login route.
+ */
+function routeWorkers(routes: Record<string, string> = { 'ST-014': 'login' }): ScriptedBackend {
+  const steps = Object.entries(routes).map(([taskId, route]) => {
+    const fragment = {
+      id: '00000000-0000-4000-8000-000000000003',
+      project_id: '00000000-0000-4000-8000-000000000001',
+      session_id: '00000000-0000-4000-8000-000000000002',
+      task_id: taskId,
+      what_fixed: `Added the ${route} route`,
+      what_changed: [
+        { file_path: `src/${route}.ts`, change_type: 'created', lines_added: 1, lines_removed: 0 },
+      ],
+      patterns_used: ['signed cookies'],
+      token_count: 50,
+      tests_passed: true,
+      compiler_passed: true,
+      retry_count: 0,
+      created_at: new Date().toISOString(),
+    };
+
+    return {
+      role: 'worker' as const,
+      taskId,
+      edits: [
+        { path: `src/${route}.ts`, content: `export const ${route} = true;\n` },
+        { path: '.ralph/status-fragment.json', content: JSON.stringify(fragment) },
+        // Orchestration state a Worker writes in its worktree never reaches the task branch
+        { path: '.agent/ADR.md', content: `# Notes from ${taskId}\n` },
+      ],
+      exitCode: 0,
+      stdout: '',
+      stderr: '',
+    };
+  });
+
+  return new ScriptedBackend({ steps });
+}
+
+describe('Task commits', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-commit-test-${Date.now()}`);
+    await mkdir(join(testDir, 'src'), { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+    await writeFile(join(testDir, 'README.md'), '# Project\n', 'utf-8');
+
+    initGitRepo(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should put the task ID, what was fixed and the ADRs in the message', () => {
+    expect(formatTaskCommitMessage('ST-014', 'Added the login route', ['ADR-003'])).toBe(
+      'ST-014: Added the login route\n\nTask: ST-014\nADRs: ADR-003\n'
+    );
+
+    const long = `Added the login route ${'with cookie sessions '.repeat(5)}`;
+    const [subject = '', , body] = formatTaskCommitMessage('ST-014', long).split('\n');
+    expect(subject).toHaveLength(72);
+    expect(subject.endsWith('...')).toBe(true);
+    expect(body).toBe(long.trim());
+  });
+
+  it('should commit the task and link the hash into its ADRs and status fragment', async () => {
+    await writeFile(join(testDir, 'src', 'login.ts'), 'export const login = true;\n', 'utf-8');
+    const adrManager = createADRManager(testDir);
+    await adrManager.append(adrEntry('ADR-001'));
+    await adrManager.append(adrEntry('ADR-002'));
+    await writeStatusFragment(testDir, {
+      projectId: '00000000-0000-4000-8000-000000000001',
+      sessionId: '00000000-0000-4000-8000-000000000002',
+      taskId: 'ST-014',
+      whatFixed: 'Added the login route',
+      whatChanged: [
+        { filePath: 'src/login.ts', changeType: 'created', linesAdded: 1, linesRemoved: 0 },
+      ],
+      testsPassed: true,
+      compilerPassed: true,
+      retryCount: 0,
+    });
+
+    const commit = await commitCompletedTask(testDir, 'ST-014', ['ADR-002']);
+
+    expect(commit?.adrIds).toEqual(['ADR-002']);
+    const hash = commit?.commitHash ?? '';
+    expect(hash).toMatch(/^[0-9a-f]{40}$/);
+    expect(gitSync(testDir, 'log', '--grep', 'ST-014', '--format=%H').trim()).toBe(hash);
+    expect(gitSync(testDir, 'log', '-1', '--format=%B')).toContain('ADRs: ADR-002');
+    expect(gitSync(testDir, 'show', '--name-only', '--format=', hash).trim()).toBe('src/login.ts');
+
+    const sections = await adrManager.getSections();
+    expect(sections.find((s) => s.id === 'ADR-002')?.markdown).toContain(
+      `- **Commit**: \`${hash}\``
+    );
+    expect(sections.find((s) => s.id === 'ADR-001')?.markdown).not.toContain('**Commit**');
+    expect((await readStatusFragment(testDir))?.commit_hash).toBe(hash);
+
+    expect(await commitCompletedTask(testDir, 'ST-014')).toBeNull();
+  });
+
+  it('should commit a task when the orchestration directories are gitignored', async () => {
+    await writeFile(join(testDir, '.gitignore'), '.ralph/\n.agent/\n', 'utf-8');
+    gitSync(testDir, 'add', '-A');
+    gitSync(testDir, 'commit', '--quiet', '-m', 'ignore state');
+    await mkdir(join(testDir, '.ralph'), { recursive: true });
+    await writeFile(join(testDir, '.ralph', 'loop.pid'), '1\n', 'utf-8');
+    await writeFile(join(testDir, 'src', 'login.ts'), 'export const login = true;\n', 'utf-8');
+
+    const commit = await commitCompletedTask(testDir, 'ST-014');
+
+    expect(
+      gitSync(testDir, 'show', '--name-only', '--format=', commit?.commitHash ?? '').trim()
+    ).toBe('src/login.ts');
+  });
+
+  it('should link the ADR of an in-place Worker to the commit the orchestrator makes', async () => {
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN.replace('[x]', '[ ]'), 'utf-8');
+    const orchestrator = createOrchestrator({ basePath: testDir, backend: routeWorkers() });
+
+    await orchestrator.runLayerBatch();
+
+    const hash = gitSync(testDir, 'log', '-1', '--format=%H').trim();
+    expect(gitSync(testDir, 'log', '-1', '--format=%B')).toContain('ADRs: ADR-001');
+    const [adr] = await createADRManager(testDir).getSections();
+    expect(adr?.markdown).toContain('Task ST-014 Implementation');
+    expect(adr?.markdown).toContain(`- **Commit**: \`${hash}\``);
+    expect((await readStatusFragment(testDir))?.commit_hash).toBe(hash);
+  });
+
+  it('should link the ADRs of worktree Workers to their commits on the task branches', async () => {
+    await writeFile(
+      join(testDir, 'IMPLEMENTATION_PLAN.md'),
+      `${PLAN.replace('[x]', '[ ]')}- [ ] ST-015: Add logout route\n`,
+      'utf-8'
+    );
+    gitSync(testDir, 'add', '-A');
+    gitSync(testDir, 'commit', '--quiet', '-m', 'plan');
+    const orchestrator = createOrchestrator({
+      basePath: testDir,
+      backend: routeWorkers({ 'ST-014': 'login', 'ST-015': 'logout' }),
+      useWorktrees: true,
+      maxConcurrentWorkers: 2,
+      projectConfig: ProjectConfigSchema.parse({
+        guardrails: { typescript: false, tests: false, kr_standards: false },
+      }),
+    });
+
+    const result = await orchestrator.run();
+
+    expect(result.success).toBe(true);
+    const sections = await createADRManager(testDir).getSections();
+    expect(sections.map((s) => s.id).sort()).toEqual(['ADR-001', 'ADR-002']);
+    for (const [taskId, route] of [
+      ['ST-014', 'login'],
+      ['ST-015', 'logout'],
+    ] as const) {
+      const hash = gitSync(testDir, 'log', '--no-merges', '--grep', taskId, '--format=%H').trim();
+      const adr = sections.find((s) => s.markdown.includes(`Task ${taskId} Implementation`));
+      expect(gitSync(testDir, 'show', '--no-patch', '--format=%B', hash)).toContain(
+        `ADRs: ${adr?.id ?? ''}`
+      );
+      expect(adr?.markdown).toContain(`- **Commit**: \`${hash}\``);
+      expect(gitSync(testDir, 'show', '--name-only', '--format=', hash).trim()).toBe(
+        `src/${route}.ts`
+      );
+    }
+    expect(await readFile(join(testDir, '.agent', 'ADR.md'), 'utf-8')).not.toContain('Notes from');
+  });
+
+  it('should not report an ADR as linked when its section has nowhere to put the commit', async () => {
+    const adrManager = createADRManager(testDir);
+    await adrManager.append(adrEntry('ADR-001'));
+    await appendFile(
+      join(testDir, '.agent', 'ADR.md'),
+      '\n## ADR-002: Written by hand\n\nSessions expire after a day.\n\n---\n',
+      'utf-8'
+    );
+    const hash = 'a'.repeat(40);
+
+    expect(await adrManager.linkCommit(['ADR-001', 'ADR-002'], hash)).toEqual(['ADR-001']);
+    const sections = await adrManager.getSections();
+    expect(sections.find((s) => s.id === 'ADR-002')?.markdown).not.toContain(hash);
+  });
+});
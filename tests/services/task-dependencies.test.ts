@@ -0,0 +1,104 @@
+/**
+ * Tests for `(after: ...)` task prerequisites in IMPLEMENTATION_PLAN.md
+ */
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { createTaskSelector } from '../../src/services/shift-manager/task-selector.js';
+import { createImplementationPlanManager, validateTaskGraph } from '../../src/state/index.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [x] ST-001: Project setup
+- [ ] ST-002: Add session store (after: ST-001)
+- [ ] ST-003: Add user model (after: ST-004)
+- [ ] ST-004: Add database client
+
+## Layer 1
+
+- [ ] ST-005: Add login route (after: ST-002, ST-003)
+`;
+
+describe('Task dependencies', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-deps-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should parse prerequisites off the title', () => {
+    const planManager = createImplementationPlanManager(testDir);
+    const tasks = planManager.parseTasks(
+      '- [ ] ST-014: Add login route (after: ST-003, ST-007)\n' +
+        '- [ ] ST-015: Add logout route (depends on: ST-014)\n' +
+        '- [ ] ST-016: Add docs (draft)'
+    );
+
+    expect(tasks.map((t) => [t.title, t.dependencies])).toEqual([
+      ['Add login route', ['ST-003', 'ST-007']],
+      ['Add logout route', ['ST-014']],
+      ['Add docs (draft)', []],
+    ]);
+  });
+
+  it('should only select tasks whose prerequisites are checked', async () => {
+    const planManager = createImplementationPlanManager(testDir);
+
+    expect((await planManager.getNextTask())?.id).toBe('ST-002');
+
+    await planManager.markTaskComplete('ST-002');
+    expect((await planManager.getNextTask())?.id).toBe('ST-004');
+
+    await planManager.markTaskComplete('ST-004');
+    expect((await planManager.getNextTask())?.id).toBe('ST-003');
+
+    await planManager.markTaskComplete('ST-003');
+    expect((await planManager.getNextTask())?.id).toBe('ST-005');
+  });
+
+  it('should leave tasks waiting on a prerequisite out of a layer batch', async () => {
+    const selector = createTaskSelector({ basePath: testDir });
+    const selection = await selector.selectLayerTasks(10);
+
+    expect(selection?.layer).toBe(0);
+    expect(selection?.tasks.map((t) => t.task.id)).toEqual(['ST-002', 'ST-004']);
+  });
+
+  it('should report unknown prerequisites and cycles', () => {
+    const planManager = createImplementationPlanManager(testDir);
+    const tasks = planManager.parseTasks(
+      '- [ ] ST-001: A (after: ST-003)\n' +
+        '- [ ] ST-002: B (after: ST-001)\n' +
+        '- [ ] ST-003: C (after: ST-002)\n' +
+        '- [ ] ST-004: D (after: ST-099)'
+    );
+
+    const validation = validateTaskGraph(tasks);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.unknownDependencies).toEqual([{ taskId: 'ST-004', dependencyId: 'ST-099' }]);
+    expect(validation.cycles).toEqual([['ST-001', 'ST-003', 'ST-002', 'ST-001']]);
+    expect(validation.issues).toEqual([
+      'ST-004 depends on unknown task ST-099',
+      'Dependency cycle: ST-001 -> ST-003 -> ST-002 -> ST-001',
+    ]);
+  });
+
+  it('should accept a plan without problems', async () => {
+    const planManager = createImplementationPlanManager(testDir);
+    const validation = await planManager.validateDependencies();
+
+    expect(validation).toEqual({ valid: true, unknownDependencies: [], cycles: [], issues: [] });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for TaskQuarantine
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { createTaskQuarantine } from '../../src/services/shift-manager/task-quarantine.js';
+import { createImplementationPlanManager } from '../../src/state/index.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Poisoned task
+- [ ] ST-002: Healthy task
+`;
+
+describe('TaskQuarantine', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-quarantine-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep a task selectable until its retry budget is spent', async () => {
+    const quarantine = createTaskQuarantine(testDir, 3);
+    const planManager = createImplementationPlanManager(testDir);
+
+    const first = await quarantine.recordFailure('ST-001', 'Tests failed');
+    await quarantine.recordFailure('ST-001', 'Tests failed');
+
+    expect(first).toMatchObject({ failedAttempts: 1, quarantined: false });
+    expect((await planManager.getNextTask())?.id).toBe('ST-001');
+  });
+
+  it('should mark the task blocked in the plan after N failures', async () => {
+    const quarantine = createTaskQuarantine(testDir, 3);
+    const planManager = createImplementationPlanManager(testDir);
+
+    let outcome = await quarantine.recordFailure('ST-001', 'Missing API credentials');
+    for (let i = 0; i < 2; i++) {
+      outcome = await quarantine.recordFailure('ST-001', 'Missing API credentials');
+    }
+
+    expect(outcome.quarantined).toBe(true);
+
+    const plan = await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8');
+    expect(plan).toContain('- [!] ST-001: Poisoned task');
+    expect(plan).toContain('  - Blocked: Missing API credentials');
+
+    expect((await planManager.getNextTask())?.id).toBe('ST-002');
+    const progress = await planManager.getProgress();
+    expect(progress.blocked).toBe(1);
+    expect(progress.remaining).toBe(1);
+  });
+
+  it('should prefer the blocker reported in the status fragment', async () => {
+    await mkdir(join(testDir, '.ralph'), { recursive: true });
+    await writeFile(
+      join(testDir, '.ralph', 'status-fragment.json'),
+      JSON.stringify({
+        id: '00000000-0000-4000-8000-000000000000',
+        task_id: 'ST-001',
+        what_fixed: 'BLOCKED: Upstream schema is undefined',
+        what_changed: [],
+        what_next: 'Ask the architect',
+        tests_passed: false,
+        created_at: new Date().toISOString(),
+      }),
+      'utf-8'
+    );
+
+    const outcome = await createTaskQuarantine(testDir, 3).recordFailure('ST-001', 'exit 1');
+
+    expect(outcome.reason).toBe('Upstream schema is undefined');
+  });
+
+  it('should list quarantined tasks as handoff blockers', async () => {
+    const quarantine = createTaskQuarantine(testDir, 1);
+    await quarantine.recordFailure('ST-001', 'Tests failed');
+
+    const blockers = await quarantine.getBlockers();
+
+    expect(blockers).toHaveLength(1);
+    expect(blockers[0].taskId).toBe('ST-001');
+    expect(blockers[0].description).toContain('Tests failed');
+  });
+});
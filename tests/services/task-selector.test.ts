@@ -0,0 +1,154 @@
+/**
+ * Tests for TaskSelector
+ */
+import { randomUUID } from 'node:crypto';
+import { access, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  breakdownToAtomicTasks,
+  generateImplementationPlanMarkdown,
+} from '../../src/services/distiller/index.js';
+import { createTaskSelector } from '../../src/services/shift-manager/task-selector.js';
+import { parsePlanTasks } from '../../src/state/index.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [x] ST-001: Project setup
+- [ ] ST-003: Add logger
+- [ ] ST-002: Add config loader
+- [ ] ST-004: Add metrics
+
+## Layer 1
+
+- [ ] ST-005: Wire services together
+`;
+
+describe('TaskSelector', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-selector-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('selectLayerTasks', () => {
+    it('should select pending tasks from the lowest layer in ID order', async () => {
+      const selector = createTaskSelector({ basePath: testDir });
+      const selection = await selector.selectLayerTasks(2);
+
+      expect(selection?.layer).toBe(0);
+      expect(selection?.tasks.map((t) => t.task.id)).toEqual(['ST-002', 'ST-003']);
+    });
+
+    it('should not cross a layer boundary', async () => {
+      const selector = createTaskSelector({ basePath: testDir });
+      const selection = await selector.selectLayerTasks(10);
+
+      expect(selection?.tasks.map((t) => t.task.id)).toEqual(['ST-002', 'ST-003', 'ST-004']);
+    });
+
+    it('should write a current task file per task', async () => {
+      const selector = createTaskSelector({ basePath: testDir });
+      const selection = await selector.selectLayerTasks(2);
+
+      for (const selected of selection?.tasks ?? []) {
+        expect(selected.currentTaskPath).toBe(
+          join(testDir, '.ralph', `current-task-${selected.task.id}.md`)
+        );
+        await expect(access(selected.currentTaskPath)).resolves.toBeUndefined();
+      }
+    });
+
+    it('should return null when all tasks are complete', async () => {
+      await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), '- [x] ST-001: Done\n', 'utf-8');
+      const selector = createTaskSelector({ basePath: testDir });
+
+      expect(await selector.selectLayerTasks(2)).toBeNull();
+    });
+  });
+
+  describe('acceptance criteria', () => {
+    it('should carry the story and its criteria from the plan into the current task file', async () => {
+      const { tasks } = breakdownToAtomicTasks({
+        implementationPlanId: randomUUID(),
+        userStories: [
+          {
+            id: 'US-001',
+            asA: 'user',
+            iWant: 'log in with email',
+            soThat: 'I can see my account',
+            acceptanceCriteria: ['Login accepts a valid password', 'Wrong passwords are rejected'],
+          },
+        ],
+      });
+      const plan = generateImplementationPlanMarkdown(tasks);
+      await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), plan, 'utf-8');
+
+      const [parsed] = parsePlanTasks(plan);
+      expect(parsed?.storyId).toBe('US-001');
+      expect(parsed?.acceptanceCriteria).toEqual([
+        'Login accepts a valid password',
+        'Wrong passwords are rejected',
+      ]);
+      expect(parsed?.description).toBe('Create TypeScript types and Zod schemas for US-001');
+
+      const selection = await createTaskSelector({ basePath: testDir }).selectNextTask();
+      const currentTask = await readFile(selection?.currentTaskPath ?? '', 'utf-8');
+
+      expect(currentTask).toContain('**User Story**: US-001');
+      expect(currentTask).toContain('## Acceptance Criteria');
+      expect(currentTask).toContain('- [ ] Wrong passwords are rejected');
+      expect(currentTask).toContain('acceptance_criteria');
+    });
+  });
+
+  describe('limits', () => {
+    it("should put the task's own file and LOC limits in the current task file", async () => {
+      const plan = `## Layer 0
+
+- [ ] ST-001: Add logger
+  - Est: 20 min | Max files: 2 | Max LOC: 80
+- [ ] ST-002: Add config loader
+`;
+      await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), plan, 'utf-8');
+
+      const selection = await createTaskSelector({ basePath: testDir }).selectLayerTasks(2);
+      const [limited, unlimited] = await Promise.all(
+        (selection?.tasks ?? []).map((selected) => readFile(selected.currentTaskPath, 'utf-8'))
+      );
+
+      expect(limited).toContain('- Maximum 2 files modified\n- Maximum 80 lines of code added');
+      expect(unlimited).toContain('- Maximum 5 files modified\n- Maximum 150 lines of code added');
+    });
+  });
+
+  describe('commands', () => {
+    it('should put the configured build and test commands in the current task file', async () => {
+      await writeFile(
+        join(testDir, 'IMPLEMENTATION_PLAN.md'),
+        '## Layer 0\n\n- [ ] ST-001: Add logger\n',
+        'utf-8'
+      );
+
+      const selection = await createTaskSelector({
+        basePath: testDir,
+        commands: { build: 'cargo build', test: 'cargo test', lint: 'cargo clippy' },
+      }).selectNextTask();
+      const currentTask = await readFile(selection?.currentTaskPath ?? '', 'utf-8');
+
+      expect(currentTask).toContain('- Build (`cargo build`)\n   - Test (`cargo test`)');
+      expect(currentTask).not.toContain('vitest');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for splitting tasks whose Worker outgrew the task's limits
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  checkTaskSize,
+  createTaskSplitter,
+} from '../../src/services/shift-manager/task-splitter.js';
+import { parsePlanTasks, validateTaskGraph } from '../../src/state/index.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Build the settings page
+  - Settings form with validation
+  - Story: US-002
+  - Accept: Settings are saved
+  - Est: 30 min | Max files: 2 | Max LOC: 100
+
+## Layer 1
+
+- [ ] ST-002: Document the settings page (after: ST-001)
+  - Est: 15 min | Max files: 1 | Max LOC: 50
+`;
+
+const OVERSIZE_CHANGES = ['a', 'b', 'c', 'd', 'e'].map((name) => ({
+  path: `src/settings/${name}.ts`,
+  linesAdded: 24,
+  linesRemoved: 3,
+}));
+
+describe('TaskSplitter', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-splitter-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should compare changed files and added lines with the task limits', () => {
+    const [task] = parsePlanTasks(PLAN);
+    if (task === undefined) {
+      throw new Error('plan has no tasks');
+    }
+
+    expect(task.maxFiles).toBe(2);
+    expect(task.maxLoc).toBe(100);
+    expect(checkTaskSize(task, OVERSIZE_CHANGES.slice(0, 2)).oversize).toBe(false);
+    expect(checkTaskSize(task, OVERSIZE_CHANGES)).toMatchObject({
+      oversize: true,
+      reason: '5 files (max 2), 120 lines added (max 100)',
+    });
+  });
+
+  it('should replace an oversize task with chained sub-tasks and log an ADR', async () => {
+    const split = await createTaskSplitter(testDir).splitIfOversize('ST-001', OVERSIZE_CHANGES);
+
+    expect(split?.subTaskIds).toEqual(['ST-003', 'ST-004', 'ST-005']);
+
+    const plan = await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8');
+    const tasks = new Map(parsePlanTasks(plan).map((task) => [task.id, task]));
+
+    expect(tasks.get('ST-001')?.status).toBe('skipped');
+    expect(tasks.get('ST-001')?.description).toBe('Settings form with validation');
+    expect(plan).toContain('  - Split: into ST-003, ST-004, ST-005 (5 files (max 2)');
+    expect(tasks.get('ST-003')?.dependencies).toEqual([]);
+    expect(tasks.get('ST-004')?.dependencies).toEqual(['ST-003']);
+    expect(tasks.get('ST-005')?.dependencies).toEqual(['ST-004']);
+    expect(tasks.get('ST-002')?.dependencies).toEqual(['ST-005']);
+    expect(tasks.get('ST-003')).toMatchObject({
+      dependencyLayer: 0,
+      storyId: 'US-002',
+      acceptanceCriteria: ['Settings are saved'],
+      maxFiles: 2,
+      maxLoc: 100,
+    });
+    expect(tasks.get('ST-003')?.description).toContain('src/settings/a.ts');
+    expect(validateTaskGraph([...tasks.values()]).valid).toBe(true);
+
+    const adr = await readFile(join(testDir, '.agent', 'ADR.md'), 'utf-8');
+    expect(adr).toContain(`## ${split?.adrId}: Split ST-001 into ST-003, ST-004, ST-005`);
+  });
+
+  it('should leave the plan alone when the changes were within the limits', async () => {
+    const split = await createTaskSplitter(testDir).splitIfOversize(
+      'ST-001',
+      OVERSIZE_CHANGES.slice(0, 1)
+    );
+
+    expect(split).toBeNull();
+    expect(await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8')).toBe(PLAN);
+  });
+});
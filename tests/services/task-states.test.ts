@@ -0,0 +1,155 @@
+/**
+ * Tests for rich checkbox states in IMPLEMENTATION_PLAN.md
+ */
+import { spawnSync } from 'node:child_process';
+import { access, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { createImplementationPlanManager } from '../../src/state/index.js';
+import { createRoadmapWatcher } from '../../src/watcher/roadmap-watcher.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [x] ST-001: Project setup
+- [~] ST-002: Add config loader
+- [!] ST-003: Add payments
+  - Blocked: Needs an API key
+- [-] ST-004: Add legacy importer
+- [ ] ST-005: Add logger
+
+## Layer 1
+
+- [ ] ST-006: Wire importer (after: ST-004)
+`;
+
+describe('Task states', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-states-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should parse every checkbox marker', () => {
+    const planManager = createImplementationPlanManager(testDir);
+    const tasks = planManager.parseTasks(PLAN);
+
+    expect(tasks.map((t) => [t.id, t.status])).toEqual([
+      ['ST-001', 'completed'],
+      ['ST-002', 'in_progress'],
+      ['ST-003', 'blocked'],
+      ['ST-004', 'skipped'],
+      ['ST-005', 'pending'],
+      ['ST-006', 'pending'],
+    ]);
+    expect(tasks[2]?.blockerReason).toBe('Needs an API key');
+  });
+
+  it('should count skipped tasks separately from progress', async () => {
+    const planManager = createImplementationPlanManager(testDir);
+
+    expect(await planManager.getProgress()).toEqual({
+      total: 6,
+      completed: 1,
+      remaining: 3,
+      inProgress: 1,
+      blocked: 1,
+      skipped: 1,
+      percentComplete: 20,
+    });
+  });
+
+  it('should keep in-progress tasks selectable and treat skipped prerequisites as done', async () => {
+    const planManager = createImplementationPlanManager(testDir);
+
+    expect((await planManager.getNextTask())?.id).toBe('ST-002');
+
+    await planManager.markTaskComplete('ST-002');
+    await planManager.markTaskComplete('ST-005');
+    expect((await planManager.getNextTask())?.id).toBe('ST-006');
+  });
+
+  it('should move a task through in progress, blocked and skipped', async () => {
+    const planManager = createImplementationPlanManager(testDir);
+    const planPath = join(testDir, 'IMPLEMENTATION_PLAN.md');
+
+    expect(await planManager.markTaskInProgress('ST-005')).toBe(true);
+    expect(await readFile(planPath, 'utf-8')).toContain('- [~] ST-005: Add logger');
+
+    expect(await planManager.markTaskPending('ST-005')).toBe(true);
+    expect(await readFile(planPath, 'utf-8')).toContain('- [ ] ST-005: Add logger');
+
+    // Only pending tasks are handed out
+    expect(await planManager.markTaskInProgress('ST-001')).toBe(false);
+
+    expect(await planManager.markTaskSkipped('ST-003')).toBe(true);
+    const plan = await readFile(planPath, 'utf-8');
+    expect(plan).toContain('- [-] ST-003: Add payments\n- [-] ST-004');
+    expect(plan).not.toContain('Needs an API key');
+  });
+
+  it('should not lose status changes made at the same time', async () => {
+    const planPath = join(testDir, 'IMPLEMENTATION_PLAN.md');
+
+    await Promise.all([
+      createImplementationPlanManager(testDir).markTaskComplete('ST-002'),
+      createImplementationPlanManager(testDir).markTaskInProgress('ST-005'),
+      createImplementationPlanManager(testDir).markTaskSkipped('ST-006'),
+    ]);
+
+    const plan = await readFile(planPath, 'utf-8');
+    expect(plan).toContain('- [x] ST-002');
+    expect(plan).toContain('- [~] ST-005');
+    expect(plan).toContain('- [-] ST-006');
+  });
+
+  it('should only write over the plan it was given', async () => {
+    const planManager = createImplementationPlanManager(testDir);
+    const before = await planManager.read();
+
+    await planManager.markTaskInProgress('ST-005');
+
+    expect(await planManager.writeIfUnchanged(before, `${before}- [ ] ST-007: Lost\n`)).toBe(false);
+    expect(await planManager.read()).not.toContain('ST-007');
+  });
+
+  it('should break a plan lock left behind by a process that died', async () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+    await mkdir(join(testDir, '.ralph'), { recursive: true });
+    await writeFile(join(testDir, '.ralph', 'plan.lock'), String(deadPid), 'utf-8');
+
+    const started = Date.now();
+    await createImplementationPlanManager(testDir).markTaskComplete('ST-005');
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(await readFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), 'utf-8')).toContain(
+      '- [x] ST-005: Add logger'
+    );
+    await expect(access(join(testDir, '.ralph', 'plan.lock'))).rejects.toThrow();
+  });
+
+  it('should report every state from the roadmap watcher', async () => {
+    const watcher = createRoadmapWatcher({ basePath: testDir });
+    const progress = await watcher.getCurrentProgress();
+
+    expect(progress).toMatchObject({
+      total: 6,
+      completed: 1,
+      remaining: 3,
+      inProgress: 1,
+      blocked: 1,
+      skipped: 1,
+      percentComplete: 20,
+    });
+  });
+});
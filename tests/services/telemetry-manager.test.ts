@@ -90,6 +90,37 @@ describe('TelemetryManager', () => {
     });
   });
 
+  describe('recordUsage', () => {
+    it('should count input, output and cache tokens as context fill', async () => {
+      await manager.setCurrentTask('ST-001');
+
+      const state = await manager.recordUsage({
+        input_tokens: 2000,
+        output_tokens: 8000,
+        cache_creation_input_tokens: 30000,
+        cache_read_input_tokens: 80000,
+      });
+
+      expect(state.tokens_used).toBe(120000);
+      expect(state.context_fill_percent).toBe(60);
+      expect(state.zone).toBe('dumb');
+      expect(state.token_usage?.cache_read_input_tokens).toBe(80000);
+      expect(state.current_task_id).toBe('ST-001');
+    });
+
+    it('should cap context fill at 100%', async () => {
+      const state = await manager.recordUsage({
+        input_tokens: 250000,
+        output_tokens: 0,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+      });
+
+      expect(state.context_fill_percent).toBe(100);
+      expect(state.tokens_remaining).toBe(0);
+    });
+  });
+
   describe('setCurrentTask', () => {
     it('should set current task ID', async () => {
       await manager.setCurrentTask('ST-001');
@@ -0,0 +1,99 @@
+/**
+ * Tests for timed-out Workers: partial diff patches and blocked checkpoints
+ */
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import {
+  createOrchestrator,
+  ScriptedBackend,
+  spawnWorker,
+} from '../../src/services/orchestrator/index.js';
+import { readStatusFragment } from '../../src/services/worker/status-fragment-writer.js';
+import { EXIT_CODES } from '../../src/types/index.js';
+import { gitSync, initGitRepo } from '../helpers/git.js';
+
+const PLAN = `# Implementation Plan
+
+## Layer 0
+
+- [ ] ST-001: Add greeting
+`;
+
+function timedOutWorker(): ScriptedBackend {
+  return new ScriptedBackend({
+    steps: [
+      {
+        role: 'worker',
+        taskId: 'ST-001',
+        edits: [
+          { path: 'src/greeting.ts', content: 'export const greeting = "hel' },
+          { path: 'README.md', content: '# Project\n\nGreets people.\n' },
+        ],
+        exitCode: EXIT_CODES.TASK_FAILED,
+        stdout: '',
+        stderr: '',
+        timedOut: true,
+      },
+    ],
+  });
+}
+
+describe('Worker timeout', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-timeout-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'IMPLEMENTATION_PLAN.md'), PLAN, 'utf-8');
+    await writeFile(join(testDir, 'README.md'), '# Project\n', 'utf-8');
+    initGitRepo(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should keep the partial diff as a patch and write a blocked fragment', async () => {
+    const result = await spawnWorker({
+      basePath: testDir,
+      taskId: 'ST-001',
+      prdPath: '.agent/PRD.md',
+      currentTaskPath: '.agent/tasks/ST-001.json',
+      backend: timedOutWorker(),
+    });
+
+    expect(result.timedOut).toBe(true);
+    expect(result.success).toBe(false);
+    expect(result.patchPath).toMatch(/^\.ralph[/\\]patches[/\\]ST-001-.*\.patch$/);
+
+    const patch = await readFile(join(testDir, result.patchPath ?? ''), 'utf-8');
+    expect(patch).toContain('+Greets people.');
+    expect(patch).toContain('b/src/greeting.ts');
+    expect(patch).not.toContain('IMPLEMENTATION_PLAN.md');
+
+    const fragment = await readStatusFragment(testDir);
+    expect(fragment?.task_id).toBe('ST-001');
+    expect(fragment?.what_fixed).toMatch(/^BLOCKED: Timed out/);
+  });
+
+  it('should save the partial diff of a worktree Worker and record the timeout', async () => {
+    const orchestrator = createOrchestrator({
+      basePath: testDir,
+      useWorktrees: true,
+      backend: timedOutWorker(),
+    });
+
+    const batch = await orchestrator.runLayerBatch();
+    const patchPath = batch?.results[0]?.patchPath ?? '';
+
+    expect(orchestrator.getState().timedOutTaskIds).toEqual(['ST-001']);
+    expect(await readFile(join(testDir, patchPath), 'utf-8')).toContain('src/greeting.ts');
+    // Nothing partial reaches the main checkout
+    expect(gitSync(testDir, 'status', '--porcelain', '--', 'src', 'README.md')).toBe('');
+    expect((await readStatusFragment(testDir))?.what_fixed).toContain(patchPath);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for WorktreeManager
+ * Uses a throwaway git repository per test
+ */
+import { access, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { createWorktreeManager, getTaskBranchName } from '../../src/services/git/index.js';
+import { gitSync, initGitRepo } from '../helpers/git.js';
+
+describe('WorktreeManager', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `kr-wiggum-worktree-test-${Date.now()}`);
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'app.ts'), 'export const value = 1;\n', 'utf-8');
+    initGitRepo(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should create a worktree on a task branch', async () => {
+    const manager = createWorktreeManager(testDir);
+    const worktree = await manager.create('ST-001');
+
+    expect(worktree.branch).toBe(getTaskBranchName('ST-001'));
+    expect(worktree.baseBranch).toBe('main');
+    expect(gitSync(worktree.path, 'rev-parse', '--abbrev-ref', 'HEAD').trim()).toBe('ralph/ST-001');
+    // Worktrees never show up as untracked files in the main tree
+    expect(gitSync(testDir, 'status', '--porcelain')).toBe('');
+
+    await manager.remove(worktree, { deleteBranch: true });
+  });
+
+  it('should merge Worker changes back into the base branch', async () => {
+    const manager = createWorktreeManager(testDir);
+    const worktree = await manager.create('ST-001');
+
+    await writeFile(join(worktree.path, 'feature.ts'), 'export const feature = true;\n', 'utf-8');
+    const commit = await manager.commit(worktree, 'ST-001: add feature');
+    const merge = await manager.merge(worktree);
+    await manager.remove(worktree, { deleteBranch: true });
+
+    expect(commit).not.toBeNull();
+    expect(merge.success).toBe(true);
+    expect(await readFile(join(testDir, 'feature.ts'), 'utf-8')).toContain('feature');
+    await expect(access(worktree.path)).rejects.toThrow();
+  });
+
+  it('should return null when the Worker changed nothing', async () => {
+    const manager = createWorktreeManager(testDir);
+    const worktree = await manager.create('ST-001');
+
+    expect(await manager.commit(worktree, 'ST-001: nothing')).toBeNull();
+
+    await manager.remove(worktree, { deleteBranch: true });
+  });
+
+  it('should abort conflicting merges without leaving conflict markers', async () => {
+    const manager = createWorktreeManager(testDir);
+    const worktree = await manager.create('ST-002');
+
+    await writeFile(join(worktree.path, 'app.ts'), 'export const value = 2;\n', 'utf-8');
+    await manager.commit(worktree, 'ST-002: change value');
+
+    await writeFile(join(testDir, 'app.ts'), 'export const value = 3;\n', 'utf-8');
+    gitSync(testDir, 'commit', '--quiet', '-am', 'concurrent change');
+
+    const merge = await manager.merge(worktree);
+    await manager.remove(worktree);
+
+    expect(merge.success).toBe(false);
+    expect(merge.conflict).toBe(true);
+    expect(merge.conflictFiles).toEqual(['app.ts']);
+    expect(await readFile(join(testDir, 'app.ts'), 'utf-8')).toBe('export const value = 3;\n');
+    expect(gitSync(testDir, 'status', '--porcelain')).toBe('');
+    // Branch is kept for manual resolution
+    expect(gitSync(testDir, 'branch', '--list', 'ralph/ST-002')).toContain('ralph/ST-002');
+  });
+});